@@ -1,107 +1,334 @@
-import { streamText, tool } from 'ai';
-import { google } from '@ai-sdk/google';
-import { z } from 'zod';
-import { LEARNING_SYSTEM_PROMPT } from '@/lib/ai/prompts';
-import { detectUncertainty, generateMCQAction, generateTFAction, generateFlashcardsAction } from '@/lib/ai/lesson-actions';
-import { processLessonMaterialsWithUpload } from '@/lib/ai/gemini-files';
-import { getCourseMaterialsByTopics } from '@/lib/supabase/materials';
-import { createServerLessonManager } from '@/lib/supabase/lessons';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { GoogleGenAI, createPartFromUri } from '@google/genai';
+import { after } from 'next/server';
+import { streamText, createDataStreamResponse, formatDataStreamPart, generateId, type DataStreamWriter, type FinishReason, type JSONValue } from 'ai';
+import { LEARNING_SYSTEM_PROMPT, ASSESSMENT_TOOLS_PROMPT, PREREQUISITES_PROMPT, RETRIEVED_PASSAGES_PROMPT, SELECTION_PROMPTS } from '@/lib/ai/prompts';
+import { createLessonTools, toGeminiFunctionDeclarations, executeLessonTool, toChatAssessment, type LessonTools, type LessonToolName, type LessonToolResult } from '@/lib/ai/lesson-tools';
+import { processLessonMaterialsWithUpload, refreshExpiringGoogleFiles, type MaterialFileData } from '@/lib/ai/gemini-files';
+import { buildRetrievalQuery, formatPassagesForPrompt, isSearchableMaterial, retrievePassages, toCitations, type RetrievedPassage } from '@/lib/ai/retrieval';
+import { citationsForText, type CitationsAnnotation } from '@/lib/ai/citations';
+import { buildGeminiContents, type HistoryMessage } from '@/lib/ai/gemini-contents';
+import { invalidateLessonContextCache, resolveLessonContextCache, type LessonContextCacheResult } from '@/lib/ai/context-cache';
+import { getCourseMaterialsByTopics, markGoogleFilesExpired } from '@/lib/supabase/materials';
+import { recordContextCacheEvent } from '@/lib/supabase/context-caches';
+import { recordLessonMaterials } from '@/lib/supabase/material-versions';
+import { checkTokenQuota, getUsageSummary, recordTokenUsage, type TokenUsage } from '@/lib/supabase/usage';
+import { getEntitlements } from '@/lib/supabase/subscriptions';
+import { createServerLessonManager, type LessonManager } from '@/lib/supabase/lessons';
+import { getCourseTopics, getTopicPrerequisites } from '@/lib/supabase/topics';
+import { getCourseAssessmentAttempts, toMasteryAttempts } from '@/lib/supabase/assessment-attempts';
+import { selectDifficulty, type DifficultySelection } from '@/lib/learning/adaptive-difficulty';
+import type { Difficulty, MasteryAttempt } from '@/lib/learning/mastery';
+import type { ChatMessage, MaterialSelection, MessageCitation, SelectionAction } from '@/lib/types';
+import { getGoogleGenAI, getLanguageModel, getModelConfigError, getModelConfigForTier, type ModelConfig } from '@/lib/ai/providers';
+import { FinishReason as GeminiFinishReason, FunctionCallingConfigMode, type Content } from '@google/genai';
 
 export const runtime = 'edge';
 
 // Request deduplication map - using lesson ID as primary key
 const requestMap = new Map<string, { timestamp: number; promise: Promise<Response>; processing: boolean }>();
 
-interface Message {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
+type Message = HistoryMessage;
+
+// Longest highlighted passage passed on to the model
+const MAX_SELECTION_CHARS = 4000;
+
+// Viewer actions that go straight to an assessment tool instead of letting the tutor choose
+const SELECTION_TOOLS: Partial<Record<SelectionAction, LessonToolName>> = {
+  quiz: 'generateMCQ',
+  flashcards: 'generateFlashcards'
+};
+
+// Validate the highlighted passage sent by the material viewer
+function parseSelection(value: unknown): MaterialSelection | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const selection = value as Partial<MaterialSelection>;
+
+  if (!selection.action || !(selection.action in SELECTION_PROMPTS)) return undefined;
+  if (typeof selection.materialId !== 'string' || typeof selection.text !== 'string' || !selection.text.trim()) return undefined;
+
+  return {
+    action: selection.action,
+    materialId: selection.materialId,
+    materialName: typeof selection.materialName === 'string' ? selection.materialName : 'course material',
+    pageNumber: typeof selection.pageNumber === 'number' ? selection.pageNumber : null,
+    text: selection.text.trim().slice(0, MAX_SELECTION_CHARS)
+  };
+}
+
+// "Lecture 3.pdf, page 4"
+function describeSelection(selection: MaterialSelection): string {
+  return selection.pageNumber !== null ? `${selection.materialName}, page ${selection.pageNumber}` : selection.materialName;
+}
+
+// Saves the finished turn to the lesson. The assistant id is sent to the client
+// in start_step so the stored message and the one in useChat state share an id.
+interface TurnPersistence {
+  assistantMessageId: string;
+  // Passages retrieved for this turn, which the reply may cite as [n]
+  citations: MessageCitation[];
+  saveTurn: (text: string, toolResults: LessonToolResult[]) => Promise<void>;
+  // Counts the reply's tokens against the user's monthly quota
+  recordUsage: (usage: TokenUsage, model: string) => Promise<unknown>;
+}
+
+// Announce the turn's passages ahead of the reply so useChat attaches them to the message
+function writeCitations(dataStream: DataStreamWriter, citations: MessageCitation[]) {
+  if (citations.length === 0) return;
+  const annotation: CitationsAnnotation = { type: 'citations', citations };
+  dataStream.writeMessageAnnotation(annotation as unknown as JSONValue);
+}
+
+// streamText response with the turn's citations written before the reply
+function toCitedDataStreamResponse(
+  result: { mergeIntoDataStream: (dataStream: DataStreamWriter) => void; toDataStreamResponse: () => Response },
+  citations: MessageCitation[]
+) {
+  if (citations.length === 0) {
+    return result.toDataStreamResponse();
+  }
+
+  return createDataStreamResponse({
+    execute: (dataStream) => {
+      writeCitations(dataStream, citations);
+      result.mergeIntoDataStream(dataStream);
+    },
+    onError: (error) => {
+      console.error('Error while streaming chat response:', error);
+      return 'An error occurred while generating the response.';
+    }
+  });
+}
+
+// Append the user message and assistant reply (with any generated assessment) in one write
+async function persistTurn(
+  lessonManager: LessonManager,
+  lessonId: string,
+  userMessage: Message | undefined,
+  assistantMessageId: string,
+  text: string,
+  toolResults: LessonToolResult[],
+  citations: MessageCitation[]
+) {
+  const turn: ChatMessage[] = [];
+
+  if (userMessage && userMessage.role === 'user' && userMessage.content !== '__INITIAL_CONTEXT_MESSAGE__') {
+    turn.push({
+      id: userMessage.id || generateId(),
+      role: 'user',
+      content: userMessage.content,
+      createdAt: new Date()
+    });
+  }
+
+  const assessment = toolResults.map(toChatAssessment).find(Boolean);
+  const citedPassages = citationsForText(text, citations);
+  turn.push({
+    id: assistantMessageId,
+    role: 'assistant',
+    content: text,
+    createdAt: new Date(),
+    ...(assessment ? { assessment } : {}),
+    ...(citedPassages.length > 0 ? { citations: citedPassages } : {})
+  });
+
+  try {
+    await lessonManager.addMessagesToLesson(lessonId, turn);
+  } catch (error) {
+    console.error('Error saving chat turn to lesson:', error);
+  }
+}
+
+// Lesson whose stable context (system prompt, material files, tools) is cached in Gemini between turns
+interface LessonCacheScope {
+  lessonId: string;
+  topicSelection: string[];
+}
+
+// A cached request can't add to the system instruction, so this turn's context leads the latest user turn
+function withTurnContext(contents: Content[], turnContext: string): Content[] {
+  const text = turnContext.trim();
+  if (!text) return contents;
+
+  const last = contents[contents.length - 1];
+  if (!last || last.role !== 'user') {
+    return [...contents, { role: 'user', parts: [{ text }] }];
+  }
+  return [...contents.slice(0, -1), { ...last, parts: [{ text }, ...(last.parts ?? [])] }];
+}
+
+// Map Gemini finish reasons onto the AI SDK data stream protocol
+function mapGeminiFinishReason(reason: GeminiFinishReason): FinishReason {
+  switch (reason) {
+    case GeminiFinishReason.STOP:
+      return 'stop';
+    case GeminiFinishReason.MAX_TOKENS:
+      return 'length';
+    case GeminiFinishReason.SAFETY:
+    case GeminiFinishReason.RECITATION:
+    case GeminiFinishReason.BLOCKLIST:
+    case GeminiFinishReason.PROHIBITED_CONTENT:
+    case GeminiFinishReason.SPII:
+      return 'content-filter';
+    default:
+      return 'other';
+  }
 }
 
 // Function to handle streaming with files using native Google GenAI SDK
 async function streamNativeWithFiles(
   messages: Message[], 
   systemPrompt: string, 
-  materialFileData: Array<{ fileUri: string; mimeType: string }>,
-  shouldTriggerAssessment: boolean,
-  latestUserMessage: Message | undefined,
-  originalMessages: Message[]
+  turnContext: string,
+  materialFileData: MaterialFileData[],
+  lessonTools: LessonTools,
+  persistence: TurnPersistence,
+  cacheScope: LessonCacheScope | null,
+  modelConfig: ModelConfig,
+  forcedTool?: LessonToolName
 ) {
-  const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-  if (!apiKey) {
-    throw new Error('Missing Google Generative AI API key');
-  }
-
-  const ai = new GoogleGenAI({ apiKey });
+  const ai = getGoogleGenAI(modelConfig);
+  const systemInstruction = `${systemPrompt}\n\n${ASSESSMENT_TOOLS_PROMPT}\n\nUse the uploaded course materials to provide helpful, grounded responses.`;
+  const tools = [{ functionDeclarations: toGeminiFunctionDeclarations(lessonTools) }];
+  let cache: LessonContextCacheResult | null = null;
 
   try {
-    // Prepare content with files using createPartFromUri
-    const content: any[] = [];
-    
-    // Add system prompt and user message
-    const userMessage = messages.filter(m => m.role === 'user').pop();
-    const userContent = userMessage ? userMessage.content : "Hello! I'm ready to start learning with the uploaded materials.";
-    
-    // Combine system prompt with user message
-    content.push(`${systemPrompt}\n\nUser: ${userContent}\n\nPlease analyze the uploaded course materials and provide a helpful response.`);
-    
-    // Add files using createPartFromUri
-    materialFileData.forEach(fileData => {
-      const filePart = createPartFromUri(fileData.fileUri, fileData.mimeType);
-      content.push(filePart);
+    // Reuse the lesson's cached system instruction, files and tools. A forced tool needs
+    // its own toolConfig, which a request on a cache can't set, so those turns go uncached.
+    if (cacheScope && !forcedTool) {
+      cache = await resolveLessonContextCache(ai, {
+        ...cacheScope,
+        model: modelConfig.models.file,
+        systemInstruction,
+        materialFileData,
+        tools
+      });
+    }
+    const cacheName = cache?.cacheName ?? null;
+
+    // Send the whole conversation (user/model turns) with the file parts on the first user turn,
+    // unless the files are already in the cache
+    const history = buildGeminiContents(messages, cacheName ? [] : materialFileData);
+
+    console.log(`Streaming content with ${materialFileData.length} files${cacheName ? ` from cache ${cacheName}` : ''} and ${history.includedMessages} messages (~${history.estimatedTokens} tokens, ${history.omittedMessages} omitted) using GoogleGenAI`);
+
+    // Open the stream up front so permission errors on expired file URIs
+    // still reach the fallback below instead of failing mid-response
+    const responseStream = await ai.models.generateContentStream({
+      model: modelConfig.models.file,
+      contents: cacheName ? withTurnContext(history.contents, turnContext) : history.contents,
+      config: cacheName
+        ? { cachedContent: cacheName }
+        : {
+          systemInstruction: `${systemInstruction}${turnContext}`,
+          tools,
+          toolConfig: {
+            functionCallingConfig: forcedTool
+              ? { mode: FunctionCallingConfigMode.ANY, allowedFunctionNames: [forcedTool] }
+              : { mode: FunctionCallingConfigMode.AUTO }
+          }
+        }
     });
 
-    console.log(`Generating content with ${materialFileData.length} files using GoogleGenAI`);
+    return createDataStreamResponse({
+      execute: async (dataStream) => {
+        let finishReason: FinishReason = 'unknown';
+        let usage = { promptTokens: 0, completionTokens: 0 };
+        let cachedTokens = 0;
+        let responseText = '';
 
-    // Use GoogleGenAI to generate content with files
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: content,
-    });
+        dataStream.write(formatDataStreamPart('start_step', { messageId: persistence.assistantMessageId }));
+        writeCitations(dataStream, persistence.citations);
 
-    const responseText = response.text;
-    if (!responseText) {
-      throw new Error('No response text generated');
-    }
-    
-    console.log('Generated response with file content:', responseText.substring(0, 200) + '...');
-
-    // Create a mock streamText result to be compatible with useChat
-    const mockStreamResult = {
-      toDataStreamResponse: () => {
-        const encoder = new TextEncoder();
-        const stream = new ReadableStream({
-          start(controller) {
-            try {
-              // Send the complete response as a single chunk in AI SDK format
-              const textChunk = `0:"${responseText.replace(/"/g, '\\"').replace(/\n/g, '\\n')}"\n`;
-              controller.enqueue(encoder.encode(textChunk));
-              controller.close();
-            } catch (error) {
-              console.error('Error creating mock stream:', error);
-              controller.error(error);
+        const pendingToolResults: Array<Promise<{ toolCallId: string; result: LessonToolResult }>> = [];
+
+        for await (const chunk of responseStream) {
+          const parts = chunk.candidates?.[0]?.content?.parts ?? [];
+
+          for (const part of parts) {
+            // formatDataStreamPart handles JSON escaping of quotes, backslashes and unicode
+            if (part.text && !part.thought) {
+              responseText += part.text;
+              dataStream.write(formatDataStreamPart('text', part.text));
+            }
+
+            // Mirror streamText's tool protocol so chat.tsx receives toolInvocations
+            if (part.functionCall?.name) {
+              const { name, args } = part.functionCall;
+              const toolCallId = part.functionCall.id || generateId();
+              console.log(`Native GenAI function call: ${name}`);
+
+              dataStream.write(formatDataStreamPart('tool_call', { toolCallId, toolName: name, args: args ?? {} }));
+              pendingToolResults.push(
+                executeLessonTool(lessonTools, name, args, toolCallId).then(result => ({ toolCallId, result }))
+              );
             }
           }
-        });
-
-        return new Response(stream, {
-          headers: {
-            'Content-Type': 'text/plain; charset=utf-8',
-            'X-Vercel-AI-Data-Stream': 'v1',
-          },
-        });
-      }
-    };
 
-    return mockStreamResult.toDataStreamResponse();
+          const candidateFinishReason = chunk.candidates?.[0]?.finishReason;
+          if (candidateFinishReason) {
+            finishReason = mapGeminiFinishReason(candidateFinishReason);
+          }
+
+          if (chunk.usageMetadata) {
+            usage = {
+              promptTokens: chunk.usageMetadata.promptTokenCount ?? 0,
+              // Thinking models bill their thoughts as output tokens too
+              completionTokens: (chunk.usageMetadata.candidatesTokenCount ?? 0) + (chunk.usageMetadata.thoughtsTokenCount ?? 0)
+            };
+            cachedTokens = chunk.usageMetadata.cachedContentTokenCount ?? 0;
+          }
+        }
+
+        const toolResults = await Promise.all(pendingToolResults);
+        if (toolResults.length > 0) {
+          for (const { toolCallId, result } of toolResults) {
+            dataStream.write(formatDataStreamPart('tool_result', { toolCallId, result }));
+          }
+          finishReason = 'tool-calls';
+        }
+
+        dataStream.write(formatDataStreamPart('finish_step', { finishReason, usage, isContinued: false }));
+        dataStream.write(formatDataStreamPart('finish_message', { finishReason, usage }));
+
+        if (cacheScope) {
+          await recordContextCacheEvent(cacheScope.lessonId, {
+            outcome: cache?.outcome ?? 'bypass',
+            reason: cache ? cache.reason : `forced ${forcedTool} call`,
+            cacheName: cache?.cacheName,
+            promptTokens: usage.promptTokens,
+            cachedTokens
+          });
+        }
+        await persistence.recordUsage(usage, modelConfig.models.file);
+
+        // Writes after a client disconnect are dropped, so the turn is still saved if the tab closed
+        await persistence.saveTurn(responseText, toolResults.map(({ result }) => result));
+      },
+      onError: (error) => {
+        console.error('Error while streaming GoogleGenAI response:', error);
+        return 'An error occurred while generating the response.';
+      }
+    });
 
   } catch (error: any) {
     console.error('Error with GoogleGenAI file processing:', error);
     
-    // If it's a permission error (403), it might be due to expired/invalid file URIs
+    // A permission error (403) means Google no longer has some of the files - mark them
+    // expired so the next request uploads them again instead of reusing the URIs
     if (error.status === 403 || error.message?.includes('permission') || error.message?.includes('PERMISSION_DENIED')) {
-      console.log('Permission error detected - this might be due to expired cached file URIs. The system will automatically re-upload files in the next request.');
+      console.log('Permission error detected - marking cached file URIs expired so they are re-uploaded on the next request.');
+      await markGoogleFilesExpired(
+        materialFileData.map(file => file.materialId).filter((id): id is string => !!id)
+      );
+    }
+
+    // The cache holds the same files, or was dropped by Gemini - build a new one next turn
+    if (cacheScope && cache?.cacheName) {
+      await invalidateLessonContextCache(ai, cacheScope.lessonId, cache.cacheName);
+      await recordContextCacheEvent(cacheScope.lessonId, {
+        outcome: 'miss',
+        reason: `cache rejected: ${error.message ?? error}`,
+        cacheName: cache.cacheName
+      });
     }
     
     // Fall back to regular AI SDK without files
@@ -109,58 +336,142 @@ async function streamNativeWithFiles(
     
     // Create a fresh streamText result without files
     const fallbackResult = await streamText({
-      model: google('gemini-2.5-flash-lite'),
+      model: getLanguageModel('assessment', modelConfig),
       temperature: 0.5,
       topP: 0.8,
       topK: 40,
       messages: messages,
-      system: systemPrompt,
+      system: `${systemPrompt}${turnContext}\n\n${ASSESSMENT_TOOLS_PROMPT}`,
+      tools: lessonTools,
+      toolChoice: forcedTool ? { type: 'tool', toolName: forcedTool } : 'auto',
+      experimental_generateMessageId: () => persistence.assistantMessageId,
+      onFinish: async ({ text, toolResults, usage, response }) => {
+        await persistence.recordUsage(usage, response.modelId);
+        await persistence.saveTurn(text, toolResults.map(({ result }) => result));
+      },
     });
 
-    return fallbackResult.toDataStreamResponse();
+    // Keep consuming if the client disconnects so onFinish still saves the turn
+    fallbackResult.consumeStream();
+
+    return toCitedDataStreamResponse(fallbackResult, persistence.citations);
   }
 }
 
-// Fresh chat function - no persistence, each request is independent
-async function streamFreshChat(messages: Message[], lessonId?: string) {
+// Pick assessment difficulty from the student's results in this course. History is
+// loaded at most once per request and only when the tutor actually calls a tool.
+function createDifficultySelector(courseId: string) {
+  let history: Promise<{ attempts: MasteryAttempt[]; topics: string[] }> | null = null;
+
+  return async (topic: string, requested: Difficulty): Promise<DifficultySelection> => {
+    history ??= Promise.all([
+      getCourseAssessmentAttempts(courseId),
+      getCourseTopics(courseId)
+    ]).then(([rows, topics]) => ({
+      attempts: toMasteryAttempts(rows),
+      topics: topics.map(courseTopic => courseTopic.name)
+    }));
+
+    const { attempts, topics } = await history;
+    return selectDifficulty(attempts, topic, requested, topics);
+  };
+}
+
+// Fresh chat function - materials are reloaded each request, the finished turn is appended to the lesson
+async function streamFreshChat(messages: Message[], modelConfig: ModelConfig, lessonId?: string, selection?: MaterialSelection) {
   // Process messages and handle initial context
   let processedMessages = [...messages];
   let systemPrompt = LEARNING_SYSTEM_PROMPT;
-  let materialFileData: Array<{ fileUri: string; mimeType: string }> = [];
+  // Context that changes every turn (retrieved passages, a highlighted selection), kept out of
+  // systemPrompt so the lesson's stable context can be cached
+  let turnContext = '';
+  let cacheScope: LessonCacheScope | null = null;
+  let materialFileData: MaterialFileData[] = [];
+  let passages: RetrievedPassage[] = [];
+  let lessonCourseId: string | null = null;
   
   // Filter out special context messages that shouldn't be sent to the AI
   processedMessages = processedMessages.filter(msg => 
     !(msg.role === 'user' && msg.content === '__INITIAL_CONTEXT_MESSAGE__')
   );
   
-  // Only load materials once per conversation - check if any previous assistant messages already have material context
-  const hasAssistantResponses = messages.some(msg => msg.role === 'assistant');
-  const shouldLoadMaterials = lessonId && !hasAssistantResponses;
+  // Load materials on every turn so follow-ups stay grounded. Materials with extracted text
+  // contribute their most relevant passages; the rest are attached via cached Google file URIs
+  const shouldLoadMaterials = typeof lessonId === 'string' && lessonId.length > 0;
+  const lessonManager = shouldLoadMaterials ? await createServerLessonManager() : null;
   
-  if (shouldLoadMaterials) {
+  if (shouldLoadMaterials && lessonManager) {
     try {
-      const lessonManager = await createServerLessonManager();
-      const lesson = await lessonManager.getLesson(lessonId);
+      const lesson = await lessonManager.getLesson(lessonId, { messageLimit: 0 });
+      lessonCourseId = lesson?.course_id ?? null;
       
       if (lesson && lesson.course_id && Array.isArray(lesson.topic_selection)) {
-        // Get materials based on course and topic selection
-        const lessonMaterials = await getCourseMaterialsByTopics(lesson.course_id, lesson.topic_selection);
+        cacheScope = { lessonId, topicSelection: lesson.topic_selection };
+
+        // Foundational topics the selection builds on, when the lesson was created with "include prerequisites"
+        const prerequisites = lesson.include_prerequisites
+          ? await getTopicPrerequisites(lesson.course_id, lesson.topic_selection)
+          : [];
+
+        // Get materials based on course and topic selection, plus the prerequisites' materials
+        const lessonMaterials = await getCourseMaterialsByTopics(lesson.course_id, [
+          ...lesson.topic_selection,
+          ...prerequisites.map(prerequisite => prerequisite.name)
+        ]);
         
         if (lessonMaterials.length > 0) {
-          // Process materials but don't persist them
-          const materialResult = await processLessonMaterialsWithUpload(lessonMaterials);
+          // Note which version of each material this reply draws on
+          after(() => recordLessonMaterials(lessonId, lessonMaterials.map(material => material.id)));
+
+          const searchableMaterials = lessonMaterials.filter(isSearchableMaterial);
+          const attachedMaterials = lessonMaterials.filter(material => !searchableMaterials.includes(material));
+
+          if (searchableMaterials.length > 0) {
+            passages = await retrievePassages({
+              courseId: lesson.course_id,
+              materialIds: searchableMaterials.map(material => material.id),
+              query: buildRetrievalQuery(processedMessages, lesson.topic_selection)
+            });
+            console.log(`Retrieved ${passages.length} passages from ${searchableMaterials.length} searchable materials`);
+          }
+
+          // Process the remaining materials but don't persist them
+          const materialResult = attachedMaterials.length > 0
+            ? await processLessonMaterialsWithUpload(attachedMaterials)
+            : { processedMaterials: [], materialFileData: [] };
+
+          // Cached files used this turn may lapse mid-lesson; refresh the ones expiring soon
+          // once the response is sent (files uploaded just now are fresh)
+          const cachedMaterials = attachedMaterials.filter(material =>
+            materialResult.materialFileData.some(file => file.materialId === material.id && file.fileUri === material.google_file_uri)
+          );
+          if (cachedMaterials.length > 0) {
+            after(() => refreshExpiringGoogleFiles(cachedMaterials));
+          }
           
           // Store the file URIs for the model
           materialFileData = materialResult.materialFileData;
           
           // Add materials context to system prompt for this request only
           let materialsContext = '\n\nCourse Materials for this session:\n';
+          searchableMaterials.forEach(material => {
+            materialsContext += `- ${material.file_name} (${material.mime_type}) (${(material.file_size / 1024).toFixed(1)} KB)\n`;
+          });
           materialResult.processedMaterials.filter(m => !m.error).forEach(material => {
             const sizeInfo = material.fileSize ? ` (${(material.fileSize / 1024).toFixed(1)} KB)` : '';
             materialsContext += `- ${material.name} (${material.mimeType})${sizeInfo}\n`;
           });
           
           systemPrompt += materialsContext + '\n\nUse these materials to provide contextual, relevant learning guidance. Start each conversation fresh without assuming prior context from previous sessions. When users are presented with topic options, acknowledge their choice warmly and briefly before diving into the selected topic. Keep initial responses concise and focused on what the user specifically wants to learn.';
+
+          if (passages.length > 0) {
+            turnContext += `\n\nRelevant passages from the course materials:\n\n${formatPassagesForPrompt(passages)}\n\n${RETRIEVED_PASSAGES_PROMPT}`;
+          }
+        }
+
+        if (prerequisites.length > 0) {
+          const prerequisiteList = prerequisites.map((prerequisite, index) => `${index + 1}. ${prerequisite.name}`).join('\n');
+          systemPrompt += `\n\nFoundational topics to check first:\n${prerequisiteList}\n\n${PREREQUISITES_PROMPT}`;
         }
       }
     } catch (error) {
@@ -169,15 +480,20 @@ async function streamFreshChat(messages: Message[], lessonId?: string) {
     }
   }
 
+  // A passage highlighted in the material viewer is explicit context for this turn only
+  const forcedTool = selection ? SELECTION_TOOLS[selection.action] : undefined;
+  if (selection) {
+    turnContext += `\n\nPassage the student highlighted in ${describeSelection(selection)}:\n"""\n${selection.text}\n"""\n\n${SELECTION_PROMPTS[selection.action]}`;
+  }
+
   // Add default greeting if no messages
   if (processedMessages.length === 0) {
     let greetingContent = "Hello! What would you like to focus on in this lesson?";
     
     // If we have materials and topic selection, list the available topics
-    if (shouldLoadMaterials) {
+    if (shouldLoadMaterials && lessonManager) {
       try {
-        const lessonManager = await createServerLessonManager();
-        const lesson = await lessonManager.getLesson(lessonId);
+        const lesson = await lessonManager.getLesson(lessonId, { messageLimit: 0 });
         
         if (lesson && lesson.course_id && Array.isArray(lesson.topic_selection) && lesson.topic_selection.length > 0) {
           const topicsList = lesson.topic_selection.map((topic, index) => `${index + 1}. ${topic}`).join('\n');
@@ -197,262 +513,71 @@ async function streamFreshChat(messages: Message[], lessonId?: string) {
     ];
   }
 
-  // Add uploaded files reference to the conversation
-  if (materialFileData.length > 0 && processedMessages.length > 0) {
-    // Find the first user message and modify it to include file references
-    const firstUserMessageIndex = processedMessages.findIndex(m => m.role === 'user');
-    if (firstUserMessageIndex !== -1) {
-      const firstUserMessage = processedMessages[firstUserMessageIndex];
-      
-      // Add explicit file URIs that Gemini can access
-      const fileInstructions = materialFileData.map((fileData, index) => 
-        `File ${index + 1}: ${fileData.fileUri} (${fileData.mimeType})`
-      ).join('\n');
-      
-      processedMessages[firstUserMessageIndex] = {
-        ...firstUserMessage,
-        content: `${firstUserMessage.content}
-
-SYSTEM: Access these uploaded Google File API URIs for course content analysis:
-${fileInstructions}
-
-Please analyze the content from these files when answering questions about the course material.`
-      };
-      
-      console.log(`Added ${materialFileData.length} file URIs to first user message`);
-    }
-  }
-
-  // Get the latest user message for uncertainty detection
+  // The lesson tools build their items around the latest user message
   const latestUserMessage = messages.filter((m: Message) => m.role === 'user').pop();
-  const shouldTriggerAssessment = latestUserMessage ? await detectUncertainty(latestUserMessage.content) : false;
 
-  console.log('Should trigger assessment:', shouldTriggerAssessment);
+  const citations = toCitations(passages);
+
+  // Both backends share the same assessment tools so chat.tsx can render MCQ/TF/flashcards either way
+  const lessonTools = createLessonTools({
+    messages,
+    latestUserMessage,
+    materialFileData,
+    passages: passages.length > 0 ? formatPassagesForPrompt(passages) : undefined,
+    passageCitations: citations,
+    selection: selection ? `${describeSelection(selection)}\n${selection.text}` : undefined,
+    selectDifficulty: lessonCourseId ? createDifficultySelector(lessonCourseId) : undefined,
+    onUsage: (usage, model) => recordTokenUsage('assessment', usage, { lessonId, model })
+  });
+
+  const persistence: TurnPersistence = {
+    assistantMessageId: generateId(),
+    citations,
+    saveTurn: async (text, toolResults) => {
+      if (!lessonManager || !lessonId) return;
+      await persistTurn(lessonManager, lessonId, messages[messages.length - 1], persistence.assistantMessageId, text, toolResults, persistence.citations);
+    },
+    recordUsage: (usage, model) => recordTokenUsage('chat', usage, { lessonId, model })
+  };
 
   // If we have uploaded files, use the native Google Generative AI SDK for proper file support
   if (materialFileData.length > 0) {
     console.log(`Using native Google AI SDK for conversation with ${materialFileData.length} files`);
-    return await streamNativeWithFiles(processedMessages, systemPrompt, materialFileData, shouldTriggerAssessment, latestUserMessage, messages);
+    return await streamNativeWithFiles(processedMessages, systemPrompt, turnContext, materialFileData, lessonTools, persistence, cacheScope, modelConfig, forcedTool);
   }
 
   const result = await streamText({
-    model: google('gemini-2.5-flash'),
+    model: getLanguageModel('chat', modelConfig),
     temperature: 0.4,
     topP: 0.7,
     topK: 30,
     messages: processedMessages,
-    system: `${systemPrompt}
-
-${materialFileData.length > 0 ? `
-IMPORTANT: You have access to ${materialFileData.length} uploaded files containing course materials. These files have been uploaded to the Google File API and are available for analysis. The file URIs are included in the user's message. When users ask questions about the course content, you should analyze and reference the specific content from these uploaded files.
-
-Files available:
-${materialFileData.map((file, i) => `${i + 1}. URI: ${file.fileUri} (${file.mimeType})`).join('\n')}
-
-These are Google File API URIs that you can access directly. Use the content from these files to provide accurate, contextual responses about the course material.
-` : ''}
-
-You have access to THREE assessment tools that create interactive learning content:
-
-1. **generateMCQ** - Creates multiple choice questions
-2. **generateTF** - Creates True/False statements  
-3. **generateFlashcards** - Creates flashcards for active recall and retention
-
-## CRITICAL: Assessment Generation Rules
-
-**NEVER write assessment questions directly in your response text.** You must ONLY create assessments by calling the appropriate tool functions listed above.
-
-**PROHIBITED EXAMPLES (DO NOT DO THIS):**
-❌ "True or False: An engineer should always strive to make as many idealizations..."
-❌ "Which of the following is correct? A) Option 1 B) Option 2..."
-❌ "Here's a quick quiz question: What is...?"
-
-**CORRECT APPROACH:**
-✅ Provide educational explanation, then call generateMCQ/generateTF/generateFlashcards tool
-✅ Let the tool handle the assessment creation and display
-✅ Focus your text response on explanations and context
+    system: `${systemPrompt}${turnContext}
 
-## ASSESSMENT SELECTION STRATEGY:
-
-**Use generateMCQ (PREFERRED) when:**
-- Testing application of concepts with multiple valid approaches
-- Choosing between different methods or solutions
-- Comparing and contrasting multiple options
-- Assessment of understanding across broader topics
-- When multiple tools would work equally well (slight preference)
-
-**Use generateTF when:**
-- Clarifying common misconceptions  
-- Verifying specific factual understanding
-- Exploring nuanced aspects of a concept with subtle distinctions
-- Addressing yes/no conceptual questions
-- Breaking down complex topics into discrete true/false elements
-
-**Use generateFlashcards (PREFERRED) when:**
-- Testing memorization of key terms and definitions
-- Reinforcing core concepts from lesson materials for retention
-- Supporting spaced repetition and active recall
-- Consolidating learned material for long-term memory
-- When user explicitly mentions memorization, recall, or review needs
-- After substantial material has been covered and needs consolidation
-- When multiple tools would work equally well (slight preference)
-
-## CRITICAL ASSESSMENT INSTRUCTIONS:
-1. ALWAYS provide a contextual text explanation BEFORE calling any assessment tool
-2. This explanation should either:
-   - Provide a brief educational overview of the topic to guide the user toward understanding
-   - Introduce why the assessment is important and how it applies to their learning
-   - Give background information that will help the user approach the assessment thoughtfully
-
-3. Your text response should stand alone as valuable educational content, even without the assessment
-4. The explanation should prepare the user to engage meaningfully with the assessment
-5. **NEVER include assessment questions in your text response - only call the tools**
-
-## Tool Usage Workflow:
-1. **First**: Provide educational context and explanation in your text response
-2. **Then**: Call the appropriate tool (generateMCQ, generateTF, or generateFlashcards)
-3. **Never**: Include assessment questions directly in your response text
-
-IMPORTANT: If the user's message contains uncertainty indicators like "don't understand", "confused", "not sure", "what is", "explain", etc., you SHOULD:
-1. First provide a clear, contextual explanation of the topic
-2. Then use either generateMCQ, generateTF, or generateFlashcards tool to create practice content that builds on that explanation
-
-Choose the assessment type that best serves the specific learning moment. When in doubt, prefer MCQ for application testing, T/F for misconception clarification, and Flashcards for retention and memorization.
+${ASSESSMENT_TOOLS_PROMPT}
 
 REMEMBER: This is a fresh conversation with no previous context. Introduce topics clearly and don't assume the user knows what was discussed before.`,
-    tools: {
-      generateMCQ: tool({
-        description: 'Generate a multiple choice question to help reinforce learning and test understanding',
-        parameters: z.object({
-          topic: z.string().describe('The main topic for the MCQ'),
-          difficulty: z.enum(['easy', 'medium', 'hard']).describe('Difficulty level'),
-          reason: z.string().describe('Why this MCQ would be helpful')
-        }),
-        execute: async ({ topic, difficulty, reason }) => {
-          console.log('MCQ Tool called! Topic:', topic, 'Difficulty:', difficulty, 'Reason:', reason);
-          
-          try {
-            const mcq = await generateMCQAction({
-              topic,
-              difficulty,
-              context: messages.slice(-3).map((m: Message) => m.content).join('\n'),
-              userMessage: latestUserMessage?.content || ''
-            });
-
-            if (mcq) {
-              return {
-                type: 'mcq',
-                data: mcq,
-                message: `I've created a quick quiz question to help reinforce your understanding of ${topic}:`
-              };
-            } else {
-              return {
-                type: 'error',
-                message: 'I had trouble creating a quiz question, but let\'s continue our discussion!'
-              };
-            }
-          } catch (error) {
-            console.error('Error generating MCQ:', error);
-            return {
-              type: 'error', 
-              message: 'I had trouble creating a quiz question, but let\'s continue our discussion!'
-            };
-          }
-        }
-      }),
-      generateTF: tool({
-        description: 'Generate True/False statements to clarify misconceptions and explore nuanced understanding',
-        parameters: z.object({
-          topic: z.string().describe('The main topic for the T/F statements'),
-          difficulty: z.enum(['easy', 'medium', 'hard']).describe('Difficulty level'),
-          reason: z.string().describe('Why these T/F statements would be helpful')
-        }),
-        execute: async ({ topic, difficulty, reason }) => {
-          console.log('T/F Tool called! Topic:', topic, 'Difficulty:', difficulty, 'Reason:', reason);
-          
-          try {
-            const tf = await generateTFAction({
-              topic,
-              difficulty,
-              context: messages.slice(-3).map((m: Message) => m.content).join('\n'),
-              userMessage: latestUserMessage?.content || ''
-            });
-
-            if (tf) {
-              return {
-                type: 'tf',
-                data: tf,
-                message: `Let's explore some key aspects of ${topic} through these True/False statements:`
-              };
-            } else {
-              return {
-                type: 'error',
-                message: 'I had trouble creating True/False statements, but let\'s continue our discussion!'
-              };
-            }
-          } catch (error) {
-            console.error('Error generating T/F:', error);
-            return {
-              type: 'error',
-              message: 'I had trouble creating True/False statements, but let\'s continue our discussion!'
-            };
-          }
-        }
-      }),
-      generateFlashcards: tool({
-        description: 'Generate flashcards for active recall and spaced repetition learning',
-        parameters: z.object({
-          topic: z.string().describe('The main topic for the flashcards'),
-          difficulty: z.enum(['easy', 'medium', 'hard']).describe('Difficulty level'),
-          reason: z.string().describe('Why these flashcards would be helpful for retention')
-        }),
-        execute: async ({ topic, difficulty, reason }) => {
-          console.log('Flashcards Tool called! Topic:', topic, 'Difficulty:', difficulty, 'Reason:', reason);
-          
-          try {
-            const flashcardSet = await generateFlashcardsAction({
-              topic,
-              difficulty,
-              context: messages.slice(-3).map((m: Message) => m.content).join('\n'),
-              userMessage: latestUserMessage?.content || '',
-              materialContext: materialFileData.length > 0 ? 
-                `Materials available: ${materialFileData.map(f => f.fileUri).join(', ')}` : 
-                undefined
-            });
-
-            if (flashcardSet) {
-              return {
-                type: 'flashcards',
-                data: flashcardSet,
-                message: `Let's reinforce these key concepts from ${topic} with some flashcards:`
-              };
-            } else {
-              return {
-                type: 'error',
-                message: 'I had trouble creating flashcards, but let\'s continue our discussion!'
-              };
-            }
-          } catch (error) {
-            console.error('Error generating flashcards:', error);
-            return {
-              type: 'error',
-              message: 'I had trouble creating flashcards, but let\'s continue our discussion!'
-            };
-          }
-        }
-      })
-    },
-    toolChoice: 'auto',
-    maxTokens: 1000
+    tools: lessonTools,
+    toolChoice: forcedTool ? { type: 'tool', toolName: forcedTool } : 'auto',
+    maxTokens: 1000,
+    experimental_generateMessageId: () => persistence.assistantMessageId,
+    onFinish: async ({ text, toolResults, usage, response }) => {
+      await persistence.recordUsage(usage, response.modelId);
+      await persistence.saveTurn(text, toolResults.map(({ result }) => result));
+    }
   });
 
-  return result.toDataStreamResponse();
+  // Keep consuming if the client disconnects so onFinish still saves the turn
+  result.consumeStream();
+
+  return toCitedDataStreamResponse(result, persistence.citations);
 }
 
 export async function POST(req: Request) {
   try {
     const body = await req.json();
     const { messages, lessonId }: { messages: Message[]; lessonId?: string } = body;
+    const selection = parseSelection(body.selection);
 
     // Create a unique key based primarily on lesson ID to catch rapid duplicates
     const requestKey = lessonId || 'no-lesson';
@@ -465,16 +590,35 @@ export async function POST(req: Request) {
       return existing.promise;
     }
 
-    if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-      console.error('Missing GOOGLE_GENERATIVE_AI_API_KEY');
+    const modelConfigError = getModelConfigError();
+    if (modelConfigError) {
+      console.error(modelConfigError);
       return new Response(JSON.stringify({ error: 'Missing API key configuration' }), { 
         status: 500,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
+    // The user's plan decides their quotas and which models answer them
+    const entitlements = await getEntitlements();
+    const usage = await getUsageSummary(entitlements);
+    const quota = await checkTokenQuota(usage);
+    if (!quota.allowed) {
+      const retryAfterSeconds = quota.summary
+        ? Math.max(0, Math.ceil((new Date(quota.summary.tokensResetAt).getTime() - now) / 1000))
+        : undefined;
+      return new Response(JSON.stringify({ error: quota.message, usage: quota.summary }), {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(retryAfterSeconds !== undefined ? { 'Retry-After': String(retryAfterSeconds) } : {})
+        }
+      });
+    }
+
     // Create and store the promise for this request
-    const responsePromise = streamFreshChat(messages, lessonId).finally(() => {
+    const modelConfig = getModelConfigForTier(entitlements.modelTier);
+    const responsePromise = streamFreshChat(messages, modelConfig, lessonId, selection).finally(() => {
       // Mark this request as completed
       const entry = requestMap.get(requestKey);
       if (entry) {
@@ -490,7 +634,7 @@ export async function POST(req: Request) {
       }
     }
 
-    // Always use fresh chat - no persistence regardless of lessonId
+    // The chat route persists each finished turn to the lesson itself
     return responsePromise;
 
   } catch (error) {
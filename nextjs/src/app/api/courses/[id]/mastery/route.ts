@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCourseTopics } from '@/lib/supabase/topics'
+import { getCourseAssessmentAttempts, toMasteryAttempts } from '@/lib/supabase/assessment-attempts'
+import { computeTopicMastery } from '@/lib/learning/mastery'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const courseId = id
+
+    if (!courseId) {
+      return NextResponse.json(
+        { error: 'Course ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const [topics, attempts] = await Promise.all([
+      getCourseTopics(courseId),
+      getCourseAssessmentAttempts(courseId)
+    ])
+
+    const mastery = computeTopicMastery(
+      toMasteryAttempts(attempts),
+      topics.map(topic => topic.name)
+    )
+
+    return NextResponse.json({
+      courseId,
+      model: 'bkt',
+      totalAttempts: attempts.length,
+      mastery
+    }, { status: 200 })
+  } catch (error) {
+    console.error('Error in GET /api/courses/[id]/mastery:', error)
+    return NextResponse.json(
+      { error: 'Failed to compute mastery' },
+      { status: 500 }
+    )
+  }
+}
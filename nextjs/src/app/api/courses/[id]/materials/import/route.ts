@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { importFolderFile, importMaterialArchive } from '@/lib/ingestion/bulk-import'
+import { deleteMaterialFile, getMaterialFileSize } from '@/lib/supabase/materials'
+import { checkStorageQuota, storageBytesAvailable } from '@/lib/supabase/usage'
+import { runMaterialIngestion } from '@/lib/ingestion/ingest-material'
+import { runTopicExtraction } from '@/lib/ai/topic-extraction'
+import { createSSRClient } from '@/lib/supabase/server'
+import { isArchiveFile } from '@/lib/utils/file-utils'
+import { isSha256Hex } from '@/lib/utils/sha256'
+import type { MaterialImportResult } from '@/lib/types'
+
+/**
+ * Import an uploaded ZIP archive, or one file of a dropped folder, as materials with
+ * folders mapped to topics. Responds with what happened to each file.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: courseId } = await params
+
+    const supabase = await createSSRClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (!user || userError) {
+      return NextResponse.json(
+        { error: 'User not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    // Verify course exists and user has access
+    const { data: course, error: courseError } = await (supabase as any)
+      .from('courses')
+      .select('id')
+      .eq('id', courseId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (courseError || !course) {
+      return NextResponse.json(
+        { error: 'Course not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { file_name, file_path, mime_type, sha256, folders, topic_tags } = body
+
+    if (!file_name || !file_path) {
+      return NextResponse.json(
+        { error: 'Missing required file information' },
+        { status: 400 }
+      )
+    }
+
+    // Uploads only ever go to the user's own folder of the course
+    if (typeof file_path !== 'string' || !file_path.startsWith(`${user.id}/${courseId}/`)) {
+      return NextResponse.json(
+        { error: 'Invalid file path' },
+        { status: 400 }
+      )
+    }
+
+    if (sha256 !== undefined && !isSha256Hex(sha256)) {
+      return NextResponse.json(
+        { error: 'sha256 must be a lowercase hex SHA-256 digest' },
+        { status: 400 }
+      )
+    }
+
+    if (folders !== undefined && (!Array.isArray(folders) || !folders.every(folder => typeof folder === 'string'))) {
+      return NextResponse.json(
+        { error: 'folders must be an array of folder names' },
+        { status: 400 }
+      )
+    }
+
+    const topicTags: string[] = Array.isArray(topic_tags) ? topic_tags : []
+    const isArchive = isArchiveFile(file_name, mime_type || '')
+    let results: MaterialImportResult[]
+
+    // The size the client reports isn't trusted; the quota and the record use the stored file's
+    const file_size = await getMaterialFileSize(file_path)
+    if (file_size === null) {
+      return NextResponse.json(
+        { error: 'Uploaded file not found' },
+        { status: 400 }
+      )
+    }
+
+    // An archive expands to at least about its own size; files of it that don't fit once
+    // expanded are reported per file. Either way the upload is removed again when it doesn't fit.
+    const storageQuota = await checkStorageQuota(file_size)
+    if (!storageQuota.allowed) {
+      await deleteMaterialFile(file_path)
+      return NextResponse.json(
+        { error: storageQuota.message, usage: storageQuota.summary },
+        { status: 413 }
+      )
+    }
+
+    if (isArchive) {
+      try {
+        results = await importMaterialArchive({
+          courseId,
+          filePath: file_path,
+          fileName: file_name,
+          topicTags,
+          storageBytesAvailable: storageQuota.summary ? storageBytesAvailable(storageQuota.summary) : undefined
+        })
+      } catch (error) {
+        console.error('Error expanding archive:', error)
+        return NextResponse.json(
+          { error: `Could not read ${file_name}: ${error instanceof Error ? error.message : 'invalid archive'}` },
+          { status: 422 }
+        )
+      }
+    } else {
+      results = [await importFolderFile({
+        courseId,
+        filePath: file_path,
+        fileName: file_name,
+        fileSize: file_size,
+        mimeType: mime_type || '',
+        sha256: sha256 ?? null,
+        folders: folders ?? [],
+        topicTags
+      })]
+    }
+
+    // One material at a time, so a large archive doesn't start hundreds of extractions at once
+    const materialIds = results
+      .map(result => result.materialId)
+      .filter((materialId): materialId is string => Boolean(materialId))
+    if (materialIds.length > 0) {
+      after(async () => {
+        for (const materialId of materialIds) {
+          await runMaterialIngestion(materialId)
+          await runTopicExtraction(materialId)
+        }
+      })
+    }
+
+    return NextResponse.json({ results }, { status: materialIds.length > 0 ? 201 : 200 })
+  } catch (error) {
+    console.error('Error importing materials:', error)
+    return NextResponse.json(
+      { error: 'Failed to import materials' },
+      { status: 500 }
+    )
+  }
+}
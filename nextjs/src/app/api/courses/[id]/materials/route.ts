@@ -1,9 +1,18 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { 
   addMaterial, 
-  deleteMaterialWithFile
+  deleteMaterialFile,
+  deleteMaterialWithFile,
+  getMaterialFileSize,
+  MATERIAL_COLUMNS,
+  withTopicTags
 } from '@/lib/supabase/materials'
+import { TOPIC_COLUMNS, toTopicWithCount } from '@/lib/supabase/topics'
+import { runTopicExtraction } from '@/lib/ai/topic-extraction'
+import { runMaterialIngestion } from '@/lib/ingestion/ingest-material'
 import { createSSRClient } from '@/lib/supabase/server'
+import { checkStorageQuota } from '@/lib/supabase/usage'
+import { isSha256Hex } from '@/lib/utils/sha256'
 
 export async function GET(
   request: NextRequest,
@@ -46,7 +55,7 @@ export async function GET(
     // Fetch materials directly
     const { data: materials, error: materialsError } = await (supabase as any)
       .from('materials')
-      .select('*')
+      .select(MATERIAL_COLUMNS)
       .eq('course_id', courseId)
       .eq('user_id', user.id)
       .order('created_at', { ascending: false })
@@ -55,10 +64,10 @@ export async function GET(
       throw materialsError
     }
 
-    // Fetch topics directly
+    // Fetch topics directly, with material counts, parents and prerequisites
     const { data: topicsData, error: topicsError } = await (supabase as any)
       .from('topics')
-      .select('id, name')
+      .select(TOPIC_COLUMNS)
       .eq('course_id', courseId)
       .eq('user_id', user.id)
       .order('name')
@@ -67,37 +76,10 @@ export async function GET(
       throw topicsError
     }
 
-    // Get material counts for each topic from topic_tags
-    const { data: materialsForTopics, error: materialsForTopicsError } = await (supabase as any)
-      .from('materials')
-      .select('topic_tags')
-      .eq('course_id', courseId)
-      .eq('user_id', user.id)
-
-    if (materialsForTopicsError) {
-      throw materialsForTopicsError
-    }
-
-    // Count materials for each topic
-    const topicCounts = {} as Record<string, number>
-    
-    (materialsForTopics || []).forEach((material: { topic_tags?: string[] }) => {
-      if (material.topic_tags && Array.isArray(material.topic_tags)) {
-        material.topic_tags.forEach((topicName: string) => {
-          topicCounts[topicName] = (topicCounts[topicName] || 0) + 1
-        })
-      }
-    })
-
-    // Combine topics with their material counts
-    const topics = (topicsData || []).map((topic: { id: string; name: string }) => ({
-      id: topic.id,
-      name: topic.name,
-      materialCount: topicCounts[topic.name] || 0
-    }))
+    const topics = (topicsData || []).map(toTopicWithCount)
 
     return NextResponse.json({ 
-      materials: materials || [], 
+      materials: (materials || []).map(withTopicTags), 
       topics: topics || [] 
     })
   } catch (error) {
@@ -152,15 +134,49 @@ export async function POST(
 
     // Parse JSON body for TUS upload completion
     const body = await request.json()
-    const { file_name, file_path, file_size, mime_type, topic_tags } = body
+    const { file_name, file_path, mime_type, sha256, topic_tags } = body
 
-    if (!file_name || !file_path || !file_size || !mime_type) {
+    if (!file_name || !file_path || !mime_type) {
       return NextResponse.json(
         { error: 'Missing required file information' },
         { status: 400 }
       )
     }
 
+    if (sha256 !== undefined && !isSha256Hex(sha256)) {
+      return NextResponse.json(
+        { error: 'sha256 must be a lowercase hex SHA-256 digest' },
+        { status: 400 }
+      )
+    }
+
+    // Uploads only ever go to the user's own folder of the course
+    if (typeof file_path !== 'string' || !file_path.startsWith(`${user.id}/${courseId}/`)) {
+      return NextResponse.json(
+        { error: 'Invalid file path' },
+        { status: 400 }
+      )
+    }
+
+    // The size the client reports isn't trusted; the quota and the record use the stored file's
+    const file_size = await getMaterialFileSize(file_path)
+    if (file_size === null) {
+      return NextResponse.json(
+        { error: 'Uploaded file not found' },
+        { status: 400 }
+      )
+    }
+
+    // The file is already in storage, so it is removed again when it doesn't fit the quota
+    const storageQuota = await checkStorageQuota(file_size)
+    if (!storageQuota.allowed) {
+      await deleteMaterialFile(file_path)
+      return NextResponse.json(
+        { error: storageQuota.message, usage: storageQuota.summary },
+        { status: 413 }
+      )
+    }
+
     // Add material record to database after TUS upload completion
     const material = await addMaterial({
       course_id: courseId,
@@ -168,6 +184,7 @@ export async function POST(
       file_path,
       file_size,
       mime_type,
+      sha256: sha256 ?? null,
       topic_tags: topic_tags || []
     })
 
@@ -178,6 +195,10 @@ export async function POST(
       )
     }
 
+    // Extract and chunk the text, and propose topics, once the response has been sent
+    after(() => runMaterialIngestion(material.id))
+    after(() => runTopicExtraction(material.id))
+
     return NextResponse.json({ material }, { status: 201 })
   } catch (error) {
     console.error('Error adding material:', error)
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import {
+  acceptTopicSuggestion,
+  getCourseTopicSuggestions,
+  rejectTopicSuggestion,
+  setTopicExtractionStatus
+} from '@/lib/supabase/topic-suggestions'
+import { getMaterial } from '@/lib/supabase/materials'
+import { runTopicExtraction } from '@/lib/ai/topic-extraction'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const courseId = id
+
+    if (!courseId) {
+      return NextResponse.json(
+        { error: 'Course ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await getCourseTopicSuggestions(courseId)
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    console.error('Error fetching topic suggestions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch topic suggestions' },
+      { status: 500 }
+    )
+  }
+}
+
+// Re-run topic extraction for a material, e.g. after a failure
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const courseId = id
+
+    if (!courseId) {
+      return NextResponse.json(
+        { error: 'Course ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const { materialId } = body
+
+    if (!materialId || typeof materialId !== 'string') {
+      return NextResponse.json(
+        { error: 'Material ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const material = await getMaterial(materialId)
+    if (!material || material.course_id !== courseId) {
+      return NextResponse.json(
+        { error: 'Material not found' },
+        { status: 404 }
+      )
+    }
+
+    await setTopicExtractionStatus(materialId, 'pending')
+    after(() => runTopicExtraction(materialId))
+
+    return NextResponse.json({ materialId, status: 'pending' }, { status: 202 })
+  } catch (error) {
+    console.error('Error in POST /api/courses/[id]/topic-suggestions:', error)
+    return NextResponse.json(
+      { error: 'Failed to start topic extraction' },
+      { status: 500 }
+    )
+  }
+}
+
+// Accept or reject one or more suggestions
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const courseId = id
+
+    if (!courseId) {
+      return NextResponse.json(
+        { error: 'Course ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const { suggestionIds, action } = body
+
+    if (!Array.isArray(suggestionIds) || suggestionIds.length === 0 || suggestionIds.some(id => typeof id !== 'string')) {
+      return NextResponse.json(
+        { error: 'Suggestion IDs are required' },
+        { status: 400 }
+      )
+    }
+
+    if (action !== 'accept' && action !== 'reject') {
+      return NextResponse.json(
+        { error: 'Action must be "accept" or "reject"' },
+        { status: 400 }
+      )
+    }
+
+    // One at a time: accepting can create a topic that the next suggestion reuses
+    const failed: { id: string; error: string }[] = []
+    for (const suggestionId of suggestionIds as string[]) {
+      if (action === 'accept') {
+        const result = await acceptTopicSuggestion(suggestionId)
+        if (!result.success) {
+          failed.push({ id: suggestionId, error: result.error })
+        }
+      } else if (!(await rejectTopicSuggestion(suggestionId))) {
+        failed.push({ id: suggestionId, error: 'Failed to reject suggestion' })
+      }
+    }
+
+    const resolved = suggestionIds.length - failed.length
+    return NextResponse.json(
+      { resolved, failed },
+      { status: resolved === 0 ? 400 : 200 }
+    )
+  } catch (error) {
+    console.error('Error in PATCH /api/courses/[id]/topic-suggestions:', error)
+    return NextResponse.json(
+      { error: 'Failed to update topic suggestions' },
+      { status: 500 }
+    )
+  }
+}
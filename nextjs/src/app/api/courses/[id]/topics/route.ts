@@ -1,5 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createTopic, getCourseTopics, deleteTopic, updateTopic } from '@/lib/supabase/topics'
+import { createTopic, getCourseTopics, deleteTopic, updateTopic, setTopicParent, setTopicPrerequisites } from '@/lib/supabase/topics'
+
+// parentId may be a topic id or null; prerequisiteIds a list of topic ids
+function validateHierarchy(parentId: unknown, prerequisiteIds: unknown): string | null {
+  if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+    return 'Parent topic ID must be a string'
+  }
+
+  if (prerequisiteIds !== undefined && (!Array.isArray(prerequisiteIds) || prerequisiteIds.some(id => typeof id !== 'string'))) {
+    return 'Prerequisites must be an array of topic IDs'
+  }
+
+  return null
+}
 
 export async function GET(
   request: NextRequest,
@@ -43,7 +56,7 @@ export async function POST(
     }
 
     const body = await request.json()
-    const { name } = body
+    const { name, parentId = null, prerequisiteIds } = body
 
     if (!name || typeof name !== 'string' || !name.trim()) {
       return NextResponse.json(
@@ -52,7 +65,15 @@ export async function POST(
       )
     }
 
-    const result = await createTopic(courseId, name.trim())
+    const hierarchyError = validateHierarchy(parentId, prerequisiteIds)
+    if (hierarchyError) {
+      return NextResponse.json(
+        { error: hierarchyError },
+        { status: 400 }
+      )
+    }
+
+    const result = await createTopic(courseId, name.trim(), parentId)
     
     if (!result.success) {
       console.error('Failed to create topic:', result.error)
@@ -62,6 +83,18 @@ export async function POST(
       )
     }
 
+    if (Array.isArray(prerequisiteIds) && prerequisiteIds.length > 0) {
+      const prerequisitesResult = await setTopicPrerequisites(result.data.id, prerequisiteIds)
+      if (!prerequisitesResult.success) {
+        console.error('Failed to set topic prerequisites:', prerequisitesResult.error)
+        return NextResponse.json(
+          { error: prerequisitesResult.error },
+          { status: 400 }
+        )
+      }
+      result.data.prerequisiteIds = prerequisiteIds
+    }
+
     console.log('Topic created successfully:', result.data)
     return NextResponse.json(result.data, { status: 201 })
   } catch (error) {
@@ -89,7 +122,7 @@ export async function PUT(
     }
 
     const body = await request.json()
-    const { topicId, name } = body
+    const { topicId, name, parentId, prerequisiteIds } = body
 
     if (!topicId || typeof topicId !== 'string') {
       return NextResponse.json(
@@ -98,25 +131,70 @@ export async function PUT(
       )
     }
 
-    if (!name || typeof name !== 'string' || !name.trim()) {
+    // name, parentId and prerequisiteIds are each optional; parentId null moves the topic to the top level
+    const hasHierarchyChange = parentId !== undefined || prerequisiteIds !== undefined
+    if (name === undefined && !hasHierarchyChange) {
+      return NextResponse.json(
+        { error: 'Nothing to update' },
+        { status: 400 }
+      )
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
       return NextResponse.json(
         { error: 'Topic name is required' },
         { status: 400 }
       )
     }
 
-    const result = await updateTopic(topicId, name.trim())
-    
-    if (!result.success) {
-      console.error('Failed to update topic:', result.error)
+    const hierarchyError = validateHierarchy(parentId, prerequisiteIds)
+    if (hierarchyError) {
       return NextResponse.json(
-        { error: result.error },
+        { error: hierarchyError },
         { status: 400 }
       )
     }
 
-    console.log('Topic updated successfully:', result.data)
-    return NextResponse.json(result.data, { status: 200 })
+    let updated: { id: string; name: string } | null = null
+
+    if (name !== undefined) {
+      const result = await updateTopic(topicId, name.trim())
+      
+      if (!result.success) {
+        console.error('Failed to update topic:', result.error)
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        )
+      }
+      updated = result.data
+    }
+
+    if (parentId !== undefined) {
+      const parentResult = await setTopicParent(topicId, parentId)
+      if (!parentResult.success) {
+        console.error('Failed to update topic parent:', parentResult.error)
+        return NextResponse.json(
+          { error: parentResult.error },
+          { status: 400 }
+        )
+      }
+      updated = { ...updated, ...parentResult.data }
+    }
+
+    if (prerequisiteIds !== undefined) {
+      const prerequisitesResult = await setTopicPrerequisites(topicId, prerequisiteIds)
+      if (!prerequisitesResult.success) {
+        console.error('Failed to update topic prerequisites:', prerequisitesResult.error)
+        return NextResponse.json(
+          { error: prerequisitesResult.error },
+          { status: 400 }
+        )
+      }
+    }
+
+    console.log('Topic updated successfully:', topicId)
+    return NextResponse.json({ id: topicId, ...updated, ...(prerequisiteIds !== undefined ? { prerequisiteIds } : {}) }, { status: 200 })
   } catch (error) {
     console.error('Error in PUT /api/courses/[id]/topics:', error)
     return NextResponse.json(
@@ -1,5 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createServerLessonManager } from '@/lib/supabase/lessons'
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createServerLessonManager, LessonVersionConflictError, DEFAULT_MESSAGE_PAGE_SIZE } from '@/lib/supabase/lessons'
+import { getCourseMaterialsByTopics } from '@/lib/supabase/materials'
+import { getTopicPrerequisites } from '@/lib/supabase/topics'
+import { refreshExpiringGoogleFiles } from '@/lib/ai/gemini-files'
+import { isSearchableMaterial } from '@/lib/ai/retrieval'
 import { LessonUpdate, ChatMessage } from '@/lib/types'
 
 export const runtime = 'edge'
@@ -21,8 +25,27 @@ export async function GET(req: NextRequest, { params }: RouteContext) {
       )
     }
 
+    const { searchParams } = new URL(req.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || String(DEFAULT_MESSAGE_PAGE_SIZE)) || DEFAULT_MESSAGE_PAGE_SIZE, 200)
+    const beforeParam = searchParams.get('before')
+
     const lessonManager = await createServerLessonManager()
-    const lesson = await lessonManager.getLesson(id)
+
+    // Loading an older page of messages - the lesson itself is already on the client
+    if (beforeParam !== null) {
+      const before = parseInt(beforeParam)
+      if (isNaN(before)) {
+        return NextResponse.json(
+          { error: 'Invalid message cursor' },
+          { status: 400 }
+        )
+      }
+
+      const page = await lessonManager.getLessonMessages(id, { limit, before })
+      return NextResponse.json(page)
+    }
+
+    const lesson = await lessonManager.getLesson(id, { messageLimit: 0 })
     
     if (!lesson) {
       return NextResponse.json(
@@ -31,7 +54,29 @@ export async function GET(req: NextRequest, { params }: RouteContext) {
       )
     }
 
-    return NextResponse.json({ lesson })
+    // Opening a lesson means its course is being studied: upload any of its attached
+    // materials whose Google files are missing or about to expire before the first message
+    const courseId = lesson.course_id
+    if (courseId && lesson.topic_selection.length > 0) {
+      after(async () => {
+        const prerequisites = lesson.include_prerequisites
+          ? await getTopicPrerequisites(courseId, lesson.topic_selection)
+          : []
+        const materials = await getCourseMaterialsByTopics(courseId, [
+          ...lesson.topic_selection,
+          ...prerequisites.map(prerequisite => prerequisite.name)
+        ])
+        await refreshExpiringGoogleFiles(materials.filter(material => !isSearchableMaterial(material)))
+      })
+    }
+
+    // Return the most recent page of messages with the lesson
+    const { messages, hasMore, nextCursor } = await lessonManager.getLessonMessages(id, { limit })
+
+    return NextResponse.json({
+      lesson: { ...lesson, messages },
+      messagesPage: { hasMore, nextCursor }
+    })
   } catch (error) {
     console.error('Error fetching lesson:', error)
     return NextResponse.json(
@@ -55,22 +100,39 @@ export async function PUT(req: NextRequest, { params }: RouteContext) {
 
     const lessonManager = await createServerLessonManager()
     
-    // Check if this is a message update or a general lesson update
-    if (body.messages && Array.isArray(body.messages)) {
+    // Check if this is a single message update, a message update or a general lesson update
+    if (body.message && typeof body.message.id === 'string') {
+      // Merge changes (e.g. assessment results) into one stored message
+      const { id: messageId, assessment } = body.message as ChatMessage
+      const message = await lessonManager.updateMessageInLesson(id, messageId, { assessment })
+
+      if (!message) {
+        return NextResponse.json(
+          { error: 'Failed to update lesson message' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({ message })
+    } else if (body.messages && Array.isArray(body.messages)) {
       // Handle replacing all messages in lesson (not adding)
-      const { messages: newMessages } = body as { messages: ChatMessage[] }
+      const { messages: newMessages, version } = body as { messages: ChatMessage[]; version?: number }
       
-      // Replace all messages completely
-      const lesson = await lessonManager.replaceAllMessages(id, newMessages)
+      // Replace all messages completely - rejected if the lesson changed since `version`
+      const newVersion = await lessonManager.replaceAllMessages(
+        id,
+        newMessages,
+        typeof version === 'number' ? version : undefined
+      )
       
-      if (!lesson) {
+      if (newVersion === null) {
         return NextResponse.json(
           { error: 'Failed to update lesson messages' },
           { status: 500 }
         )
       }
       
-      return NextResponse.json({ lesson })
+      return NextResponse.json({ version: newVersion })
     } else {
       // Handle general lesson updates (title, etc.)
       const updates: LessonUpdate = {}
@@ -91,6 +153,13 @@ export async function PUT(req: NextRequest, { params }: RouteContext) {
       return NextResponse.json({ lesson })
     }
   } catch (error) {
+    if (error instanceof LessonVersionConflictError) {
+      return NextResponse.json(
+        { error: 'Lesson was modified by another session' },
+        { status: 409 }
+      )
+    }
+
     console.error('Error updating lesson:', error)
     return NextResponse.json(
       { error: 'Failed to update lesson' },
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerLessonManager } from '@/lib/supabase/lessons'
 import { getCourseMaterialsByTopics } from '@/lib/supabase/materials'
+import { getTopicPrerequisites, TopicPrerequisite } from '@/lib/supabase/topics'
+import { checkLessonQuota } from '@/lib/supabase/usage'
 import { processLessonMaterials, processLessonMaterialsWithUpload } from '@/lib/ai/gemini-files'
 import { LessonInsert } from '@/lib/types'
 
@@ -28,7 +30,7 @@ export async function GET(req: NextRequest) {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json()
-    const { title, lesson_type = 'general', course_id, topic_selection = [] } = body
+    const { title, lesson_type = 'general', course_id, topic_selection = [], include_prerequisites = false } = body
     
     if (!title) {
       return NextResponse.json(
@@ -53,6 +55,34 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    if (typeof include_prerequisites !== 'boolean') {
+      return NextResponse.json(
+        { error: 'include_prerequisites must be a boolean' },
+        { status: 400 }
+      )
+    }
+
+    // Checked before any materials are processed for the lesson
+    const lessonQuota = await checkLessonQuota()
+    if (!lessonQuota.allowed) {
+      const retryAfterSeconds = lessonQuota.summary
+        ? Math.max(0, Math.ceil((new Date(lessonQuota.summary.tokensResetAt).getTime() - Date.now()) / 1000))
+        : undefined
+      return NextResponse.json(
+        { error: lessonQuota.message, usage: lessonQuota.summary },
+        {
+          status: 429,
+          headers: retryAfterSeconds !== undefined ? { 'Retry-After': String(retryAfterSeconds) } : undefined
+        }
+      )
+    }
+
+    // Topics the selection builds on; the tutor checks these first
+    let prerequisites: TopicPrerequisite[] = []
+    if (course_id && include_prerequisites && topic_selection.length > 0) {
+      prerequisites = await getTopicPrerequisites(course_id, topic_selection)
+    }
+
     // Process materials for AI context if course_id is provided
     let materialContext = ''
     let processedMaterialsCount = 0
@@ -61,8 +91,11 @@ export async function POST(req: NextRequest) {
       try {
         console.log(`Processing materials for course ${course_id} with topics:`, topic_selection)
         
-        // Get materials based on course and topic selection
-        const materials = await getCourseMaterialsByTopics(course_id, topic_selection)
+        // Get materials based on course and topic selection, including the prerequisites' materials
+        const materials = await getCourseMaterialsByTopics(course_id, [
+          ...topic_selection,
+          ...prerequisites.map(prerequisite => prerequisite.name)
+        ])
         console.log(`Found ${materials.length} materials for processing`)
         
         if (materials.length > 0) {
@@ -85,6 +118,7 @@ export async function POST(req: NextRequest) {
       lesson_type,
       course_id: course_id || null,
       topic_selection,
+      include_prerequisites,
       messages: []
     }
 
@@ -101,6 +135,7 @@ export async function POST(req: NextRequest) {
     // Include material processing info in response
     const responseData = {
       lesson,
+      prerequisites,
       materialContext,
       processedMaterialsCount
     }
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { getMaterial } from '@/lib/supabase/materials'
+import { setTextExtractionStatus } from '@/lib/supabase/material-chunks'
+import { runMaterialIngestion } from '@/lib/ingestion/ingest-material'
+
+// (Re-)run text extraction for a material, e.g. after a failure or for files uploaded before it existed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const materialId = id
+
+    if (!materialId) {
+      return NextResponse.json(
+        { error: 'Material ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const material = await getMaterial(materialId)
+    if (!material) {
+      return NextResponse.json(
+        { error: 'Material not found' },
+        { status: 404 }
+      )
+    }
+
+    await setTextExtractionStatus(materialId, 'pending')
+    after(() => runMaterialIngestion(materialId))
+
+    return NextResponse.json({ materialId, status: 'pending' }, { status: 202 })
+  } catch (error) {
+    console.error('Error in POST /api/materials/[id]/text-extraction:', error)
+    return NextResponse.json(
+      { error: 'Failed to start text extraction' },
+      { status: 500 }
+    )
+  }
+}
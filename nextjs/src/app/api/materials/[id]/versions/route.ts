@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { deleteMaterialFile, getMaterial, getMaterialFileSize } from '@/lib/supabase/materials'
+import { getMaterialVersions, replaceMaterialFile } from '@/lib/supabase/material-versions'
+import { runMaterialIngestion } from '@/lib/ingestion/ingest-material'
+import { runTopicExtraction } from '@/lib/ai/topic-extraction'
+import { checkStorageQuota } from '@/lib/supabase/usage'
+import { isSha256Hex } from '@/lib/utils/sha256'
+
+// Version history of a material, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: materialId } = await params
+
+    const material = await getMaterial(materialId)
+    if (!material) {
+      return NextResponse.json(
+        { error: 'Material not found' },
+        { status: 404 }
+      )
+    }
+
+    const versions = await getMaterialVersions(materialId)
+    return NextResponse.json({ versions, currentVersion: material.version })
+  } catch (error) {
+    console.error('Error in GET /api/materials/[id]/versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch material versions' },
+      { status: 500 }
+    )
+  }
+}
+
+// Replace a material with a newly uploaded file (already in storage) as its next version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: materialId } = await params
+
+    const material = await getMaterial(materialId)
+    if (!material) {
+      return NextResponse.json(
+        { error: 'Material not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { file_name, file_path, mime_type, sha256 } = body
+
+    if (!file_name || !file_path || !mime_type) {
+      return NextResponse.json(
+        { error: 'Missing required file information' },
+        { status: 400 }
+      )
+    }
+
+    // New versions are uploaded next to the current file, in the user's folder of the course
+    if (typeof file_path !== 'string' || !file_path.startsWith(`${material.user_id}/${material.course_id}/`)) {
+      return NextResponse.json(
+        { error: 'Invalid file path' },
+        { status: 400 }
+      )
+    }
+
+    if (sha256 !== undefined && !isSha256Hex(sha256)) {
+      return NextResponse.json(
+        { error: 'sha256 must be a lowercase hex SHA-256 digest' },
+        { status: 400 }
+      )
+    }
+
+    if (sha256 && sha256 === material.sha256) {
+      await deleteMaterialFile(file_path)
+      return NextResponse.json(
+        { error: 'This file is identical to the current version' },
+        { status: 409 }
+      )
+    }
+
+    // Measured in storage rather than taken from the client, like new materials
+    const file_size = await getMaterialFileSize(file_path)
+    if (file_size === null) {
+      return NextResponse.json(
+        { error: 'Uploaded file not found' },
+        { status: 400 }
+      )
+    }
+
+    // Earlier versions stay in storage, so the new file counts in full against the quota
+    const storageQuota = await checkStorageQuota(file_size)
+    if (!storageQuota.allowed) {
+      await deleteMaterialFile(file_path)
+      return NextResponse.json(
+        { error: storageQuota.message, usage: storageQuota.summary },
+        { status: 413 }
+      )
+    }
+
+    const version = await replaceMaterialFile(materialId, {
+      fileName: file_name,
+      filePath: file_path,
+      fileSize: file_size,
+      mimeType: mime_type,
+      sha256
+    })
+
+    if (version === null) {
+      return NextResponse.json(
+        { error: 'Failed to save the new version' },
+        { status: 500 }
+      )
+    }
+
+    // The old version's chunks are gone; extract the new file and propose topics from it
+    after(async () => {
+      await runMaterialIngestion(materialId)
+      await runTopicExtraction(materialId)
+    })
+
+    return NextResponse.json({ material: await getMaterial(materialId), version }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/materials/[id]/versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to save the new version' },
+      { status: 500 }
+    )
+  }
+}
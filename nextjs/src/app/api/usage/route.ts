@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { createSSRClient } from '@/lib/supabase/server'
+import { getUsageSummary } from '@/lib/supabase/usage'
+
+// The current user's storage and monthly token consumption against their quotas
+export async function GET() {
+  try {
+    const supabase = await createSSRClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (!user || userError) {
+      return NextResponse.json(
+        { error: 'User not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const usage = await getUsageSummary()
+    if (!usage) {
+      return NextResponse.json(
+        { error: 'Failed to fetch usage' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ usage })
+  } catch (error) {
+    console.error('Error in GET /api/usage:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch usage' },
+      { status: 500 }
+    )
+  }
+}
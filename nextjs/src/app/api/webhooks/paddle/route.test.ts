@@ -0,0 +1,234 @@
+import { createHmac } from 'crypto'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from './route'
+import { getEntitlements } from '@/lib/supabase/subscriptions'
+import type { SubscriptionRow } from '@/lib/types'
+
+vi.mock('@/lib/supabase/serverAdminClient', () => ({
+  createServerAdminClient: vi.fn(async () => adminClient)
+}))
+
+vi.mock('@/lib/supabase/server', () => ({
+  createSSRClient: vi.fn(async () => userClient)
+}))
+
+// Replays recorded Paddle payloads through the webhook, against an in-memory stand-in for
+// the paddle_webhook_events and subscriptions tables and the upsert_paddle_subscription RPC
+
+const SECRET = 'pdl_ntfset_test_secret'
+const USER_ID = 'user-1'
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', `${name}.json`), 'utf8')
+const CREATED = fixture('subscription-created')
+const DOWNGRADED = fixture('subscription-downgraded')
+const CANCELED = fixture('subscription-canceled')
+
+const webhookEvents = new Map<string, { event_type: string; occurred_at: string }>()
+const subscriptions = new Map<string, SubscriptionRow>()
+let failUpserts = false
+
+const adminClient = {
+  from: (table: string) => {
+    expect(table).toBe('paddle_webhook_events')
+    return {
+      insert: async (row: { event_id: string; event_type: string; occurred_at: string }) => {
+        if (webhookEvents.has(row.event_id)) return { error: { code: '23505', message: 'duplicate key' } }
+        webhookEvents.set(row.event_id, row)
+        return { error: null }
+      },
+      delete: () => ({
+        eq: async (_column: string, eventId: string) => {
+          webhookEvents.delete(eventId)
+          return { error: null }
+        }
+      })
+    }
+  },
+  // Same rule as the SQL: a row is only replaced by an event that occurred no earlier
+  rpc: async (name: string, args: Record<string, string | null>) => {
+    expect(name).toBe('upsert_paddle_subscription')
+    if (failUpserts) return { error: { code: '08006', message: 'connection failure' } }
+
+    const existing = subscriptions.get(args.p_id!)
+    if (existing && existing.event_occurred_at > args.p_event_occurred_at!) return { error: null }
+    subscriptions.set(args.p_id!, {
+      id: args.p_id!,
+      user_id: args.p_user_id!,
+      customer_id: args.p_customer_id!,
+      status: args.p_status as SubscriptionRow['status'],
+      price_id: args.p_price_id,
+      current_period_ends_at: args.p_current_period_ends_at,
+      canceled_at: args.p_canceled_at,
+      event_occurred_at: args.p_event_occurred_at!,
+      created_at: existing?.created_at ?? new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    return { error: null }
+  }
+}
+
+// Enough of the query builder for getActiveSubscription
+const userClient = {
+  auth: { getUser: async () => ({ data: { user: { id: USER_ID } } }) },
+  from: () => {
+    let rows = Array.from(subscriptions.values())
+    const query = {
+      select: () => query,
+      eq: (column: keyof SubscriptionRow, value: string) => {
+        rows = rows.filter(row => row[column] === value)
+        return query
+      },
+      in: (column: keyof SubscriptionRow, values: string[]) => {
+        rows = rows.filter(row => values.includes(row[column] as string))
+        return query
+      },
+      order: () => query,
+      limit: async (count: number) => ({ data: rows.slice(0, count), error: null })
+    }
+    return query
+  }
+}
+
+function sign(body: string, { secret = SECRET, timestamp = Math.floor(Date.now() / 1000) } = {}) {
+  const h1 = createHmac('sha256', secret).update(`${timestamp}:${body}`).digest('hex')
+  return `ts=${timestamp};h1=${h1}`
+}
+
+async function deliver(body: string, signature: string | null = sign(body)) {
+  const response = await POST(new NextRequest('http://localhost/api/webhooks/paddle', {
+    method: 'POST',
+    headers: signature ? { 'paddle-signature': signature } : {},
+    body
+  }))
+  return { status: response.status, json: await response.json() }
+}
+
+describe('POST /api/webhooks/paddle', () => {
+  beforeEach(() => {
+    webhookEvents.clear()
+    subscriptions.clear()
+    failUpserts = false
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    vi.stubEnv('PADDLE_WEBHOOK_SECRET', SECRET)
+    vi.stubEnv('NEXT_PUBLIC_TIERS_NAMES', 'Basic,Pro')
+    vi.stubEnv('NEXT_PUBLIC_TIERS_PADDLE_PRICE_IDS', 'pri_basic_monthly|pri_basic_yearly,pri_pro_monthly|pri_pro_yearly')
+    vi.stubEnv('TIERS_STORAGE_BYTES', '5000000000,20000000000')
+    vi.stubEnv('TIERS_MONTHLY_TOKENS', '5000000,')
+    vi.stubEnv('TIERS_MONTHLY_LESSONS', '30,unlimited')
+    vi.stubEnv('TIERS_MODEL_TIERS', 'lite,standard')
+    vi.stubEnv('QUOTA_STORAGE_BYTES', '1000000000')
+    vi.stubEnv('QUOTA_MONTHLY_TOKENS', '2000000')
+    vi.stubEnv('QUOTA_MONTHLY_LESSONS', '5')
+    vi.stubEnv('QUOTA_MODEL_TIER', 'lite')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('grants the plan of a new subscription', async () => {
+    expect(await deliver(CREATED)).toEqual({ status: 200, json: { received: true } })
+
+    expect(subscriptions.get('sub_01hv8x29kz0t586xy6zn1a62ny')).toMatchObject({
+      user_id: USER_ID,
+      customer_id: 'ctm_01hv8wt8nffez4p2t6typn4a5j',
+      status: 'active',
+      price_id: 'pri_pro_monthly',
+      current_period_ends_at: '2026-04-01T10:00:00.000Z',
+      event_occurred_at: '2026-03-01T10:00:01.000Z'
+    })
+    expect(await getEntitlements()).toEqual({
+      plan: 'Pro',
+      storageLimitBytes: 20_000_000_000,
+      monthlyTokenLimit: 2_000_000,
+      monthlyLessonLimit: null,
+      modelTier: 'standard'
+    })
+  })
+
+  it('moves a downgraded subscription to the lower tier', async () => {
+    await deliver(CREATED)
+    expect(await deliver(DOWNGRADED)).toEqual({ status: 200, json: { received: true } })
+
+    expect(await getEntitlements()).toEqual({
+      plan: 'Basic',
+      storageLimitBytes: 5_000_000_000,
+      monthlyTokenLimit: 5_000_000,
+      monthlyLessonLimit: 30,
+      modelTier: 'lite'
+    })
+  })
+
+  it('returns a canceled subscription to the free plan', async () => {
+    await deliver(CREATED)
+    await deliver(DOWNGRADED)
+    await deliver(CANCELED)
+
+    expect(subscriptions.get('sub_01hv8x29kz0t586xy6zn1a62ny')).toMatchObject({
+      status: 'canceled',
+      canceled_at: '2026-05-01T10:00:00.000Z',
+      current_period_ends_at: null
+    })
+    expect(await getEntitlements()).toEqual({
+      plan: null,
+      storageLimitBytes: 1_000_000_000,
+      monthlyTokenLimit: 2_000_000,
+      monthlyLessonLimit: 5,
+      modelTier: 'lite'
+    })
+  })
+
+  it('ignores events that arrive after a newer one', async () => {
+    // Paddle doesn't guarantee delivery order: the cancellation overtakes the others
+    await deliver(CANCELED)
+    expect(await deliver(CREATED)).toEqual({ status: 200, json: { received: true } })
+    await deliver(DOWNGRADED)
+
+    expect(subscriptions.get('sub_01hv8x29kz0t586xy6zn1a62ny')).toMatchObject({
+      status: 'canceled',
+      event_occurred_at: '2026-05-01T10:00:01.000Z'
+    })
+    expect((await getEntitlements()).plan).toBeNull()
+  })
+
+  it('applies a redelivered event only once', async () => {
+    await deliver(CREATED)
+    await deliver(DOWNGRADED)
+
+    expect(await deliver(CREATED)).toEqual({ status: 200, json: { received: true, duplicate: true } })
+    expect((await getEntitlements()).plan).toBe('Basic')
+  })
+
+  it('forgets an event it failed to apply, so the retry is processed', async () => {
+    failUpserts = true
+    expect(await deliver(CREATED)).toEqual({ status: 500, json: { error: 'Failed to process event' } })
+    expect(webhookEvents.size).toBe(0)
+
+    failUpserts = false
+    expect(await deliver(CREATED)).toEqual({ status: 200, json: { received: true } })
+    expect((await getEntitlements()).plan).toBe('Pro')
+  })
+
+  it.each([
+    ['signed with another secret', (body: string) => sign(body, { secret: 'pdl_ntfset_other_secret' })],
+    ['signed for a different body', () => sign(DOWNGRADED)],
+    ['signed too long ago', (body: string) => sign(body, { timestamp: Math.floor(Date.now() / 1000) - 60 })],
+    ['with a malformed signature', () => 'h1=abc']
+  ])('rejects a payload %s', async (_, signature) => {
+    expect(await deliver(CREATED, signature(CREATED))).toEqual({ status: 401, json: { error: 'Invalid signature' } })
+
+    expect(webhookEvents.size).toBe(0)
+    expect(subscriptions.size).toBe(0)
+    expect((await getEntitlements()).plan).toBeNull()
+  })
+
+  it('rejects a payload without a signature', async () => {
+    expect(await deliver(CREATED, null)).toEqual({ status: 400, json: { error: 'Missing Paddle-Signature header' } })
+    expect(subscriptions.size).toBe(0)
+  })
+})
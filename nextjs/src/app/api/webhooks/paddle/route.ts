@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPaddle, subscriptionUpdateFromEvent } from '@/lib/paddle'
+import {
+  forgetPaddleWebhookEvent,
+  recordPaddleWebhookEvent,
+  upsertPaddleSubscription
+} from '@/lib/supabase/subscriptions'
+
+// Paddle subscription events, which keep the subscriptions table and so each user's plan up to date
+export async function POST(request: NextRequest) {
+  const secret = process.env.PADDLE_WEBHOOK_SECRET
+  if (!secret) {
+    console.error('PADDLE_WEBHOOK_SECRET is not set')
+    return NextResponse.json(
+      { error: 'Webhook not configured' },
+      { status: 500 }
+    )
+  }
+
+  const signature = request.headers.get('paddle-signature')
+  if (!signature) {
+    return NextResponse.json(
+      { error: 'Missing Paddle-Signature header' },
+      { status: 400 }
+    )
+  }
+
+  // The signature covers the raw body, so it's verified before parsing
+  const body = await request.text()
+
+  let event
+  try {
+    event = await getPaddle().webhooks.unmarshal(body, secret, signature)
+  } catch (error) {
+    console.error('Invalid Paddle webhook signature:', error)
+    return NextResponse.json(
+      { error: 'Invalid signature' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const isNew = await recordPaddleWebhookEvent(event)
+    if (!isNew) {
+      return NextResponse.json({ received: true, duplicate: true })
+    }
+  } catch (error) {
+    console.error('Error recording Paddle webhook event:', error)
+    return NextResponse.json(
+      { error: 'Failed to process event' },
+      { status: 500 }
+    )
+  }
+
+  try {
+    const update = subscriptionUpdateFromEvent(event)
+    if (update) {
+      await upsertPaddleSubscription(update)
+    }
+
+    return NextResponse.json({ received: true })
+  } catch (error) {
+    console.error(`Error processing Paddle event ${event.eventId}:`, error)
+    // Let Paddle's retry process the event again
+    await forgetPaddleWebhookEvent(event.eventId)
+    return NextResponse.json(
+      { error: 'Failed to process event' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,9 +3,12 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useChat } from 'ai/react';
+import { type ChatRequestOptions } from 'ai';
 import { Chat } from '@/components/ui/chat';
 import { PageHeader } from '@/components/ui/page-header';
-import { Lesson, ChatMessage } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Lesson, ChatMessage, LessonMessagesPage } from '@/lib/types';
+import { getLessonMaterialVersions, type LessonMaterialVersion } from '@/lib/supabase/material-versions';
 
 // Type definitions for AI messages with tool invocations
 interface ToolInvocation {
@@ -22,6 +25,39 @@ interface MessageWithTools {
   experimental_toolCalls?: ToolInvocation[];
 }
 
+// Convert a stored ChatMessage to AI SDK Message format, keeping the stored ID so
+// assessment results can be saved back to the same message
+function toChatStateMessage(msg: ChatMessage, fallbackId: string) {
+  const baseMessage = {
+    id: msg.id || fallbackId,
+    role: msg.role,
+    content: msg.content,
+    // Keep citations so the footnote chips survive a reload
+    ...(msg.citations ? { citations: msg.citations } : {})
+  };
+  
+  // Preserve assessment metadata if it exists
+  if (msg.assessment) {
+    return {
+      ...baseMessage,
+      assessment: msg.assessment
+    };
+  }
+  
+  return baseMessage;
+}
+
+// useChat reports a failed request with the response body as the message; show its error field
+function parseChatError(message?: string): string {
+  try {
+    const body = JSON.parse(message || '');
+    if (typeof body?.error === 'string') return body.error;
+  } catch {
+    // Not a JSON error response
+  }
+  return 'Something went wrong generating a reply. Please try again.';
+}
+
 export default function LessonPage() {
   const params = useParams();
   const router = useRouter();
@@ -30,9 +66,15 @@ export default function LessonPage() {
   const [lesson, setLesson] = useState<Lesson | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [isLoadingFromDB, setIsLoadingFromDB] = useState(false);
   const [initialResponseTriggered, setInitialResponseTriggered] = useState(false);
   const [isProcessingRequest, setIsProcessingRequest] = useState(false);
+  // Position cursor for the next older page of messages (null when everything is loaded)
+  const [messagesCursor, setMessagesCursor] = useState<number | null>(null);
+  const [isLoadingEarlier, setIsLoadingEarlier] = useState(false);
+  // Which version of each material the lesson's replies were generated from
+  const [materialVersions, setMaterialVersions] = useState<LessonMaterialVersion[]>([]);
+  // Why the last reply couldn't be generated, e.g. the monthly usage limit was reached
+  const [chatError, setChatError] = useState<string | null>(null);
 
   // Initialize chat with lesson messages
   const { messages, input, handleInputChange, handleSubmit, isLoading: isChatLoading, stop, append, setMessages } = useChat({
@@ -51,6 +93,7 @@ export default function LessonPage() {
         };
         
         console.log('Error details:', errorInfo);
+        setChatError(parseChatError(error?.message));
       } catch (handlingError) {
         console.log('Error in error handler:', String(handlingError));
         setIsProcessingRequest(false); // Still reset the flag
@@ -59,6 +102,7 @@ export default function LessonPage() {
     onFinish: (message) => {
       console.log('=== onFinish called ===');
       setIsProcessingRequest(false); // Reset the processing flag
+      setChatError(null);
       console.log('Finished message:', {
         role: message.role,
         contentLength: message.content.length,
@@ -79,20 +123,12 @@ export default function LessonPage() {
         }
       }
       
-      // Save the current message immediately to ensure we capture the latest state
-      // Use a longer delay to ensure the message has been added to the messages array
-      setTimeout(() => {
-        console.log('=== About to save after onFinish ===');
-        console.log('Total messages in state:', messages.length);
-        console.log('Latest message in state:', messages[messages.length - 1]?.content.substring(0, 200));
-        
-        saveMessagesToLesson();
-      }, 1000);
+      // No save here - the chat route appends the finished turn to the lesson itself
     }
   });
 
   // Wrapper around append to add logging and prevent duplicates
-  const appendWithLogging = useCallback((message: { role: 'user' | 'assistant'; content: string }) => {
+  const appendWithLogging = useCallback((message: { role: 'user' | 'assistant'; content: string }, options?: ChatRequestOptions) => {
     if (isProcessingRequest) {
       console.log('⚠️ Request already in progress, ignoring append call');
       return;
@@ -104,7 +140,7 @@ export default function LessonPage() {
     console.log('Stack trace:', new Error().stack);
     
     setIsProcessingRequest(true);
-    append(message);
+    append(message, options);
   }, [append, isProcessingRequest]);
 
   // Handle lesson title change
@@ -142,147 +178,37 @@ export default function LessonPage() {
     }
   };
 
-  // Save current messages to lesson
-  const saveMessagesToLesson = useCallback(async () => {
-    if (!lessonId || messages.length === 0) return;
+  // Save assessment results for one message - the chat route stores the turns themselves
+  const saveMessageResults = useCallback(async (messageId: string, updates: Partial<ChatMessage>) => {
+    if (!lessonId || !updates.assessment) return;
     
     try {
-      console.log('Saving', messages.length, 'messages to lesson');
-      
-      // Check for markers in messages being saved
-      const messagesWithMarkers = messages.filter(msg => 
-        msg.content.includes('MCQ_DATA_START') || msg.content.includes('TF_DATA_START')
-      );
-      if (messagesWithMarkers.length > 0) {
-        console.log('Found', messagesWithMarkers.length, 'messages with assessment markers');
-      }
-      
-      // Deduplicate messages before saving and filter out special context messages
-      const uniqueMessages = messages
-        .filter(msg => !(msg.role === 'user' && msg.content === '__INITIAL_CONTEXT_MESSAGE__')) // Filter out initial context messages
-        .filter((msg, index, array) => {
-          return array.findIndex(m => 
-            m.content === msg.content && 
-            m.role === msg.role
-          ) === index;
-        });
-
-      // Convert AI SDK messages back to enhanced ChatMessage format for storage
-      const chatMessages = uniqueMessages.map((msg, index) => {
-        const baseMessage = {
-          id: msg.id || `stored_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`,
-          role: msg.role,
-          content: msg.content,
-          createdAt: new Date().toISOString()
-        };
-        
-        // Preserve assessment metadata if it exists
-        if ('assessment' in msg && msg.assessment) {
-          return {
-            ...baseMessage,
-            assessment: msg.assessment
-          };
-        }
-        
-        // Check for tool invocations and convert to assessment metadata
-        if ('toolInvocations' in msg && Array.isArray((msg as MessageWithTools).toolInvocations)) {
-          const toolInvocations = (msg as MessageWithTools).toolInvocations;
-          if (toolInvocations) {
-            for (const invocation of toolInvocations) {
-            if (invocation && 'result' in invocation && invocation.result) {
-              // Check for MCQ tool calls
-              if (invocation.toolName === 'generateMCQ' && invocation.result && typeof invocation.result === 'object' && 'type' in invocation.result && invocation.result.type === 'mcq') {
-                return {
-                  ...baseMessage,
-                  assessment: {
-                    type: 'mcq',
-                    data: invocation.result.data,
-                    results: {
-                      completed: false
-                    }
-                  }
-                };
-              }
-              
-              // Check for TF tool calls  
-              if (invocation.toolName === 'generateTF' && invocation.result && typeof invocation.result === 'object' && 'type' in invocation.result && invocation.result.type === 'tf') {
-                return {
-                  ...baseMessage,
-                  assessment: {
-                    type: 'tf',
-                    data: invocation.result.data,
-                    results: {
-                      completed: false
-                    }
-                  }
-                };
-              }
-              }
-            }
-          }
-        }
-        
-        // Check for experimental_toolCalls and convert to assessment metadata
-        if ('experimental_toolCalls' in msg && Array.isArray((msg as MessageWithTools).experimental_toolCalls)) {
-          const toolCalls = (msg as MessageWithTools).experimental_toolCalls;
-          if (toolCalls) {
-            for (const toolCall of toolCalls) {
-            if (toolCall && 'result' in toolCall && toolCall.result) {
-              // Check for MCQ tool calls
-              if (toolCall.toolName === 'generateMCQ' && toolCall.result && typeof toolCall.result === 'object' && 'type' in toolCall.result && toolCall.result.type === 'mcq') {
-                return {
-                  ...baseMessage,
-                  assessment: {
-                    type: 'mcq',
-                    data: toolCall.result.data,
-                    results: {
-                      completed: false
-                    }
-                  }
-                };
-              }
-              
-              // Check for TF tool calls  
-              if (toolCall.toolName === 'generateTF' && toolCall.result && typeof toolCall.result === 'object' && 'type' in toolCall.result && toolCall.result.type === 'tf') {
-                return {
-                  ...baseMessage,
-                  assessment: {
-                    type: 'tf',
-                    data: toolCall.result.data,
-                    results: {
-                      completed: false
-                    }
-                  }
-                };
-              }
-              }
-            }
-          }
-        }
-        
-        return baseMessage;
-      });
-
-      await fetch(`/api/lessons/${lessonId}`, {
+      const response = await fetch(`/api/lessons/${lessonId}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          messages: chatMessages
+          message: {
+            id: messageId,
+            assessment: updates.assessment
+          }
         })
       });
+      
+      if (!response.ok) {
+        console.error('Failed to save message results:', response.status);
+      }
     } catch (error) {
-      console.error('Error saving messages:', error);
+      console.error('Error saving message results:', error);
     }
-  }, [lessonId, messages]);
+  }, [lessonId]);
 
   // Fetch lesson data
   const fetchLesson = useCallback(async () => {
     if (!lessonId) return;
     
     setIsLoading(true);
-    setIsLoadingFromDB(true);
     setInitialResponseTriggered(false); // Reset the flag when fetching a new lesson
     setIsProcessingRequest(false); // Reset processing flag when switching lessons
     try {
@@ -290,6 +216,7 @@ export default function LessonPage() {
       if (response.ok) {
         const data = await response.json();
         setLesson(data.lesson);
+        setMessagesCursor(data.messagesPage?.hasMore ? data.messagesPage.nextCursor : null);
         
         // Load existing messages into chat
         if (data.lesson.messages && data.lesson.messages.length > 0) {
@@ -311,24 +238,10 @@ export default function LessonPage() {
             ) === index;
           });
 
-          // Convert ChatMessage format to AI SDK Message format with guaranteed unique IDs
-          const aiMessages = uniqueMessages.map((msg: ChatMessage, index: number) => {
-            const baseMessage = {
-              id: `lesson_${lessonId}_msg_${index}_${msg.id}`,
-              role: msg.role,
-              content: msg.content
-            };
-            
-            // Preserve assessment metadata if it exists
-            if (msg.assessment) {
-              return {
-                ...baseMessage,
-                assessment: msg.assessment
-              };
-            }
-            
-            return baseMessage;
-          });
+          // Convert ChatMessage format to AI SDK Message format
+          const aiMessages = uniqueMessages.map((msg: ChatMessage, index: number) =>
+            toChatStateMessage(msg, `lesson_${lessonId}_msg_${index}`)
+          );
           
           console.log('Setting', aiMessages.length, 'messages to chat state');
           setMessages(aiMessages);
@@ -356,7 +269,6 @@ export default function LessonPage() {
       setError('Failed to load lesson');
     } finally {
       setIsLoading(false);
-      setIsLoadingFromDB(false);
     }
   }, [lessonId, setMessages]);
 
@@ -364,43 +276,39 @@ export default function LessonPage() {
     fetchLesson();
   }, [fetchLesson]);
 
-  // Save messages when they change (with debouncing to avoid too many API calls)
-  useEffect(() => {
-    // Only save if we have messages, they're different from what was loaded, and we're not currently loading from DB
-    if (messages.length > 0 && lesson && !isLoadingFromDB) {
-      // Debounce the save to avoid saving too frequently
-      const timeoutId = setTimeout(() => {
-        console.log('Auto-saving messages due to change. Message count:', messages.length);
-        saveMessagesToLesson();
-      }, 2000);
-
-      return () => clearTimeout(timeoutId);
-    }
-  }, [messages.length, lesson, isLoadingFromDB, saveMessagesToLesson]); // Only trigger on message count change
-
-  // Save on component unmount to ensure we don't lose data
+  // Reload after each reply, since the chat route records the versions it used
   useEffect(() => {
-    return () => {
-      if (messages.length > 0) {
-        console.log('Component unmounting, saving messages');
-        saveMessagesToLesson();
-      }
-    };
-  }, [messages, saveMessagesToLesson]);
+    if (!lessonId || isChatLoading) return;
+    getLessonMaterialVersions(lessonId).then(setMaterialVersions);
+  }, [lessonId, isChatLoading]);
 
-  // Save when user navigates away (beforeunload)
-  useEffect(() => {
-    const handleBeforeUnload = () => {
-      if (messages.length > 0) {
-        console.log('Page unloading, saving messages');
-        // Note: This is a synchronous save, might not complete in time
-        saveMessagesToLesson();
+  // Load the page of messages preceding the oldest one currently shown
+  const loadEarlierMessages = useCallback(async () => {
+    if (!lessonId || messagesCursor === null) return;
+    
+    setIsLoadingEarlier(true);
+    try {
+      const response = await fetch(`/api/lessons/${lessonId}?before=${messagesCursor}`);
+      if (!response.ok) {
+        throw new Error('Failed to load earlier messages');
       }
-    };
-
-    window.addEventListener('beforeunload', handleBeforeUnload);
-    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [messages, saveMessagesToLesson]);
+      
+      const page: LessonMessagesPage = await response.json();
+      const olderMessages = page.messages.map((msg, index) =>
+        toChatStateMessage(msg, `lesson_${lessonId}_before_${messagesCursor}_${index}`)
+      );
+      
+      setMessages(currentMessages => [
+        ...olderMessages.filter(older => !currentMessages.some(msg => msg.id === older.id)),
+        ...currentMessages
+      ]);
+      setMessagesCursor(page.hasMore ? page.nextCursor : null);
+    } catch (error) {
+      console.error('Error loading earlier messages:', error);
+    } finally {
+      setIsLoadingEarlier(false);
+    }
+  }, [lessonId, messagesCursor, setMessages]);
 
   if (isLoading) {
     return (
@@ -446,11 +354,47 @@ export default function LessonPage() {
             editable={true}
             onTitleChange={handleTitleChange}
           />
+          {materialVersions.length > 0 && (
+            <div className="mt-2 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+              <span>Generated from:</span>
+              {materialVersions.map(material => (
+                <span
+                  key={material.materialId}
+                  className={material.currentVersion > material.version
+                    ? 'rounded-md border border-amber-300 bg-amber-50 px-2 py-0.5 text-amber-700'
+                    : 'rounded-md border px-2 py-0.5'}
+                  title={material.currentVersion > material.version
+                    ? 'This material has been updated since; new replies will use the latest version'
+                    : undefined}
+                >
+                  {material.materialName} v{material.version}
+                  {material.currentVersion > material.version && ` (now v${material.currentVersion})`}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
       </div>
       
       <div className="flex-1 px-4 pb-4">
         <div className="space-y-4">
+          {chatError && (
+            <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+              {chatError}
+            </div>
+          )}
+          {messagesCursor !== null && (
+            <div className="flex justify-center">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={loadEarlierMessages}
+                disabled={isLoadingEarlier}
+              >
+                {isLoadingEarlier ? 'Loading...' : 'Load earlier messages'}
+              </Button>
+            </div>
+          )}
           <Chat
             messages={messages}
             input={input}
@@ -467,8 +411,7 @@ export default function LessonPage() {
                     : msg
                 )
               );
-              // Trigger save after a brief delay to allow state to update
-              setTimeout(() => saveMessagesToLesson(), 100);
+              saveMessageResults(messageId, updates as Partial<ChatMessage>);
             }}
             lessonId={lessonId}
             courseId={lesson?.course_id}
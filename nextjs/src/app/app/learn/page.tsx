@@ -25,6 +25,7 @@ export default function LearnPage() {
   const [currentStep, setCurrentStep] = useState<LessonCreationStep>('course-selection');
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
   const [selectedTopics, setSelectedTopics] = useState<string[]>([]);
+  const [includePrerequisites, setIncludePrerequisites] = useState(false);
   const [isCreatingLesson, setIsCreatingLesson] = useState(false);
   const [courseSelectorKey, setCourseSelectorKey] = useState(0); // For refreshing CourseSelector
 
@@ -37,6 +38,7 @@ export default function LearnPage() {
   const handleCourseSelect = (course: Course) => {
     setSelectedCourse(course);
     setSelectedTopics([]); // Reset topics when course changes
+    setIncludePrerequisites(false);
     
     // Delay transition to topic selection to allow button animation to play
     setTimeout(() => {
@@ -64,7 +66,8 @@ export default function LearnPage() {
           title: `${selectedCourse.name} - ${selectedTopics.length > 0 ? selectedTopics.join(', ') : 'All Topics'} - ${new Date().toLocaleDateString()} at ${new Date().toLocaleTimeString()}`,
           lesson_type: 'general',
           course_id: selectedCourse.id,
-          topic_selection: selectedTopics
+          topic_selection: selectedTopics,
+          include_prerequisites: includePrerequisites && selectedTopics.length > 0
         })
       });
 
@@ -189,13 +192,15 @@ export default function LearnPage() {
                     courseName={selectedCourse.name}
                     selectedTopics={selectedTopics}
                     onTopicsChange={handleTopicsChange}
+                    includePrerequisites={includePrerequisites}
+                    onIncludePrerequisitesChange={setIncludePrerequisites}
                   />
                 </div>
                 
                 <div className="flex justify-between items-center pt-4 border-t">
                   <div className="text-sm text-muted-foreground">
                     {selectedTopics.length > 0 
-                      ? `${selectedTopics.length} topic(s) selected`
+                      ? `${selectedTopics.length} topic(s) selected${includePrerequisites ? ' + prerequisites' : ''}`
                       : 'All topics will be included'
                     }
                   </div>
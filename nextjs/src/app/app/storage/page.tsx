@@ -21,11 +21,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { TopicsTab } from '@/components/ui/topics-tab';
 import { DraggableMaterialItem } from '@/components/ui/draggable-material-item';
 import { DndContext, DragEndEvent, DragOverlay, DragStartEvent } from '@dnd-kit/core';
+import { TextExtractionStatus } from '@/components/ui/text-extraction-status';
+import { MaterialVersionsDialog } from '@/components/ui/material-versions-dialog';
 import { CourseSelector } from '@/components/ui/course-selector';
 import { CreateCourseButton } from '@/components/ui/create-course-button';
-import { formatFileSize } from '@/lib/utils/file-utils';
+import { formatFileSize, getFileFolders, isArchiveFile } from '@/lib/utils/file-utils';
+import { sha256File } from '@/lib/utils/sha256';
 import { useTusUpload } from '@/hooks/use-tus-upload';
-import { Topic } from '@/lib/types';
+import { Topic, TextExtractionStatus as ExtractionStatus, MaterialImportResult } from '@/lib/types';
 
 interface Material {
   id: string;
@@ -34,9 +37,18 @@ interface Material {
   file_size: number;
   mime_type: string;
   topic_tags: string[];
+  text_extraction_status?: ExtractionStatus;
+  text_extraction_error?: string | null;
+  page_count?: number | null;
+  duration_seconds?: number | null;
+  chunk_count?: number;
+  version?: number;
   created_at: string;
 }
 
+// How often to refresh the list while text is being extracted from new uploads
+const EXTRACTION_POLL_INTERVAL_MS = 5000;
+
 interface Course {
   id: string;
   name: string;
@@ -62,6 +74,7 @@ export default function MaterialsManagementPage() {
     const [courseSelectorKey, setCourseSelectorKey] = useState(0); // For refreshing CourseSelector
     const [activeTab, setActiveTab] = useState<'materials' | 'topics'>('materials');
     const [activeId, setActiveId] = useState<string | null>(null);
+    const [extractionRequests, setExtractionRequests] = useState<Set<string>>(new Set());
 
     // Force refresh of CourseSelector when a new course is created
     const handleCourseCreated = () => {
@@ -120,9 +133,16 @@ export default function MaterialsManagementPage() {
             try {
                 // Add material record to database after successful upload
                 const parsedTopics = uploadTopics;
+                // ZIP archives and files of a dropped folder are imported with their folders as topics
+                const folders = getFileFolders(file);
+                const isArchive = isArchiveFile(file.name, file.type);
+                const isImport = isArchive || folders.length > 0;
+                // Checked when the file is sent to the AI provider, and used to upload identical files once.
+                // An archive is never stored as a material; the server hashes each file it expands.
+                const sha256 = isArchive ? undefined : await sha256File(file);
 
                 // Call API to create database record after TUS upload
-                const response = await fetch(`/api/courses/${selectedCourse!.id}/materials`, {
+                const response = await fetch(`/api/courses/${selectedCourse!.id}/materials${isImport ? '/import' : ''}`, {
                     method: 'POST',
                     headers: {
                         'Content-Type': 'application/json',
@@ -132,22 +152,46 @@ export default function MaterialsManagementPage() {
                         file_path: filePath,
                         file_size: file.size,
                         mime_type: file.type,
+                        sha256,
+                        ...(isImport && { folders }),
                         topic_tags: parsedTopics
                     }),
                 });
 
+                const data = await response.json();
+                // Over the storage quota - the server has removed the upload again. Reported like
+                // an import result so it stays on screen instead of the page reloading.
+                if (response.status === 413) {
+                    return [{ path: file.name, status: 'failed', reason: data.error }] as MaterialImportResult[];
+                }
                 if (!response.ok) {
-                    const data = await response.json();
                     throw new Error(data.error || 'Failed to save material record');
                 }
 
                 console.log(`Upload completed for ${file.name}`);
+                if (isImport) {
+                    return data.results as MaterialImportResult[];
+                }
             } catch (error) {
                 console.error('Error adding material to database:', error);
                 setError(`Upload succeeded but failed to save record for ${file.name}`);
             }
         },
-        onAllUploadsComplete: async () => {
+        onAllUploadsComplete: async (uploadQueue) => {
+            // Keep the list of imported and skipped files on screen after a ZIP or folder upload
+            const hasImportReport = uploadQueue.some(item =>
+                item.status === 'skipped' ||
+                item.importResults?.some(result => result.status !== 'imported') ||
+                (item.importResults?.length ?? 0) > 1
+            );
+            if (selectedCourse && hasImportReport) {
+                setFileToUpload(null);
+                setUploadTopics([]);
+                setShowUploadDialog(false);
+                loadCourseMaterials(selectedCourse.id);
+                return;
+            }
+
             // Refresh page after all uploads complete
             if (selectedCourse) {
                 setFileToUpload(null);
@@ -187,6 +231,63 @@ export default function MaterialsManagementPage() {
         }
     }, []);
 
+    // Refresh statuses in the background without replacing the list with a spinner
+    const refreshMaterialsQuietly = useCallback(async (courseId: string) => {
+        try {
+            const response = await fetch(`/api/courses/${courseId}/materials`);
+            if (response.ok) {
+                const data = await response.json();
+                setMaterials(data.materials || []);
+                setTopics(data.topics || []);
+            }
+        } catch (err) {
+            console.error('Error refreshing materials:', err);
+        }
+    }, []);
+
+    // Poll while any material's text is being extracted. New uploads start out pending, so
+    // recently added pending materials count too; older pending ones wait for "Extract now".
+    const extractionInProgress = materials.some(material =>
+        material.text_extraction_status === 'processing' ||
+        (material.text_extraction_status === 'pending' &&
+            (extractionRequests.has(material.id) || Date.now() - new Date(material.created_at).getTime() < 10 * 60 * 1000))
+    );
+
+    useEffect(() => {
+        if (!selectedCourse || !extractionInProgress) return;
+        const timer = setTimeout(() => refreshMaterialsQuietly(selectedCourse.id), EXTRACTION_POLL_INTERVAL_MS);
+        return () => clearTimeout(timer);
+    }, [selectedCourse, extractionInProgress, materials, refreshMaterialsQuietly]);
+
+    // Forget requested extractions once they've finished
+    useEffect(() => {
+        setExtractionRequests(prev => {
+            const running = new Set(Array.from(prev).filter(id => materials.some(material =>
+                material.id === id &&
+                (material.text_extraction_status === 'pending' || material.text_extraction_status === 'processing')
+            )));
+            return running.size === prev.size ? prev : running;
+        });
+    }, [materials]);
+
+    const startTextExtraction = async (materialId: string) => {
+        if (!selectedCourse) return;
+
+        setExtractionRequests(prev => new Set(prev).add(materialId));
+        try {
+            const response = await fetch(`/api/materials/${materialId}/text-extraction`, { method: 'POST' });
+            if (!response.ok) {
+                const data = await response.json();
+                setError(data.error || 'Failed to start text extraction');
+            }
+        } catch (err) {
+            setError('Failed to start text extraction');
+            console.error('Error starting text extraction:', err);
+        } finally {
+            refreshMaterialsQuietly(selectedCourse.id);
+        }
+    };
+
     const handleCourseSelect = (course: Course) => {
         setSelectedCourse(course);
         if (course) {
@@ -470,6 +571,16 @@ export default function MaterialsManagementPage() {
                                                                             </div>
                                                                         )}
                                                                     </div>
+                                                                    <TextExtractionStatus
+                                                                        className="mt-1"
+                                                                        status={material.text_extraction_status}
+                                                                        error={material.text_extraction_error}
+                                                                        pageCount={material.page_count}
+                                                                        durationSeconds={material.duration_seconds}
+                                                                        chunkCount={material.chunk_count}
+                                                                        onRetry={() => startTextExtraction(material.id)}
+                                                                        retrying={extractionRequests.has(material.id) && material.text_extraction_status !== 'processing'}
+                                                                    />
                                                                 </div>
                                                             </div>
                                                             <div className="flex items-center space-x-2">
@@ -479,6 +590,12 @@ export default function MaterialsManagementPage() {
                                                                     currentTopics={material.topic_tags}
                                                                     onTopicsChange={() => loadCourseMaterials(selectedCourse.id)}
                                                                 />
+                                                                <MaterialVersionsDialog
+                                                                    material={material}
+                                                                    courseId={selectedCourse.id}
+                                                                    existingFileNames={materials.map(m => m.file_name)}
+                                                                    onReplaced={() => refreshMaterialsQuietly(selectedCourse.id)}
+                                                                />
                                                                 <AlertDialog>
                                                                     <AlertDialogTrigger asChild>
                                                                         <Button variant="ghost" size="sm">
@@ -6,6 +6,7 @@ import { PageHeader } from '@/components/ui/page-header';
 import { useGlobal } from '@/lib/context/GlobalContext';
 import { createSPASassClientAuthenticated as createSPASassClient } from '@/lib/supabase/client';
 import { MFASetup } from '@/components/MFASetup';
+import { UsagePanel } from '@/components/UsagePanel';
 
 export default function UserSettingsPage() {
     const { user } = useGlobal();
@@ -167,6 +168,8 @@ export default function UserSettingsPage() {
                         </CardContent>
                     </Card>
 
+                    <UsagePanel />
+
                     <Card>
                         <CardHeader>
                             <CardTitle className="text-lg">
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { Loader2 } from 'lucide-react';
+import { formatFileSize } from '@/lib/utils/file-utils';
+import type { UsageSummary } from '@/lib/types';
+
+function percentOf(used: number, limit: number): number {
+    if (limit <= 0) return 100;
+    return Math.min(100, Math.round((used / limit) * 100));
+}
+
+function meterColor(percent: number): string {
+    if (percent >= 100) return 'bg-red-500';
+    if (percent >= 80) return 'bg-amber-500';
+    return 'bg-primary';
+}
+
+interface UsageMeterProps {
+    label: string;
+    used: string;
+    limit: string;
+    percent: number;
+    note?: string;
+}
+
+function UsageMeter({ label, used, limit, percent, note }: UsageMeterProps) {
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-700">{label}</span>
+                <span className="text-gray-500">{used} of {limit}</span>
+            </div>
+            <Progress value={percent} indicatorClassName={meterColor(percent)} />
+            {note && <p className="text-xs text-gray-500">{note}</p>}
+        </div>
+    );
+}
+
+// Storage, monthly AI usage and lessons started this month against the user's plan
+export function UsagePanel() {
+    const [usage, setUsage] = useState<UsageSummary | null>(null);
+    const [error, setError] = useState('');
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const fetchUsage = async () => {
+            try {
+                const response = await fetch('/api/usage');
+                const data = await response.json();
+                if (!response.ok) throw new Error(data.error || 'Failed to load usage');
+                setUsage(data.usage);
+            } catch (err) {
+                console.error('Error fetching usage:', err);
+                setError('Failed to load usage');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchUsage();
+    }, []);
+
+    const tokenPercent = usage ? percentOf(usage.tokensUsed, usage.monthlyTokenLimit) : 0;
+    const storagePercent = usage ? percentOf(usage.storageBytes, usage.storageLimitBytes) : 0;
+    const lessonPercent = usage?.monthlyLessonLimit != null ? percentOf(usage.lessonsCreated, usage.monthlyLessonLimit) : 0;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-lg">
+                    Usage
+                </CardTitle>
+                <CardDescription>
+                    Storage for your course materials and AI usage this month
+                    {usage && <> on the <span className="font-medium">{usage.plan ?? 'Free'}</span> plan</>}
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                {error && (
+                    <Alert variant="destructive" className="mb-4">
+                        <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                )}
+
+                {loading ? (
+                    <div className="flex justify-center items-center p-4">
+                        <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+                    </div>
+                ) : usage && (
+                    <div className="space-y-6">
+                        <UsageMeter
+                            label="Storage"
+                            used={formatFileSize(usage.storageBytes)}
+                            limit={formatFileSize(usage.storageLimitBytes)}
+                            percent={storagePercent}
+                            note={storagePercent >= 100 ? 'Delete materials or old versions to upload more.' : 'Includes earlier versions of replaced materials.'}
+                        />
+                        <UsageMeter
+                            label="AI tokens"
+                            used={usage.tokensUsed.toLocaleString()}
+                            limit={usage.monthlyTokenLimit.toLocaleString()}
+                            percent={tokenPercent}
+                            note={`Resets on ${new Date(usage.tokensResetAt).toLocaleDateString()}`}
+                        />
+                        {usage.monthlyLessonLimit !== null && (
+                            <UsageMeter
+                                label="New lessons"
+                                used={usage.lessonsCreated.toLocaleString()}
+                                limit={usage.monthlyLessonLimit.toLocaleString()}
+                                percent={lessonPercent}
+                                note={lessonPercent >= 100 ? 'Upgrade your plan to start more lessons this month.' : `Resets on ${new Date(usage.tokensResetAt).toLocaleDateString()}`}
+                            />
+                        )}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -5,10 +5,13 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/com
 import { Input } from '@/components/ui/input'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { ScrollToBottomButton } from '@/components/ui/scroll-to-bottom-button'
-import { Send } from 'lucide-react'
+import { FileText, Send } from 'lucide-react'
 import { type FormEvent, useEffect, useRef, useState } from 'react'
 import { type Message } from 'ai'
 import { MarkdownRenderer } from '@/lib/markdown-renderer'
+import { CitationFootnotes } from '@/components/ui/citation-chip'
+import { MaterialViewerPanel, type MaterialViewerTarget } from '@/components/ui/material-viewer-panel'
+import { citationsForText, getMessageCitations } from '@/lib/ai/citations'
 import iconGrey from '@/app/icon_grey.png'
 import darkIcon from '@/app/icon.png'
 import userIcon from '@/app/user.png'
@@ -20,8 +23,10 @@ import { TFLoading } from '@/components/ui/tf-loading'
 import { FlashcardComponent } from '@/components/ui/flashcard-component'
 import { FlashcardLoading } from '@/components/ui/flashcard-loading'
 import { type MCQ, type TF, type FlashcardSet, type MCQOption } from '@/lib/ai/lesson-schemas'
-import { type ChatMessage } from '@/lib/types'
+import { type ChatMessage, type MaterialSelection, type MaterialRow } from '@/lib/types'
+import { getCourseMaterialsByTopics } from '@/lib/supabase/materials'
 import { saveFlashcard, deleteFlashcard } from '@/lib/supabase/flashcards'
+import { recordAssessmentAttempts, FLASHCARD_PERFORMANCE_SCORES } from '@/lib/supabase/assessment-attempts'
 
 interface ChatProps {
   messages: Message[]
@@ -30,7 +35,8 @@ interface ChatProps {
   handleSubmit: (e: FormEvent<HTMLFormElement>) => void
   isGenerating?: boolean
   stop?: () => void
-  append?: (message: { role: 'user' | 'assistant'; content: string }) => void
+  // Options carry extra request body fields, e.g. a passage highlighted in the material viewer
+  append?: (message: { role: 'user' | 'assistant'; content: string }, options?: { body?: Record<string, unknown> }) => void
   updateMessage?: (messageId: string, updates: Partial<Message>) => void
   lessonId?: string
   courseId?: string | null
@@ -667,6 +673,36 @@ export function Chat({
   // Track processed assessments to prevent duplicate submissions
   const [processedAssessments, setProcessedAssessments] = useState<Set<string>>(new Set())
 
+  // Material shown in the side panel - a cited passage or one opened from the header
+  const [viewerTarget, setViewerTarget] = useState<MaterialViewerTarget | null>(null)
+  const [lessonMaterials, setLessonMaterials] = useState<MaterialRow[] | null>(null)
+
+  const openMaterials = async () => {
+    const materials = lessonMaterials ?? (courseId ? await getCourseMaterialsByTopics(courseId, topicSelection || []) : [])
+    setLessonMaterials(materials)
+    if (materials.length > 0) {
+      setViewerTarget({ materialId: materials[0].id, materialName: materials[0].file_name, pageNumber: null })
+    }
+  }
+
+  // Send a passage highlighted in the viewer to the tutor as explicit context
+  const askAboutSelection = (selection: MaterialSelection) => {
+    if (!append || isGenerating) return
+    const source = selection.pageNumber !== null
+      ? `${selection.materialName} (page ${selection.pageNumber})`
+      : selection.materialName
+    const request = {
+      explain: 'Explain this passage',
+      quiz: 'Quiz me on this passage',
+      flashcards: 'Make flashcards from this passage'
+    }[selection.action]
+
+    append(
+      { role: 'user', content: `${request} from ${source}:\n\n"${selection.text}"` },
+      { body: { selection } }
+    )
+  }
+
   // Check if the AI is currently generating an assessment by looking at the latest message
   useEffect(() => {
     if (isGenerating && messages.length > 0) {
@@ -734,11 +770,19 @@ export function Chat({
           <CardTitle>Learn</CardTitle>
           <CardDescription>Ask questions, explore topics, and learn with the help of AI</CardDescription>
         </div>
-        {isGenerating && stop && (
-          <Button variant="outline" size="sm" onClick={stop}>
-            Stop
-          </Button>
-        )}
+        <div className="flex items-center gap-2">
+          {courseId && (
+            <Button variant="outline" size="sm" onClick={openMaterials}>
+              <FileText className="w-4 h-4 mr-1" />
+              Materials
+            </Button>
+          )}
+          {isGenerating && stop && (
+            <Button variant="outline" size="sm" onClick={stop}>
+              Stop
+            </Button>
+          )}
+        </div>
       </CardHeader>
       
       <CardContent className="flex flex-col flex-1 min-h-0 p-0">
@@ -805,6 +849,11 @@ export function Chat({
                         .trim();
                     }
                     
+                    // Passages this reply cites as [n]
+                    const citations = message.role === 'assistant'
+                      ? citationsForText(cleanedContent, getMessageCitations(message as Message & Pick<ChatMessage, 'citations'>))
+                      : [];
+                    
                     // If message has MCQ/TF/Flashcards but no meaningful text content, don't render the message box
                     const shouldRenderMessageBox = message.role === 'user' || (!mcqData && !tfData && !flashcardsData) || (cleanedContent && cleanedContent.length > 0);
                   
@@ -831,12 +880,17 @@ export function Chat({
                             {message.role === 'user' ? (
                               <p className="text-base whitespace-pre-wrap">{message.content}</p>
                             ) : (
-                              <MarkdownRenderer 
-                                variant="chat"
-                                className="prose prose-base max-w-none"
-                              >
-                                {cleanedContent}
-                              </MarkdownRenderer>
+                              <>
+                                <MarkdownRenderer 
+                                  variant="chat"
+                                  className="prose prose-base max-w-none"
+                                  citations={citations}
+                                  onCitationClick={setViewerTarget}
+                                >
+                                  {cleanedContent}
+                                </MarkdownRenderer>
+                                <CitationFootnotes citations={citations} onOpen={setViewerTarget} />
+                              </>
                             )}
                           </div>
                           
@@ -861,7 +915,21 @@ export function Chat({
                                 initialSelectedOptionId={mcqResults?.selectedOptionId}
                                 initialIsSubmitted={mcqResults?.completed || false}
                                 initialShowExplanation={mcqResults?.completed || false}
-                                onAnswer={(selectedOption, isCorrect) => {
+                                onAnswer={(selectedOption, isCorrect, latencyMs) => {
+                                  // Record the attempt for mastery tracking
+                                  recordAssessmentAttempts([{
+                                    courseId,
+                                    lessonId,
+                                    messageId: message.id,
+                                    itemId: 'question',
+                                    topic: mcqData.topic,
+                                    assessmentType: 'mcq',
+                                    difficulty: mcqData.difficulty,
+                                    isCorrect,
+                                    score: isCorrect ? 1 : 0,
+                                    latencyMs
+                                  }]);
+
                                   // Store results in message assessment metadata
                                   if (updateMessage) {
                                     const assessmentData = {
@@ -915,7 +983,21 @@ export function Chat({
                                 initialSelectedAnswers={tfResults?.answers}
                                 initialIsSubmitted={tfResults?.completed || false}
                                 initialShowExplanation={tfResults?.completed || false}
-                                onAnswer={(results) => {
+                                onAnswer={(results, latencyMs) => {
+                                  // Record one attempt per statement, splitting the time spent evenly
+                                  recordAssessmentAttempts(results.map(result => ({
+                                    courseId,
+                                    lessonId,
+                                    messageId: message.id,
+                                    itemId: result.statementId,
+                                    topic: tfData.topic,
+                                    assessmentType: 'tf' as const,
+                                    difficulty: tfData.difficulty,
+                                    isCorrect: result.isCorrect,
+                                    score: result.isCorrect ? 1 : 0,
+                                    latencyMs: latencyMs / results.length
+                                  })));
+
                                   // Store results in message assessment metadata
                                   if (updateMessage) {
                                     // Convert results to answers format
@@ -989,7 +1071,23 @@ export function Chat({
                                   new Set()
                                 }
                                 initialIsCompleted={flashcardsResults?.completed || false}
-                                onAnswer={(flashcardId, performance) => {
+                                onAnswer={(flashcardId, performance, latencyMs) => {
+                                  const flashcard = flashcardsData.flashcards.find(card => card.id === flashcardId);
+                                  if (flashcard) {
+                                    recordAssessmentAttempts([{
+                                      courseId,
+                                      lessonId,
+                                      messageId: message.id,
+                                      itemId: flashcardId,
+                                      topic: flashcard.topic,
+                                      assessmentType: 'flashcard',
+                                      difficulty: flashcard.difficulty,
+                                      isCorrect: performance === 'got-it',
+                                      score: FLASHCARD_PERFORMANCE_SCORES[performance],
+                                      latencyMs
+                                    }]);
+                                  }
+
                                   // Store individual flashcard performance
                                   if (updateMessage) {
                                     const existingAssessment = getExistingAssessmentResults(message);
@@ -1175,6 +1273,15 @@ export function Chat({
         onScrollToBottom={scrollToBottom}
         threshold={200}
       />
+      
+      <MaterialViewerPanel
+        target={viewerTarget}
+        onClose={() => setViewerTarget(null)}
+        materials={lessonMaterials ?? undefined}
+        onTargetChange={setViewerTarget}
+        onAsk={append ? askAboutSelection : undefined}
+        askDisabled={isGenerating}
+      />
     </>
   )
 }
@@ -0,0 +1,77 @@
+'use client';
+
+import React from 'react';
+import { FileText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatTimestamp } from '@/lib/ai/citations';
+import { type MessageCitation } from '@/lib/types';
+
+interface CitationChipProps {
+  citation: MessageCitation;
+  onOpen?: (citation: MessageCitation) => void;
+  className?: string;
+}
+
+// "Lecture 3.pdf · p. 4" or "Lecture 3.mp4 · 14:22"
+function citationLocation(citation: MessageCitation) {
+  return [
+    citation.materialName,
+    citation.pageNumber !== null ? `p. ${citation.pageNumber}` : null,
+    typeof citation.timestampSeconds === 'number' ? formatTimestamp(citation.timestampSeconds) : null
+  ].filter(Boolean).join(' · ');
+}
+
+// Inline footnote marker for a passage the tutor cited, e.g. the [2] in "made in the mitochondria [2]"
+export function CitationChip({ citation, onOpen, className }: CitationChipProps) {
+  return (
+    <button
+      type="button"
+      className={cn(
+        'inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 align-super rounded-full border border-purple-200 bg-purple-50 text-[0.65rem] font-medium leading-none text-purple-700 hover:bg-purple-100 disabled:cursor-default',
+        className
+      )}
+      title={`${citationLocation(citation)}\n"${citation.excerpt}"`}
+      aria-label={`Source ${citation.number}: ${citationLocation(citation)}`}
+      onClick={() => onOpen?.(citation)}
+      disabled={!onOpen}
+    >
+      {citation.number}
+    </button>
+  );
+}
+
+interface CitationFootnotesProps {
+  citations: MessageCitation[];
+  onOpen?: (citation: MessageCitation) => void;
+  className?: string;
+}
+
+// Numbered source list under a reply, one entry per cited passage
+export function CitationFootnotes({ citations, onOpen, className }: CitationFootnotesProps) {
+  if (citations.length === 0) {
+    return null;
+  }
+
+  return (
+    <ol className={cn('mt-2 pt-2 border-t border-muted-foreground/20 space-y-1', className)}>
+      {citations.map(citation => (
+        <li key={citation.number}>
+          <button
+            type="button"
+            className="flex w-full items-start gap-2 text-left text-xs text-muted-foreground hover:text-foreground disabled:cursor-default"
+            onClick={() => onOpen?.(citation)}
+            disabled={!onOpen}
+            title={citation.excerpt}
+          >
+            <span className="font-medium text-purple-700">[{citation.number}]</span>
+            <FileText className="w-3 h-3 mt-0.5 flex-shrink-0" />
+            <span className="truncate">
+              {citationLocation(citation)}
+              {citation.section && <span className="text-muted-foreground/80"> - {citation.section}</span>}
+            </span>
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -7,6 +7,7 @@ import { Play, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { SavedFlashcard } from '@/lib/supabase/flashcards';
 import { MarkdownRenderer } from '@/lib/markdown-renderer';
+import { FlashcardSource } from '@/components/ui/source-citation';
 
 interface CourseFlashcardGroupProps {
   courseId: string | null;
@@ -133,11 +134,14 @@ export function CourseFlashcardGroup({
                     <div className="text-xs text-muted-foreground line-clamp-4">
                       <MarkdownRenderer className="inline">{flashcard.definition}</MarkdownRenderer>
                     </div>
-                    {flashcard.topic && (
-                      <span className="inline-flex items-center rounded-md border border-input bg-background px-2 py-1 text-xs font-medium text-foreground mt-2">
-                        {flashcard.topic}
-                      </span>
-                    )}
+                    <div className="flex flex-wrap items-center gap-1 mt-2">
+                      {flashcard.topic && (
+                        <span className="inline-flex items-center rounded-md border border-input bg-background px-2 py-1 text-xs font-medium text-foreground">
+                          {flashcard.topic}
+                        </span>
+                      )}
+                      <FlashcardSource flashcard={flashcard} />
+                    </div>
                   </div>
                   
                   {isTopCard && (
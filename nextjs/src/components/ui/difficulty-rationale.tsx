@@ -0,0 +1,36 @@
+'use client';
+
+import React from 'react';
+import { TrendingDown, TrendingUp, Minus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { type DifficultySelection } from '@/lib/learning/adaptive-difficulty';
+import { type Difficulty } from '@/lib/learning/mastery';
+
+interface DifficultyRationaleProps {
+  selection?: DifficultySelection;
+  className?: string;
+}
+
+const DIFFICULTY_ORDER: Record<Difficulty, number> = { easy: 0, medium: 1, hard: 2 };
+
+// One-line explanation of why an assessment was generated at its difficulty level
+export function DifficultyRationale({ selection, className }: DifficultyRationaleProps) {
+  if (!selection) {
+    return null;
+  }
+
+  const change = DIFFICULTY_ORDER[selection.level] - DIFFICULTY_ORDER[selection.requested];
+  const Icon = change > 0 ? TrendingUp : change < 0 ? TrendingDown : Minus;
+
+  return (
+    <div
+      className={cn("flex items-center gap-1 text-xs text-muted-foreground", className)}
+      title={selection.accuracy !== null
+        ? `Based on ${selection.attempts} recent ${selection.attempts === 1 ? 'answer' : 'answers'}`
+        : 'Not enough recent answers to adapt yet'}
+    >
+      <Icon className="w-3 h-3 flex-shrink-0" />
+      <span>{selection.rationale}</span>
+    </div>
+  );
+}
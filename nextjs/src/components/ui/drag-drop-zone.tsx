@@ -4,7 +4,7 @@ import React, { useState, useCallback } from 'react'
 import { useDropzone } from 'react-dropzone'
 import { cn } from '@/lib/utils'
 import { Upload, FileIcon, X } from 'lucide-react'
-import { validateFileForTusUpload, formatFileSize } from '@/lib/utils/file-utils'
+import { validateFileForTusUpload, formatFileSize, getFileFolders } from '@/lib/utils/file-utils'
 
 interface DroppedFile {
   file: File
@@ -46,7 +46,8 @@ export function DragDropZone({
 
       acceptedFiles.forEach(file => {
         const validation = validateFileForTusUpload(file)
-        if (validation.valid) {
+        // Files of a dropped folder go through either way, so unsupported ones are reported as skipped
+        if (validation.valid || getFileFolders(file).length > 0) {
           validFiles.push(file)
         } else {
           invalidFiles.push({ file, error: validation.error || 'Validation failed' })
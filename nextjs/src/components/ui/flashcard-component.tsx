@@ -1,16 +1,18 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { MarkdownRenderer } from '@/lib/markdown-renderer';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Brain, ChevronLeft, ChevronRight, Bookmark, BookmarkCheck, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { type FlashcardSet, type Flashcard } from '@/lib/ai/lesson-schemas';
+import { SourceCitation } from '@/components/ui/source-citation';
+import { DifficultyRationale } from '@/components/ui/difficulty-rationale';
 
 interface FlashcardComponentProps {
   flashcardSet: FlashcardSet;
-  onAnswer?: (flashcardId: string, performance: 'got-it' | 'on-track' | 'unclear') => void;
+  onAnswer?: (flashcardId: string, performance: 'got-it' | 'on-track' | 'unclear', latencyMs: number) => void;
   onSave?: (flashcardId: string, shouldSave: boolean) => void;
   className?: string;
   lessonContext?: {
@@ -44,6 +46,8 @@ export function FlashcardComponent({
   const [isCompleted, setIsCompleted] = useState(initialIsCompleted);
   const [splitButton, setSplitButton] = useState<'got-it' | 'on-track' | 'unclear' | null>(null);
   const [isAnimating, setIsAnimating] = useState(false);
+  // When the current card was shown, for answer latency
+  const cardShownAtRef = useRef(Date.now());
 
   const currentFlashcard = flashcardSet.flashcards[currentIndex];
   const isFlipped = flippedCards.has(currentFlashcard.id);
@@ -53,6 +57,7 @@ export function FlashcardComponent({
   // Reset animation state when card changes
   useEffect(() => {
     resetAnimationState();
+    cardShownAtRef.current = Date.now();
   }, [currentIndex]);
 
 
@@ -93,7 +98,7 @@ export function FlashcardComponent({
       }));
 
       if (onAnswer) {
-        onAnswer(currentFlashcard.id, performanceLevel);
+        onAnswer(currentFlashcard.id, performanceLevel, Date.now() - cardShownAtRef.current);
       }
 
       // Always save the flashcard
@@ -255,6 +260,7 @@ export function FlashcardComponent({
             </div>
           </div>
         </div>
+        <DifficultyRationale selection={flashcardSet.difficultySelection} className="mt-1" />
       </CardHeader>
       
       <CardContent className="space-y-2">
@@ -295,6 +301,7 @@ export function FlashcardComponent({
                     {currentFlashcard.definition}
                   </MarkdownRenderer>
                 </div>
+                <SourceCitation source={currentFlashcard.source} className="mt-2" />
               </div>
             </div>
           </div>
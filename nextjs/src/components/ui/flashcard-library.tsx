@@ -5,11 +5,14 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Button } from '@/components/ui/button';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Brain, BookOpen, Filter, RefreshCw } from 'lucide-react';
+import { Brain, BookOpen, Filter, RefreshCw, Clock } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useGlobal } from '@/lib/context/GlobalContext';
-import { SavedFlashcard, getUserFlashcards, deleteFlashcard } from '@/lib/supabase/flashcards';
+import { SavedFlashcard, getUserFlashcards, deleteFlashcard, reviewFlashcard } from '@/lib/supabase/flashcards';
+import { isDue, type FlashcardPerformance } from '@/lib/learning/spaced-repetition';
 import { getUserCourses } from '@/lib/supabase/courses';
+import { recordAssessmentAttempts, FLASHCARD_PERFORMANCE_SCORES } from '@/lib/supabase/assessment-attempts';
+import type { Difficulty } from '@/lib/learning/mastery';
 import { CourseFlashcardGroup } from '@/components/ui/course-flashcard-group';
 import { FlashcardStudyMode } from '@/components/ui/flashcard-study-mode';
 import type { Database } from '@/lib/types';
@@ -40,6 +43,8 @@ export function FlashcardLibrary({ className = '' }: FlashcardLibraryProps) {
   // Study mode state
   const [studyModeOpen, setStudyModeOpen] = useState(false);
   const [studyFlashcards, setStudyFlashcards] = useState<SavedFlashcard[]>([]);
+  // 'review' presents the due queue and schedules each card from its rating
+  const [studyModeType, setStudyModeType] = useState<'browse' | 'review'>('browse');
 
   // Fetch data - only when user is authenticated
   const fetchData = useCallback(async () => {
@@ -157,9 +162,39 @@ export function FlashcardLibrary({ className = '' }: FlashcardLibraryProps) {
   // Study mode handlers
   const handleStudyMode = useCallback((flashcardsToStudy: SavedFlashcard[]) => {
     setStudyFlashcards(flashcardsToStudy);
+    setStudyModeType('browse');
     setStudyModeOpen(true);
   }, []);
 
+  const handleReviewMode = useCallback((dueFlashcards: SavedFlashcard[]) => {
+    setStudyFlashcards(dueFlashcards);
+    setStudyModeType('review');
+    setStudyModeOpen(true);
+  }, []);
+
+  // Save a review rating and keep the rescheduled card in local state. The rating also
+  // counts as an attempt on the card's topic, like a flashcard answered in a lesson.
+  const handleFlashcardReview = useCallback(async (flashcard: SavedFlashcard, performance: FlashcardPerformance) => {
+    try {
+      const updated = await reviewFlashcard(flashcard, performance);
+      if (updated) {
+        setFlashcards(prev => prev.map(fc => fc.id === updated.id ? updated : fc));
+        recordAssessmentAttempts([{
+          courseId: flashcard.course_id,
+          itemId: flashcard.id,
+          topic: flashcard.topic,
+          assessmentType: 'flashcard',
+          difficulty: flashcard.difficulty as Difficulty,
+          isCorrect: performance === 'got-it',
+          score: FLASHCARD_PERFORMANCE_SCORES[performance]
+        }]);
+      }
+    } catch (err) {
+      console.error('Error reviewing flashcard:', err);
+      setError('Failed to save your review. Please try again.');
+    }
+  }, []);
+
   const handleStudyModeClose = useCallback(() => {
     setStudyModeOpen(false);
     setStudyFlashcards([]);
@@ -174,6 +209,10 @@ export function FlashcardLibrary({ className = '' }: FlashcardLibraryProps) {
 
   const totalFlashcards = flashcards.length;
   const filteredTotal = Object.values(groupedFlashcards).reduce((sum, group) => sum + group.flashcards.length, 0);
+  const dueFlashcards = Object.values(groupedFlashcards)
+    .flatMap(group => group.flashcards)
+    .filter(fc => isDue(fc.due_at))
+    .sort((a, b) => a.due_at.localeCompare(b.due_at));
 
   // Show loading while authentication is being checked or data is being fetched
   if (authLoading || loading) {
@@ -256,16 +295,27 @@ export function FlashcardLibrary({ className = '' }: FlashcardLibraryProps) {
               </div>
 
               {filteredTotal > 0 && (
-                <Button
-                  onClick={() => {
-                    const allFiltered = Object.values(groupedFlashcards).flatMap(group => group.flashcards);
-                    handleStudyMode(allFiltered);
-                  }}
-                  className="gap-2"
-                >
-                  <BookOpen className="h-4 w-4" />
-                  Study All ({filteredTotal})
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => handleReviewMode(dueFlashcards)}
+                    disabled={dueFlashcards.length === 0}
+                    className="gap-2"
+                  >
+                    <Clock className="h-4 w-4" />
+                    Due today ({dueFlashcards.length})
+                  </Button>
+                  <Button
+                    onClick={() => {
+                      const allFiltered = Object.values(groupedFlashcards).flatMap(group => group.flashcards);
+                      handleStudyMode(allFiltered);
+                    }}
+                    className="gap-2"
+                  >
+                    <BookOpen className="h-4 w-4" />
+                    Study All ({filteredTotal})
+                  </Button>
+                </div>
               )}
             </div>
           )}
@@ -335,6 +385,8 @@ export function FlashcardLibrary({ className = '' }: FlashcardLibraryProps) {
         onClose={handleStudyModeClose}
         onFlashcardDelete={handleFlashcardDelete}
         deleting={deleting}
+        onReview={studyModeType === 'review' ? handleFlashcardReview : undefined}
+        title={studyModeType === 'review' ? 'Due Today' : 'Study Flashcards'}
       />
     </>
   );
@@ -5,10 +5,18 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { X, ChevronLeft, ChevronRight, RotateCcw, Trash2, Brain, ArrowUpDown } from 'lucide-react';
+import { X, ChevronLeft, ChevronRight, RotateCcw, Trash2, Brain, ArrowUpDown, CheckCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { SavedFlashcard } from '@/lib/supabase/flashcards';
+import { type FlashcardPerformance } from '@/lib/learning/spaced-repetition';
 import { MarkdownRenderer } from '@/lib/markdown-renderer';
+import { FlashcardSource } from '@/components/ui/source-citation';
+
+const REVIEW_OPTIONS: { performance: FlashcardPerformance; label: string; className: string }[] = [
+  { performance: 'unclear', label: 'Still unclear', className: 'bg-red-100 text-red-700 hover:bg-red-200 border border-red-300' },
+  { performance: 'on-track', label: 'On the right track', className: 'bg-orange-100 text-orange-700 hover:bg-orange-200 border border-orange-300' },
+  { performance: 'got-it', label: 'Got it!', className: 'bg-green-100 text-green-700 hover:bg-green-200 border border-green-300' }
+];
 
 interface FlashcardStudyModeProps {
   flashcards: SavedFlashcard[];
@@ -16,6 +24,9 @@ interface FlashcardStudyModeProps {
   onClose: () => void;
   onFlashcardDelete: (flashcardId: string) => void;
   deleting?: Set<string>;
+  // When set, cards are rated after flipping and the rating schedules the next review
+  onReview?: (flashcard: SavedFlashcard, performance: FlashcardPerformance) => void;
+  title?: string;
 }
 
 export function FlashcardStudyMode({
@@ -23,12 +34,15 @@ export function FlashcardStudyMode({
   isOpen,
   onClose,
   onFlashcardDelete,
-  deleting = new Set()
+  deleting = new Set(),
+  onReview,
+  title = 'Study Flashcards'
 }: FlashcardStudyModeProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [flippedCards, setFlippedCards] = useState<Set<string>>(new Set());
   const [studiedCards, setStudiedCards] = useState<Set<string>>(new Set());
   const [showDefinitionFirst, setShowDefinitionFirst] = useState(false);
+  const [reviewedCards, setReviewedCards] = useState<Set<string>>(new Set());
 
   // Reset state when dialog opens/closes or flashcards change
   useEffect(() => {
@@ -36,6 +50,7 @@ export function FlashcardStudyMode({
       setCurrentIndex(0);
       setFlippedCards(new Set());
       setStudiedCards(new Set());
+      setReviewedCards(new Set());
     }
   }, [isOpen, flashcards]);
 
@@ -114,6 +129,17 @@ export function FlashcardStudyMode({
     setStudiedCards(new Set());
   };
 
+  const handleReview = (performance: FlashcardPerformance) => {
+    if (!currentFlashcard || !onReview) return;
+
+    onReview(currentFlashcard, performance);
+    setReviewedCards(prev => new Set(prev).add(currentFlashcard.id));
+    goToNext();
+  };
+
+  const isReviewComplete = !!onReview && flashcards.length > 0 &&
+    flashcards.every(flashcard => reviewedCards.has(flashcard.id));
+
   const handleDelete = () => {
     if (!currentFlashcard) return;
     
@@ -131,7 +157,7 @@ export function FlashcardStudyMode({
       <Dialog open={isOpen} onOpenChange={onClose}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Study Flashcards</DialogTitle>
+            <DialogTitle>{title}</DialogTitle>
           </DialogHeader>
           <div className="text-center py-8">
             <Brain className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
@@ -142,6 +168,27 @@ export function FlashcardStudyMode({
     );
   }
 
+  // All cards in the review queue have been rated
+  if (isReviewComplete) {
+    return (
+      <Dialog open={isOpen} onOpenChange={onClose}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+          </DialogHeader>
+          <div className="text-center py-8">
+            <CheckCircle className="h-12 w-12 mx-auto text-green-600 mb-4" />
+            <p className="font-medium mb-1">All due cards reviewed</p>
+            <p className="text-sm text-muted-foreground mb-4">
+              {reviewedCards.size} {reviewedCards.size === 1 ? 'card' : 'cards'} rescheduled. Come back when more are due.
+            </p>
+            <Button variant="outline" onClick={onClose}>Close</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden">
@@ -149,7 +196,7 @@ export function FlashcardStudyMode({
           <div className="flex items-center gap-4">
             <DialogTitle className="flex items-center gap-2 flex-1">
               <Brain className="h-5 w-5" />
-              Study Flashcards
+              {title}
             </DialogTitle>
             
             {/* Toggle View Button */}
@@ -169,7 +216,7 @@ export function FlashcardStudyMode({
           <div className="space-y-2">
             <div className="flex justify-between text-sm text-muted-foreground">
               <span>{currentIndex + 1} of {flashcards.length}</span>
-              <span>{studiedCards.size} studied</span>
+              <span>{onReview ? `${reviewedCards.size} reviewed` : `${studiedCards.size} studied`}</span>
             </div>
             <Progress value={progress} className="h-2" />
           </div>
@@ -221,11 +268,14 @@ export function FlashcardStudyMode({
                       {showDefinitionFirst ? (currentFlashcard?.concept || '') : (currentFlashcard?.definition || '')}
                     </MarkdownRenderer>
                   </div>
-                  {currentFlashcard?.topic && (
-                    <div className="flex justify-center">
-                      <span className="inline-flex items-center rounded-md border border-input bg-background px-2 py-1 text-xs font-medium text-foreground">
-                        {currentFlashcard.topic}
-                      </span>
+                  {(currentFlashcard?.topic || currentFlashcard?.source_material) && (
+                    <div className="flex flex-wrap justify-center gap-1">
+                      {currentFlashcard.topic && (
+                        <span className="inline-flex items-center rounded-md border border-input bg-background px-2 py-1 text-xs font-medium text-foreground">
+                          {currentFlashcard.topic}
+                        </span>
+                      )}
+                      <FlashcardSource flashcard={currentFlashcard} />
                     </div>
                   )}
                 </div>
@@ -233,6 +283,24 @@ export function FlashcardStudyMode({
             </div>
           </div>
 
+          {/* Review rating - schedules the next review of this card */}
+          {onReview && currentFlashcard && (
+            <div className="grid grid-cols-3 gap-2">
+              {REVIEW_OPTIONS.map(option => (
+                <Button
+                  key={option.performance}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleReview(option.performance)}
+                  disabled={!studiedCards.has(currentFlashcard.id) || reviewedCards.has(currentFlashcard.id)}
+                  className={cn("text-xs font-medium", option.className)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          )}
+
           {/* Controls */}
           <div className="flex items-center justify-between gap-4">
             {/* Navigation */}
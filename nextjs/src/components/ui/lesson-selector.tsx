@@ -218,7 +218,7 @@ function AnimatedLessonCard({ lesson, isSelected, onSelect, onTitleUpdate }: Ani
             <h4 className="font-medium text-sm">{lesson.title}</h4>
           )}
           <div className="text-xs text-gray-500 mt-1">
-            {lesson.messages.length} messages
+            {lesson.message_count ?? lesson.messages.length} messages
           </div>
         </div>
         <div className="flex items-center gap-2">
@@ -0,0 +1,192 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { History, Loader2, Upload, ExternalLink } from 'lucide-react';
+import { uploadFileWithTus, validateFileForTusUpload } from '@/lib/supabase/tus-upload';
+import { getSignedMaterialUrl } from '@/lib/supabase/materials';
+import { formatFileSize } from '@/lib/utils/file-utils';
+import { sha256File } from '@/lib/utils/sha256';
+import type { MaterialVersionRow } from '@/lib/types';
+
+interface MaterialVersionsDialogProps {
+  material: { id: string; file_name: string; version?: number };
+  courseId: string;
+  // Names already used in the course, so the new file doesn't overwrite one in storage
+  existingFileNames: string[];
+  onReplaced: () => void;
+}
+
+// Version history of a material, with an upload that replaces the file in place
+export function MaterialVersionsDialog({ material, courseId, existingFileNames, onReplaced }: MaterialVersionsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [versions, setVersions] = useState<MaterialVersionRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadVersions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/materials/${material.id}/versions`);
+      if (response.ok) {
+        const data = await response.json();
+        setVersions(data.versions || []);
+      } else {
+        setError('Failed to load version history');
+      }
+    } catch (err) {
+      setError('Failed to load version history');
+      console.error('Error loading material versions:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [material.id]);
+
+  useEffect(() => {
+    if (open) {
+      setError('');
+      loadVersions();
+    }
+  }, [open, loadVersions]);
+
+  const openVersion = async (version: MaterialVersionRow) => {
+    const url = await getSignedMaterialUrl(version.file_path);
+    if (url) {
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } else {
+      setError(`Couldn't open version ${version.version}`);
+    }
+  };
+
+  const saveVersion = async (file: File, filePath: string) => {
+    const response = await fetch(`/api/materials/${material.id}/versions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        file_name: file.name,
+        file_path: filePath,
+        file_size: file.size,
+        mime_type: file.type,
+        sha256: await sha256File(file)
+      }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to save the new version');
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const validation = validateFileForTusUpload(file);
+    if (!validation.valid) {
+      setError(validation.error || 'File validation failed');
+      return;
+    }
+
+    setError('');
+    setUploadProgress(0);
+
+    const result = await uploadFileWithTus({
+      file,
+      courseId,
+      existingFileNames,
+      onProgress: (bytesUploaded, bytesTotal) => {
+        setUploadProgress(Math.round((bytesUploaded / bytesTotal) * 100));
+      },
+      onSuccess: async (filePath) => {
+        try {
+          await saveVersion(file, filePath);
+          await loadVersions();
+          onReplaced();
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'Failed to save the new version');
+        } finally {
+          setUploadProgress(null);
+        }
+      }
+    });
+
+    if (!result.success) {
+      setError(result.error || 'Upload failed');
+      setUploadProgress(null);
+    }
+  };
+
+  const uploading = uploadProgress !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Versions">
+          <History className="h-4 w-4" />
+          {material.version && material.version > 1 && (
+            <span className="ml-1 text-xs">v{material.version}</span>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Versions of {material.file_name}</DialogTitle>
+          <DialogDescription>
+            Uploading a new version replaces the file for future lessons. Lessons and flashcards keep
+            showing which version they were generated from.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          {loading && versions.length === 0 ? (
+            <div className="flex items-center justify-center py-6 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+          ) : (
+            versions.map(version => (
+              <div key={version.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">
+                    v{version.version} · {version.file_name}
+                    {!version.replaced_at && (
+                      <span className="ml-2 rounded-md bg-secondary px-2 py-0.5 text-xs text-secondary-foreground">Current</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(version.file_size)}
+                    {version.created_at && ` · ${new Date(version.created_at).toLocaleString()}`}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => openVersion(version)} title="Open">
+                  <ExternalLink className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {uploading && <Progress value={uploadProgress ?? 0} />}
+
+        <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileSelected} />
+        <Button onClick={() => fileInputRef.current?.click()} disabled={uploading} className="gap-2">
+          {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+          {uploading ? 'Uploading...' : 'Upload new version'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,454 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, BookOpen, ExternalLink, FileText, HelpCircle, Layers, Loader2, Play, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getMaterial, getSignedMaterialUrl } from '@/lib/supabase/materials';
+import { getMaterialChunks } from '@/lib/supabase/material-chunks';
+import { stripChunkOverlap } from '@/lib/ingestion/chunking';
+import { formatTimestamp } from '@/lib/ai/citations';
+import { type MaterialChunk, type MaterialSelection, type SelectionAction } from '@/lib/types';
+
+// A material to show, optionally at a page (or a time in a recording) and with a quoted passage (e.g. a citation)
+export interface MaterialViewerTarget {
+  materialId: string;
+  materialName: string;
+  pageNumber: number | null;
+  timestampSeconds?: number | null;
+  section?: string | null;
+  excerpt?: string;
+}
+
+interface MaterialViewerPanelProps {
+  // The material to show; the panel is closed when null
+  target: MaterialViewerTarget | null;
+  onClose: () => void;
+  // Other materials of the lesson, offered in a picker when given
+  materials?: Array<{ id: string; file_name: string }>;
+  onTargetChange?: (target: MaterialViewerTarget) => void;
+  // Called with a highlighted passage; the highlight toolbar is hidden when omitted
+  onAsk?: (selection: MaterialSelection) => void;
+  askDisabled?: boolean;
+  className?: string;
+}
+
+// A page's worth of text (or a transcript chunk) to display, with chunk overlaps removed
+interface TextSection {
+  page: number | null;
+  // Where a transcript chunk starts in the recording
+  start: number | null;
+  text: string;
+  // The section containing the target excerpt
+  highlighted: boolean;
+}
+
+interface ViewerState {
+  loading: boolean;
+  error: string;
+  url: string | null;
+  mimeType: string | null;
+  sections: TextSection[];
+}
+
+interface SelectionToolbar {
+  text: string;
+  pageNumber: number | null;
+  top: number;
+  left: number;
+}
+
+const EMPTY_STATE: ViewerState = { loading: false, error: '', url: null, mimeType: null, sections: [] };
+
+// Raw text files larger than this are shown from their extracted chunks instead
+const MAX_RAW_TEXT_BYTES = 1024 * 1024;
+
+const ASK_ACTIONS: Array<{ action: SelectionAction; label: string; icon: React.ElementType }> = [
+  { action: 'explain', label: 'Explain this', icon: HelpCircle },
+  { action: 'quiz', label: 'Quiz me on this', icon: BookOpen },
+  { action: 'flashcards', label: 'Make flashcards from this', icon: Layers }
+];
+
+function normalizeWhitespace(text: string) {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function isRawText(mimeType: string) {
+  return mimeType.startsWith('text/') || mimeType === 'application/json';
+}
+
+function isRecording(mimeType: string | null) {
+  return !!mimeType && (mimeType.startsWith('audio/') || mimeType.startsWith('video/'));
+}
+
+// Media fragment that starts playback at a time, understood by browsers' players
+function withStartTime(url: string, seconds: number | null | undefined) {
+  return typeof seconds === 'number' ? `${url}#t=${Math.floor(seconds)}` : url;
+}
+
+// Consecutive chunks of each page joined back into continuous text. Transcript chunks
+// stay separate so each keeps the time it starts at.
+function toSections(chunks: MaterialChunk[], excerpt?: string): TextSection[] {
+  const excerptStart = excerpt ? normalizeWhitespace(excerpt.replace(/…$/, '')).slice(0, 80) : '';
+  const sections: TextSection[] = [];
+  let previous: MaterialChunk | null = null;
+
+  for (const chunk of chunks) {
+    const highlighted = excerptStart.length > 0 && normalizeWhitespace(chunk.content).includes(excerptStart);
+    const last = sections[sections.length - 1];
+
+    if (chunk.start_seconds !== null) {
+      const text = previous ? stripChunkOverlap(previous.content, chunk.content) : chunk.content;
+      sections.push({ page: null, start: chunk.start_seconds, text, highlighted });
+    } else if (last && previous && previous.page_number === chunk.page_number) {
+      last.text += `\n\n${stripChunkOverlap(previous.content, chunk.content)}`;
+      last.highlighted ||= highlighted;
+    } else {
+      sections.push({ page: chunk.page_number, start: null, text: chunk.content, highlighted });
+    }
+    previous = chunk;
+  }
+
+  return sections;
+}
+
+// Side panel that shows a course material inside the lesson. Text can be highlighted to
+// ask the tutor about it; PDFs can switch between the original pages and their text.
+export function MaterialViewerPanel({
+  target,
+  onClose,
+  materials,
+  onTargetChange,
+  onAsk,
+  askDisabled = false,
+  className
+}: MaterialViewerPanelProps) {
+  const [state, setState] = useState<ViewerState>(EMPTY_STATE);
+  const [pdfMode, setPdfMode] = useState<'page' | 'text'>('page');
+  const [toolbar, setToolbar] = useState<SelectionToolbar | null>(null);
+  const textRef = useRef<HTMLDivElement>(null);
+  const mediaRef = useRef<HTMLMediaElement>(null);
+
+  const materialId = target?.materialId;
+  const excerpt = target?.excerpt;
+
+  useEffect(() => {
+    setToolbar(null);
+    if (!materialId) {
+      setState(EMPTY_STATE);
+      return;
+    }
+
+    let cancelled = false;
+    setState({ ...EMPTY_STATE, loading: true });
+
+    (async () => {
+      const material = await getMaterial(materialId);
+      if (!material) {
+        if (!cancelled) setState({ ...EMPTY_STATE, error: 'This material is no longer available' });
+        return;
+      }
+
+      const url = await getSignedMaterialUrl(material.file_path);
+      let sections: TextSection[] = [];
+
+      if (url && isRawText(material.mime_type) && material.file_size <= MAX_RAW_TEXT_BYTES) {
+        try {
+          const response = await fetch(url);
+          if (response.ok) {
+            sections = [{ page: null, start: null, text: await response.text(), highlighted: false }];
+          }
+        } catch (error) {
+          console.error('Error loading material text:', error);
+        }
+      }
+
+      if (sections.length === 0 && !material.mime_type.startsWith('image/')) {
+        sections = toSections(await getMaterialChunks(materialId), excerpt);
+      }
+
+      if (!cancelled) {
+        setState({
+          loading: false,
+          error: url ? '' : 'Could not open this material',
+          url,
+          mimeType: material.mime_type,
+          sections
+        });
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [materialId, excerpt]);
+
+  // Close on Escape like the other overlays
+  useEffect(() => {
+    if (!target) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [target, onClose]);
+
+  // Bring the target page, time or the cited passage into view once the text is shown
+  const pageNumber = target?.pageNumber ?? null;
+  const timestamp = target?.timestampSeconds ?? null;
+  const showingText = state.mimeType !== 'application/pdf' || pdfMode === 'text';
+  useEffect(() => {
+    if (!showingText || !textRef.current) return;
+    const timedSection = timestamp !== null
+      ? state.sections.filter(section => section.start !== null && section.start <= timestamp).pop()
+      : undefined;
+    const anchor = textRef.current.querySelector('[data-highlighted="true"]')
+      ?? (pageNumber !== null ? textRef.current.querySelector(`[data-page="${pageNumber}"]`) : null)
+      ?? (timedSection ? textRef.current.querySelector(`[data-start="${timedSection.start}"]`) : null);
+    anchor?.scrollIntoView({ block: 'start' });
+  }, [showingText, pageNumber, timestamp, state.sections]);
+
+  const seekTo = (seconds: number) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = seconds;
+    media.play().catch(() => {
+      // Autoplay may be blocked; the player stays at the new position
+    });
+  };
+
+  // Offer the ask actions next to a non-empty selection inside the text view
+  const updateToolbar = useCallback(() => {
+    const container = textRef.current;
+    const selection = window.getSelection();
+    if (!onAsk || !container || !selection || selection.isCollapsed || selection.rangeCount === 0) {
+      setToolbar(null);
+      return;
+    }
+
+    const range = selection.getRangeAt(0);
+    const text = selection.toString().trim();
+    if (!text || !container.contains(range.commonAncestorContainer)) {
+      setToolbar(null);
+      return;
+    }
+
+    const anchorElement = selection.anchorNode instanceof Element ? selection.anchorNode : selection.anchorNode?.parentElement;
+    const page = anchorElement?.closest('[data-page]')?.getAttribute('data-page');
+    const rect = range.getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+
+    setToolbar({
+      text,
+      pageNumber: page ? Number(page) : null,
+      top: rect.bottom - containerRect.top + container.scrollTop + 4,
+      left: Math.max(0, Math.min(rect.left - containerRect.left, containerRect.width - 220))
+    });
+  }, [onAsk]);
+
+  const ask = (action: SelectionAction) => {
+    if (!target || !toolbar || !onAsk) return;
+    onAsk({
+      action,
+      materialId: target.materialId,
+      materialName: target.materialName,
+      pageNumber: toolbar.pageNumber,
+      text: toolbar.text
+    });
+    window.getSelection()?.removeAllRanges();
+    setToolbar(null);
+  };
+
+  if (!target) {
+    return null;
+  }
+
+  // Browsers' PDF viewers understand #page=N
+  const pdfUrl = state.url && state.mimeType === 'application/pdf'
+    ? `${state.url}#page=${target.pageNumber ?? 1}`
+    : null;
+  const pageLabel = state.mimeType?.includes('presentation') ? 'Slide' : 'Page';
+  // Keyed by the start time so a second citation in the same recording starts from its time
+  const mediaUrl = state.url && isRecording(state.mimeType) ? withStartTime(state.url, target.timestampSeconds) : null;
+
+  return (
+    <aside
+      className={cn(
+        'fixed inset-y-0 right-0 z-40 flex w-full flex-col border-l bg-background shadow-lg sm:w-[32rem]',
+        className
+      )}
+      aria-label="Course material"
+    >
+      <div className="flex items-start justify-between gap-2 border-b p-4">
+        <div className="min-w-0 flex-1">
+          {materials && materials.length > 1 && onTargetChange ? (
+            <select
+              className="w-full truncate rounded-md border bg-background px-2 py-1 text-sm font-semibold"
+              value={target.materialId}
+              onChange={event => {
+                const material = materials.find(m => m.id === event.target.value);
+                if (material) {
+                  onTargetChange({ materialId: material.id, materialName: material.file_name, pageNumber: null });
+                }
+              }}
+            >
+              {materials.map(material => (
+                <option key={material.id} value={material.id}>{material.file_name}</option>
+              ))}
+            </select>
+          ) : (
+            <div className="flex items-center gap-2">
+              <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+              <h2 className="truncate text-sm font-semibold" title={target.materialName}>
+                {target.materialName}
+              </h2>
+            </div>
+          )}
+          <p className="mt-0.5 text-xs text-muted-foreground">
+            {[
+              target.pageNumber !== null ? `${pageLabel} ${target.pageNumber}` : null,
+              typeof target.timestampSeconds === 'number' ? `At ${formatTimestamp(target.timestampSeconds)}` : null,
+              target.section
+            ].filter(Boolean).join(' · ') || (onAsk ? 'Highlight text to ask the tutor about it' : 'Course material')}
+          </p>
+        </div>
+        <div className="flex flex-shrink-0 items-center gap-1">
+          {pdfUrl && (
+            <div className="mr-1 flex rounded-md border p-0.5 text-xs">
+              {(['page', 'text'] as const).map(mode => (
+                <button
+                  key={mode}
+                  type="button"
+                  className={cn('rounded px-2 py-0.5 capitalize', pdfMode === mode ? 'bg-muted font-medium' : 'text-muted-foreground')}
+                  onClick={() => setPdfMode(mode)}
+                  title={mode === 'text' ? 'Show the extracted text, which can be highlighted' : 'Show the original pages'}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+          )}
+          {state.url && (
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" asChild>
+              <a href={pdfUrl ?? mediaUrl ?? state.url} target="_blank" rel="noopener noreferrer" title="Open in new tab">
+                <ExternalLink className="h-4 w-4" />
+              </a>
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onClose} title="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {target.excerpt && (
+        <blockquote className="mx-4 mt-4 border-l-2 border-purple-300 pl-3 text-sm italic text-muted-foreground">
+          {target.excerpt}
+        </blockquote>
+      )}
+
+      <div className="flex-1 min-h-0 p-4">
+        {state.loading ? (
+          <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading material...
+          </div>
+        ) : state.error ? (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {state.error}
+          </div>
+        ) : pdfUrl && pdfMode === 'page' ? (
+          // Keyed by page so a second citation in the same file jumps to its page
+          <iframe key={pdfUrl} src={pdfUrl} title={target.materialName} className="h-full w-full rounded border" />
+        ) : state.url && state.mimeType?.startsWith('image/') ? (
+          <img src={state.url} alt={target.materialName} className="max-h-full max-w-full rounded border object-contain" />
+        ) : (
+          <div className="flex h-full flex-col gap-3">
+          {mediaUrl && (
+            state.mimeType?.startsWith('video/') ? (
+              <video
+                key={mediaUrl}
+                ref={mediaRef as React.RefObject<HTMLVideoElement>}
+                src={mediaUrl}
+                controls
+                className="max-h-[40%] w-full flex-shrink-0 rounded border bg-black"
+              />
+            ) : (
+              <audio
+                key={mediaUrl}
+                ref={mediaRef as React.RefObject<HTMLAudioElement>}
+                src={mediaUrl}
+                controls
+                className="w-full flex-shrink-0"
+              />
+            )
+          )}
+          <div
+            ref={textRef}
+            className="relative flex-1 min-h-0 space-y-4 overflow-y-auto text-sm"
+            onMouseUp={updateToolbar}
+            onKeyUp={updateToolbar}
+            onScroll={() => setToolbar(null)}
+          >
+            {state.sections.length > 0 ? (
+              state.sections.map((section, index) => (
+                <section
+                  key={`${section.page ?? section.start ?? 'text'}-${index}`}
+                  data-page={section.page ?? undefined}
+                  data-start={section.start ?? undefined}
+                  data-highlighted={section.highlighted || undefined}
+                  className={cn('rounded p-2', section.highlighted && 'bg-yellow-100 dark:bg-yellow-900/30')}
+                >
+                  {section.page !== null && (
+                    <h3 className="mb-1 text-xs font-medium text-muted-foreground">{pageLabel} {section.page}</h3>
+                  )}
+                  {section.start !== null && (
+                    <button
+                      type="button"
+                      className="mb-1 inline-flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground disabled:cursor-default"
+                      onClick={() => seekTo(section.start as number)}
+                      disabled={!mediaUrl}
+                      title="Play from here"
+                    >
+                      <Play className="h-3 w-3" />
+                      {formatTimestamp(section.start)}
+                    </button>
+                  )}
+                  <p className="whitespace-pre-wrap">{section.text}</p>
+                </section>
+              ))
+            ) : (
+              <p className="text-muted-foreground">
+                No text is available for this material yet. Use the open button to view the original file.
+              </p>
+            )}
+
+            {toolbar && (
+              <div
+                className="absolute z-10 flex flex-col rounded-md border bg-popover p-1 shadow-md"
+                style={{ top: toolbar.top, left: toolbar.left }}
+                // Keep the selection when a button is pressed
+                onMouseDown={event => event.preventDefault()}
+              >
+                {ASK_ACTIONS.map(({ action, label, icon: Icon }) => (
+                  <button
+                    key={action}
+                    type="button"
+                    className="flex items-center gap-2 rounded px-2 py-1 text-left text-xs hover:bg-muted disabled:opacity-50"
+                    onClick={() => ask(action)}
+                    disabled={askDisabled}
+                  >
+                    <Icon className="h-3 w-3" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+}
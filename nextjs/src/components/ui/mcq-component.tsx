@@ -1,16 +1,18 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { MarkdownRenderer } from '@/lib/markdown-renderer';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { CheckCircle, XCircle, HelpCircle, ChevronDown, ChevronUp } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { type MCQ, type MCQOption } from '@/lib/ai/lesson-schemas';
+import { SourceCitation } from '@/components/ui/source-citation';
+import { DifficultyRationale } from '@/components/ui/difficulty-rationale';
 
 interface MCQComponentProps {
   mcq: MCQ;
-  onAnswer?: (selectedOption: MCQOption, isCorrect: boolean) => void;
+  onAnswer?: (selectedOption: MCQOption, isCorrect: boolean, latencyMs: number) => void;
   className?: string;
   // New props for pre-filled state
   initialSelectedOptionId?: string | null;
@@ -30,6 +32,8 @@ export function MCQComponent({
   const [isSubmitted, setIsSubmitted] = useState(initialIsSubmitted);
   const [showExplanation, setShowExplanation] = useState(initialShowExplanation);
   const [isExplanationExpanded, setIsExplanationExpanded] = useState(false);
+  // When the question was shown, for answer latency
+  const shownAtRef = useRef(Date.now());
 
   const selectedOption = selectedOptionId 
     ? mcq.options.find(option => option.id === selectedOptionId)
@@ -51,7 +55,7 @@ export function MCQComponent({
     setShowExplanation(true);
     
     if (onAnswer) {
-      onAnswer(selectedOption, selectedOption.isCorrect);
+      onAnswer(selectedOption, selectedOption.isCorrect, Date.now() - shownAtRef.current);
     }
   };
 
@@ -149,11 +153,13 @@ export function MCQComponent({
             </div>
           </div>
         </div>
+        <DifficultyRationale selection={mcq.difficultySelection} className="mt-1" />
         <div className="text-sm font-medium text-foreground mt-1">
           <MarkdownRenderer variant="lesson">
             {mcq.question}
           </MarkdownRenderer>
         </div>
+        <SourceCitation source={mcq.source} className="mt-1 self-start" />
       </CardHeader>
       
       <CardContent className="space-y-3">
@@ -0,0 +1,74 @@
+'use client';
+
+import React from 'react';
+import { FileText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { type MaterialSource } from '@/lib/ai/lesson-schemas';
+import { formatTimestamp } from '@/lib/ai/citations';
+import { type SavedFlashcard } from '@/lib/supabase/flashcards';
+
+interface SourceCitationProps {
+  source?: MaterialSource;
+  className?: string;
+}
+
+// Small "where this came from" label for assessment items generated from course materials
+export function SourceCitation({ source, className }: SourceCitationProps) {
+  if (!source) {
+    return null;
+  }
+
+  const location = [
+    source.page ? `p. ${source.page}` : null,
+    source.timestampSeconds != null ? `at ${formatTimestamp(source.timestampSeconds)}` : null,
+    source.section || null
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div
+      className={cn(
+        "inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-purple-50 border border-purple-200 text-xs text-purple-700",
+        className
+      )}
+      title={source.materialName ? `Source: ${source.materialName}` : 'Source material'}
+    >
+      <FileText className="w-3 h-3 flex-shrink-0" />
+      <span className="font-medium truncate max-w-[12rem]">{source.materialName || 'Course material'}</span>
+      {source.materialVersion && <span className="text-purple-600">v{source.materialVersion}</span>}
+      {location && <span className="text-purple-600">{location}</span>}
+    </div>
+  );
+}
+
+interface FlashcardSourceProps {
+  flashcard: SavedFlashcard;
+  className?: string;
+}
+
+// The material version a saved flashcard was generated from, flagged when the material has a newer one
+export function FlashcardSource({ flashcard, className }: FlashcardSourceProps) {
+  if (!flashcard.source_material || !flashcard.source_material_version) {
+    return null;
+  }
+
+  const currentVersion = flashcard.source_material.version;
+  const outdated = currentVersion > flashcard.source_material_version;
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-md border px-2 py-1 text-xs font-medium",
+        outdated ? "border-amber-300 bg-amber-50 text-amber-700" : "border-input bg-background text-muted-foreground",
+        className
+      )}
+      title={outdated
+        ? `Generated from version ${flashcard.source_material_version}; the material is now on version ${currentVersion}`
+        : `Generated from version ${flashcard.source_material_version}`}
+    >
+      <FileText className="w-3 h-3 flex-shrink-0" />
+      <span className="truncate max-w-[10rem]">{flashcard.source_material.file_name}</span>
+      <span>v{flashcard.source_material_version}</span>
+      {outdated && <span>(now v{currentVersion})</span>}
+    </span>
+  );
+}
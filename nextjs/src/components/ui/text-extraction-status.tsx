@@ -0,0 +1,99 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle, Clock, FileText, Loader2, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { type TextExtractionStatus as Status } from '@/lib/types';
+import { formatTimestamp } from '@/lib/ai/citations';
+
+interface TextExtractionStatusProps {
+  status?: Status | null;
+  error?: string | null;
+  pageCount?: number | null;
+  // Length of a transcribed recording
+  durationSeconds?: number | null;
+  chunkCount?: number | null;
+  // Starts (or restarts) extraction; the action is hidden when omitted
+  onRetry?: () => void;
+  retrying?: boolean;
+  className?: string;
+}
+
+// One-line summary of a material's text extraction job for the materials list
+export function TextExtractionStatus({
+  status,
+  error,
+  pageCount,
+  durationSeconds,
+  chunkCount,
+  onRetry,
+  retrying = false,
+  className
+}: TextExtractionStatusProps) {
+  if (!status) {
+    return null;
+  }
+
+  const retryButton = (label: string) => onRetry && (
+    <button
+      type="button"
+      className="inline-flex items-center gap-1 text-xs text-primary hover:underline disabled:opacity-50 disabled:no-underline"
+      onClick={onRetry}
+      disabled={retrying}
+    >
+      {retrying ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+      {label}
+    </button>
+  );
+
+  switch (status) {
+    case 'pending':
+      return (
+        <div className={cn('flex items-center gap-2 text-xs text-muted-foreground', className)}>
+          <Clock className="w-3 h-3 flex-shrink-0" />
+          <span>Text not extracted yet</span>
+          {retryButton('Extract now')}
+        </div>
+      );
+    case 'processing':
+      return (
+        <div className={cn('flex items-center gap-2 text-xs text-muted-foreground', className)}>
+          <Loader2 className="w-3 h-3 flex-shrink-0 animate-spin" />
+          <span>Extracting text...</span>
+        </div>
+      );
+    case 'completed': {
+      const parts = [
+        pageCount ? `${pageCount} ${pageCount === 1 ? 'page' : 'pages'}` : null,
+        durationSeconds ? formatTimestamp(durationSeconds) : null,
+        `${chunkCount ?? 0} ${chunkCount === 1 ? 'passage' : 'passages'}`
+      ].filter(Boolean);
+      const transcribed = typeof durationSeconds === 'number';
+
+      return (
+        <div
+          className={cn('flex items-center gap-2 text-xs text-muted-foreground', className)}
+          title={chunkCount ? undefined : transcribed ? 'No speech was found in the recording' : 'No selectable text was found - scanned documents need OCR first'}
+        >
+          <FileText className="w-3 h-3 flex-shrink-0" />
+          <span>{chunkCount ? `${transcribed ? 'Transcribed' : 'Text extracted'}: ${parts.join(', ')}` : 'No text found'}</span>
+        </div>
+      );
+    }
+    case 'failed':
+      return (
+        <div className={cn('flex items-center gap-2 text-xs text-destructive', className)}>
+          <AlertCircle className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate" title={error || undefined}>Text extraction failed</span>
+          {retryButton('Retry')}
+        </div>
+      );
+    case 'unsupported':
+      return (
+        <div className={cn('flex items-center gap-2 text-xs text-muted-foreground', className)}>
+          <FileText className="w-3 h-3 flex-shrink-0" />
+          <span>No text extraction for this file type</span>
+        </div>
+      );
+  }
+}
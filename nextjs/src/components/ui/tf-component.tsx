@@ -1,16 +1,18 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { MarkdownRenderer } from '@/lib/markdown-renderer';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { CheckCircle, XCircle, HelpCircle, ChevronDown, ChevronUp } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { type TF, type TFStatement } from '@/lib/ai/lesson-schemas';
+import { SourceCitation } from '@/components/ui/source-citation';
+import { DifficultyRationale } from '@/components/ui/difficulty-rationale';
 
 interface TFComponentProps {
   tf: TF;
-  onAnswer?: (results: { statementId: string; isCorrect: boolean }[]) => void;
+  onAnswer?: (results: { statementId: string; isCorrect: boolean }[], latencyMs: number) => void;
   className?: string;
   // New props for pre-filled state
   initialSelectedAnswers?: Record<string, boolean>;
@@ -30,6 +32,8 @@ export function TFComponent({
   const [isSubmitted, setIsSubmitted] = useState(initialIsSubmitted);
   const [showExplanation, setShowExplanation] = useState(initialShowExplanation);
   const [isExplanationExpanded, setIsExplanationExpanded] = useState(false);
+  // When the statements were shown, for answer latency
+  const shownAtRef = useRef(Date.now());
 
   // Check if all statements have been answered
   const allAnswered = tf.statements.every(statement => 
@@ -57,7 +61,7 @@ export function TFComponent({
         statementId: statement.id,
         isCorrect: selectedAnswers[statement.id] === statement.isTrue
       }));
-      onAnswer(results);
+      onAnswer(results, Date.now() - shownAtRef.current);
     }
   };
 
@@ -188,6 +192,7 @@ export function TFComponent({
             </div>
           </div>
         </div>
+        <DifficultyRationale selection={tf.difficultySelection} className="mt-1" />
         <CardDescription className="text-sm text-muted-foreground">
           Determine whether each statement is true or false
         </CardDescription>
@@ -205,6 +210,7 @@ export function TFComponent({
                   <MarkdownRenderer variant="lesson">
                     {statement.text}
                   </MarkdownRenderer>
+                  <SourceCitation source={statement.source} className="mt-1" />
                 </div>
               </div>
               
@@ -18,6 +18,8 @@ export interface TopicCardProps {
     file_size: number;
     created_at: string;
   }>;
+  prerequisites?: string[];
+  subtopicCount?: number;
   onEdit?: () => void;
   onDelete?: () => void;
   className?: string;
@@ -29,6 +31,8 @@ export function TopicCard({
   name,
   materialCount,
   materials = [],
+  prerequisites = [],
+  subtopicCount = 0,
   onEdit,
   onDelete,
   className,
@@ -84,11 +88,21 @@ export function TopicCard({
             )}
           </div>
         </div>
-        <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
           <Badge variant="secondary" className="text-xs">
             {materialCount} material{materialCount !== 1 ? 's' : ''}
           </Badge>
+          {subtopicCount > 0 && (
+            <Badge variant="outline" className="text-xs">
+              {subtopicCount} sub-topic{subtopicCount !== 1 ? 's' : ''}
+            </Badge>
+          )}
         </div>
+        {prerequisites.length > 0 && (
+          <p className="text-xs text-muted-foreground line-clamp-2" title={prerequisites.join(', ')}>
+            Requires: {prerequisites.join(', ')}
+          </p>
+        )}
       </CardHeader>
 
       {(isOver || isDragOver) && (
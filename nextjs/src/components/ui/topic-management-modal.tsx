@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -23,6 +23,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Loader2, Trash2 } from 'lucide-react';
+import { Topic } from '@/lib/types';
+import { getDescendantIds } from '@/lib/learning/topic-tree';
 
 export interface TopicManagementModalProps {
   isOpen: boolean;
@@ -30,6 +32,10 @@ export interface TopicManagementModalProps {
   courseId: string;
   topicId?: string;
   initialTopicName?: string;
+  initialParentId?: string | null;
+  initialPrerequisiteIds?: string[];
+  // Other topics in the course, offered as parent and prerequisite choices
+  topics?: Topic[];
   mode: 'create' | 'edit';
   onTopicSaved: () => void;
 }
@@ -40,10 +46,15 @@ export function TopicManagementModal({
   courseId,
   topicId,
   initialTopicName = '',
+  initialParentId = null,
+  initialPrerequisiteIds = [],
+  topics = [],
   mode,
   onTopicSaved,
 }: TopicManagementModalProps) {
   const [topicName, setTopicName] = useState(initialTopicName);
+  const [parentId, setParentId] = useState<string | null>(initialParentId);
+  const [prerequisiteIds, setPrerequisiteIds] = useState<string[]>(initialPrerequisiteIds);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -51,10 +62,30 @@ export function TopicManagementModal({
   useEffect(() => {
     if (isOpen) {
       setTopicName(initialTopicName);
+      setParentId(initialParentId);
+      setPrerequisiteIds(initialPrerequisiteIds);
       setError('');
     }
   }, [isOpen, initialTopicName]);
 
+  // A topic cannot sit under itself or one of its own sub-topics
+  const parentOptions = useMemo(() => {
+    if (!topicId) return topics;
+    const descendantIds = getDescendantIds(topics, topicId);
+    return topics.filter(topic => topic.id !== topicId && !descendantIds.has(topic.id));
+  }, [topics, topicId]);
+
+  const prerequisiteOptions = useMemo(
+    () => topics.filter(topic => topic.id !== topicId),
+    [topics, topicId]
+  );
+
+  const togglePrerequisite = (id: string) => {
+    setPrerequisiteIds(current =>
+      current.includes(id) ? current.filter(existing => existing !== id) : [...current, id]
+    );
+  };
+
   const handleSave = async () => {
     if (!topicName.trim()) {
       setError('Topic name is required');
@@ -72,8 +103,8 @@ export function TopicManagementModal({
       const method = mode === 'create' ? 'POST' : 'PUT';
       
       const body = mode === 'create' 
-        ? { name: topicName.trim() }
-        : { topicId, name: topicName.trim() };
+        ? { name: topicName.trim(), parentId, prerequisiteIds }
+        : { topicId, name: topicName.trim(), parentId, prerequisiteIds };
 
       const response = await fetch(url, {
         method,
@@ -140,7 +171,7 @@ export function TopicManagementModal({
             <DialogDescription>
               {mode === 'create' 
                 ? 'Create a new topic to organize your materials.'
-                : 'Update the topic name or delete the topic.'}
+                : 'Update the topic name, its place in the hierarchy and its prerequisites, or delete the topic.'}
             </DialogDescription>
           </DialogHeader>
 
@@ -160,6 +191,49 @@ export function TopicManagementModal({
                 <p className="text-sm text-destructive">{error}</p>
               )}
             </div>
+
+            {topics.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="topic-parent">Parent Topic</Label>
+                <select
+                  id="topic-parent"
+                  value={parentId ?? ''}
+                  onChange={(e) => setParentId(e.target.value || null)}
+                  disabled={loading}
+                  className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <option value="">None (top-level topic)</option>
+                  {parentOptions.map((topic) => (
+                    <option key={topic.id} value={topic.id}>
+                      {topic.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {prerequisiteOptions.length > 0 && (
+              <div className="space-y-2">
+                <Label>Prerequisites</Label>
+                <p className="text-xs text-muted-foreground">
+                  Topics a student should understand before this one.
+                </p>
+                <div className="max-h-40 overflow-y-auto space-y-1 rounded-md border p-2">
+                  {prerequisiteOptions.map((topic) => (
+                    <label key={topic.id} className="flex items-center space-x-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={prerequisiteIds.includes(topic.id)}
+                        onChange={() => togglePrerequisite(topic.id)}
+                        disabled={loading}
+                        className="h-4 w-4"
+                      />
+                      <span className="truncate">{topic.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
 
           <DialogFooter className="flex-col sm:flex-row gap-2">
@@ -212,6 +286,7 @@ export function TopicManagementModal({
             <AlertDialogDescription>
               Are you sure you want to delete "{topicName}"? This will remove the topic 
               from all materials, but the materials themselves will not be deleted.
+              Its sub-topics will move to the top level.
               This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
@@ -1,14 +1,18 @@
 'use client'
 
-import React, { useState, useEffect, useRef } from 'react'
+import React, { useState, useEffect, useRef, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { AnimatedButton } from '@/components/ui/animated-button'
-import { Check, Tag, BookOpen } from 'lucide-react'
+import { Check, Tag, BookOpen, GitBranch } from 'lucide-react'
+import { buildTopicTree, collectPrerequisiteNames, flattenTopicTree, getDescendantIds } from '@/lib/learning/topic-tree'
 
 interface Topic {
+  id: string
   name: string
   materialCount: number
+  parentId?: string | null
+  prerequisiteIds?: string[]
 }
 
 interface TopicSelectorProps {
@@ -16,17 +20,22 @@ interface TopicSelectorProps {
   courseName?: string
   selectedTopics: string[]
   onTopicsChange: (topics: string[]) => void
+  // When given, an "Include prerequisites" option is shown with the topics it would add
+  includePrerequisites?: boolean
+  onIncludePrerequisitesChange?: (include: boolean) => void
   className?: string
 }
 
 // Animated Topic Row Component
 interface AnimatedTopicRowProps {
   topic: Topic;
+  depth: number;
+  prerequisiteNames: string[];
   isSelected: boolean;
   onToggle: () => void;
 }
 
-function AnimatedTopicRow({ topic, isSelected, onToggle }: AnimatedTopicRowProps) {
+function AnimatedTopicRow({ topic, depth, prerequisiteNames, isSelected, onToggle }: AnimatedTopicRowProps) {
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const [isHovered, setIsHovered] = useState(false);
   const [isClicked, setIsClicked] = useState(false);
@@ -79,6 +88,7 @@ function AnimatedTopicRow({ topic, isSelected, onToggle }: AnimatedTopicRowProps
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
       onClick={handleClick}
+      style={{ marginLeft: depth * 24 }}
     >
       {/* Hover glow effect - matching sidebar navigation subtlety */}
       {isHovered && (
@@ -130,6 +140,11 @@ function AnimatedTopicRow({ topic, isSelected, onToggle }: AnimatedTopicRowProps
             {topic.materialCount} material{topic.materialCount !== 1 ? 's' : ''}
           </span>
         </div>
+        {prerequisiteNames.length > 0 && (
+          <p className="text-xs text-muted-foreground truncate">
+            Requires: {prerequisiteNames.join(', ')}
+          </p>
+        )}
       </div>
       {isSelected && (
         <Check className="h-4 w-4 text-primary flex-shrink-0 relative z-10" />
@@ -143,6 +158,8 @@ export function TopicSelector({
   courseName,
   selectedTopics,
   onTopicsChange,
+  includePrerequisites,
+  onIncludePrerequisitesChange,
   className = ''
 }: TopicSelectorProps) {
   const [topics, setTopics] = useState<Topic[]>([])
@@ -169,14 +186,25 @@ export function TopicSelector({
     }
   }
 
-  const handleTopicToggle = (topicName: string) => {
-    const newTopics = selectedTopics.includes(topicName)
-      ? selectedTopics.filter(t => t !== topicName)
-      : [...selectedTopics, topicName]
+  // Toggling a unit toggles its sub-topics with it
+  const handleTopicToggle = (topic: Topic) => {
+    const descendantIds = getDescendantIds(topics, topic.id)
+    const names = [topic.name, ...topics.filter(t => descendantIds.has(t.id)).map(t => t.name)]
+
+    const newTopics = selectedTopics.includes(topic.name)
+      ? selectedTopics.filter(t => !names.includes(t))
+      : [...selectedTopics, ...names.filter(name => !selectedTopics.includes(name))]
     
     onTopicsChange(newTopics)
   }
 
+  const topicRows = useMemo(() => flattenTopicTree(buildTopicTree(topics)), [topics])
+  const topicNamesById = useMemo(() => new Map(topics.map(t => [t.id, t.name])), [topics])
+  const prerequisitePreview = useMemo(
+    () => collectPrerequisiteNames(topics, selectedTopics),
+    [topics, selectedTopics]
+  )
+
   const handleSelectAll = () => {
     if (selectedTopics.length === topics.length) {
       // Deselect all
@@ -282,22 +310,52 @@ export function TopicSelector({
           </div>
         </div>
 
-        {/* Topic List */}
+        {/* Topic Tree */}
         <div className="space-y-1">
-          {topics.map((topic) => {
+          {topicRows.map(({ topic, depth }) => {
             const isSelected = selectedTopics.includes(topic.name)
+            const prerequisiteNames = (topic.prerequisiteIds || [])
+              .map(id => topicNamesById.get(id))
+              .filter((name): name is string => Boolean(name))
             
             return (
               <AnimatedTopicRow
-                key={topic.name}
+                key={topic.id}
                 topic={topic}
+                depth={depth}
+                prerequisiteNames={prerequisiteNames}
                 isSelected={isSelected}
-                onToggle={() => handleTopicToggle(topic.name)}
+                onToggle={() => handleTopicToggle(topic)}
               />
             )
           })}
         </div>
 
+        {/* Include Prerequisites */}
+        {onIncludePrerequisitesChange && (
+          <label className="mt-2 flex items-start space-x-3 p-3 rounded-lg border border-border cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includePrerequisites ?? false}
+              onChange={(e) => onIncludePrerequisitesChange(e.target.checked)}
+              className="h-4 w-4 mt-0.5"
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-2">
+                <GitBranch className="h-4 w-4 text-muted-foreground" />
+                <span className="font-medium text-sm">Include prerequisites</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {selectedTopics.length === 0
+                  ? 'Select topics to see which foundational topics the tutor will check first.'
+                  : prerequisitePreview.length > 0
+                    ? `The tutor will check these first: ${prerequisitePreview.join(', ')}`
+                    : 'The selected topics have no prerequisites.'}
+              </p>
+            </div>
+          </label>
+        )}
+
         {/* Selection Summary */}
         {selectedTopics.length > 0 && (
           <div className="mt-2 p-3 bg-muted rounded-lg">
@@ -0,0 +1,261 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Check, X, Sparkles, Loader2, AlertCircle, RotateCcw, FileIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { TopicExtractionState, TopicSuggestion } from '@/lib/types';
+
+export interface TopicSuggestionsPanelProps {
+  courseId: string;
+  // Called after suggestions are accepted so topics and materials can be reloaded
+  onSuggestionsAccepted: () => void;
+  className?: string;
+}
+
+// How often to check on materials that are still being analyzed
+const POLL_INTERVAL_MS = 5000;
+
+function confidenceClass(confidence: number) {
+  if (confidence >= 0.8) return 'bg-green-100 text-green-800 border-green-200';
+  if (confidence >= 0.5) return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+  return 'bg-gray-100 text-gray-700 border-gray-200';
+}
+
+export function TopicSuggestionsPanel({
+  courseId,
+  onSuggestionsAccepted,
+  className
+}: TopicSuggestionsPanelProps) {
+  const [suggestions, setSuggestions] = useState<TopicSuggestion[]>([]);
+  const [extractions, setExtractions] = useState<TopicExtractionState[]>([]);
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState('');
+
+  const fetchSuggestions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/courses/${courseId}/topic-suggestions`);
+      if (response.ok) {
+        const data = await response.json();
+        setSuggestions(data.suggestions || []);
+        setExtractions(data.extractions || []);
+      }
+    } catch (err) {
+      console.error('Error fetching topic suggestions:', err);
+    }
+  }, [courseId]);
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [fetchSuggestions]);
+
+  const analyzing = extractions.filter(e => e.status === 'pending' || e.status === 'processing');
+  const failed = extractions.filter(e => e.status === 'failed');
+
+  // Keep polling while any material is still being analyzed
+  useEffect(() => {
+    if (analyzing.length === 0) return;
+    const timer = setTimeout(fetchSuggestions, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [analyzing.length, extractions, fetchSuggestions]);
+
+  const suggestionsByMaterial = useMemo(() => {
+    const groups = new Map<string, { materialName: string; suggestions: TopicSuggestion[] }>();
+    suggestions.forEach(suggestion => {
+      const group = groups.get(suggestion.materialId) ?? { materialName: suggestion.materialName, suggestions: [] };
+      group.suggestions.push(suggestion);
+      groups.set(suggestion.materialId, group);
+    });
+    return Array.from(groups.entries());
+  }, [suggestions]);
+
+  const resolveSuggestions = async (suggestionIds: string[], action: 'accept' | 'reject') => {
+    setBusyIds(prev => new Set([...prev, ...suggestionIds]));
+    setError('');
+
+    try {
+      const response = await fetch(`/api/courses/${courseId}/topic-suggestions`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ suggestionIds, action })
+      });
+      const data = await response.json();
+
+      if (!response.ok && !data.resolved) {
+        setError(data.error || data.failed?.[0]?.error || `Failed to ${action} suggestion`);
+      } else if (data.failed?.length > 0) {
+        setError(`${data.failed.length} suggestion(s) could not be updated`);
+      }
+
+      if (action === 'accept' && data.resolved > 0) {
+        onSuggestionsAccepted();
+      }
+    } catch (err) {
+      setError(`Failed to ${action} suggestion`);
+      console.error(`Error trying to ${action} topic suggestions:`, err);
+    } finally {
+      setBusyIds(prev => {
+        const next = new Set(prev);
+        suggestionIds.forEach(id => next.delete(id));
+        return next;
+      });
+      fetchSuggestions();
+    }
+  };
+
+  const retryExtraction = async (materialId: string) => {
+    try {
+      setError('');
+      const response = await fetch(`/api/courses/${courseId}/topic-suggestions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ materialId })
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to restart topic extraction');
+      }
+    } catch (err) {
+      setError('Failed to restart topic extraction');
+      console.error('Error restarting topic extraction:', err);
+    } finally {
+      fetchSuggestions();
+    }
+  };
+
+  if (suggestions.length === 0 && analyzing.length === 0 && failed.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={cn('border-primary/20 bg-primary/5', className)}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Sparkles className="h-4 w-4 text-primary" />
+          Suggested Topics
+        </CardTitle>
+        <CardDescription>
+          Topics found in your uploaded materials. Accept a suggestion to tag the material
+          (new topics are created for you) or reject it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <p className="text-sm text-destructive">{error}</p>
+        )}
+
+        {analyzing.length > 0 && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Analyzing {analyzing.length === 1 ? analyzing[0].materialName : `${analyzing.length} materials`}...
+          </div>
+        )}
+
+        {failed.map(extraction => (
+          <div key={extraction.materialId} className="flex items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2 min-w-0 text-destructive">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span className="truncate" title={extraction.error || undefined}>
+                Couldn&apos;t analyze {extraction.materialName}
+              </span>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => retryExtraction(extraction.materialId)}>
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Retry
+            </Button>
+          </div>
+        ))}
+
+        {suggestionsByMaterial.map(([materialId, group]) => {
+          const groupIds = group.suggestions.map(s => s.id);
+          const groupBusy = groupIds.some(id => busyIds.has(id));
+
+          return (
+            <div key={materialId} className="space-y-2 rounded-lg border bg-background p-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <FileIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <span className="text-sm font-medium truncate" title={group.materialName}>
+                    {group.materialName}
+                  </span>
+                </div>
+                {group.suggestions.length > 1 && (
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={groupBusy}
+                      onClick={() => resolveSuggestions(groupIds, 'accept')}
+                    >
+                      Accept all
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={groupBusy}
+                      onClick={() => resolveSuggestions(groupIds, 'reject')}
+                    >
+                      Reject all
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {group.suggestions.map(suggestion => {
+                const busy = busyIds.has(suggestion.id);
+
+                return (
+                  <div key={suggestion.id} className="flex items-start justify-between gap-3 pl-6">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium">{suggestion.topicName}</span>
+                        {suggestion.parentTopicName && (
+                          <span className="text-xs text-muted-foreground">in {suggestion.parentTopicName}</span>
+                        )}
+                        <Badge variant="outline" className={cn('text-xs', confidenceClass(suggestion.confidence))}>
+                          {Math.round(suggestion.confidence * 100)}%
+                        </Badge>
+                        {suggestion.isNewTopic && (
+                          <Badge variant="secondary" className="text-xs">New topic</Badge>
+                        )}
+                      </div>
+                      {suggestion.reason && (
+                        <p className="text-xs text-muted-foreground mt-0.5">{suggestion.reason}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-green-700 hover:text-green-800"
+                        disabled={busy}
+                        onClick={() => resolveSuggestions([suggestion.id], 'accept')}
+                        title="Accept suggestion"
+                      >
+                        {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <Check className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                        disabled={busy}
+                        onClick={() => resolveSuggestions([suggestion.id], 'reject')}
+                        title="Reject suggestion"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
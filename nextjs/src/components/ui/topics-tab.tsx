@@ -7,10 +7,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { TopicCard } from '@/components/ui/topic-card';
 import { TopicManagementModal } from '@/components/ui/topic-management-modal';
+import { TopicSuggestionsPanel } from '@/components/ui/topic-suggestions-panel';
 import { DraggableMaterialItem } from '@/components/ui/draggable-material-item';
 import { Plus, FolderOpen, Users, CheckCircle2, FileIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Topic } from '@/lib/types';
+import { buildTopicTree, TopicTreeNode } from '@/lib/learning/topic-tree';
 
 interface Material {
   id: string;
@@ -48,7 +50,7 @@ export function TopicsTab({
   className
 }: TopicsTabProps) {
   const [showTopicModal, setShowTopicModal] = useState(false);
-  const [editingTopic, setEditingTopic] = useState<{ id: string; name: string } | null>(null);
+  const [editingTopic, setEditingTopic] = useState<Topic | null>(null);
   const [activeId, setActiveId] = useState<string | null>(null);
   const [showAllMaterials, setShowAllMaterials] = useState(false);
 
@@ -83,6 +85,10 @@ export function TopicsTab({
     };
   }, [topics, materials, showAllMaterials]);
 
+  // Units with their sub-topics nested beneath them
+  const topicTree = useMemo(() => buildTopicTree(topicsWithMaterials), [topicsWithMaterials]);
+  const topicNamesById = useMemo(() => new Map(topics.map(topic => [topic.id, topic.name])), [topics]);
+
   const handleDragStart = (event: DragStartEvent) => {
     setActiveId(event.active.id as string);
   };
@@ -121,11 +127,39 @@ export function TopicsTab({
     setShowTopicModal(true);
   };
 
-  const handleEditTopic = (topicId: string, topicName: string) => {
-    setEditingTopic({ id: topicId, name: topicName });
+  const handleEditTopic = (topic: Topic) => {
+    setEditingTopic(topic);
     setShowTopicModal(true);
   };
 
+  const renderTopicBranch = (node: TopicTreeNode<Topic & { materials: Material[] }>): React.ReactNode => {
+    const { topic, children } = node;
+    const card = (
+      <TopicCard
+        key={topic.id}
+        id={topic.id}
+        name={topic.name}
+        materialCount={topic.materials?.length || 0}
+        materials={topic.materials}
+        prerequisites={(topic.prerequisiteIds || []).flatMap(id => topicNamesById.get(id) ?? [])}
+        subtopicCount={children.length}
+        onEdit={() => handleEditTopic(topic)}
+        onDelete={() => handleEditTopic(topic)} // Will open modal in edit mode with delete option
+      />
+    );
+
+    if (children.length === 0) return card;
+
+    return (
+      <div key={topic.id} className="w-full space-y-4">
+        {card}
+        <div className="ml-6 pl-4 border-l-2 border-border/60 flex flex-wrap gap-4">
+          {children.map(renderTopicBranch)}
+        </div>
+      </div>
+    );
+  };
+
   const draggedMaterial = useMemo(() => {
     if (!activeId || !activeId.startsWith('material-')) return null;
     const materialId = activeId.replace('material-', '');
@@ -173,6 +207,9 @@ export function TopicsTab({
         </div>
       </div>
 
+      {/* Topics proposed from uploaded materials */}
+      <TopicSuggestionsPanel courseId={courseId} onSuggestionsAccepted={onRefresh} />
+
       <DndContext
         onDragStart={handleDragStart}
         onDragEnd={handleDragEnd}
@@ -185,17 +222,7 @@ export function TopicsTab({
               Topics ({topics.length})
             </h4>
             <div className="flex flex-wrap gap-4">
-              {topicsWithMaterials.map((topic) => (
-                <TopicCard
-                  key={topic.id}
-                  id={topic.id}
-                  name={topic.name}
-                  materialCount={topic.materials?.length || 0}
-                  materials={topic.materials}
-                  onEdit={() => handleEditTopic(topic.id, topic.name)}
-                  onDelete={() => handleEditTopic(topic.id, topic.name)} // Will open modal in edit mode with delete option
-                />
-              ))}
+              {topicTree.map(renderTopicBranch)}
             </div>
           </div>
         ) : (
@@ -322,6 +349,9 @@ export function TopicsTab({
         courseId={courseId}
         topicId={editingTopic?.id}
         initialTopicName={editingTopic?.name}
+        initialParentId={editingTopic?.parentId ?? null}
+        initialPrerequisiteIds={editingTopic?.prerequisiteIds ?? []}
+        topics={topics}
         mode={editingTopic ? 'edit' : 'create'}
         onTopicSaved={() => {
           onRefresh();
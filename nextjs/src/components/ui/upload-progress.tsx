@@ -15,10 +15,12 @@ import {
   CheckCircle, 
   AlertCircle, 
   FileIcon,
-  Loader2 
+  Loader2,
+  MinusCircle
 } from 'lucide-react'
 import { UploadQueueItem } from '@/hooks/use-tus-upload'
 import { formatFileSize } from '@/lib/utils/file-utils'
+import type { MaterialImportResult, MaterialImportStatus } from '@/lib/types'
 
 interface UploadProgressProps {
   uploadQueue: UploadQueueItem[]
@@ -40,6 +42,60 @@ interface UploadItemProps {
   compact?: boolean
 }
 
+const IMPORT_STATUS_LABELS: Record<MaterialImportStatus, string> = {
+  imported: 'Imported',
+  unsupported: 'Skipped (unsupported)',
+  duplicate: 'Skipped (duplicate)',
+  failed: 'Failed'
+}
+
+const IMPORT_STATUS_COLORS: Record<MaterialImportStatus, string> = {
+  imported: 'text-green-600',
+  unsupported: 'text-gray-500',
+  duplicate: 'text-yellow-600',
+  failed: 'text-red-600'
+}
+
+// "12 imported, 3 unsupported, 1 duplicate"
+function summarizeImport(results: MaterialImportResult[]): string {
+  const counts = results.reduce<Partial<Record<MaterialImportStatus, number>>>((acc, result) => {
+    acc[result.status] = (acc[result.status] ?? 0) + 1
+    return acc
+  }, {})
+
+  return [
+    `${counts.imported ?? 0} imported`,
+    counts.unsupported ? `${counts.unsupported} unsupported` : null,
+    counts.duplicate ? `${counts.duplicate} ${counts.duplicate === 1 ? 'duplicate' : 'duplicates'}` : null,
+    counts.failed ? `${counts.failed} failed` : null
+  ].filter(Boolean).join(', ')
+}
+
+/**
+ * What happened to each file of a ZIP or folder upload. A single imported file needs no list.
+ */
+const ImportResults = memo(function ImportResults({ results }: { results: MaterialImportResult[] }) {
+  if (results.length === 1 && results[0].status === 'imported') {
+    return null
+  }
+
+  return (
+    <ul className="mt-2 max-h-40 overflow-y-auto space-y-1 text-xs" aria-label="Imported files">
+      {results.map((result, index) => (
+        <li key={`${result.path}-${index}`} className="flex items-center justify-between gap-2">
+          <span className="truncate text-gray-700" title={result.path}>
+            {result.path}
+            {result.topic && <span className="text-gray-500"> → {result.topic}</span>}
+          </span>
+          <span className={cn('flex-shrink-0', IMPORT_STATUS_COLORS[result.status])} title={result.reason}>
+            {IMPORT_STATUS_LABELS[result.status]}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+})
+
 const UploadItem = memo(function UploadItem({ 
   item, 
   onPause, 
@@ -56,6 +112,10 @@ const UploadItem = memo(function UploadItem({
         return <AlertCircle className="h-5 w-5 text-red-500" aria-label="Upload failed" />
       case 'uploading':
         return <Loader2 className="h-5 w-5 text-blue-500 animate-spin" aria-label="Uploading" />
+      case 'importing':
+        return <Loader2 className="h-5 w-5 text-blue-500 animate-spin" aria-label="Importing" />
+      case 'skipped':
+        return <MinusCircle className="h-5 w-5 text-gray-400" aria-label="Skipped" />
       case 'paused':
         return <Pause className="h-5 w-5 text-yellow-500" aria-label="Upload paused" />
       default:
@@ -69,10 +129,14 @@ const UploadItem = memo(function UploadItem({
         return 'Waiting...'
       case 'uploading':
         return `Uploading... ${item.progress}%`
+      case 'importing':
+        return 'Importing...'
       case 'completed':
-        return 'Complete'
+        return item.importResults ? `Complete: ${summarizeImport(item.importResults)}` : 'Complete'
       case 'error':
         return `Error: ${item.error}`
+      case 'skipped':
+        return `Skipped: ${item.error}`
       case 'paused':
         return 'Paused'
       default:
@@ -88,6 +152,8 @@ const UploadItem = memo(function UploadItem({
         return 'bg-red-500'
       case 'paused':
         return 'bg-yellow-500'
+      case 'skipped':
+        return 'bg-gray-300'
       default:
         return 'bg-blue-500'
     }
@@ -96,7 +162,7 @@ const UploadItem = memo(function UploadItem({
   const canPause = item.status === 'uploading'
   const canResume = item.status === 'paused'
   const canCancel = item.status === 'uploading' || item.status === 'pending' || item.status === 'paused'
-  const canRemove = item.status === 'completed' || item.status === 'error'
+  const canRemove = item.status === 'completed' || item.status === 'error' || item.status === 'skipped'
 
   const handlePause = () => onPause?.(item.id)
   const handleResume = () => onResume?.(item.id)
@@ -136,6 +202,8 @@ const UploadItem = memo(function UploadItem({
           <p className="text-xs text-gray-500 mt-1">
             {getStatusText()}
           </p>
+
+          {item.importResults && <ImportResults results={item.importResults} />}
         </div>
 
         <div className="flex-shrink-0 flex space-x-1">
@@ -211,11 +279,13 @@ const UploadItem = memo(function UploadItem({
               />
             </div>
             
-            {item.error && (
+            {item.error && item.status === 'error' && (
               <p className="mt-2 text-sm text-red-600">
                 {item.error}
               </p>
             )}
+
+            {item.importResults && <ImportResults results={item.importResults} />}
           </div>
           
           <div className="flex-shrink-0 flex space-x-2">
@@ -286,12 +356,14 @@ export function UploadProgress({
     const activeUploads = uploadQueue.filter(item => item.status === 'uploading').length
     const completedUploads = uploadQueue.filter(item => item.status === 'completed').length
     const errorUploads = uploadQueue.filter(item => item.status === 'error').length
+    const skippedUploads = uploadQueue.filter(item => item.status === 'skipped').length
 
     return {
       totalProgress,
       activeUploads,
       completedUploads,
-      errorUploads
+      errorUploads,
+      skippedUploads
     }
   }, [uploadQueue])
 
@@ -325,6 +397,8 @@ export function UploadProgress({
                 {stats.activeUploads > 0 && `${stats.activeUploads} uploading`}
                 {stats.activeUploads > 0 && stats.errorUploads > 0 && ', '}
                 {stats.errorUploads > 0 && `${stats.errorUploads} failed`}
+                {(stats.activeUploads > 0 || stats.errorUploads > 0) && stats.skippedUploads > 0 && ', '}
+                {stats.skippedUploads > 0 && `${stats.skippedUploads} skipped`}
               </span>
             </div>
           </CardContent>
@@ -6,23 +6,30 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
 import { Upload } from 'tus-js-client'
 import { uploadFileWithTus, validateFileForTusUpload, TusUploadOptions } from '@/lib/supabase/tus-upload'
+import { getFileFolders } from '@/lib/utils/file-utils'
+import type { MaterialImportResult } from '@/lib/types'
 
 export interface UploadQueueItem {
   id: string
   file: File
-  status: 'pending' | 'uploading' | 'completed' | 'error' | 'paused'
+  // importing: uploaded, waiting for the server to record or expand it
+  // skipped: a file of a dropped folder that can't be uploaded
+  status: 'pending' | 'uploading' | 'importing' | 'completed' | 'error' | 'paused' | 'skipped'
   progress: number
   error?: string
   filePath?: string
   upload?: Upload
+  // Per-file outcome of a ZIP or folder import
+  importResults?: MaterialImportResult[]
 }
 
 export interface UseTusUploadOptions {
   courseId: string
   existingFileNames?: string[]
   topicTags?: string[]
-  onUploadComplete?: (filePath: string, file: File) => void
-  onAllUploadsComplete?: () => void
+  // May return what the server imported for the file (ZIP and folder uploads)
+  onUploadComplete?: (filePath: string, file: File) => Promise<MaterialImportResult[] | void> | void
+  onAllUploadsComplete?: (uploadQueue: UploadQueueItem[]) => void
   onError?: (error: string, file: File) => void
   sequential?: boolean // Whether to upload files one at a time
 }
@@ -56,7 +63,7 @@ export function useTusUpload(options: UseTusUploadOptions): UseTusUploadReturn {
     sequential = true
   } = options
 
-  const isUploading = uploadQueue.some(item => item.status === 'uploading')
+  const isUploading = uploadQueue.some(item => item.status === 'uploading' || item.status === 'importing')
   const activeUploads = uploadQueue.filter(item => item.status === 'uploading').length
 
   // Calculate total progress across all uploads
@@ -78,10 +85,10 @@ export function useTusUpload(options: UseTusUploadOptions): UseTusUploadReturn {
       if (!nextItem) {
         // Check if all uploads are complete
         const allComplete = currentQueue.length > 0 && 
-          currentQueue.every(item => item.status === 'completed' || item.status === 'error')
+          currentQueue.every(item => item.status === 'completed' || item.status === 'error' || item.status === 'skipped')
         
         if (allComplete) {
-          onAllUploadsComplete?.()
+          onAllUploadsComplete?.(currentQueue)
         }
         return currentQueue
       }
@@ -97,6 +104,16 @@ export function useTusUpload(options: UseTusUploadOptions): UseTusUploadReturn {
           const validation = validateFileForTusUpload(nextItem.file)
           if (!validation.valid) {
             console.error('File validation failed:', validation.error)
+            // A folder's other files still go ahead; the ones we can't take are reported as skipped
+            if (getFileFolders(nextItem.file).length > 0) {
+              updateQueueItem(nextItem.id, {
+                status: 'skipped',
+                error: validation.error
+              })
+              processingRef.current = false
+              setTimeout(processNextUpload, 100)
+              return
+            }
             updateQueueItem(nextItem.id, {
               status: 'error',
               error: validation.error
@@ -121,14 +138,19 @@ export function useTusUpload(options: UseTusUploadOptions): UseTusUploadReturn {
               const progress = Math.round((bytesUploaded / bytesTotal) * 100)
               updateQueueItem(nextItem.id, { progress })
             },
-            onSuccess: (filePath: string) => {
+            onSuccess: async (filePath: string) => {
               updateQueueItem(nextItem.id, {
-                status: 'completed',
+                status: 'importing',
                 progress: 100,
                 filePath
               })
               uploadsRef.current.delete(nextItem.id)
-              onUploadComplete?.(filePath, nextItem.file)
+              // Wait for the server so the item's results are in before the queue counts as done
+              const importResults = await onUploadComplete?.(filePath, nextItem.file)
+              updateQueueItem(nextItem.id, {
+                status: 'completed',
+                importResults: importResults || undefined
+              })
               processingRef.current = false
               
               // Continue with next upload if sequential
@@ -240,7 +262,7 @@ export function useTusUpload(options: UseTusUploadOptions): UseTusUploadReturn {
 
   const clearCompleted = useCallback(() => {
     setUploadQueue(prev => prev.filter(item => 
-      item.status !== 'completed' && item.status !== 'error'
+      item.status !== 'completed' && item.status !== 'error' && item.status !== 'skipped'
     ))
   }, [])
 
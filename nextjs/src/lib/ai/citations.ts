@@ -0,0 +1,112 @@
+import type { MessageCitation } from '@/lib/types';
+
+// Citations link the [n] markers in a tutor reply to the retrieved material passages.
+// The chat route streams every passage of the turn as a message annotation, and the
+// finished reply is stored with only the passages it actually cited.
+
+// Longest excerpt kept per citation
+const EXCERPT_LENGTH = 280;
+
+// "[2]" or "[1, 3]", but not a markdown link label like "[2](https://...)"
+const CITATION_MARKER = /\[(\d{1,2}(?:\s*,\s*\d{1,2})*)\](?!\()/g;
+
+// Fenced and inline code, where brackets are code rather than citations
+const CODE_SPAN = /(```[\s\S]*?```|`[^`\n]*`)/;
+
+// Fragment links the markdown renderer turns into citation chips
+export const CITATION_HREF_PREFIX = '#citation-';
+
+// Annotation written to the data stream before the reply
+export interface CitationsAnnotation {
+  type: 'citations';
+  citations: MessageCitation[];
+}
+
+/**
+ * A position in a recording as shown to students: "14:22", or "1:02:05" past an hour
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * The start of a passage, cut at a word boundary
+ */
+export function excerptOf(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  if (text.length <= EXCERPT_LENGTH) {
+    return text;
+  }
+
+  const cut = text.slice(0, EXCERPT_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > EXCERPT_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:]+$/, '')}…`;
+}
+
+/**
+ * Passage numbers cited in a reply, in order of first appearance
+ */
+export function citedNumbers(text: string): number[] {
+  const numbers: number[] = [];
+  text.split(CODE_SPAN).forEach((part, index) => {
+    if (index % 2 === 1) return;
+    for (const match of Array.from(part.matchAll(CITATION_MARKER))) {
+      match[1].split(',').forEach(value => {
+        const number = parseInt(value.trim(), 10);
+        if (!numbers.includes(number)) numbers.push(number);
+      });
+    }
+  });
+  return numbers;
+}
+
+/**
+ * The citations a reply actually refers to
+ */
+export function citationsForText(text: string, citations: MessageCitation[]): MessageCitation[] {
+  const numbers = citedNumbers(text);
+  return citations.filter(citation => numbers.includes(citation.number));
+}
+
+function isCitationsAnnotation(value: unknown): value is CitationsAnnotation {
+  return typeof value === 'object' && value !== null
+    && (value as CitationsAnnotation).type === 'citations'
+    && Array.isArray((value as CitationsAnnotation).citations);
+}
+
+/**
+ * Citations of a chat message: stored on the message once the lesson is reloaded,
+ * or carried as a stream annotation while the reply is live
+ */
+export function getMessageCitations(message: { citations?: MessageCitation[]; annotations?: unknown[] }): MessageCitation[] {
+  if (Array.isArray(message.citations)) {
+    return message.citations;
+  }
+
+  const annotation = message.annotations?.find(isCitationsAnnotation);
+  return annotation ? annotation.citations : [];
+}
+
+/**
+ * Rewrite known citation markers as fragment links so the markdown renderer can show
+ * them as chips. "[1, 3]" becomes two links; unknown numbers and code are left alone.
+ */
+export function linkCitations(markdown: string, citations: MessageCitation[]): string {
+  if (citations.length === 0) {
+    return markdown;
+  }
+
+  const known = new Set(citations.map(citation => citation.number));
+  return markdown.split(CODE_SPAN).map((part, index) => {
+    if (index % 2 === 1) return part;
+    return part.replace(CITATION_MARKER, (marker, list: string) => {
+      const numbers = list.split(',').map(value => parseInt(value.trim(), 10));
+      if (!numbers.every(number => known.has(number))) return marker;
+      return numbers.map(number => `[${number}](${CITATION_HREF_PREFIX}${number})`).join('');
+    });
+  }).join('');
+}
@@ -0,0 +1,139 @@
+import { createPartFromUri, FunctionCallingConfigMode, type GoogleGenAI, type Tool } from '@google/genai';
+import type { MaterialFileData } from './gemini-files';
+import { deleteLessonContextCache, getLessonContextCache, saveLessonContextCache } from '@/lib/supabase/context-caches';
+import type { ContextCacheOutcome } from '@/lib/types';
+
+// Gemini keeps a cache for an hour, well inside the hour of validity a reused file URI is guaranteed
+const CACHE_TTL_SECONDS = 3600;
+// Don't start a turn on a cache that may expire while the response streams
+const CACHE_EXPIRY_MARGIN_MS = 60 * 1000;
+// Context that couldn't be cached (usually below Gemini's minimum size) is retried after this
+const UNCACHEABLE_RETRY_MS = 60 * 60 * 1000;
+
+// The stable part of a material-backed lesson turn: what goes in the cache
+export interface LessonContext {
+  lessonId: string;
+  topicSelection: string[];
+  model: string;
+  systemInstruction: string;
+  materialFileData: MaterialFileData[];
+  tools: Tool[];
+}
+
+export interface LessonContextCacheResult {
+  outcome: Exclude<ContextCacheOutcome, 'bypass'>;
+  cacheName: string | null;
+  reason: string | null;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Identify a lesson context by hashing everything that ends up in the cache. The file URIs
+ * change when materials are added, removed or re-uploaded, and the topic selection decides
+ * which materials are loaded, so a change to either gives a different key.
+ */
+export async function lessonContextKey(context: LessonContext): Promise<string> {
+  const source = JSON.stringify({
+    model: context.model,
+    topics: [...context.topicSelection].sort(),
+    systemInstruction: context.systemInstruction,
+    files: context.materialFileData.map(file => [file.fileUri, file.mimeType]),
+    tools: context.tools
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+  return toHex(digest);
+}
+
+async function deleteGeminiCache(ai: GoogleGenAI, cacheName: string) {
+  try {
+    await ai.caches.delete({ name: cacheName });
+  } catch (error) {
+    // It may have expired already; Gemini drops expired caches on its own
+    console.warn(`Could not delete context cache ${cacheName}:`, error);
+  }
+}
+
+/**
+ * Get the Gemini cache holding a lesson's system instruction, material files and tools,
+ * creating it when the lesson has none or its materials or topics changed.
+ * Requests using the returned cache must not set systemInstruction, tools or toolConfig.
+ */
+export async function resolveLessonContextCache(ai: GoogleGenAI, context: LessonContext): Promise<LessonContextCacheResult> {
+  const cacheKey = await lessonContextKey(context);
+  const existing = await getLessonContextCache(context.lessonId);
+  const now = Date.now();
+
+  let reason = 'new lesson context';
+  if (existing) {
+    const expiresAt = existing.expires_at ? new Date(existing.expires_at).getTime() : 0;
+
+    if (existing.cache_key === cacheKey && expiresAt - now > CACHE_EXPIRY_MARGIN_MS) {
+      return existing.cache_name
+        ? { outcome: 'hit', cacheName: existing.cache_name, reason: null }
+        : { outcome: 'uncacheable', cacheName: null, reason: existing.error };
+    }
+
+    reason = existing.cache_key !== cacheKey ? 'materials or topics changed' : 'cache expired';
+    if (existing.cache_name) {
+      await deleteGeminiCache(ai, existing.cache_name);
+    }
+  }
+
+  try {
+    const cache = await ai.caches.create({
+      model: context.model,
+      config: {
+        displayName: `lesson-${context.lessonId}`,
+        contents: [{
+          role: 'user',
+          parts: context.materialFileData.map(file => createPartFromUri(file.fileUri, file.mimeType))
+        }],
+        systemInstruction: context.systemInstruction,
+        tools: context.tools,
+        toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.AUTO } },
+        ttl: `${CACHE_TTL_SECONDS}s`
+      }
+    });
+    if (!cache.name) {
+      throw new Error('Gemini returned a cache without a name');
+    }
+
+    await saveLessonContextCache(context.lessonId, {
+      cacheKey,
+      cacheName: cache.name,
+      model: context.model,
+      tokenCount: cache.usageMetadata?.totalTokenCount ?? null,
+      expiresAt: cache.expireTime ?? new Date(now + CACHE_TTL_SECONDS * 1000).toISOString()
+    });
+    console.log(`Created context cache ${cache.name} for lesson ${context.lessonId} (${cache.usageMetadata?.totalTokenCount ?? 'unknown'} tokens)`);
+
+    return { outcome: 'miss', cacheName: cache.name, reason };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`Could not cache context for lesson ${context.lessonId}:`, message);
+
+    // Remember the failure so following turns don't retry it until the context changes
+    await saveLessonContextCache(context.lessonId, {
+      cacheKey,
+      cacheName: null,
+      model: context.model,
+      tokenCount: null,
+      expiresAt: new Date(now + UNCACHEABLE_RETRY_MS).toISOString(),
+      error: message
+    });
+
+    return { outcome: 'uncacheable', cacheName: null, reason: message };
+  }
+}
+
+/**
+ * Drop a lesson's cache after Gemini rejected it (e.g. one of its files expired),
+ * so the next turn builds a new one
+ */
+export async function invalidateLessonContextCache(ai: GoogleGenAI, lessonId: string, cacheName: string) {
+  await deleteGeminiCache(ai, cacheName);
+  await deleteLessonContextCache(lessonId);
+}
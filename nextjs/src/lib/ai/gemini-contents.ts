@@ -0,0 +1,171 @@
+import { createPartFromUri, type Content, type Part } from '@google/genai';
+import type { MaterialFileData } from './gemini-files';
+
+// Chat message as sent by useChat - assistant turns may carry tool invocations or persisted assessments
+export interface HistoryMessage {
+  id?: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  toolInvocations?: Array<{ toolName: string; result?: unknown }>;
+  assessment?: { type: string; data?: unknown };
+}
+
+export interface GeminiHistoryOptions {
+  // Rough token budget for conversation text (file parts are not counted)
+  maxHistoryTokens?: number;
+}
+
+export interface GeminiHistoryResult {
+  contents: Content[];
+  includedMessages: number;
+  omittedMessages: number;
+  estimatedTokens: number;
+}
+
+// Leaves headroom for the system prompt, file parts and the response on gemini-2.5-flash
+export const DEFAULT_MAX_HISTORY_TOKENS = 32000;
+
+const SILENT_SUMMARY_PREFIX = 'SILENT_SUMMARY:';
+
+/**
+ * Cheap token estimate (~4 characters per token) - good enough for budgeting
+ * without pulling a tokenizer into the edge runtime
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Describe an assessment the assistant showed so the model knows what the student saw
+function describeAssessment(type: string, data: unknown): string | null {
+  if (!data || typeof data !== 'object') return null;
+  const record = data as Record<string, unknown>;
+  const topic = typeof record.topic === 'string' ? record.topic : 'the current topic';
+
+  switch (type) {
+    case 'mcq':
+      return `[Multiple choice question shown on "${topic}": ${typeof record.question === 'string' ? record.question : ''}]`;
+    case 'tf':
+      return `[True/False statements shown on "${topic}"]`;
+    case 'flashcards': {
+      const concepts = Array.isArray(record.flashcards)
+        ? record.flashcards.map(card => (card as Record<string, unknown>).concept).filter(Boolean).join(', ')
+        : '';
+      return `[Flashcards shown on "${topic}"${concepts ? `: ${concepts}` : ''}]`;
+    }
+    default:
+      return null;
+  }
+}
+
+// Flatten a message (text + any assessment it rendered) into the text sent to the model
+function messageToText(message: HistoryMessage): string {
+  const segments: string[] = [];
+  if (message.content.trim()) {
+    segments.push(message.content.trim());
+  }
+
+  if (message.role === 'assistant') {
+    if (message.assessment) {
+      const description = describeAssessment(message.assessment.type, message.assessment.data);
+      if (description) segments.push(description);
+    } else if (Array.isArray(message.toolInvocations)) {
+      for (const invocation of message.toolInvocations) {
+        const result = invocation.result as { type?: string; data?: unknown } | undefined;
+        const description = result?.type ? describeAssessment(result.type, result.data) : null;
+        if (description) segments.push(description);
+      }
+    }
+  }
+
+  return segments.join('\n\n');
+}
+
+/**
+ * Build multi-turn Gemini contents from the chat history.
+ *
+ * The newest messages are kept until the token budget runs out. Silent assessment
+ * summaries from the dropped part of the conversation are carried over in a short
+ * note on the first kept turn so the tutor still knows how the student performed.
+ * File parts are attached to the first user turn.
+ */
+export function buildGeminiContents(
+  messages: HistoryMessage[],
+  materialFileData: MaterialFileData[],
+  options: GeminiHistoryOptions = {}
+): GeminiHistoryResult {
+  const maxHistoryTokens = options.maxHistoryTokens ?? DEFAULT_MAX_HISTORY_TOKENS;
+
+  const turns = messages
+    .filter(message => message.role === 'user' || message.role === 'assistant')
+    .map(message => ({ role: message.role as 'user' | 'assistant', text: messageToText(message) }))
+    .filter(turn => turn.text.length > 0);
+
+  // Walk backwards from the latest message, always keeping it even if it alone exceeds the budget
+  let usedTokens = 0;
+  let firstKeptIndex = turns.length;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(turns[i].text);
+    if (firstKeptIndex < turns.length && usedTokens + cost > maxHistoryTokens) break;
+    usedTokens += cost;
+    firstKeptIndex = i;
+  }
+
+  // Gemini expects the conversation to open with a user turn
+  while (firstKeptIndex < turns.length - 1 && turns[firstKeptIndex].role !== 'user') {
+    usedTokens -= estimateTokens(turns[firstKeptIndex].text);
+    firstKeptIndex++;
+  }
+
+  const keptTurns = turns.slice(firstKeptIndex);
+  const omittedTurns = turns.slice(0, firstKeptIndex);
+
+  let truncationNote = '';
+  if (omittedTurns.length > 0) {
+    truncationNote = `(Earlier conversation truncated: ${omittedTurns.length} older messages omitted.)`;
+
+    const omittedSummaries = omittedTurns
+      .filter(turn => turn.role === 'user' && turn.text.startsWith(SILENT_SUMMARY_PREFIX))
+      .map(turn => `- ${turn.text.slice(SILENT_SUMMARY_PREFIX.length).trim()}`);
+
+    // Keep the most recent summaries that still fit in what's left of the budget
+    const keptSummaries: string[] = [];
+    for (let i = omittedSummaries.length - 1; i >= 0; i--) {
+      const cost = estimateTokens(omittedSummaries[i]);
+      if (usedTokens + cost > maxHistoryTokens) break;
+      usedTokens += cost;
+      keptSummaries.unshift(omittedSummaries[i]);
+    }
+
+    if (keptSummaries.length > 0) {
+      truncationNote += `\nEarlier assessment results:\n${keptSummaries.join('\n')}`;
+    }
+    usedTokens += estimateTokens(truncationNote);
+  }
+
+  // Merge consecutive turns from the same role so roles strictly alternate
+  const contents: Content[] = [];
+  for (const turn of keptTurns) {
+    const role = turn.role === 'assistant' ? 'model' : 'user';
+    const previous = contents[contents.length - 1];
+    if (previous && previous.role === role) {
+      previous.parts = [...(previous.parts ?? []), { text: turn.text }];
+    } else {
+      contents.push({ role, parts: [{ text: turn.text }] });
+    }
+  }
+
+  if (contents.length === 0 || contents[0].role !== 'user') {
+    contents.unshift({ role: 'user', parts: [{ text: "Hello! I'm ready to start learning with the uploaded materials." }] });
+  }
+
+  const fileParts: Part[] = materialFileData.map(fileData => createPartFromUri(fileData.fileUri, fileData.mimeType));
+  const leadingParts: Part[] = truncationNote ? [...fileParts, { text: truncationNote }] : fileParts;
+  contents[0].parts = [...leadingParts, ...(contents[0].parts ?? [])];
+
+  return {
+    contents,
+    includedMessages: keptTurns.length,
+    omittedMessages: omittedTurns.length,
+    estimatedTokens: usedTokens
+  };
+}
@@ -1,7 +1,7 @@
-import { google } from '@ai-sdk/google'
-import { getSignedMaterialUrl, updateMaterialGoogleUri } from '@/lib/supabase/materials'
-import { GoogleGenerativeAI } from "@google/generative-ai"
-import { GoogleGenAI } from '@google/genai'
+import type { GoogleGenAI } from '@google/genai'
+import { findGoogleFileCopy, getSignedMaterialUrl, updateMaterialGoogleFile } from '@/lib/supabase/materials'
+import { getGoogleGenAI, getModelConfig, supportsMaterialFiles } from './providers'
+import { ChecksumMismatchError, uploadStreamToGoogle } from './gemini-upload'
 
 export interface ProcessedMaterial {
   id: string
@@ -12,9 +12,19 @@ export interface ProcessedMaterial {
   fileSize?: number
 }
 
+// File reference handed to the model, tagged with the material it came from for citations
+export interface MaterialFileData {
+  fileUri: string
+  mimeType: string
+  materialId?: string
+  name?: string
+  // Version of the material the file is, recorded on what's generated from it
+  version?: number
+}
+
 export interface MaterialProcessingResult {
   processedMaterials: ProcessedMaterial[]
-  materialFileData: Array<{ fileUri: string; mimeType: string }>
+  materialFileData: MaterialFileData[]
   systemPromptAddition: string
 }
 
@@ -89,42 +99,11 @@ export function isFileTypeSupported(mimeType: string): boolean {
   return SUPPORTED_MIME_TYPES.has(mimeType.toLowerCase())
 }
 
-// Helper function to create multipart body for Google File API upload
-async function createMultipartBody(fileBuffer: ArrayBuffer, fileName: string, mimeType: string): Promise<Blob> {
-  const boundary = '----formdata-' + Math.random().toString(36);
-  
-  const textEncoder = new TextEncoder();
-  const parts: BlobPart[] = [];
-
-  // Add metadata part
-  parts.push(textEncoder.encode(`--${boundary}\r\n`));
-  parts.push(textEncoder.encode('Content-Disposition: form-data; name="metadata"\r\n'));
-  parts.push(textEncoder.encode('Content-Type: application/json; charset=UTF-8\r\n\r\n'));
-  parts.push(textEncoder.encode(JSON.stringify({
-    file: {
-      displayName: fileName
-    }
-  })));
-  parts.push(textEncoder.encode('\r\n'));
-
-  // Add file data part
-  parts.push(textEncoder.encode(`--${boundary}\r\n`));
-  parts.push(textEncoder.encode(`Content-Disposition: form-data; name="data"\r\n`));
-  parts.push(textEncoder.encode(`Content-Type: ${mimeType}\r\n\r\n`));
-  parts.push(fileBuffer);
-  parts.push(textEncoder.encode('\r\n'));
-
-  // End boundary
-  parts.push(textEncoder.encode(`--${boundary}--\r\n`));
-
-  return new Blob(parts, { type: `multipart/related; boundary=${boundary}` });
-}
-
 export async function processLessonMaterials(
   materials: any[]
 ): Promise<MaterialProcessingResult> {
   const processedMaterials: ProcessedMaterial[] = []
-  const materialFileData: Array<{ fileUri: string; mimeType: string }> = []
+  const materialFileData: MaterialFileData[] = []
   
   console.log(`Processing ${materials.length} materials for lesson context...`)
 
@@ -157,7 +136,10 @@ export async function processLessonMaterials(
       // The AI SDK can handle remote URLs for file processing
       materialFileData.push({
         fileUri: signedUrl,
-        mimeType: material.mime_type
+        mimeType: material.mime_type,
+        materialId: material.id,
+        name: material.file_name,
+        version: material.version
       })
 
       processedMaterials.push({
@@ -210,207 +192,284 @@ export async function processLessonMaterials(
   }
 }
 
-// Enhanced function that uploads files directly to Google's servers for proper document context
-export async function processLessonMaterialsWithUpload(
-  materials: any[]
-): Promise<MaterialProcessingResult> {
-  const processedMaterials: ProcessedMaterial[] = []
-  const materialFileData: Array<{ fileUri: string; mimeType: string }> = []
-  
-  console.log(`Processing ${materials.length} materials with Google File Upload...`)
+// Providers without file support still get told which materials the lesson covers
+function listMaterialsByName(materials: any[]): MaterialProcessingResult {
+  const processedMaterials: ProcessedMaterial[] = materials.map(material => ({
+    id: material.id,
+    name: material.file_name,
+    mimeType: material.mime_type,
+    fileSize: material.file_size
+  }))
 
-  const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-  if (!apiKey) {
-    throw new Error('Missing Google Generative AI API key');
+  let systemPromptAddition = ''
+  if (processedMaterials.length > 0) {
+    systemPromptAddition += `\n\nCONTEXT MATERIALS:\n`
+    systemPromptAddition += `The lesson covers ${processedMaterials.length} course materials (their contents are not attached):\n`
+    processedMaterials.forEach(material => {
+      systemPromptAddition += `- ${material.name} (${material.mimeType})\n`
+    })
   }
 
-  // Use GoogleGenAI client for file uploads
-  const ai = new GoogleGenAI({ apiKey });
+  return {
+    processedMaterials,
+    materialFileData: [],
+    systemPromptAddition
+  }
+}
 
-  for (const material of materials) {
-    try {
-      // Check if file type is supported
-      if (!isFileTypeSupported(material.mime_type)) {
-        processedMaterials.push({
-          id: material.id,
-          name: material.file_name,
-          mimeType: material.mime_type,
-          error: `File type ${material.mime_type} not supported for AI processing`
-        })
-        continue
-      }
+// Gemini deletes uploaded files 48 hours after upload
+const GOOGLE_FILE_TTL_MS = 48 * 60 * 60 * 1000
 
-      // Check if we already have a cached Google file URI
-      if (material.google_file_uri && material.google_file_uri.trim()) {
-        console.log(`Using cached Google file URI for ${material.file_name}: ${material.google_file_uri}`);
-        
-        try {
-          // Validate that the cached URI is still accessible by attempting to get file info
-          // Extract the file name from the Google URI (format: https://generativelanguage.googleapis.com/v1beta/files/{file_id})
-          const fileId = material.google_file_uri.split('/').pop() || '';
-          
-          if (!fileId) {
-            throw new Error('Invalid Google file URI format');
-          }
-          
-          const cachedFile = await ai.files.get({ name: fileId });
-          
-          if (cachedFile && (cachedFile.state === 'ACTIVE' || cachedFile.state === 'PROCESSING')) {
-            // Cached URI is still valid, use it
-            materialFileData.push({
-              fileUri: material.google_file_uri,
-              mimeType: material.mime_type
-            });
-
-            processedMaterials.push({
-              id: material.id,
-              name: material.file_name,
-              uri: material.google_file_uri,
-              mimeType: material.mime_type,
-              fileSize: material.file_size
-            });
-
-            console.log(`Successfully processed cached material: ${material.file_name}`);
-            continue;
-          } else {
-            throw new Error(`File state is ${cachedFile?.state || 'unknown'}, not accessible`);
-          }
-        } catch (validationError: any) {
-          // If validation fails (403, 404, etc.), clear the cached URI and proceed to re-upload
-          console.log(`Cached Google file URI for ${material.file_name} is no longer valid (${validationError.message}), clearing cache and re-uploading...`);
-          
-          try {
-            // Clear the invalid cached URI from database
-            await updateMaterialGoogleUri(material.id, '');
-            console.log(`Cleared invalid cached URI for ${material.file_name}`);
-          } catch (clearError) {
-            console.warn(`Failed to clear invalid cached URI for ${material.file_name}:`, clearError);
-          }
-        }
-      }
+// Cached files this close to expiry are uploaded again rather than risk a 403 mid-conversation
+const EXPIRY_MARGIN_MS = 60 * 60 * 1000
 
-      // No cached URI, need to upload to Google
-      console.log(`No cached URI found for ${material.file_name}, proceeding with upload...`);
+// Files of a course being studied that expire within this window are refreshed in the background
+const REFRESH_WINDOW_MS = 12 * 60 * 60 * 1000
 
-      // Get signed URL for the file
-      const signedUrl = await getSignedMaterialUrl(material.file_path)
-      if (!signedUrl) {
-        processedMaterials.push({
-          id: material.id,
-          name: material.file_name,
-          mimeType: material.mime_type,
-          error: 'Failed to get file access URL'
-        })
-        continue
-      }
+// An upload marked as in progress for longer than this is assumed to have died
+const STALE_UPLOAD_MS = 10 * 60 * 1000
 
-      try {
-        // Fetch the file content from the signed URL
-        const response = await fetch(signedUrl);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch file: ${response.statusText}`);
-        }
-
-        const arrayBuffer = await response.arrayBuffer();
-        console.log(`Fetched ${material.file_name} (${arrayBuffer.byteLength} bytes), uploading to Google...`);
-
-        // Convert ArrayBuffer to Blob for upload
-        const fileBlob = new Blob([arrayBuffer], { type: material.mime_type });
-        
-        // Upload file using GoogleGenAI client
-        const file = await ai.files.upload({
-          file: fileBlob,
-          config: {
-            displayName: material.file_name,
-            mimeType: material.mime_type
-          },
-        });
-
-        console.log(`File uploaded. Name: ${file.name}, URI: ${file.uri}, State: ${file.state}`);
-
-        if (!file.name) {
-          throw new Error('No file name returned from Google upload');
-        }
-
-        // Wait for the file to be processed
-        let getFile = await ai.files.get({ name: file.name });
-        let attempts = 0;
-        const maxAttempts = 60;
-        
-        while (getFile.state === 'PROCESSING' && attempts < maxAttempts) {
-          console.log(`File ${material.file_name} is still processing (attempt ${attempts + 1}/${maxAttempts})`);
-          await new Promise((resolve) => setTimeout(resolve, 5000)); // Wait 5 seconds
-          getFile = await ai.files.get({ name: file.name });
-          attempts++;
-        }
-
-        if (getFile.state === 'FAILED') {
-          throw new Error(`File processing failed for ${material.file_name}`);
-        }
-
-        if (getFile.state === 'PROCESSING') {
-          console.warn(`File ${material.file_name} is still processing after ${maxAttempts} attempts, proceeding anyway`);
-        }
-
-        if (!file.uri) {
-          throw new Error('No file URI returned from Google upload');
-        }
-
-        const fileUri = file.uri;
-        console.log(`Successfully uploaded ${material.file_name} to Google. URI: ${fileUri}`);
-
-        // Cache the Google file URI in the database for future use
-        try {
-          await updateMaterialGoogleUri(material.id, fileUri);
-          console.log(`Cached Google file URI for ${material.file_name}`);
-        } catch (cacheError) {
-          console.warn(`Failed to cache Google file URI for ${material.file_name}:`, cacheError);
-          // Continue anyway - the upload was successful
-        }
-
-        // Store the Google file URI for use in chat
-        materialFileData.push({
-          fileUri: fileUri,
-          mimeType: material.mime_type
-        });
+// Materials processed at the same time
+const UPLOAD_CONCURRENCY = 4
 
-        processedMaterials.push({
-          id: material.id,
-          name: material.file_name,
-          uri: fileUri,
-          mimeType: material.mime_type,
-          fileSize: arrayBuffer.byteLength
-        });
-
-        console.log(`Successfully processed material: ${material.file_name}`);
-      } catch (uploadError) {
-        console.error(`Error uploading material ${material.file_name}:`, uploadError);
-        
-        // Fall back to signed URL approach if upload fails
-        console.log(`Falling back to signed URL for ${material.file_name}`);
-        materialFileData.push({
-          fileUri: signedUrl,
-          mimeType: material.mime_type
-        });
+// Run fn over items with at most `limit` in flight, keeping the results in input order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
 
-        processedMaterials.push({
-          id: material.id,
-          name: material.file_name,
-          uri: signedUrl,
-          mimeType: material.mime_type,
-          error: `Upload failed, using fallback: ${uploadError instanceof Error ? uploadError.message : 'Unknown error'}`
-        });
-      }
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+/**
+ * When the material's Google file stops being usable, in epoch milliseconds. Zero when
+ * there is no usable file. Rows cached before expiry tracking fall back to upload time.
+ */
+export function googleFileExpiry(material: any): number {
+  if (!material.google_file_uri || material.google_file_status !== 'active') {
+    return 0
+  }
+  if (material.google_file_expires_at) {
+    return Date.parse(material.google_file_expires_at)
+  }
+  return material.google_uploaded_at ? Date.parse(material.google_uploaded_at) + GOOGLE_FILE_TTL_MS : 0
+}
+
+function isUploadInProgress(material: any, now: number): boolean {
+  return material.google_file_status === 'uploading'
+    && !!material.updated_at
+    && now - Date.parse(material.updated_at) < STALE_UPLOAD_MS
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+// Point a material at the Google file already uploaded for an identical one
+async function reuseGoogleFileCopy(material: any): Promise<{ uri: string; size: number } | null> {
+  if (!material.sha256) {
+    return null
+  }
+
+  const copy = await findGoogleFileCopy(material.id, material.sha256)
+  if (!copy || googleFileExpiry(copy) - Date.now() <= EXPIRY_MARGIN_MS) {
+    return null
+  }
+
+  await updateMaterialGoogleFile(material.id, {
+    google_file_uri: copy.google_file_uri,
+    google_file_name: copy.google_file_name,
+    google_uploaded_at: copy.google_uploaded_at,
+    google_file_expires_at: copy.google_file_expires_at,
+    google_file_status: 'active',
+    google_file_error: null
+  })
+
+  console.log(`Reusing Google file ${copy.google_file_name} of identical material ${copy.id} for ${material.file_name}`)
+  return { uri: copy.google_file_uri as string, size: material.file_size }
+}
+
+/**
+ * Upload a material to the Gemini File API, wait for Google to process it and record the
+ * URI with its expiry. The material's google_file_status follows along.
+ *
+ * The file is streamed from storage in chunks with a resumable upload, so large files never
+ * sit in memory, and is checked against the SHA-256 taken when it was added. Materials with
+ * the same content share one Google file.
+ */
+async function uploadMaterialToGoogle(ai: GoogleGenAI, material: any): Promise<{ uri: string; size: number }> {
+  const copy = await reuseGoogleFileCopy(material)
+  if (copy) {
+    return copy
+  }
+
+  await updateMaterialGoogleFile(material.id, { google_file_status: 'uploading', google_file_error: null })
+
+  try {
+    const { apiKey } = getModelConfig()
+    if (!apiKey) {
+      throw new Error('Missing Google Generative AI API key')
+    }
+
+    const signedUrl = await getSignedMaterialUrl(material.file_path)
+    if (!signedUrl) {
+      throw new Error('Failed to get file access URL')
+    }
+
+    // Stream the file content from the signed URL
+    const response = await fetch(signedUrl)
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to fetch file: ${response.statusText}`)
+    }
+
+    const size = Number(response.headers.get('content-length')) || material.file_size
+    console.log(`Streaming ${material.file_name} (${size} bytes) to Google...`)
+
+    const { file, sha256 } = await uploadStreamToGoogle(response.body, {
+      apiKey,
+      displayName: material.file_name,
+      mimeType: material.mime_type,
+      size,
+      uploadUrl: material.google_upload_url,
+      expectedSha256: material.sha256,
+      onSession: uploadUrl => updateMaterialGoogleFile(material.id, { google_upload_url: uploadUrl })
+    })
+
+    console.log(`File uploaded. Name: ${file.name}, URI: ${file.uri}, State: ${file.state}`)
+
+    if (!file.name || !file.uri) {
+      throw new Error('No file name or URI returned from Google upload')
+    }
+
+    // Wait for the file to be processed
+    let getFile = await ai.files.get({ name: file.name })
+    let attempts = 0
+    const maxAttempts = 60
+
+    while (getFile.state === 'PROCESSING' && attempts < maxAttempts) {
+      console.log(`File ${material.file_name} is still processing (attempt ${attempts + 1}/${maxAttempts})`)
+      await new Promise((resolve) => setTimeout(resolve, 5000)) // Wait 5 seconds
+      getFile = await ai.files.get({ name: file.name })
+      attempts++
+    }
+
+    if (getFile.state === 'FAILED') {
+      throw new Error(`File processing failed for ${material.file_name}`)
+    }
+
+    const uploadedAt = new Date()
+    const expiresAt = getFile.expirationTime || file.expirationTime
+      || new Date(uploadedAt.getTime() + GOOGLE_FILE_TTL_MS).toISOString()
+
+    if (getFile.state === 'PROCESSING') {
+      console.warn(`File ${material.file_name} is still processing after ${maxAttempts} attempts, proceeding anyway`)
+    }
+
+    await updateMaterialGoogleFile(material.id, {
+      google_file_uri: file.uri,
+      google_file_name: file.name,
+      google_uploaded_at: uploadedAt.toISOString(),
+      google_file_expires_at: expiresAt,
+      google_file_status: getFile.state === 'PROCESSING' ? 'processing' : 'active',
+      google_file_error: null,
+      google_upload_url: null,
+      // Materials added before checksums were taken get theirs now
+      sha256
+    })
+
+    console.log(`Successfully uploaded ${material.file_name} to Google. URI: ${file.uri}, expires ${expiresAt}`)
+    return { uri: file.uri, size }
+  } catch (error) {
+    // Other failures keep the upload session so the next attempt resumes it;
+    // a checksum mismatch cancelled it
+    await updateMaterialGoogleFile(material.id, {
+      google_file_status: 'failed',
+      google_file_error: errorMessage(error),
+      ...(error instanceof ChecksumMismatchError ? { google_upload_url: null } : {})
+    })
+    throw error
+  }
+}
+
+// Attach one material: its cached Google file while that is still valid, otherwise a fresh upload
+async function processMaterialWithUpload(
+  ai: GoogleGenAI,
+  material: any
+): Promise<{ processed: ProcessedMaterial; fileData?: MaterialFileData }> {
+  const base = { id: material.id, name: material.file_name, mimeType: material.mime_type }
+
+  // Check if file type is supported
+  if (!isFileTypeSupported(material.mime_type)) {
+    return { processed: { ...base, error: `File type ${material.mime_type} not supported for AI processing` } }
+  }
+
+  // The stored expiry says whether the cached URI is still good - no need to ask Google
+  if (googleFileExpiry(material) - Date.now() > EXPIRY_MARGIN_MS) {
+    console.log(`Using cached Google file URI for ${material.file_name}: ${material.google_file_uri}`)
+    return {
+      processed: { ...base, uri: material.google_file_uri, fileSize: material.file_size },
+      fileData: { fileUri: material.google_file_uri, mimeType: material.mime_type, materialId: material.id, name: material.file_name, version: material.version }
+    }
+  }
+
+  try {
+    const { uri, size } = await uploadMaterialToGoogle(ai, material)
+    return {
+      processed: { ...base, uri, fileSize: size },
+      fileData: { fileUri: uri, mimeType: material.mime_type, materialId: material.id, name: material.file_name, version: material.version }
+    }
+  } catch (uploadError) {
+    console.error(`Error uploading material ${material.file_name}:`, uploadError)
+
+    // Fall back to signed URL approach if upload fails
+    const signedUrl = await getSignedMaterialUrl(material.file_path)
+    if (!signedUrl) {
+      return { processed: { ...base, error: errorMessage(uploadError) } }
+    }
+
+    console.log(`Falling back to signed URL for ${material.file_name}`)
+    return {
+      processed: { ...base, uri: signedUrl, error: `Upload failed, using fallback: ${errorMessage(uploadError)}` },
+      fileData: { fileUri: signedUrl, mimeType: material.mime_type, materialId: material.id, name: material.file_name, version: material.version }
+    }
+  }
+}
+
+// Enhanced function that uploads files directly to Google's servers for proper document context
+export async function processLessonMaterialsWithUpload(
+  materials: any[]
+): Promise<MaterialProcessingResult> {
+  const modelConfig = getModelConfig()
+  if (!supportsMaterialFiles(modelConfig)) {
+    console.log(`Provider ${modelConfig.provider} cannot read uploaded files, listing ${materials.length} materials by name only`)
+    return listMaterialsByName(materials)
+  }
+
+  console.log(`Processing ${materials.length} materials with Google File Upload...`)
+
+  // Use GoogleGenAI client for file uploads
+  const ai = getGoogleGenAI(modelConfig)
+
+  const results = await mapWithConcurrency(materials, UPLOAD_CONCURRENCY, async material => {
+    try {
+      return await processMaterialWithUpload(ai, material)
     } catch (error) {
       console.error(`Error processing material ${material.file_name}:`, error)
-      processedMaterials.push({
-        id: material.id,
-        name: material.file_name,
-        mimeType: material.mime_type,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      })
+      return { processed: { id: material.id, name: material.file_name, mimeType: material.mime_type, error: errorMessage(error) } } as { processed: ProcessedMaterial; fileData?: MaterialFileData }
     }
-  }
+  })
+
+  const processedMaterials = results.map(result => result.processed)
+  const materialFileData = results
+    .map(result => result.fileData)
+    .filter((fileData): fileData is MaterialFileData => !!fileData)
 
   // Generate system prompt addition based on processed materials
   const successfulMaterials = processedMaterials.filter(m => !m.error)
@@ -444,6 +503,44 @@ export async function processLessonMaterialsWithUpload(
   }
 }
 
+/**
+ * Upload again the Google files of a course being studied that are missing or expire
+ * soon, so the next chat turn doesn't wait on uploads. Meant to run after the response
+ * (e.g. via after()); returns how many materials were uploaded.
+ */
+export async function refreshExpiringGoogleFiles(materials: any[]): Promise<number> {
+  const modelConfig = getModelConfig()
+  if (!supportsMaterialFiles(modelConfig)) {
+    return 0
+  }
+
+  const now = Date.now()
+  const due = materials.filter(material =>
+    isFileTypeSupported(material.mime_type)
+    && material.google_file_status !== 'failed'
+    && !isUploadInProgress(material, now)
+    && googleFileExpiry(material) - now <= REFRESH_WINDOW_MS
+  )
+  if (due.length === 0) {
+    return 0
+  }
+
+  console.log(`Refreshing Google files for ${due.length} materials that are missing or expire within ${REFRESH_WINDOW_MS / 3600000} hours`)
+  const ai = getGoogleGenAI(modelConfig)
+
+  const uploaded = await mapWithConcurrency(due, UPLOAD_CONCURRENCY, async material => {
+    try {
+      await uploadMaterialToGoogle(ai, material)
+      return true
+    } catch (error) {
+      console.error(`Error refreshing Google file for ${material.file_name}:`, error)
+      return false
+    }
+  })
+
+  return uploaded.filter(Boolean).length
+}
+
 export async function getFileUploadMetadata(file: File) {
   return {
     name: file.name,
@@ -0,0 +1,274 @@
+import { Sha256 } from '@/lib/utils/sha256'
+
+// Resumable upload protocol of the Gemini File API
+// https://ai.google.dev/api/files#method:-media.upload
+const UPLOAD_ENDPOINT = 'https://generativelanguage.googleapis.com/upload/v1beta/files'
+const FILES_ENDPOINT = 'https://generativelanguage.googleapis.com/v1beta'
+
+// Bytes sent per request. Every chunk but the last must be a multiple of the granularity
+// Google returns when the session starts (8 MiB today), so only one chunk is held in memory.
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024
+
+// Attempts per chunk before the upload is left for a later resume
+const CHUNK_ATTEMPTS = 3
+
+// The File resource returned once the upload is finalized
+export interface GoogleUploadedFile {
+  name?: string
+  uri?: string
+  mimeType?: string
+  sizeBytes?: string
+  state?: string
+  expirationTime?: string
+  // Base64 SHA-256 of the bytes Google received
+  sha256Hash?: string
+}
+
+export interface ResumableUploadOptions {
+  apiKey: string
+  displayName: string
+  mimeType: string
+  // Exact size of the streamed content
+  size: number
+  // Session left by an interrupted attempt; bytes Google already has are not sent again
+  uploadUrl?: string | null
+  // Hex SHA-256 the content must have; the upload is cancelled instead of finalized otherwise
+  expectedSha256?: string | null
+  // Called with a new session URL so an interrupted upload can be resumed
+  onSession?: (uploadUrl: string) => Promise<unknown> | void
+}
+
+export interface ResumableUploadResult {
+  file: GoogleUploadedFile
+  // Hex SHA-256 of the uploaded content
+  sha256: string
+}
+
+/**
+ * Thrown when the uploaded content doesn't have the checksum it was uploaded with
+ */
+export class ChecksumMismatchError extends Error {
+  constructor(public expected: string, public actual: string) {
+    super(`Checksum mismatch: expected ${expected}, got ${actual}`)
+    this.name = 'ChecksumMismatchError'
+  }
+}
+
+interface UploadSession {
+  url: string
+  // Bytes Google has persisted
+  received: number
+  chunkSize: number
+}
+
+function hexToBase64(hex: string): string {
+  let binary = ''
+  for (let i = 0; i < hex.length; i += 2) {
+    binary += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16))
+  }
+  return btoa(binary)
+}
+
+function chunkSizeFor(granularity: number): number {
+  return granularity > 0 ? Math.max(1, Math.round(DEFAULT_CHUNK_SIZE / granularity)) * granularity : DEFAULT_CHUNK_SIZE
+}
+
+async function startSession(options: ResumableUploadOptions): Promise<UploadSession> {
+  const response = await fetch(UPLOAD_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'x-goog-api-key': options.apiKey,
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(options.size),
+      'X-Goog-Upload-Header-Content-Type': options.mimeType,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ file: { display_name: options.displayName } })
+  })
+
+  const url = response.headers.get('x-goog-upload-url')
+  if (!response.ok || !url) {
+    throw new Error(`Failed to start upload: ${response.status} ${await response.text()}`)
+  }
+
+  return {
+    url,
+    received: 0,
+    chunkSize: chunkSizeFor(Number(response.headers.get('x-goog-upload-chunk-granularity')) || 0)
+  }
+}
+
+// How much of an existing session Google has; null when it can't be continued
+async function querySession(url: string): Promise<UploadSession | null> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'X-Goog-Upload-Command': 'query' }
+    })
+    if (!response.ok || response.headers.get('x-goog-upload-status') !== 'active') {
+      return null
+    }
+
+    return {
+      url,
+      received: Number(response.headers.get('x-goog-upload-size-received')) || 0,
+      chunkSize: chunkSizeFor(Number(response.headers.get('x-goog-upload-chunk-granularity')) || 0)
+    }
+  } catch {
+    return null
+  }
+}
+
+async function cancelSession(url: string) {
+  try {
+    await fetch(url, { method: 'POST', headers: { 'X-Goog-Upload-Command': 'cancel' } })
+  } catch (error) {
+    console.warn('Could not cancel upload session:', error)
+  }
+}
+
+async function deleteFile(apiKey: string, name: string) {
+  try {
+    await fetch(`${FILES_ENDPOINT}/${name}`, { method: 'DELETE', headers: { 'x-goog-api-key': apiKey } })
+  } catch (error) {
+    console.warn(`Could not delete ${name}:`, error)
+  }
+}
+
+/**
+ * Send the bytes of a chunk that starts at `offset` and Google doesn't have yet. A failed
+ * request is retried from wherever Google says it got to. Returns the File once finalized.
+ */
+async function sendChunk(
+  session: UploadSession,
+  chunk: Uint8Array,
+  offset: number,
+  finalize: boolean
+): Promise<GoogleUploadedFile | null> {
+  let lastError: unknown = null
+
+  for (let attempt = 1; attempt <= CHUNK_ATTEMPTS; attempt++) {
+    if (session.received < offset) {
+      throw new Error(`Upload session is missing bytes ${session.received}-${offset}, which are no longer buffered`)
+    }
+
+    const pending = chunk.subarray(Math.min(session.received - offset, chunk.length))
+    if (pending.length === 0 && !finalize) {
+      return null
+    }
+
+    try {
+      const response = await fetch(session.url, {
+        method: 'POST',
+        headers: {
+          'Content-Length': String(pending.length),
+          'X-Goog-Upload-Offset': String(offset + chunk.length - pending.length),
+          'X-Goog-Upload-Command': finalize ? 'upload, finalize' : 'upload'
+        },
+        body: new Blob([pending as Uint8Array<ArrayBuffer>])
+      })
+
+      if (response.ok) {
+        session.received = offset + chunk.length
+        if (!finalize) {
+          return null
+        }
+        const body = await response.json()
+        return (body.file ?? body) as GoogleUploadedFile
+      }
+
+      lastError = new Error(`Upload chunk failed: ${response.status} ${await response.text()}`)
+      // Client errors (other than timeouts and rate limits) won't go away on retry
+      if (response.status < 500 && response.status !== 408 && response.status !== 429) {
+        break
+      }
+    } catch (error) {
+      lastError = error
+    }
+
+    console.warn(`Upload chunk at ${offset} failed (attempt ${attempt}/${CHUNK_ATTEMPTS}):`, lastError)
+    await new Promise(resolve => setTimeout(resolve, 1000 * attempt))
+
+    const resumed = await querySession(session.url)
+    if (!resumed) {
+      break
+    }
+    session.received = resumed.received
+  }
+
+  throw lastError instanceof Error ? lastError : new Error('Upload chunk failed')
+}
+
+/**
+ * Stream content to the Gemini File API in chunks with a resumable upload, hashing it on
+ * the way. The final chunk is only sent once the checksum matches expectedSha256, and the
+ * hash Google reports for the finished file is checked against it too.
+ */
+export async function uploadStreamToGoogle(
+  source: ReadableStream<Uint8Array>,
+  options: ResumableUploadOptions
+): Promise<ResumableUploadResult> {
+  let session = options.uploadUrl ? await querySession(options.uploadUrl) : null
+  if (session) {
+    console.log(`Resuming upload of ${options.displayName} at ${session.received}/${options.size} bytes`)
+  } else {
+    session = await startSession(options)
+    await options.onSession?.(session.url)
+  }
+
+  const hash = new Sha256()
+  const reader = source.getReader()
+  const buffer = new Uint8Array(session.chunkSize)
+  let buffered = 0
+  let bufferOffset = 0
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      hash.update(value)
+      let consumed = 0
+      while (consumed < value.length) {
+        const take = Math.min(buffer.length - buffered, value.length - consumed)
+        buffer.set(value.subarray(consumed, consumed + take), buffered)
+        buffered += take
+        consumed += take
+
+        if (buffered === buffer.length) {
+          await sendChunk(session, buffer, bufferOffset, false)
+          bufferOffset += buffered
+          buffered = 0
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+
+  const total = bufferOffset + buffered
+  if (total !== options.size) {
+    await cancelSession(session.url)
+    throw new Error(`Read ${total} bytes of ${options.displayName}, expected ${options.size}`)
+  }
+
+  const sha256 = hash.digest()
+  if (options.expectedSha256 && options.expectedSha256 !== sha256) {
+    await cancelSession(session.url)
+    throw new ChecksumMismatchError(options.expectedSha256, sha256)
+  }
+
+  const file = await sendChunk(session, buffer.subarray(0, buffered), bufferOffset, true)
+  if (!file?.name || !file.uri) {
+    throw new Error('No file name or URI returned from Google upload')
+  }
+
+  // Google reports the hash base64-encoded, of the raw digest or of its hex form
+  if (file.sha256Hash && file.sha256Hash !== hexToBase64(sha256) && file.sha256Hash !== btoa(sha256)) {
+    await deleteFile(options.apiKey, file.name)
+    throw new ChecksumMismatchError(sha256, `${file.sha256Hash} (base64, as received by Google)`)
+  }
+
+  return { file, sha256 }
+}
@@ -1,38 +1,145 @@
-import { generateObject } from 'ai';
-import { google } from '@ai-sdk/google';
-import { mcqSchema, tfSchema, flashcardSetSchema, type MCQ, type TF, type FlashcardSet } from './lesson-schemas';
+import { generateObject, type CoreMessage } from 'ai';
+import { getLanguageModel } from './providers';
+import { mcqSchema, tfSchema, flashcardSetSchema, type MCQ, type TF, type FlashcardSet, type MaterialSource } from './lesson-schemas';
 import { MCQ_GENERATION_PROMPT } from './prompts';
+import type { MaterialFileData } from './gemini-files';
+import type { TokenUsage } from '@/lib/supabase/usage';
+import type { MessageCitation } from '@/lib/types';
 
 interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
 }
 
+// Told the tokens each generation used, so they count against the user's quota
+export type UsageReporter = (usage: TokenUsage, model: string) => Promise<unknown> | void;
+
+// Instructions appended to every generation prompt when course materials are attached
+const MATERIAL_GROUNDING_INSTRUCTIONS = `
+Course Materials:
+The lesson's course materials are attached above, each introduced by its material ID and file name.
+- Draw the content of every item from these materials rather than general knowledge
+- For each item, set source.sourceMaterialId to the exact material ID it was drawn from
+- Set source.page to the 1-based page or slide number where the content appears, and source.section to the nearest heading when one exists
+- Omit source only if an item genuinely cannot be tied to a specific material`;
+
+// Instructions appended when passages retrieved from the course materials are in the context
+const PASSAGE_GROUNDING_INSTRUCTIONS = `
+Course Material Passages:
+The numbered course material passages in the recent context come from the materials listed below.
+- Draw the content of every item from these passages rather than general knowledge
+- For each item, set source.passage to the number of the passage it was drawn from and source.sourceMaterialId to that passage's material ID
+- Omit source only if an item genuinely cannot be tied to a specific passage`;
+
+/**
+ * Build the generateObject input for an assessment prompt. When the lesson has
+ * materials, the Gemini file parts are attached so questions come from the notes
+ * themselves instead of the last few chat messages. Retrieved passages are already in
+ * the prompt's context; they get the material ID of each passage to cite.
+ */
+function buildGenerationInput(
+  prompt: string,
+  materials?: MaterialFileData[],
+  passages?: MessageCitation[]
+): { prompt: string } | { messages: CoreMessage[] } {
+  const citableMaterials = (materials || []).filter(material => material.materialId);
+  const grounding = [
+    citableMaterials.length > 0 ? MATERIAL_GROUNDING_INSTRUCTIONS : null,
+    passages && passages.length > 0
+      ? `${PASSAGE_GROUNDING_INSTRUCTIONS}\n${passages.map(passage => `[${passage.number}] Material ID ${passage.materialId}: "${passage.materialName}"`).join('\n')}`
+      : null
+  ].filter(Boolean).join('\n');
+  const groundedPrompt = grounding ? `${prompt}\n${grounding}` : prompt;
+
+  if (citableMaterials.length === 0) {
+    return { prompt: groundedPrompt };
+  }
+
+  const content: Extract<CoreMessage, { role: 'user' }>['content'] = [];
+  citableMaterials.forEach(material => {
+    content.push({ type: 'text', text: `Material ID ${material.materialId}: "${material.name || 'Untitled material'}"` });
+    content.push({ type: 'file', data: new URL(material.fileUri), mimeType: material.mimeType });
+  });
+  content.push({ type: 'text', text: groundedPrompt });
+
+  return { messages: [{ role: 'user', content }] };
+}
+
+// Difficulty line for the generation prompts, including why it was chosen when known
+function describeDifficulty(difficulty: string, rationale?: string): string {
+  return rationale ? `${difficulty} (chosen from the student's recorded results: ${rationale})` : difficulty;
+}
+
+/**
+ * Keep only citations that point at a material we actually attached or retrieved passages
+ * from, and fill in its real name. A cited passage number settles the material, page or
+ * recording timestamp and section from the passage itself.
+ */
+function resolveSource(
+  source: MaterialSource | undefined,
+  materials?: MaterialFileData[],
+  passages?: MessageCitation[]
+): MaterialSource | undefined {
+  if (!source) return undefined;
+
+  const passage = (passages || []).find(p => p.number === source.passage);
+  if (passage) {
+    const attached = (materials || []).find(m => m.materialId === passage.materialId);
+    return {
+      sourceMaterialId: passage.materialId,
+      materialName: passage.materialName,
+      ...(passage.pageNumber !== null ? { page: passage.pageNumber } : {}),
+      ...(passage.timestampSeconds != null ? { timestampSeconds: passage.timestampSeconds } : {}),
+      ...(passage.section ? { section: passage.section } : {}),
+      ...(attached ? { materialVersion: attached.version } : {})
+    };
+  }
+
+  const material = (materials || []).find(m => m.materialId === source.sourceMaterialId);
+  if (material) {
+    return {
+      ...source,
+      materialName: material.name || source.materialName,
+      materialVersion: material.version
+    };
+  }
+
+  const passageMaterial = (passages || []).find(p => p.materialId === source.sourceMaterialId);
+  return passageMaterial ? { ...source, materialName: passageMaterial.materialName } : undefined;
+}
+
 // Action to generate MCQ content
 export async function generateMCQAction(params: {
   topic: string;
   context: string;
   difficulty: 'easy' | 'medium' | 'hard';
+  difficultyRationale?: string;
   userMessage: string;
+  materials?: MaterialFileData[];
+  // Retrieved passages in the context, which items can cite
+  passages?: MessageCitation[];
+  onUsage?: UsageReporter;
 }): Promise<MCQ | null> {
   try {
     // Generate MCQ content using AI
-    const { object: mcq } = await generateObject({
-      model: google('gemini-2.5-flash-lite'),
+    const { object: mcq, usage, response } = await generateObject({
+      model: getLanguageModel('assessment'),
       temperature: 0.5,
       topP: 0.8,
       topK: 40,
       schema: mcqSchema,
-      prompt: `${MCQ_GENERATION_PROMPT}
+      ...buildGenerationInput(`${MCQ_GENERATION_PROMPT}
 
 Topic: ${params.topic}
-Difficulty: ${params.difficulty}
+Difficulty: ${describeDifficulty(params.difficulty, params.difficultyRationale)}
 Recent Context: ${params.context}
 User's message: ${params.userMessage}
 
-Generate a ${params.difficulty} difficulty multiple choice question that helps the user understand ${params.topic} better. The question should be relevant to their recent message and help clarify any confusion.`,
+Generate a ${params.difficulty} difficulty multiple choice question that helps the user understand ${params.topic} better. The question should be relevant to their recent message and help clarify any confusion.`, params.materials, params.passages),
     });
 
+    await params.onUsage?.(usage, response.modelId);
+
     // Validate the generated MCQ
     if (!mcq.options || mcq.options.length !== 4) {
       throw new Error('Invalid MCQ structure: must have exactly 4 options');
@@ -43,7 +150,7 @@ Generate a ${params.difficulty} difficulty multiple choice question that helps t
       throw new Error('Invalid MCQ structure: must have exactly 1 correct answer');
     }
 
-    return mcq;
+    return { ...mcq, source: resolveSource(mcq.source, params.materials, params.passages) };
   } catch (error) {
     console.error('Error generating MCQ:', error);
     return null;
@@ -55,22 +162,26 @@ export async function generateTFAction(params: {
   topic: string;
   context: string;
   difficulty: 'easy' | 'medium' | 'hard';
+  difficultyRationale?: string;
   userMessage: string;
+  materials?: MaterialFileData[];
+  passages?: MessageCitation[];
+  onUsage?: UsageReporter;
 }): Promise<TF | null> {
   try {
     // Generate T/F content using AI
-    const { object: tf } = await generateObject({
-      model: google('gemini-2.5-flash-lite'),
+    const { object: tf, usage, response } = await generateObject({
+      model: getLanguageModel('assessment'),
       temperature: 0.5,
       topP: 0.8,
       topK: 40,
       schema: tfSchema,
-      prompt: `You are an expert educational content creator specializing in True/False assessments for Socratic learning.
+      ...buildGenerationInput(`You are an expert educational content creator specializing in True/False assessments for Socratic learning.
 
 Create a True/False assessment that guides discovery rather than tests memory. Generate exactly 3 statements that help clarify misconceptions and explore nuanced understanding.
 
 Topic: ${params.topic}
-Difficulty: ${params.difficulty}
+Difficulty: ${describeDifficulty(params.difficulty, params.difficultyRationale)}
 Recent Context: ${params.context}
 User's message: ${params.userMessage}
 
@@ -85,9 +196,11 @@ Difficulty Requirements:
 - Medium: Requires careful consideration and solid understanding of fundamentals
 - Hard: Subtle distinctions requiring deep conceptual knowledge and critical thinking
 
-Create 3 statements with explanations that enhance understanding regardless of whether they're answered correctly.`,
+Create 3 statements with explanations that enhance understanding regardless of whether they're answered correctly.`, params.materials, params.passages),
     });
 
+    await params.onUsage?.(usage, response.modelId);
+
     // Validate the generated T/F
     if (!tf.statements || tf.statements.length !== 3) {
       throw new Error('Invalid T/F structure: must have exactly 3 statements');
@@ -100,7 +213,10 @@ Create 3 statements with explanations that enhance understanding regardless of w
       }
     }
 
-    return tf;
+    return {
+      ...tf,
+      statements: tf.statements.map(statement => ({ ...statement, source: resolveSource(statement.source, params.materials, params.passages) }))
+    };
   } catch (error) {
     console.error('Error generating T/F:', error);
     return null;
@@ -112,23 +228,27 @@ export async function generateFlashcardsAction(params: {
   topic: string;
   context: string;
   difficulty: 'easy' | 'medium' | 'hard';
+  difficultyRationale?: string;
   userMessage: string;
   materialContext?: string;
+  materials?: MaterialFileData[];
+  passages?: MessageCitation[];
+  onUsage?: UsageReporter;
 }): Promise<FlashcardSet | null> {
   try {
     // Generate flashcard set using AI
-    const { object: flashcardSet } = await generateObject({
-      model: google('gemini-2.5-flash-lite'),
+    const { object: flashcardSet, usage, response } = await generateObject({
+      model: getLanguageModel('assessment'),
       temperature: 0.5,
       topP: 0.8,
       topK: 40,
       schema: flashcardSetSchema,
-      prompt: `You are an expert educational content creator specializing in flashcard design for active recall and spaced repetition learning.
+      ...buildGenerationInput(`You are an expert educational content creator specializing in flashcard design for active recall and spaced repetition learning.
 
 Create a set of exactly 3 flashcards that test retention of key concepts from the provided materials. Focus on the most assessable and memorable content that supports long-term learning.
 
 Topic: ${params.topic}
-Difficulty: ${params.difficulty}
+Difficulty: ${describeDifficulty(params.difficulty, params.difficultyRationale)}
 Recent Context: ${params.context}
 User's message: ${params.userMessage}
 Material Context: ${params.materialContext || 'No specific materials provided'}
@@ -156,9 +276,11 @@ Difficulty Requirements:
 - Medium: Important concepts requiring solid understanding and application
 - Hard: Complex relationships, nuanced distinctions, and advanced terminology
 
-Generate flashcards that will genuinely help the user retain and recall the most important aspects of ${params.topic}.`,
+Generate flashcards that will genuinely help the user retain and recall the most important aspects of ${params.topic}.`, params.materials, params.passages),
     });
 
+    await params.onUsage?.(usage, response.modelId);
+
     // Validate the generated flashcard set
     if (!flashcardSet.flashcards || flashcardSet.flashcards.length !== 3) {
       throw new Error('Invalid flashcard set structure: must have exactly 3 flashcards');
@@ -171,7 +293,10 @@ Generate flashcards that will genuinely help the user retain and recall the most
       }
     }
 
-    return flashcardSet;
+    return {
+      ...flashcardSet,
+      flashcards: flashcardSet.flashcards.map(flashcard => ({ ...flashcard, source: resolveSource(flashcard.source, params.materials, params.passages) }))
+    };
   } catch (error) {
     console.error('Error generating flashcards:', error);
     return null;
@@ -244,24 +369,4 @@ export async function extractTopic(messages: Message[]): Promise<string> {
   }
 
   return 'general knowledge';
-}
-
-// Helper function to assess difficulty level
-export async function assessDifficulty(messages: Message[]): Promise<'easy' | 'medium' | 'hard'> {
-  const recentMessages = messages.slice(-5);
-  const content = recentMessages.map(m => m.content).join(' ').toLowerCase();
-
-  // Indicators for different difficulty levels
-  const hardIndicators = ['complex', 'advanced', 'sophisticated', 'intricate', 'comprehensive'];
-  const easyIndicators = ['basic', 'simple', 'introduction', 'beginner', 'fundamental'];
-
-  if (hardIndicators.some(indicator => content.includes(indicator))) {
-    return 'hard';
-  }
-  
-  if (easyIndicators.some(indicator => content.includes(indicator))) {
-    return 'easy';
-  }
-
-  return 'medium';
-}
+}
\ No newline at end of file
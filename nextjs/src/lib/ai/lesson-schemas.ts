@@ -1,4 +1,14 @@
 import { z } from 'zod';
+import type { DifficultySelection } from '@/lib/learning/adaptive-difficulty';
+
+// Schema for citing where in the uploaded course materials an item came from
+export const materialSourceSchema = z.object({
+  sourceMaterialId: z.string().describe("ID of the course material this item is drawn from"),
+  materialName: z.string().optional().describe("File name of the source material"),
+  page: z.number().int().optional().describe("1-based page or slide number in the source material"),
+  section: z.string().optional().describe("Section heading or location within the source material"),
+  passage: z.number().int().optional().describe("Number of the course material passage this item is drawn from, e.g. 3 for [3]")
+});
 
 // Schema for individual MCQ options
 export const mcqOptionSchema = z.object({
@@ -15,7 +25,8 @@ export const mcqSchema = z.object({
     .describe("Array of exactly 4 answer options"),
   explanation: z.string().describe("Explanation shown after answer submission"),
   topic: z.string().describe("Learning topic this question covers"),
-  difficulty: z.enum(['easy', 'medium', 'hard']).describe("Question difficulty level")
+  difficulty: z.enum(['easy', 'medium', 'hard']).describe("Question difficulty level"),
+  source: materialSourceSchema.optional().describe("Where in the course materials this question comes from")
 });
 
 // Schema for individual True/False statements
@@ -23,7 +34,8 @@ export const tfStatementSchema = z.object({
   id: z.string().describe("Statement identifier (1, 2, 3)"),
   text: z.string().describe("The statement text to evaluate"),
   isTrue: z.boolean().describe("Whether the statement is true or false"),
-  explanation: z.string().describe("Brief explanation for the correct answer")
+  explanation: z.string().describe("Brief explanation for the correct answer"),
+  source: materialSourceSchema.optional().describe("Where in the course materials this statement comes from")
 });
 
 // Schema for True/False components
@@ -42,7 +54,8 @@ export const flashcardSchema = z.object({
   concept: z.string().describe("The concept/term to be tested"),
   definition: z.string().describe("The definition/explanation of the concept"),
   topic: z.string().describe("The specific topic this flashcard covers"),
-  difficulty: z.enum(['easy', 'medium', 'hard']).describe("Difficulty level")
+  difficulty: z.enum(['easy', 'medium', 'hard']).describe("Difficulty level"),
+  source: materialSourceSchema.optional().describe("Where in the course materials this flashcard comes from")
 });
 
 // Schema for flashcard sets
@@ -73,13 +86,21 @@ export const uncertaintyIndicatorsSchema = z.object({
   shouldGenerateMCQ: z.boolean().describe("Whether to generate an MCQ based on uncertainty")
 });
 
+// Attached by the server after generation (kept out of the schemas so the model never fills it in)
+interface AdaptiveDifficultyFields {
+  difficultySelection?: DifficultySelection;
+}
+
 // Type exports for TypeScript
+// The material version is filled in from the attached files, and a recording's timestamp
+// from the cited passage; neither is asked of the model
+export type MaterialSource = z.infer<typeof materialSourceSchema> & { materialVersion?: number; timestampSeconds?: number };
 export type MCQOption = z.infer<typeof mcqOptionSchema>;
-export type MCQ = z.infer<typeof mcqSchema>;
+export type MCQ = z.infer<typeof mcqSchema> & AdaptiveDifficultyFields;
 export type TFStatement = z.infer<typeof tfStatementSchema>;
-export type TF = z.infer<typeof tfSchema>;
-export type Flashcard = z.infer<typeof flashcardSchema>;
-export type FlashcardSet = z.infer<typeof flashcardSetSchema>;
+export type TF = z.infer<typeof tfSchema> & AdaptiveDifficultyFields;
+export type Flashcard = Omit<z.infer<typeof flashcardSchema>, 'source'> & { source?: MaterialSource };
+export type FlashcardSet = z.infer<typeof flashcardSetSchema> & AdaptiveDifficultyFields;
 export type LessonContent = z.infer<typeof lessonContentSchema>;
 export type UncertaintyIndicators = z.infer<typeof uncertaintyIndicatorsSchema>;
 
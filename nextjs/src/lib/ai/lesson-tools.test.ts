@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { streamText } from 'ai';
+import { MockLanguageModelV1 } from 'ai/test';
+import { createLessonTools, executeLessonTool, type LessonToolResult } from './lesson-tools';
+import { getLanguageModel } from './providers';
+import type { MessageCitation } from '@/lib/types';
+
+vi.mock('./providers', async importOriginal => {
+  const actual = await importOriginal<typeof import('./providers')>();
+  return { ...actual, getLanguageModel: vi.fn(actual.getLanguageModel) };
+});
+
+// The chat and assessment flow against AI_PROVIDER=mock, without network or keys
+
+function lessonTools(userText: string, onUsage = vi.fn()) {
+  const latestUserMessage = { role: 'user' as const, content: userText };
+  return createLessonTools({
+    messages: [latestUserMessage],
+    latestUserMessage,
+    materialFileData: [],
+    onUsage
+  });
+}
+
+describe('lesson tools on the mock provider', () => {
+  beforeEach(() => {
+    vi.stubEnv('AI_PROVIDER', 'mock');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('streams a tutor reply when no assessment is asked for', async () => {
+    const messages = [{ role: 'user' as const, content: 'Tell me about photosynthesis' }];
+    const result = streamText({
+      model: getLanguageModel('chat'),
+      messages,
+      tools: lessonTools(messages[0].content),
+      maxSteps: 1
+    });
+    await result.consumeStream();
+
+    expect(await result.text).toBe('Mock tutor reply about photosynthesis. You said: "Tell me about photosynthesis"');
+    expect(await result.toolCalls).toEqual([]);
+  });
+
+  it('calls generateMCQ for a quiz request and returns a valid question', async () => {
+    const onUsage = vi.fn();
+    const content = 'Quiz me about photosynthesis';
+    const result = streamText({
+      model: getLanguageModel('chat'),
+      messages: [{ role: 'user', content }],
+      tools: lessonTools(content, onUsage),
+      maxSteps: 1
+    });
+    await result.consumeStream();
+
+    const toolResults = await result.toolResults;
+    expect(toolResults).toHaveLength(1);
+    expect(toolResults[0].toolName).toBe('generateMCQ');
+
+    const mcq = toolResults[0].result as LessonToolResult;
+    expect(mcq.type).toBe('mcq');
+    if (mcq.type !== 'mcq') return;
+    expect(mcq.data.options).toHaveLength(4);
+    expect(mcq.data.options.filter(option => option.isCorrect)).toHaveLength(1);
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ promptTokens: expect.any(Number) }), 'mock-assessment');
+  });
+
+  it.each([
+    ['generateTF', 'tf'],
+    ['generateFlashcards', 'flashcards']
+  ])('runs %s by name as the native path does', async (name, type) => {
+    const tools = lessonTools('Help me revise cell biology');
+    const result = await executeLessonTool(tools, name, { topic: 'cell biology', difficulty: 'easy', reason: 'revision' }, 'call-1');
+
+    expect(result.type).toBe(type);
+  });
+
+  it('generates the same assessment for the same prompt', async () => {
+    const args = { topic: 'osmosis', difficulty: 'medium', reason: 'check understanding' };
+    const first = await executeLessonTool(lessonTools('Quiz me'), 'generateMCQ', args, 'call-1');
+    const second = await executeLessonTool(lessonTools('Quiz me'), 'generateMCQ', args, 'call-2');
+
+    expect(second).toEqual(first);
+  });
+
+  it('rejects unknown tools and invalid arguments without calling the model', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onUsage = vi.fn();
+    const tools = lessonTools('Quiz me', onUsage);
+
+    expect(await executeLessonTool(tools, 'generateEssay', {}, 'call-1')).toEqual({
+      type: 'error',
+      message: 'Unknown assessment tool: generateEssay'
+    });
+    expect((await executeLessonTool(tools, 'generateMCQ', { topic: 'osmosis', difficulty: 'impossible' }, 'call-2')).type).toBe('error');
+    expect(onUsage).not.toHaveBeenCalled();
+  });
+});
+
+describe('assessments generated from retrieved passages', () => {
+  const PASSAGES: MessageCitation[] = [
+    { number: 1, materialId: 'material-1', materialName: 'Lecture 3.pdf', pageNumber: 4, section: 'Light reactions', excerpt: 'Chlorophyll absorbs light.' },
+    { number: 2, materialId: 'material-2', materialName: 'Lecture 4.mp4', pageNumber: null, timestampSeconds: 862, section: null, excerpt: 'Rubisco fixes carbon dioxide.' }
+  ];
+
+  // An assessment model that answers with the given object and keeps the prompt it was sent
+  function assessmentModel(object: unknown) {
+    const prompts: string[] = [];
+    const model = new MockLanguageModelV1({
+      defaultObjectGenerationMode: 'json',
+      doGenerate: async ({ prompt }) => {
+        prompts.push(JSON.stringify(prompt));
+        return {
+          rawCall: { rawPrompt: prompt, rawSettings: {} },
+          finishReason: 'stop',
+          usage: { promptTokens: 10, completionTokens: 20 },
+          text: JSON.stringify(object)
+        };
+      }
+    });
+    vi.mocked(getLanguageModel).mockReturnValueOnce(model);
+    return prompts;
+  }
+
+  const mcqCiting = (source: unknown) => ({
+    question: 'Where does rubisco fix carbon dioxide?',
+    options: [
+      { id: 'a', text: 'Stroma', isCorrect: true },
+      { id: 'b', text: 'Thylakoid', isCorrect: false },
+      { id: 'c', text: 'Nucleus', isCorrect: false },
+      { id: 'd', text: 'Cytoplasm', isCorrect: false }
+    ],
+    explanation: 'The Calvin cycle runs in the stroma.',
+    topic: 'photosynthesis',
+    difficulty: 'medium',
+    source
+  });
+
+  function passageTools() {
+    const latestUserMessage = { role: 'user' as const, content: 'Quiz me on the Calvin cycle' };
+    return createLessonTools({
+      messages: [latestUserMessage],
+      latestUserMessage,
+      materialFileData: [],
+      passages: '[1] Lecture 3.pdf, page 4 - Light reactions\nChlorophyll absorbs light.\n\n[2] Lecture 4.mp4 at 14:22\nRubisco fixes carbon dioxide.',
+      passageCitations: PASSAGES
+    });
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the passage an item cites as its source', async () => {
+    const prompts = assessmentModel(mcqCiting({ sourceMaterialId: 'material-2', passage: 2 }));
+
+    const result = await executeLessonTool(passageTools(), 'generateMCQ', { topic: 'photosynthesis', difficulty: 'medium', reason: 'check' }, 'call-1');
+
+    expect(result.type).toBe('mcq');
+    if (result.type !== 'mcq') return;
+    expect(result.data.source).toEqual({ sourceMaterialId: 'material-2', materialName: 'Lecture 4.mp4', timestampSeconds: 862 });
+    expect(prompts[0]).toContain('Course Material Passages');
+    expect(prompts[0]).toContain('[1] Material ID material-1: \\"Lecture 3.pdf\\"');
+  });
+
+  it('accepts a passage material cited without a passage number', async () => {
+    assessmentModel(mcqCiting({ sourceMaterialId: 'material-1', page: 4 }));
+
+    const result = await executeLessonTool(passageTools(), 'generateMCQ', { topic: 'photosynthesis', difficulty: 'medium', reason: 'check' }, 'call-1');
+
+    expect(result.type === 'mcq' && result.data.source).toEqual({ sourceMaterialId: 'material-1', materialName: 'Lecture 3.pdf', page: 4 });
+  });
+
+  it('drops a source that is neither a passage nor an attached material', async () => {
+    assessmentModel(mcqCiting({ sourceMaterialId: 'material-9', page: 1 }));
+
+    const result = await executeLessonTool(passageTools(), 'generateMCQ', { topic: 'photosynthesis', difficulty: 'medium', reason: 'check' }, 'call-1');
+
+    expect(result.type === 'mcq' && result.data.source).toBeUndefined();
+  });
+});
@@ -0,0 +1,262 @@
+import { tool, zodSchema, type ToolSet } from 'ai';
+import { z } from 'zod';
+import type { FunctionDeclaration } from '@google/genai';
+import { generateMCQAction, generateTFAction, generateFlashcardsAction, type UsageReporter } from './lesson-actions';
+import type { MCQ, TF, FlashcardSet } from './lesson-schemas';
+import type { MaterialFileData } from './gemini-files';
+import type { ChatMessage, MessageCitation } from '@/lib/types';
+import type { DifficultySelection } from '@/lib/learning/adaptive-difficulty';
+import type { Difficulty } from '@/lib/learning/mastery';
+
+interface Message {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+// Context the assessment tools need from the current chat request
+export interface LessonToolContext {
+  messages: Message[];
+  latestUserMessage?: Message;
+  materialFileData: MaterialFileData[];
+  // Course material passages retrieved for this turn, numbered as in the system prompt
+  passages?: string;
+  // Where each of those passages comes from, so generated items can cite them
+  passageCitations?: MessageCitation[];
+  // Passage the student highlighted in the material viewer; assessments are built from it
+  selection?: string;
+  // Picks the difficulty from the student's recorded results; the tutor's choice is used without it
+  selectDifficulty?: (topic: string, requested: Difficulty) => Promise<DifficultySelection>;
+  // Records the tokens each generated assessment used
+  onUsage?: UsageReporter;
+}
+
+// Shape of every tool result - chat.tsx reads `type` and `data` from toolInvocations
+export type LessonToolResult =
+  | { type: 'mcq'; data: MCQ; message: string }
+  | { type: 'tf'; data: TF; message: string }
+  | { type: 'flashcards'; data: FlashcardSet; message: string }
+  | { type: 'error'; message: string };
+
+export type LessonToolName = 'generateMCQ' | 'generateTF' | 'generateFlashcards';
+
+// Stored form of a generated assessment, as the lesson page renders it from saved messages
+export function toChatAssessment(result: LessonToolResult): ChatMessage['assessment'] | undefined {
+  if (result.type === 'error') {
+    return undefined;
+  }
+
+  return {
+    type: result.type,
+    data: result.data,
+    results: {
+      completed: false
+    }
+  };
+}
+
+// Build the MCQ, T/F and flashcard tools bound to the current conversation
+export function createLessonTools(context: LessonToolContext) {
+  const { messages, latestUserMessage, materialFileData, passages, passageCitations, selection, selectDifficulty, onUsage } = context;
+  const recentContext = () => {
+    const conversation = messages.slice(-3).map((m: Message) => m.content).join('\n');
+    return [
+      conversation,
+      passages ? `Relevant course material passages:\n${passages}` : null,
+      selection ? `Passage the student highlighted (base the assessment on this passage):\n${selection}` : null
+    ].filter(Boolean).join('\n\n');
+  };
+
+  const chooseDifficulty = async (topic: string, requested: Difficulty) => {
+    if (!selectDifficulty) return undefined;
+    try {
+      const selection = await selectDifficulty(topic, requested);
+      console.log(`Adaptive difficulty for ${topic}: ${requested} -> ${selection.level} (${selection.rationale})`);
+      return selection;
+    } catch (error) {
+      console.error('Error selecting adaptive difficulty:', error);
+      return undefined;
+    }
+  };
+
+  return {
+    generateMCQ: tool({
+      description: 'Generate a multiple choice question to help reinforce learning and test understanding',
+      parameters: z.object({
+        topic: z.string().describe('The main topic for the MCQ'),
+        difficulty: z.enum(['easy', 'medium', 'hard']).describe('Difficulty level'),
+        reason: z.string().describe('Why this MCQ would be helpful')
+      }),
+      execute: async ({ topic, difficulty, reason }): Promise<LessonToolResult> => {
+        console.log('MCQ Tool called! Topic:', topic, 'Difficulty:', difficulty, 'Reason:', reason);
+
+        try {
+          const difficultySelection = await chooseDifficulty(topic, difficulty);
+          const mcq = await generateMCQAction({
+            topic,
+            difficulty: difficultySelection?.level ?? difficulty,
+            difficultyRationale: difficultySelection?.rationale,
+            context: recentContext(),
+            userMessage: latestUserMessage?.content || '',
+            materials: materialFileData,
+            passages: passageCitations,
+            onUsage
+          });
+
+          if (mcq) {
+            return {
+              type: 'mcq',
+              data: difficultySelection ? { ...mcq, difficultySelection } : mcq,
+              message: `I've created a quick quiz question to help reinforce your understanding of ${topic}:`
+            };
+          } else {
+            return {
+              type: 'error',
+              message: 'I had trouble creating a quiz question, but let\'s continue our discussion!'
+            };
+          }
+        } catch (error) {
+          console.error('Error generating MCQ:', error);
+          return {
+            type: 'error',
+            message: 'I had trouble creating a quiz question, but let\'s continue our discussion!'
+          };
+        }
+      }
+    }),
+    generateTF: tool({
+      description: 'Generate True/False statements to clarify misconceptions and explore nuanced understanding',
+      parameters: z.object({
+        topic: z.string().describe('The main topic for the T/F statements'),
+        difficulty: z.enum(['easy', 'medium', 'hard']).describe('Difficulty level'),
+        reason: z.string().describe('Why these T/F statements would be helpful')
+      }),
+      execute: async ({ topic, difficulty, reason }): Promise<LessonToolResult> => {
+        console.log('T/F Tool called! Topic:', topic, 'Difficulty:', difficulty, 'Reason:', reason);
+
+        try {
+          const difficultySelection = await chooseDifficulty(topic, difficulty);
+          const tf = await generateTFAction({
+            topic,
+            difficulty: difficultySelection?.level ?? difficulty,
+            difficultyRationale: difficultySelection?.rationale,
+            context: recentContext(),
+            userMessage: latestUserMessage?.content || '',
+            materials: materialFileData,
+            passages: passageCitations,
+            onUsage
+          });
+
+          if (tf) {
+            return {
+              type: 'tf',
+              data: difficultySelection ? { ...tf, difficultySelection } : tf,
+              message: `Let's explore some key aspects of ${topic} through these True/False statements:`
+            };
+          } else {
+            return {
+              type: 'error',
+              message: 'I had trouble creating True/False statements, but let\'s continue our discussion!'
+            };
+          }
+        } catch (error) {
+          console.error('Error generating T/F:', error);
+          return {
+            type: 'error',
+            message: 'I had trouble creating True/False statements, but let\'s continue our discussion!'
+          };
+        }
+      }
+    }),
+    generateFlashcards: tool({
+      description: 'Generate flashcards for active recall and spaced repetition learning',
+      parameters: z.object({
+        topic: z.string().describe('The main topic for the flashcards'),
+        difficulty: z.enum(['easy', 'medium', 'hard']).describe('Difficulty level'),
+        reason: z.string().describe('Why these flashcards would be helpful for retention')
+      }),
+      execute: async ({ topic, difficulty, reason }): Promise<LessonToolResult> => {
+        console.log('Flashcards Tool called! Topic:', topic, 'Difficulty:', difficulty, 'Reason:', reason);
+
+        try {
+          const difficultySelection = await chooseDifficulty(topic, difficulty);
+          const flashcardSet = await generateFlashcardsAction({
+            topic,
+            difficulty: difficultySelection?.level ?? difficulty,
+            difficultyRationale: difficultySelection?.rationale,
+            context: recentContext(),
+            userMessage: latestUserMessage?.content || '',
+            materialContext: materialFileData.length > 0 ?
+              `Attached course materials: ${materialFileData.map(f => f.name || f.mimeType).join(', ')}` :
+              undefined,
+            materials: materialFileData,
+            passages: passageCitations,
+            onUsage
+          });
+
+          if (flashcardSet) {
+            return {
+              type: 'flashcards',
+              data: difficultySelection ? { ...flashcardSet, difficultySelection } : flashcardSet,
+              message: `Let's reinforce these key concepts from ${topic} with some flashcards:`
+            };
+          } else {
+            return {
+              type: 'error',
+              message: 'I had trouble creating flashcards, but let\'s continue our discussion!'
+            };
+          }
+        } catch (error) {
+          console.error('Error generating flashcards:', error);
+          return {
+            type: 'error',
+            message: 'I had trouble creating flashcards, but let\'s continue our discussion!'
+          };
+        }
+      }
+    })
+  } satisfies ToolSet;
+}
+
+export type LessonTools = ReturnType<typeof createLessonTools>;
+
+/**
+ * Convert the lesson tools into Gemini function declarations so the native
+ * GenAI SDK path can offer the same tool-calling contract as streamText
+ */
+export function toGeminiFunctionDeclarations(tools: LessonTools): FunctionDeclaration[] {
+  return (Object.keys(tools) as LessonToolName[]).map(name => {
+    // Gemini rejects the $schema keyword, everything else is plain JSON Schema
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { $schema, ...parametersJsonSchema } = zodSchema(tools[name].parameters).jsonSchema;
+
+    return {
+      name,
+      description: tools[name].description,
+      parametersJsonSchema
+    };
+  });
+}
+
+/**
+ * Validate model-supplied arguments and run a lesson tool by name.
+ * Used by the native GenAI path, which receives raw function calls.
+ */
+export async function executeLessonTool(
+  tools: LessonTools,
+  name: string,
+  args: unknown,
+  toolCallId: string
+): Promise<LessonToolResult> {
+  if (!(name in tools)) {
+    return { type: 'error', message: `Unknown assessment tool: ${name}` };
+  }
+
+  const lessonTool = tools[name as LessonToolName];
+  const parsedArgs = lessonTool.parameters.safeParse(args ?? {});
+  if (!parsedArgs.success) {
+    console.error(`Invalid arguments for ${name}:`, parsedArgs.error);
+    return { type: 'error', message: 'I had trouble creating that activity, but let\'s continue our discussion!' };
+  }
+
+  return lessonTool.execute(parsedArgs.data, { toolCallId, messages: [] });
+}
@@ -0,0 +1,238 @@
+import type { EmbeddingModel, LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai';
+
+// Deterministic offline stand-in for the real models, selected with AI_PROVIDER=mock.
+// The same prompt always gives the same reply, tool call or object, so the whole
+// learn flow (chat, assessment tools, generated MCQ/TF/flashcards) runs without network.
+
+type LanguageModelV1FunctionToolCall = Omit<Extract<LanguageModelV1StreamPart, { type: 'tool-call' }>, 'type'>;
+
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+};
+
+// Phrases in the latest user message that make the mock tutor call an assessment tool
+const TOOL_TRIGGERS: Array<{ pattern: RegExp; toolName: string }> = [
+  { pattern: /flashcard/i, toolName: 'generateFlashcards' },
+  { pattern: /true or false|true\/false/i, toolName: 'generateTF' },
+  { pattern: /quiz|question|test me/i, toolName: 'generateMCQ' }
+];
+
+function lastUserText(options: LanguageModelV1CallOptions): string {
+  const message = [...options.prompt].reverse().find(m => m.role === 'user');
+  if (!message || message.role !== 'user') return '';
+  return message.content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join(' ')
+    .trim();
+}
+
+// Generation prompts carry a "Topic: ..." line; chat turns fall back to the user's words
+function findTopic(text: string): string {
+  const topicLine = text.match(/^Topic:\s*(.+)$/m);
+  if (topicLine) return topicLine[1].trim();
+
+  const about = text.match(/\babout\s+([^.?!\n]+)/i);
+  return about ? about[1].trim() : 'the current topic';
+}
+
+/**
+ * Build a value that satisfies a JSON schema. Arrays use their minimum length,
+ * enums their first value, and the first item of an array is the "correct" one.
+ */
+function sampleFromSchema(schema: JsonSchema, topic: string, key = 'value', index = 0): unknown {
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+  if (schema.anyOf && schema.anyOf.length > 0) return sampleFromSchema(schema.anyOf[0], topic, key, index);
+
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      const required = new Set(schema.required ?? []);
+      for (const [property, propertySchema] of Object.entries(schema.properties ?? {})) {
+        // Optional fields are left out, e.g. citations the mock cannot make honestly
+        if (!required.has(property)) continue;
+        result[property] = sampleFromSchema(propertySchema, topic, property, index);
+      }
+      return result;
+    }
+    case 'array': {
+      const length = Math.max(schema.minItems ?? 1, 1);
+      return Array.from({ length }, (_, itemIndex) =>
+        sampleFromSchema(schema.items ?? { type: 'string' }, topic, key, itemIndex)
+      );
+    }
+    case 'boolean':
+      return index === 0;
+    case 'integer':
+    case 'number':
+      return schema.minimum ?? index + 1;
+    default:
+      if (key === 'id') return String(index + 1);
+      if (key === 'topic') return topic;
+      return `Mock ${key} ${index + 1} about ${topic}`;
+  }
+}
+
+function chooseToolCall(options: LanguageModelV1CallOptions, userText: string): LanguageModelV1FunctionToolCall | null {
+  if (options.mode.type !== 'regular' || !options.mode.tools || options.mode.toolChoice?.type === 'none') {
+    return null;
+  }
+
+  const tools = options.mode.tools.filter(tool => tool.type === 'function');
+  const trigger = TOOL_TRIGGERS.find(({ pattern, toolName }) =>
+    pattern.test(userText) && tools.some(tool => tool.name === toolName)
+  );
+  const forced = options.mode.toolChoice?.type === 'tool' ? options.mode.toolChoice.toolName : undefined;
+  const toolName = forced ?? trigger?.toolName;
+  const selected = tools.find(tool => tool.name === toolName);
+  if (!selected || selected.type !== 'function') return null;
+
+  const args = sampleFromSchema(selected.parameters as JsonSchema, findTopic(userText)) as Record<string, unknown>;
+  return {
+    toolCallType: 'function',
+    toolCallId: `mock-call-${selected.name}`,
+    toolName: selected.name,
+    args: JSON.stringify(args)
+  };
+}
+
+function respond(options: LanguageModelV1CallOptions) {
+  const userText = lastUserText(options);
+  const topic = findTopic(userText);
+
+  if (options.mode.type === 'object-json') {
+    return { text: JSON.stringify(sampleFromSchema(options.mode.schema as JsonSchema, topic)), toolCalls: [] };
+  }
+
+  if (options.mode.type === 'object-tool') {
+    const { tool } = options.mode;
+    return {
+      text: '',
+      toolCalls: [{
+        toolCallType: 'function' as const,
+        toolCallId: `mock-call-${tool.name}`,
+        toolName: tool.name,
+        args: JSON.stringify(sampleFromSchema(tool.parameters as JsonSchema, topic))
+      }]
+    };
+  }
+
+  const toolCall = chooseToolCall(options, userText);
+  const text = toolCall
+    ? `Let's check your understanding of ${topic}.`
+    : `Mock tutor reply about ${topic}. You said: "${userText.slice(0, 200)}"`;
+
+  return { text, toolCalls: toolCall ? [toolCall] : [] };
+}
+
+// Rough token count so usage tracking has something to record offline
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export function createMockLanguageModel(modelId = 'mock'): LanguageModelV1 {
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId,
+    defaultObjectGenerationMode: 'json',
+    supportsStructuredOutputs: true,
+
+    async doGenerate(options) {
+      const { text, toolCalls } = respond(options);
+      return {
+        text,
+        toolCalls,
+        finishReason: toolCalls.length > 0 ? 'tool-calls' : 'stop',
+        usage: {
+          promptTokens: estimateTokens(JSON.stringify(options.prompt)),
+          completionTokens: estimateTokens(text)
+        },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+      };
+    },
+
+    async doStream(options) {
+      const { text, toolCalls } = respond(options);
+      // Word-sized chunks so the client renders the reply progressively, as with a real model
+      const words = text.match(/\S+\s*/g) ?? [];
+
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        start(controller) {
+          for (const word of words) {
+            controller.enqueue({ type: 'text-delta', textDelta: word });
+          }
+          for (const toolCall of toolCalls) {
+            controller.enqueue({ type: 'tool-call', ...toolCall });
+          }
+          controller.enqueue({
+            type: 'finish',
+            finishReason: toolCalls.length > 0 ? 'tool-calls' : 'stop',
+            usage: {
+              promptTokens: estimateTokens(JSON.stringify(options.prompt)),
+              completionTokens: estimateTokens(text)
+            }
+          });
+          controller.close();
+        }
+      });
+
+      return {
+        stream,
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+      };
+    }
+  };
+}
+
+// 32-bit FNV-1a, for spreading words over the mock embedding's dimensions
+function hashWord(word: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Offline embeddings: hashed bag of words, L2-normalised. Texts sharing words get a
+ * positive cosine similarity, which is enough to exercise vector search without a model.
+ */
+export function createMockEmbeddingModel(modelId = 'mock-embedding', dimensions = 768): EmbeddingModel<string> {
+  const embed = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9\u00c0-\uffff]+/g) ?? [];
+    for (const word of words) {
+      // Crude stemming so "cell" and "cells" land in the same bucket
+      const stem = word.length > 3 ? word.replace(/(es|s)$/, '') : word;
+      const hash = hashWord(stem);
+      vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    // A zero vector has no cosine distance; give empty texts a fixed direction instead
+    return norm === 0 ? vector.map((_, i) => (i === 0 ? 1 : 0)) : vector.map(value => value / norm);
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId,
+    maxEmbeddingsPerCall: undefined,
+    supportsParallelCalls: true,
+
+    async doEmbed({ values }) {
+      return {
+        embeddings: values.map(embed),
+        usage: { tokens: values.reduce((sum, value) => sum + estimateTokens(value), 0) }
+      };
+    }
+  };
+}
@@ -0,0 +1,368 @@
+import type {
+  CallWarning as LanguageModelV1CallWarning,
+  EmbeddingModel,
+  FinishReason as LanguageModelV1FinishReason,
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart
+} from 'ai';
+import { generateId } from 'ai';
+
+// Minimal LanguageModelV1 for servers that speak the OpenAI chat completions API
+// (Ollama, llama.cpp, vLLM, LM Studio, ...). Covers what the learn flow needs:
+// text, streaming, function tools and JSON object generation.
+
+export interface OpenAICompatibleSettings {
+  baseUrl: string;
+  apiKey?: string;
+}
+
+type OpenAIMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type LanguageModelV1FunctionToolCall = Omit<Extract<LanguageModelV1StreamPart, { type: 'tool-call' }>, 'type'>;
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+function toBase64(data: Uint8Array): string {
+  let binary = '';
+  data.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function convertPrompt(prompt: LanguageModelV1Prompt, warnings: LanguageModelV1CallWarning[]): OpenAIMessage[] {
+  const messages: OpenAIMessage[] = [];
+
+  for (const message of prompt) {
+    switch (message.role) {
+      case 'system':
+        messages.push({ role: 'system', content: message.content });
+        break;
+      case 'user': {
+        const parts: Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> = [];
+        for (const part of message.content) {
+          if (part.type === 'text') {
+            parts.push({ type: 'text', text: part.text });
+          } else if (part.type === 'image') {
+            const url = part.image instanceof URL
+              ? part.image.toString()
+              : `data:${part.mimeType || 'image/jpeg'};base64,${toBase64(part.image)}`;
+            parts.push({ type: 'image_url', image_url: { url } });
+          } else {
+            // Course material files are Google File API URIs that other servers cannot read
+            warnings.push({ type: 'other', message: `File part (${part.mimeType}) dropped for OpenAI-compatible provider` });
+          }
+        }
+        messages.push({
+          role: 'user',
+          content: parts.every(part => part.type === 'text')
+            ? parts.map(part => (part as { text: string }).text).join('\n')
+            : parts
+        });
+        break;
+      }
+      case 'assistant': {
+        let text = '';
+        const toolCalls: OpenAIToolCall[] = [];
+        for (const part of message.content) {
+          if (part.type === 'text') {
+            text += part.text;
+          } else if (part.type === 'tool-call') {
+            toolCalls.push({
+              id: part.toolCallId,
+              type: 'function',
+              function: { name: part.toolName, arguments: JSON.stringify(part.args) }
+            });
+          }
+        }
+        messages.push({
+          role: 'assistant',
+          content: text || null,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+        });
+        break;
+      }
+      case 'tool':
+        for (const part of message.content) {
+          messages.push({ role: 'tool', tool_call_id: part.toolCallId, content: JSON.stringify(part.result) });
+        }
+        break;
+    }
+  }
+
+  return messages;
+}
+
+function mapFinishReason(reason: string | null | undefined): LanguageModelV1FinishReason {
+  switch (reason) {
+    case 'stop':
+      return 'stop';
+    case 'length':
+      return 'length';
+    case 'content_filter':
+      return 'content-filter';
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool-calls';
+    default:
+      return 'unknown';
+  }
+}
+
+function mapUsage(usage: OpenAIUsage | undefined) {
+  return {
+    promptTokens: usage?.prompt_tokens ?? NaN,
+    completionTokens: usage?.completion_tokens ?? NaN
+  };
+}
+
+export function createOpenAICompatibleModel(modelId: string, settings: OpenAICompatibleSettings): LanguageModelV1 {
+  const url = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  function buildRequest(options: LanguageModelV1CallOptions, stream: boolean) {
+    const warnings: LanguageModelV1CallWarning[] = [];
+    if (options.topK != null) {
+      warnings.push({ type: 'unsupported-setting', setting: 'topK' });
+    }
+
+    const body: Record<string, unknown> = {
+      model: modelId,
+      messages: convertPrompt(options.prompt, warnings),
+      temperature: options.temperature,
+      top_p: options.topP,
+      max_tokens: options.maxTokens,
+      stop: options.stopSequences,
+      seed: options.seed,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {})
+    };
+
+    const { mode } = options;
+    if (mode.type === 'regular') {
+      const tools = (mode.tools ?? []).flatMap(tool => {
+        if (tool.type !== 'function') {
+          warnings.push({ type: 'unsupported-tool', tool });
+          return [];
+        }
+        return [{ type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.parameters } }];
+      });
+      if (tools.length > 0) {
+        body.tools = tools;
+        const choice = mode.toolChoice;
+        body.tool_choice = !choice || choice.type === 'auto'
+          ? 'auto'
+          : choice.type === 'tool'
+            ? { type: 'function', function: { name: choice.toolName } }
+            : choice.type;
+      }
+    } else if (mode.type === 'object-json') {
+      // The AI SDK adds the schema to the prompt because structured outputs are not assumed
+      body.response_format = { type: 'json_object' };
+    } else {
+      body.tools = [{ type: 'function', function: { name: mode.tool.name, description: mode.tool.description, parameters: mode.tool.parameters } }];
+      body.tool_choice = { type: 'function', function: { name: mode.tool.name } };
+    }
+
+    return { body, warnings };
+  }
+
+  async function post(body: Record<string, unknown>, abortSignal?: AbortSignal, headers?: Record<string, string | undefined>) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+        ...Object.fromEntries(Object.entries(headers ?? {}).filter(([, value]) => value !== undefined)) as Record<string, string>
+      },
+      body: JSON.stringify(body),
+      signal: abortSignal
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`OpenAI-compatible request to ${url} failed: ${response.status} ${response.statusText} ${detail}`.trim());
+    }
+
+    return response;
+  }
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'openai-compatible',
+    modelId,
+    defaultObjectGenerationMode: 'json',
+    supportsImageUrls: true,
+
+    async doGenerate(options) {
+      const { body, warnings } = buildRequest(options, false);
+      const response = await post(body, options.abortSignal, options.headers);
+      const json = await response.json();
+      const choice = json.choices?.[0];
+
+      const toolCalls: LanguageModelV1FunctionToolCall[] = (choice?.message?.tool_calls ?? []).map((call: OpenAIToolCall) => ({
+        toolCallType: 'function',
+        toolCallId: call.id || generateId(),
+        toolName: call.function.name,
+        args: call.function.arguments || '{}'
+      }));
+
+      const { messages: rawPrompt, ...rawSettings } = body;
+      return {
+        text: choice?.message?.content ?? undefined,
+        toolCalls,
+        finishReason: mapFinishReason(choice?.finish_reason),
+        usage: mapUsage(json.usage),
+        rawCall: { rawPrompt, rawSettings },
+        warnings
+      };
+    },
+
+    async doStream(options) {
+      const { body, warnings } = buildRequest(options, true);
+      const response = await post(body, options.abortSignal, options.headers);
+      if (!response.body) {
+        throw new Error(`OpenAI-compatible request to ${url} returned no body`);
+      }
+
+      // Tool call arguments arrive as fragments keyed by index
+      const toolCalls = new Map<number, { id: string; name: string; args: string }>();
+      let finishReason: LanguageModelV1FinishReason = 'unknown';
+      let usage = mapUsage(undefined);
+      let buffer = '';
+      const decoder = new TextDecoder();
+
+      const stream = response.body.pipeThrough(new TransformStream<Uint8Array, LanguageModelV1StreamPart>({
+        transform(chunk, controller) {
+          buffer += decoder.decode(chunk, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+
+          for (const line of lines) {
+            const data = line.trim();
+            if (!data.startsWith('data:')) continue;
+            const payload = data.slice(5).trim();
+            if (!payload || payload === '[DONE]') continue;
+
+            let event;
+            try {
+              event = JSON.parse(payload);
+            } catch (error) {
+              controller.enqueue({ type: 'error', error });
+              continue;
+            }
+
+            if (event.usage) {
+              usage = mapUsage(event.usage);
+            }
+
+            const choice = event.choices?.[0];
+            if (!choice) continue;
+
+            if (choice.delta?.content) {
+              controller.enqueue({ type: 'text-delta', textDelta: choice.delta.content });
+            }
+
+            for (const delta of choice.delta?.tool_calls ?? []) {
+              const index = delta.index ?? 0;
+              const current = toolCalls.get(index) ?? { id: delta.id || generateId(), name: '', args: '' };
+              current.name += delta.function?.name ?? '';
+              current.args += delta.function?.arguments ?? '';
+              toolCalls.set(index, current);
+
+              if (delta.function?.arguments) {
+                controller.enqueue({
+                  type: 'tool-call-delta',
+                  toolCallType: 'function',
+                  toolCallId: current.id,
+                  toolName: current.name,
+                  argsTextDelta: delta.function.arguments
+                });
+              }
+            }
+
+            if (choice.finish_reason) {
+              finishReason = mapFinishReason(choice.finish_reason);
+            }
+          }
+        },
+        flush(controller) {
+          for (const call of toolCalls.values()) {
+            controller.enqueue({
+              type: 'tool-call',
+              toolCallType: 'function',
+              toolCallId: call.id,
+              toolName: call.name,
+              args: call.args || '{}'
+            });
+          }
+          controller.enqueue({ type: 'finish', finishReason, usage });
+        }
+      }));
+
+      const { messages: rawPrompt, ...rawSettings } = body;
+      return {
+        stream,
+        rawCall: { rawPrompt, rawSettings },
+        warnings
+      };
+    }
+  };
+}
+
+/**
+ * Embedding model for the /embeddings endpoint of the same servers, e.g. Ollama's nomic-embed-text
+ */
+export function createOpenAICompatibleEmbeddingModel(modelId: string, settings: OpenAICompatibleSettings): EmbeddingModel<string> {
+  const url = `${settings.baseUrl.replace(/\/+$/, '')}/embeddings`;
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'openai-compatible',
+    modelId,
+    maxEmbeddingsPerCall: 64,
+    supportsParallelCalls: false,
+
+    async doEmbed({ values, abortSignal, headers }) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+          ...Object.fromEntries(Object.entries(headers ?? {}).filter(([, value]) => value !== undefined)) as Record<string, string>
+        },
+        body: JSON.stringify({ model: modelId, input: values }),
+        signal: abortSignal
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`OpenAI-compatible request to ${url} failed: ${response.status} ${response.statusText} ${detail}`.trim());
+      }
+
+      const json = await response.json() as {
+        data: Array<{ index: number; embedding: number[] }>;
+        usage?: { prompt_tokens?: number };
+      };
+
+      return {
+        embeddings: [...json.data].sort((a, b) => a.index - b.index).map(item => item.embedding),
+        usage: json.usage?.prompt_tokens != null ? { tokens: json.usage.prompt_tokens } : undefined
+      };
+    }
+  };
+}
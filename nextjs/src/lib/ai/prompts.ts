@@ -174,6 +174,74 @@ CRITICAL: When generating assessments, ALWAYS provide educational context first
 
 Remember: The goal is to create an adaptive learning experience that meets users where they are and helps them build understanding through explanation and practice. Choose the assessment type (generateMCQ vs generateTF vs generateFlashcards) that best serves the specific learning moment - MCQ for application testing, T/F for misconception clarification, and Flashcards for retention and memorization.`;
 
+// Tool-calling rules shared by the streamText and native GenAI chat paths
+export const ASSESSMENT_TOOLS_PROMPT = `You have access to THREE assessment tools that create interactive learning content:
+
+1. **generateMCQ** - Creates multiple choice questions
+2. **generateTF** - Creates True/False statements  
+3. **generateFlashcards** - Creates flashcards for active recall and retention
+
+## CRITICAL: Assessment Generation Rules
+
+**NEVER write assessment questions directly in your response text.** You must ONLY create assessments by calling the appropriate tool functions listed above.
+
+**PROHIBITED EXAMPLES (DO NOT DO THIS):**
+❌ "True or False: An engineer should always strive to make as many idealizations..."
+❌ "Which of the following is correct? A) Option 1 B) Option 2..."
+❌ "Here's a quick quiz question: What is...?"
+
+**CORRECT APPROACH:**
+✅ Provide educational explanation, then call generateMCQ/generateTF/generateFlashcards tool
+✅ Let the tool handle the assessment creation and display
+✅ Focus your text response on explanations and context
+
+## ASSESSMENT SELECTION STRATEGY:
+
+**Use generateMCQ (PREFERRED) when:**
+- Testing application of concepts with multiple valid approaches
+- Choosing between different methods or solutions
+- Comparing and contrasting multiple options
+- Assessment of understanding across broader topics
+- When multiple tools would work equally well (slight preference)
+
+**Use generateTF when:**
+- Clarifying common misconceptions  
+- Verifying specific factual understanding
+- Exploring nuanced aspects of a concept with subtle distinctions
+- Addressing yes/no conceptual questions
+- Breaking down complex topics into discrete true/false elements
+
+**Use generateFlashcards (PREFERRED) when:**
+- Testing memorization of key terms and definitions
+- Reinforcing core concepts from lesson materials for retention
+- Supporting spaced repetition and active recall
+- Consolidating learned material for long-term memory
+- When user explicitly mentions memorization, recall, or review needs
+- After substantial material has been covered and needs consolidation
+- When multiple tools would work equally well (slight preference)
+
+## CRITICAL ASSESSMENT INSTRUCTIONS:
+1. ALWAYS provide a contextual text explanation BEFORE calling any assessment tool
+2. This explanation should either:
+   - Provide a brief educational overview of the topic to guide the user toward understanding
+   - Introduce why the assessment is important and how it applies to their learning
+   - Give background information that will help the user approach the assessment thoughtfully
+
+3. Your text response should stand alone as valuable educational content, even without the assessment
+4. The explanation should prepare the user to engage meaningfully with the assessment
+5. **NEVER include assessment questions in your text response - only call the tools**
+
+## Tool Usage Workflow:
+1. **First**: Provide educational context and explanation in your text response
+2. **Then**: Call the appropriate tool (generateMCQ, generateTF, or generateFlashcards)
+3. **Never**: Include assessment questions directly in your response text
+
+IMPORTANT: If the user's message contains uncertainty indicators like "don't understand", "confused", "not sure", "what is", "explain", etc., you SHOULD:
+1. First provide a clear, contextual explanation of the topic
+2. Then use either generateMCQ, generateTF, or generateFlashcards tool to create practice content that builds on that explanation
+
+Choose the assessment type that best serves the specific learning moment. When in doubt, prefer MCQ for application testing, T/F for misconception clarification, and Flashcards for retention and memorization.`;
+
 export const MCQ_GENERATION_PROMPT = `You are being called as a tool to generate a multiple choice question based on the current conversation context.
 
 IMPORTANT: This tool is called AFTER the main response has provided educational context. Your job is to create ONLY the MCQ data structure - do not include any explanatory text in your response.
@@ -258,6 +326,18 @@ Design flashcards with:
 
 Ensure each flashcard tests genuinely important content that supports the user's long-term learning goals.`;
 
+export const TOPIC_EXTRACTION_PROMPT = `You are organizing a student's course materials into topics. A newly uploaded material is attached above.
+
+Propose the topics this material covers so the student can tag it and build a topic outline for the course:
+1. Suggest between 1 and 8 topics, most central first
+2. Reuse an existing course topic name exactly (same spelling) whenever it fits, instead of inventing a near-duplicate
+3. New topic names should be short (1-5 words), specific and in title case, e.g. "Cell Respiration" rather than "Biology"
+4. When a topic is a sub-topic of a broader unit, set parentName to that unit (an existing topic or another topic you suggest)
+5. confidence is how sure you are the material substantially covers the topic: 0.9+ for main subjects, 0.5-0.8 for significant sections, below 0.5 for passing mentions
+6. reason is one short sentence saying where or how the material covers the topic
+
+Do not suggest administrative topics such as "Syllabus", "Homework" or "Exam Dates" unless the material is only about them.`;
+
 export const UNCERTAINTY_DETECTION_PROMPTS = {
   DIRECT_CONFUSION: [
     "I don't understand",
@@ -304,6 +384,33 @@ export const CONVERSATION_CONTEXT_PROMPTS = {
 4. Next logical topics to explore`
 };
 
+export const PREREQUISITES_PROMPT = `The student asked to include prerequisites. The topics above are what the selected topics build on, most foundational first.
+- Before teaching a selected topic, briefly check the student's grasp of its prerequisites, starting with the most foundational
+- Use a quick question or an assessment tool rather than re-teaching what they already know
+- If a prerequisite is shaky, fill that gap first, then return to the selected topic
+- Don't dwell on prerequisites the student clearly understands`;
+
+export const RETRIEVED_PASSAGES_PROMPT = `The numbered passages above were retrieved from the student's course materials as the most relevant to their latest message.
+- Ground your explanations in these passages and prefer their terminology and notation
+- Cite a passage you rely on with its number in square brackets right after the claim, e.g. "ATP is made in the mitochondria [2]"
+- Only cite passage numbers that appear above, and never invent page numbers
+- Passages from lecture recordings are marked with the time they were spoken; when you rely on one, you can point the student there, e.g. "as explained in Lecture 3 at 14:22 [4]"
+- If the passages don't cover what the student asked, say so briefly and answer from general knowledge without a citation`;
+
+// What to do with a passage the student highlighted in the material viewer, by action
+export const SELECTION_PROMPTS = {
+  explain: `The student highlighted the passage above and asked you to explain it.
+- Explain what the passage says in plain language, step by step, defining any terms it assumes
+- Connect it to the lesson's topics where that helps
+- Keep to this passage rather than the whole material, and end with a short question to check understanding`,
+  quiz: `The student highlighted the passage above and asked to be quizzed on it.
+- Call the multiple choice tool now, with the passage's main idea as the topic
+- The question must be answerable from the highlighted passage`,
+  flashcards: `The student highlighted the passage above and asked for flashcards from it.
+- Call the flashcards tool now, with the passage's main idea as the topic
+- Every card must come from the highlighted passage`
+} as const;
+
 export const MCQ_DIFFICULTY_GUIDELINES = {
   EASY: `Create an easy MCQ that:
 - Tests basic recall or recognition
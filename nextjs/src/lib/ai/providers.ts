@@ -0,0 +1,168 @@
+import type { EmbeddingModel, LanguageModelV1 } from 'ai';
+import { google } from '@ai-sdk/google';
+import { GoogleGenAI } from '@google/genai';
+import { createOpenAICompatibleEmbeddingModel, createOpenAICompatibleModel } from './openai-compatible';
+import { createMockEmbeddingModel, createMockLanguageModel } from './mock-provider';
+
+// Single place that decides which backend and model each part of the learn flow uses.
+//
+// AI_PROVIDER           google (default) | openai-compatible | mock
+// AI_CHAT_MODEL         tutor conversation without attached files
+// AI_ASSESSMENT_MODEL   MCQ/TF/flashcard generation and the no-files fallback
+// AI_FILE_MODEL         tutor conversation over uploaded course materials
+// AI_EMBEDDING_MODEL    embeddings for material passage search; must output EMBEDDING_DIMENSIONS values
+// OPENAI_COMPATIBLE_BASE_URL / OPENAI_COMPATIBLE_API_KEY  e.g. a local Ollama or llama.cpp server
+
+export type ModelProviderName = 'google' | 'openai-compatible' | 'mock';
+export type ModelRole = 'chat' | 'assessment' | 'file';
+// Which models a user's plan gets; on lite, the tutor also answers with the assessment model
+export type ModelTier = 'lite' | 'standard';
+
+export interface ModelConfig {
+  provider: ModelProviderName;
+  models: Record<ModelRole, string>;
+  embeddingModel: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+const DEFAULT_MODELS: Record<ModelProviderName, Record<ModelRole, string>> = {
+  google: {
+    chat: 'gemini-2.5-flash',
+    assessment: 'gemini-2.5-flash-lite',
+    file: 'gemini-2.5-flash'
+  },
+  'openai-compatible': {
+    chat: 'llama3.1',
+    assessment: 'llama3.1',
+    file: 'llama3.1'
+  },
+  mock: {
+    chat: 'mock-chat',
+    assessment: 'mock-assessment',
+    file: 'mock-file'
+  }
+};
+
+// Size of the material_chunks.embedding column
+export const EMBEDDING_DIMENSIONS = 768;
+
+const DEFAULT_EMBEDDING_MODELS: Record<ModelProviderName, string> = {
+  google: 'text-embedding-004',
+  'openai-compatible': 'nomic-embed-text',
+  mock: 'mock-embedding'
+};
+
+// Ollama's OpenAI-compatible API on its default port
+const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+function parseProviderName(value: string | undefined): ModelProviderName {
+  const name = (value || 'google').trim().toLowerCase();
+  if (name === 'google' || name === 'openai-compatible' || name === 'mock') {
+    return name;
+  }
+
+  console.warn(`Unknown AI_PROVIDER "${value}", falling back to google`);
+  return 'google';
+}
+
+export function getModelConfig(): ModelConfig {
+  const provider = parseProviderName(process.env.AI_PROVIDER);
+  const defaults = DEFAULT_MODELS[provider];
+
+  return {
+    provider,
+    models: {
+      chat: process.env.AI_CHAT_MODEL || defaults.chat,
+      assessment: process.env.AI_ASSESSMENT_MODEL || defaults.assessment,
+      file: process.env.AI_FILE_MODEL || defaults.file
+    },
+    embeddingModel: process.env.AI_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[provider],
+    baseUrl: provider === 'openai-compatible'
+      ? process.env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_OPENAI_COMPATIBLE_BASE_URL
+      : undefined,
+    apiKey: provider === 'google'
+      ? process.env.GOOGLE_GENERATIVE_AI_API_KEY
+      : process.env.OPENAI_COMPATIBLE_API_KEY
+  };
+}
+
+export function parseModelTier(value: string | undefined): ModelTier | undefined {
+  const tier = value?.trim().toLowerCase();
+  return tier === 'lite' || tier === 'standard' ? tier : undefined;
+}
+
+/**
+ * The configuration with the tutor's models swapped for the plan's tier
+ */
+export function getModelConfigForTier(tier: ModelTier, config: ModelConfig = getModelConfig()): ModelConfig {
+  if (tier === 'standard') {
+    return config;
+  }
+
+  return {
+    ...config,
+    models: {
+      ...config.models,
+      chat: config.models.assessment,
+      file: config.models.assessment
+    }
+  };
+}
+
+/**
+ * Describe what is missing from the configuration, or null when the provider can be used.
+ * Routes check this up front so a bad deployment fails with a clear message.
+ */
+export function getModelConfigError(config: ModelConfig = getModelConfig()): string | null {
+  if (config.provider === 'google' && !config.apiKey) {
+    return 'Missing GOOGLE_GENERATIVE_AI_API_KEY';
+  }
+  return null;
+}
+
+export function getLanguageModel(role: ModelRole, config: ModelConfig = getModelConfig()): LanguageModelV1 {
+  const modelId = config.models[role];
+
+  switch (config.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleModel(modelId, {
+        baseUrl: config.baseUrl || DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+        apiKey: config.apiKey
+      });
+    case 'mock':
+      return createMockLanguageModel(modelId);
+    default:
+      return google(modelId);
+  }
+}
+
+export function getEmbeddingModel(config: ModelConfig = getModelConfig()): EmbeddingModel<string> {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleEmbeddingModel(config.embeddingModel, {
+        baseUrl: config.baseUrl || DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+        apiKey: config.apiKey
+      });
+    case 'mock':
+      return createMockEmbeddingModel(config.embeddingModel, EMBEDDING_DIMENSIONS);
+    default:
+      return google.textEmbeddingModel(config.embeddingModel, { outputDimensionality: EMBEDDING_DIMENSIONS });
+  }
+}
+
+/**
+ * Only Gemini can read course materials uploaded through the Google File API.
+ * Other providers get the material list in the system prompt instead.
+ */
+export function supportsMaterialFiles(config: ModelConfig = getModelConfig()): boolean {
+  return config.provider === 'google';
+}
+
+// Native GenAI client for file uploads and the file-grounded conversation
+export function getGoogleGenAI(config: ModelConfig = getModelConfig()): GoogleGenAI {
+  if (config.provider !== 'google' || !config.apiKey) {
+    throw new Error('Missing Google Generative AI API key');
+  }
+  return new GoogleGenAI({ apiKey: config.apiKey });
+}
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildRetrievalQuery, embedMaterialChunks, formatPassagesForPrompt, retrievePassages } from './retrieval';
+import { createMockEmbeddingModel } from './mock-provider';
+import { getEmbeddingModel } from './providers';
+import { chunkBlocks, type ExtractedBlock } from '@/lib/ingestion/chunking';
+import { getMaterialChunks, searchMaterialChunks, setMaterialChunkEmbeddings } from '@/lib/supabase/material-chunks';
+import type { MaterialChunk, MaterialChunkMatch } from '@/lib/types';
+
+vi.mock('@/lib/supabase/material-chunks', () => ({
+  getMaterialChunks: vi.fn(),
+  searchMaterialChunks: vi.fn(),
+  setMaterialChunkEmbeddings: vi.fn()
+}));
+
+vi.mock('./providers', async importOriginal => {
+  const actual = await importOriginal<typeof import('./providers')>();
+  return { ...actual, getEmbeddingModel: vi.fn(actual.getEmbeddingModel) };
+});
+
+// Retrieval against AI_PROVIDER=mock: chunks are embedded with the deterministic hashed
+// bag-of-words model and ranked by cosine distance, as pgvector's <=> orders them.
+
+const LECTURE: ExtractedBlock[] = [
+  { page: 1, section: 'Light reactions', text: 'The light reactions take place in the thylakoid membranes. Chlorophyll absorbs light and splits water, releasing oxygen.' },
+  { page: 2, section: 'Calvin cycle', text: 'The Calvin cycle runs in the stroma. Rubisco fixes carbon dioxide into three-carbon sugars using ATP and NADPH.' },
+  { page: 3, section: 'Cell respiration', text: 'Mitochondria break down glucose in cellular respiration to produce ATP for the cell.' }
+];
+
+interface StoredChunk extends MaterialChunk {
+  embedding: number[] | null;
+}
+
+const store: StoredChunk[] = [];
+
+function storeChunks(materialId: string, fileName: string, blocks: ExtractedBlock[]) {
+  for (const chunk of chunkBlocks(blocks)) {
+    store.push({
+      id: `${materialId}-${chunk.index}`,
+      user_id: 'user-1',
+      course_id: 'course-1',
+      material_id: materialId,
+      chunk_index: chunk.index,
+      page_number: chunk.page,
+      section: chunk.section,
+      content: chunk.content,
+      token_count: chunk.tokenCount,
+      start_seconds: chunk.startSeconds,
+      end_seconds: chunk.endSeconds,
+      embedding_model: null,
+      created_at: new Date(0).toISOString(),
+      embedding: null,
+      file_name: fileName
+    } as StoredChunk);
+  }
+}
+
+const cosineDistance = (a: number[], b: number[]) => 1 - a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe('material retrieval with the mock embedder', () => {
+  beforeEach(() => {
+    vi.stubEnv('AI_PROVIDER', 'mock');
+    store.length = 0;
+
+    vi.mocked(getMaterialChunks).mockImplementation(async materialId =>
+      store.filter(chunk => chunk.material_id === materialId)
+    );
+    vi.mocked(setMaterialChunkEmbeddings).mockImplementation(async (materialId, embeddings, model) => {
+      for (const { chunkIndex, embedding } of embeddings) {
+        const chunk = store.find(stored => stored.material_id === materialId && stored.chunk_index === chunkIndex)!;
+        chunk.embedding = embedding;
+        chunk.embedding_model = model;
+      }
+      return embeddings.length;
+    });
+    vi.mocked(searchMaterialChunks).mockImplementation(async ({ queryEmbedding, materialIds, matchCount = 8 }) =>
+      store
+        .filter(chunk => chunk.embedding && queryEmbedding && (!materialIds || materialIds.includes(chunk.material_id)))
+        .map(chunk => ({ chunk, distance: cosineDistance(chunk.embedding!, queryEmbedding!) }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, matchCount)
+        .map(({ chunk, distance }, i): MaterialChunkMatch => ({
+          id: chunk.id,
+          material_id: chunk.material_id,
+          file_name: (chunk as StoredChunk & { file_name: string }).file_name,
+          chunk_index: chunk.chunk_index,
+          page_number: chunk.page_number,
+          section: chunk.section,
+          content: chunk.content,
+          token_count: chunk.token_count,
+          keyword_rank: null,
+          semantic_rank: i + 1,
+          score: 1 - distance,
+          start_seconds: chunk.start_seconds,
+          end_seconds: chunk.end_seconds
+        }))
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+  });
+
+  it('chunks by page so every passage can be cited', () => {
+    const chunks = chunkBlocks([
+      LECTURE[0],
+      LECTURE[1],
+      { page: 2, section: 'Calvin cycle', text: 'Regeneration of RuBP closes the cycle. '.repeat(40) },
+      LECTURE[2]
+    ], { maxChars: 400, overlapChars: 80 });
+
+    const pageTwo = chunks.filter(chunk => chunk.page === 2);
+    expect(chunks.map(chunk => chunk.page)).toEqual([1, ...pageTwo.map(() => 2), 3]);
+    expect(pageTwo.length).toBeGreaterThan(1);
+    expect(chunks.map(chunk => chunk.index)).toEqual(chunks.map((_, i) => i));
+    expect(chunks.every(chunk => chunk.content.length <= 400 + 80)).toBe(true);
+
+    // Consecutive chunks on a page share their boundary text; a chunk on a new page doesn't
+    const [first, second] = pageTwo;
+    expect(first.content.endsWith(second.content.split('\n\n')[0])).toBe(true);
+    expect(chunks[chunks.length - 1].content).toBe(LECTURE[2].text);
+  });
+
+  it('embeds texts deterministically, so related passages are closer', async () => {
+    const model = createMockEmbeddingModel();
+    const { embeddings } = await model.doEmbed({
+      values: ['Mitochondria produce ATP for cells', 'The cell uses mitochondria to produce ATP', 'Rubisco fixes carbon dioxide', '']
+    });
+    const [a, b, unrelated, empty] = embeddings;
+
+    expect(a).toHaveLength(768);
+    expect(Math.hypot(...a)).toBeCloseTo(1);
+    expect(Math.hypot(...empty)).toBeCloseTo(1);
+    expect((await model.doEmbed({ values: ['Mitochondria produce ATP for cells'] })).embeddings[0]).toEqual(a);
+    expect(cosineDistance(a, b)).toBeLessThan(cosineDistance(a, unrelated));
+  });
+
+  it('embeds only chunks without an embedding and labels them with the model', async () => {
+    storeChunks('material-1', 'Photosynthesis.pdf', LECTURE);
+
+    expect(await embedMaterialChunks('material-1')).toBe(3);
+    expect(store.every(chunk => chunk.embedding?.length === 768 && chunk.embedding_model === 'mock:mock-embedding')).toBe(true);
+
+    // A second run has nothing left to embed
+    expect(await embedMaterialChunks('material-1')).toBe(0);
+    expect(setMaterialChunkEmbeddings).toHaveBeenCalledTimes(1);
+  });
+
+  it('ranks the passage that answers the question first', async () => {
+    storeChunks('material-1', 'Photosynthesis.pdf', LECTURE);
+    storeChunks('material-2', 'Other course.pdf', [{ page: 1, section: null, text: 'Rubisco and the Calvin cycle in another course' }]);
+    await embedMaterialChunks('material-1');
+    await embedMaterialChunks('material-2');
+
+    const passages = await retrievePassages({
+      courseId: 'course-1',
+      materialIds: ['material-1'],
+      query: 'Where does rubisco fix carbon dioxide in the calvin cycle?',
+      limit: 2
+    });
+
+    expect(passages.map(passage => [passage.number, passage.materialName, passage.pageNumber])).toEqual([
+      [1, 'Photosynthesis.pdf', 2],
+      [2, 'Photosynthesis.pdf', expect.any(Number)]
+    ]);
+    expect(passages[0].score).toBeGreaterThan(passages[1].score);
+    expect(formatPassagesForPrompt(passages.slice(0, 1))).toBe(`[1] Photosynthesis.pdf, page 2 - Calvin cycle\n${LECTURE[1].text}`);
+  });
+
+  it('falls back to keyword search when the query embedding has the wrong dimensions', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(getEmbeddingModel).mockReturnValueOnce(createMockEmbeddingModel('small-embedding', 16));
+
+    await retrievePassages({ courseId: 'course-1', materialIds: ['material-1'], query: 'calvin cycle' });
+
+    expect(searchMaterialChunks).toHaveBeenCalledWith(expect.objectContaining({ queryEmbedding: null, query: 'calvin cycle' }));
+  });
+
+  it('skips the search without materials or a query', async () => {
+    expect(await retrievePassages({ courseId: 'course-1', materialIds: [], query: 'calvin cycle' })).toEqual([]);
+    expect(await retrievePassages({ courseId: 'course-1', materialIds: ['material-1'], query: '   ' })).toEqual([]);
+    expect(searchMaterialChunks).not.toHaveBeenCalled();
+  });
+
+  it('searches for what the tutor said when the student replies briefly', () => {
+    const messages = [
+      { role: 'assistant', content: 'Shall we look at how the Calvin cycle fixes carbon?' },
+      { role: 'user', content: 'yes please' }
+    ];
+
+    expect(buildRetrievalQuery(messages, ['Photosynthesis'])).toBe(
+      'yes please\nShall we look at how the Calvin cycle fixes carbon?\nPhotosynthesis'
+    );
+    expect(buildRetrievalQuery([{ role: 'user', content: 'How does the Calvin cycle work?' }], [])).toBe('How does the Calvin cycle work?');
+  });
+});
@@ -0,0 +1,169 @@
+import { embed, embedMany } from 'ai';
+import { EMBEDDING_DIMENSIONS, getEmbeddingModel, getModelConfig } from './providers';
+import { getMaterialChunks, searchMaterialChunks, setMaterialChunkEmbeddings } from '@/lib/supabase/material-chunks';
+import { excerptOf, formatTimestamp } from './citations';
+import type { MaterialChunkMatch, MessageCitation } from '@/lib/types';
+
+// Passage retrieval for the tutor: chunks are embedded after text extraction, and each chat
+// turn searches them (keyword + vector) instead of attaching whole files to the model call.
+
+// Passages given to the model per turn
+export const DEFAULT_PASSAGE_COUNT = 8;
+
+// Chunks embedded per request while backfilling a material
+const EMBEDDING_BATCH_SIZE = 64;
+
+export interface RetrievedPassage {
+  // 1-based number the model cites, e.g. [3]
+  number: number;
+  chunkId: string;
+  materialId: string;
+  materialName: string;
+  pageNumber: number | null;
+  // Where a transcript passage starts in its recording, in seconds
+  startSeconds: number | null;
+  section: string | null;
+  content: string;
+  score: number;
+}
+
+// Embedded text carries the section so a chunk under "Calvin Cycle" matches that heading
+function embeddingInput(section: string | null, content: string): string {
+  return section ? `${section}\n\n${content}` : content;
+}
+
+function checkDimensions(embedding: number[]) {
+  if (embedding.length !== EMBEDDING_DIMENSIONS) {
+    throw new Error(`Embedding model returned ${embedding.length} dimensions, expected ${EMBEDDING_DIMENSIONS}; set AI_EMBEDDING_MODEL to a ${EMBEDDING_DIMENSIONS}-dimension model`);
+  }
+}
+
+/**
+ * Whether a material's passages can be searched, so it needn't be attached as a file
+ */
+export function isSearchableMaterial(material: { text_extraction_status: string; chunk_count: number }): boolean {
+  return material.text_extraction_status === 'completed' && material.chunk_count > 0;
+}
+
+/**
+ * Embed any of a material's chunks that don't have an embedding yet. Returns how many
+ * were stored; failures are left for keyword search and the next run.
+ */
+export async function embedMaterialChunks(materialId: string): Promise<number> {
+  const config = getModelConfig();
+  const model = getEmbeddingModel(config);
+  const pending = (await getMaterialChunks(materialId)).filter(chunk => !chunk.embedding_model);
+
+  let stored = 0;
+  for (let start = 0; start < pending.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = pending.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const { embeddings } = await embedMany({
+      model,
+      values: batch.map(chunk => embeddingInput(chunk.section, chunk.content))
+    });
+    embeddings.forEach(checkDimensions);
+
+    stored += await setMaterialChunkEmbeddings(
+      materialId,
+      batch.map((chunk, i) => ({ chunkIndex: chunk.chunk_index, embedding: embeddings[i] })),
+      `${config.provider}:${config.embeddingModel}`
+    );
+  }
+
+  return stored;
+}
+
+/**
+ * The course passages most relevant to a query, limited to the given materials.
+ * If the query can't be embedded the search runs on keywords alone.
+ */
+export async function retrievePassages(params: {
+  courseId: string;
+  materialIds: string[];
+  query: string;
+  limit?: number;
+}): Promise<RetrievedPassage[]> {
+  const { courseId, materialIds, query, limit = DEFAULT_PASSAGE_COUNT } = params;
+  if (materialIds.length === 0 || !query.trim()) {
+    return [];
+  }
+
+  let queryEmbedding: number[] | null = null;
+  try {
+    const { embedding } = await embed({ model: getEmbeddingModel(), value: query });
+    checkDimensions(embedding);
+    queryEmbedding = embedding;
+  } catch (error) {
+    console.error('Error embedding retrieval query, using keyword search only:', error);
+  }
+
+  const matches = await searchMaterialChunks({
+    courseId,
+    query,
+    queryEmbedding,
+    materialIds,
+    matchCount: limit
+  });
+
+  return matches.map((match: MaterialChunkMatch, index: number) => ({
+    number: index + 1,
+    chunkId: match.id,
+    materialId: match.material_id,
+    materialName: match.file_name,
+    pageNumber: match.page_number,
+    startSeconds: match.start_seconds ?? null,
+    section: match.section,
+    content: match.content,
+    score: match.score
+  }));
+}
+
+// "Lecture 3.pdf, page 4 - Calvin Cycle" or "Lecture 3.mp4 at 14:22"
+export function describePassageSource(passage: RetrievedPassage): string {
+  const location = passage.pageNumber !== null
+    ? `, page ${passage.pageNumber}`
+    : passage.startSeconds !== null ? ` at ${formatTimestamp(passage.startSeconds)}` : '';
+  const section = passage.section ? ` - ${passage.section}` : '';
+  return `${passage.materialName}${location}${section}`;
+}
+
+/**
+ * Passages as a numbered block for the system prompt
+ */
+export function formatPassagesForPrompt(passages: RetrievedPassage[]): string {
+  return passages
+    .map(passage => `[${passage.number}] ${describePassageSource(passage)}\n${passage.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Passages as the citations a reply can refer to by number
+ */
+export function toCitations(passages: RetrievedPassage[]): MessageCitation[] {
+  return passages.map(passage => ({
+    number: passage.number,
+    materialId: passage.materialId,
+    materialName: passage.materialName,
+    pageNumber: passage.pageNumber,
+    ...(passage.startSeconds !== null ? { timestampSeconds: passage.startSeconds } : {}),
+    section: passage.section,
+    excerpt: excerptOf(passage.content)
+  }));
+}
+
+/**
+ * What to search the materials for on this turn: the student's latest message, or for
+ * short replies ("yes", "go on") what the tutor just said plus the lesson's topics.
+ */
+export function buildRetrievalQuery(
+  messages: Array<{ role: string; content: string }>,
+  topics: string[]
+): string {
+  const latest = [...messages].reverse().find(message => message.role === 'user')?.content.trim() ?? '';
+  if (latest.split(/\s+/).filter(Boolean).length >= 4) {
+    return latest;
+  }
+
+  const lastReply = [...messages].reverse().find(message => message.role === 'assistant')?.content ?? '';
+  return [latest, lastReply.slice(-500), topics.join(', ')].filter(Boolean).join('\n');
+}
@@ -0,0 +1,125 @@
+import { generateObject, type CoreMessage } from 'ai';
+import { z } from 'zod';
+import { getLanguageModel } from './providers';
+import { processLessonMaterialsWithUpload } from './gemini-files';
+import { TOPIC_EXTRACTION_PROMPT } from './prompts';
+import { getMaterial } from '@/lib/supabase/materials';
+import { getCourseTopics, type TopicWithCount } from '@/lib/supabase/topics';
+import { saveTopicSuggestions, setTopicExtractionStatus, type ExtractedTopicSuggestion } from '@/lib/supabase/topic-suggestions';
+import type { MaterialRow } from '@/lib/types';
+
+// Background job run after a material is uploaded: read the file through the same Gemini
+// file path lessons use, propose topics for it and store them as pending suggestions.
+
+export const topicExtractionSchema = z.object({
+  topics: z.array(z.object({
+    name: z.string().describe("Topic name; reuse an existing course topic name exactly when it fits"),
+    parentName: z.string().optional().describe("Broader unit this topic belongs under, if any"),
+    confidence: z.number().min(0).max(1).describe("How sure you are the material substantially covers this topic (0-1)"),
+    reason: z.string().describe("One short sentence on where the material covers this topic")
+  })).min(1).max(8).describe("Topics the material covers, most central first")
+});
+
+export type TopicExtraction = z.infer<typeof topicExtractionSchema>;
+
+// Existing topics as an indented outline so the model can reuse names and parents
+function describeCourseOutline(topics: TopicWithCount[]): string {
+  if (topics.length === 0) {
+    return 'The course has no topics yet.';
+  }
+
+  const childrenOf = (parentId: string | null) =>
+    topics.filter(topic => (topic.parentId ?? null) === parentId).sort((a, b) => a.name.localeCompare(b.name));
+  const ids = new Set(topics.map(topic => topic.id));
+  const lines: string[] = [];
+  const visit = (topic: TopicWithCount, depth: number) => {
+    lines.push(`${'  '.repeat(depth)}- ${topic.name}`);
+    childrenOf(topic.id).forEach(child => visit(child, depth + 1));
+  };
+  topics
+    .filter(topic => !topic.parentId || !ids.has(topic.parentId))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .forEach(topic => visit(topic, 0));
+
+  return `Existing course topics:\n${lines.join('\n')}`;
+}
+
+/**
+ * Ask the model which topics a material covers. Returns null when the file type
+ * can't be read, so the caller can mark the job as skipped.
+ */
+export async function extractMaterialTopics(
+  material: MaterialRow,
+  courseTopics: TopicWithCount[]
+): Promise<ExtractedTopicSuggestion[] | null> {
+  const { processedMaterials, materialFileData } = await processLessonMaterialsWithUpload([material]);
+  if (processedMaterials[0]?.error) {
+    console.log(`Skipping topic extraction for ${material.file_name}: ${processedMaterials[0].error}`);
+    return null;
+  }
+
+  const prompt = `${TOPIC_EXTRACTION_PROMPT}
+
+Material: "${material.file_name}" (${material.mime_type})
+${describeCourseOutline(courseTopics)}`;
+
+  // Providers without file support only see the file name, which still gives a usable first guess
+  const content: Extract<CoreMessage, { role: 'user' }>['content'] = materialFileData.map(file => ({
+    type: 'file' as const,
+    data: new URL(file.fileUri),
+    mimeType: file.mimeType
+  }));
+  content.push({ type: 'text', text: prompt });
+
+  const { object } = await generateObject({
+    model: getLanguageModel('assessment'),
+    temperature: 0.2,
+    schema: topicExtractionSchema,
+    messages: [{ role: 'user', content }]
+  });
+
+  // Suggestions for existing topics use the course's spelling so accepting them doesn't duplicate
+  const existingNames = new Map(courseTopics.map(topic => [topic.name.toLowerCase(), topic.name]));
+  const canonical = (name: string) => existingNames.get(name.trim().toLowerCase()) ?? name.trim();
+
+  return object.topics.map(topic => ({
+    topicName: canonical(topic.name),
+    parentTopicName: topic.parentName && canonical(topic.parentName).toLowerCase() !== canonical(topic.name).toLowerCase()
+      ? canonical(topic.parentName)
+      : null,
+    confidence: topic.confidence,
+    reason: topic.reason
+  }));
+}
+
+/**
+ * Run the extraction job for one material and record its outcome on the material row.
+ * Never throws - failures are stored as topic_extraction_status = 'failed'.
+ */
+export async function runTopicExtraction(materialId: string): Promise<void> {
+  try {
+    const material = await getMaterial(materialId);
+    if (!material) {
+      console.error(`Topic extraction: material ${materialId} not found`);
+      return;
+    }
+
+    await setTopicExtractionStatus(materialId, 'processing');
+
+    const courseTopics = await getCourseTopics(material.course_id);
+    const suggestions = await extractMaterialTopics(material, courseTopics);
+
+    if (suggestions === null) {
+      await setTopicExtractionStatus(materialId, 'skipped');
+      return;
+    }
+
+    const saved = await saveTopicSuggestions(material.course_id, materialId, suggestions);
+    console.log(`Topic extraction for ${material.file_name}: ${saved} suggestions`);
+    await setTopicExtractionStatus(materialId, 'completed');
+  } catch (error) {
+    console.error(`Topic extraction failed for material ${materialId}:`, error);
+    const message = error instanceof Error ? error.message : 'Topic extraction failed';
+    await setTopicExtractionStatus(materialId, 'failed', message.slice(0, 500));
+  }
+}
@@ -0,0 +1,294 @@
+import { createPartFromUri, FileState, Type } from '@google/genai';
+import { getGoogleGenAI, getModelConfig, type ModelProviderName } from './providers';
+import { uploadStreamToGoogle } from './gemini-upload';
+import { formatTimestamp } from './citations';
+
+// Lecture recordings are transcribed once, at ingestion time, into timestamped segments.
+//
+// TRANSCRIPTION_PROVIDER   google | whisper | mock; follows AI_PROVIDER by default
+//                          (openai-compatible uses whisper)
+// TRANSCRIPTION_MODEL      model for the provider, e.g. gemini-2.5-flash or whisper-1
+// TRANSCRIPTION_BASE_URL / TRANSCRIPTION_API_KEY  OpenAI-compatible /audio/transcriptions
+//                          server for whisper, e.g. a local faster-whisper or whisper.cpp server
+
+export type TranscriptionProviderName = 'google' | 'whisper' | 'mock';
+
+export interface TranscriptSegment {
+  // Seconds from the start of the recording
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Transcript {
+  segments: TranscriptSegment[];
+  durationSeconds: number | null;
+  language: string | null;
+}
+
+export interface TranscriptionBackend {
+  name: TranscriptionProviderName;
+  model: string;
+  transcribe(bytes: Uint8Array, mimeType: string, fileName: string): Promise<Transcript>;
+}
+
+const DEFAULT_TRANSCRIPTION_MODELS: Record<TranscriptionProviderName, string> = {
+  google: 'gemini-2.5-flash',
+  whisper: 'whisper-1',
+  mock: 'mock-whisper'
+};
+
+const PROVIDER_FOR_MODEL_PROVIDER: Record<ModelProviderName, TranscriptionProviderName> = {
+  google: 'google',
+  'openai-compatible': 'whisper',
+  mock: 'mock'
+};
+
+// faster-whisper-server's default port
+const DEFAULT_WHISPER_BASE_URL = 'http://localhost:8000/v1';
+
+// Segment length of the offline stand-in
+const MOCK_SEGMENT_SECONDS = 30;
+
+// Bytes per second assumed by the stand-in to size a recording (128 kbps)
+const MOCK_BYTES_PER_SECOND = 16000;
+
+// How long to wait for Google to process an uploaded recording
+const GOOGLE_PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+const TRANSCRIPTION_PROMPT = `Transcribe this lecture recording verbatim. Split the transcript into segments of one to three sentences, each with the time it starts in the recording as MM:SS (or H:MM:SS past an hour). Leave out filler words and long silences. If there is no speech, return no segments.`;
+
+function parseTranscriptionProvider(value: string | undefined): TranscriptionProviderName {
+  const name = value?.trim().toLowerCase();
+  if (name === 'google' || name === 'whisper' || name === 'mock') {
+    return name;
+  }
+  if (name) {
+    console.warn(`Unknown TRANSCRIPTION_PROVIDER "${value}", using the AI_PROVIDER default`);
+  }
+  return PROVIDER_FOR_MODEL_PROVIDER[getModelConfig().provider];
+}
+
+/**
+ * Whether a file is a recording to transcribe rather than a document
+ */
+export function isMediaMimeType(mimeType: string): boolean {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  return type.startsWith('audio/') || type.startsWith('video/');
+}
+
+/**
+ * "14:22", "1:02:05" or "95.5" as seconds; null when unreadable
+ */
+export function parseTimestamp(value: string | number): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some(part => !/^\d+(\.\d+)?$/.test(part))) {
+    return null;
+  }
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+// Ordered segments with empty text dropped and each end no later than the next start
+function normalizeSegments(segments: TranscriptSegment[], durationSeconds: number | null): TranscriptSegment[] {
+  const sorted = segments
+    .map(segment => ({ ...segment, text: segment.text.replace(/\s+/g, ' ').trim() }))
+    .filter(segment => segment.text.length > 0)
+    .sort((a, b) => a.start - b.start);
+
+  return sorted.map((segment, index) => {
+    const next = sorted[index + 1];
+    const limit = next ? next.start : durationSeconds ?? Math.max(segment.end, segment.start);
+    const end = segment.end > segment.start ? Math.min(segment.end, limit) : limit;
+    return { ...segment, end: Math.max(segment.start, end) };
+  });
+}
+
+/**
+ * Gemini listens to the recording through the File API and returns segments with start times
+ */
+function createGoogleBackend(model: string): TranscriptionBackend {
+  return {
+    name: 'google',
+    model,
+    async transcribe(bytes, mimeType, fileName) {
+      const config = getModelConfig();
+      if (!config.apiKey) {
+        throw new Error('Missing GOOGLE_GENERATIVE_AI_API_KEY');
+      }
+      const ai = getGoogleGenAI(config);
+
+      const { file } = await uploadStreamToGoogle(new Blob([bytes as Uint8Array<ArrayBuffer>]).stream(), {
+        apiKey: config.apiKey,
+        displayName: fileName,
+        mimeType,
+        size: bytes.length
+      });
+      const name = file.name as string;
+
+      try {
+        // Video in particular is processed before it can be used
+        let state = file.state;
+        const deadline = Date.now() + GOOGLE_PROCESSING_TIMEOUT_MS;
+        while (state === FileState.PROCESSING && Date.now() < deadline) {
+          await new Promise(resolve => setTimeout(resolve, 5000));
+          state = (await ai.files.get({ name })).state;
+        }
+        if (state !== FileState.ACTIVE) {
+          throw new Error(`Google could not process ${fileName} (${state ?? 'unknown state'})`);
+        }
+
+        const response = await ai.models.generateContent({
+          model,
+          contents: [{
+            role: 'user',
+            parts: [createPartFromUri(file.uri as string, mimeType), { text: TRANSCRIPTION_PROMPT }]
+          }],
+          config: {
+            temperature: 0,
+            maxOutputTokens: 65536,
+            responseMimeType: 'application/json',
+            responseSchema: {
+              type: Type.OBJECT,
+              properties: {
+                language: { type: Type.STRING },
+                segments: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      start: { type: Type.STRING },
+                      text: { type: Type.STRING }
+                    },
+                    required: ['start', 'text']
+                  }
+                }
+              },
+              required: ['segments']
+            }
+          }
+        });
+
+        const parsed = JSON.parse(response.text || '{}') as { language?: string; segments?: Array<{ start: string; text: string }> };
+        const segments = (parsed.segments ?? [])
+          .map(segment => ({ start: parseTimestamp(segment.start), text: segment.text ?? '' }))
+          .filter((segment): segment is { start: number; text: string } => segment.start !== null)
+          // The end of each segment is the start of the next
+          .map(segment => ({ start: segment.start, end: segment.start, text: segment.text }));
+
+        return {
+          segments: normalizeSegments(segments, null),
+          durationSeconds: null,
+          language: parsed.language || null
+        };
+      } finally {
+        ai.files.delete({ name }).catch(error => console.warn(`Could not delete ${name}:`, error));
+      }
+    }
+  };
+}
+
+/**
+ * Any server speaking OpenAI's /audio/transcriptions API with verbose_json segments:
+ * OpenAI itself, or a local faster-whisper or whisper.cpp server
+ */
+function createWhisperBackend(model: string, baseUrl: string, apiKey?: string): TranscriptionBackend {
+  return {
+    name: 'whisper',
+    model,
+    async transcribe(bytes, mimeType, fileName) {
+      const form = new FormData();
+      form.append('file', new Blob([bytes as Uint8Array<ArrayBuffer>], { type: mimeType }), fileName);
+      form.append('model', model);
+      form.append('response_format', 'verbose_json');
+      form.append('timestamp_granularities[]', 'segment');
+
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/audio/transcriptions`, {
+        method: 'POST',
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        body: form
+      });
+      if (!response.ok) {
+        throw new Error(`Transcription server returned ${response.status}: ${(await response.text()).slice(0, 200)}`);
+      }
+
+      const result = await response.json() as {
+        text?: string;
+        language?: string;
+        duration?: number;
+        segments?: Array<{ start: number; end: number; text: string }>;
+      };
+      const durationSeconds = typeof result.duration === 'number' ? result.duration : null;
+
+      // Servers without segment support return the text alone
+      const segments = Array.isArray(result.segments) && result.segments.length > 0
+        ? result.segments.map(segment => ({ start: segment.start, end: segment.end, text: segment.text }))
+        : [{ start: 0, end: durationSeconds ?? 0, text: result.text ?? '' }];
+
+      return {
+        segments: normalizeSegments(segments, durationSeconds),
+        durationSeconds,
+        language: result.language ?? null
+      };
+    }
+  };
+}
+
+/**
+ * Offline stand-in shaped like a whisper response: fixed-length segments over a length
+ * guessed from the file size, so transcript citations and seeking work without a server
+ */
+function createMockBackend(model: string): TranscriptionBackend {
+  return {
+    name: 'mock',
+    model,
+    async transcribe(bytes, _mimeType, fileName) {
+      const durationSeconds = Math.max(MOCK_SEGMENT_SECONDS, Math.round(bytes.length / MOCK_BYTES_PER_SECOND));
+      const segments: TranscriptSegment[] = [];
+
+      for (let start = 0; start < durationSeconds; start += MOCK_SEGMENT_SECONDS) {
+        const end = Math.min(start + MOCK_SEGMENT_SECONDS, durationSeconds);
+        segments.push({
+          start,
+          end,
+          text: `Mock transcript of ${fileName} from ${formatTimestamp(start)} to ${formatTimestamp(end)}.`
+        });
+      }
+
+      return { segments, durationSeconds, language: 'en' };
+    }
+  };
+}
+
+export function getTranscriptionBackend(): TranscriptionBackend {
+  const provider = parseTranscriptionProvider(process.env.TRANSCRIPTION_PROVIDER);
+  const model = process.env.TRANSCRIPTION_MODEL || DEFAULT_TRANSCRIPTION_MODELS[provider];
+
+  switch (provider) {
+    case 'whisper':
+      return createWhisperBackend(
+        model,
+        process.env.TRANSCRIPTION_BASE_URL || DEFAULT_WHISPER_BASE_URL,
+        process.env.TRANSCRIPTION_API_KEY
+      );
+    case 'mock':
+      return createMockBackend(model);
+    default:
+      return createGoogleBackend(model);
+  }
+}
+
+/**
+ * Transcribe a lecture recording with the configured backend
+ */
+export async function transcribeRecording(bytes: Uint8Array, mimeType: string, fileName: string): Promise<Transcript> {
+  const backend = getTranscriptionBackend();
+  const started = Date.now();
+  const transcript = await backend.transcribe(bytes, mimeType, fileName);
+
+  console.log(`Transcribed ${fileName} with ${backend.name}:${backend.model}: ${transcript.segments.length} segments in ${Date.now() - started}ms`);
+  return transcript;
+}
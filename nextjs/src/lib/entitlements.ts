@@ -0,0 +1,65 @@
+import PricingService from '@/lib/pricing';
+import { parseModelTier, type ModelTier } from '@/lib/ai/providers';
+
+// What a plan allows. The free plan comes from QUOTA_* variables, and each pricing tier
+// from TIERS_* lists in the same order as NEXT_PUBLIC_TIERS_NAMES; an empty entry keeps
+// the free plan's value.
+export interface Entitlements {
+    // Pricing tier name, or null on the free plan
+    plan: string | null;
+    storageLimitBytes: number;
+    monthlyTokenLimit: number;
+    // Null when lessons aren't limited
+    monthlyLessonLimit: number | null;
+    modelTier: ModelTier;
+}
+
+const DEFAULT_STORAGE_LIMIT_BYTES = 1024 * 1024 * 1024;
+const DEFAULT_MONTHLY_TOKEN_LIMIT = 2_000_000;
+
+function parseLimit(value: string | undefined): number | undefined {
+    if (!value?.trim()) return undefined;
+    const limit = Number(value);
+    return Number.isFinite(limit) && limit >= 0 ? limit : undefined;
+}
+
+function tierValues(value: string | undefined): string[] {
+    return value?.split(',') || [];
+}
+
+export function getFreeEntitlements(): Entitlements {
+    return {
+        plan: null,
+        storageLimitBytes: parseLimit(process.env.QUOTA_STORAGE_BYTES) ?? DEFAULT_STORAGE_LIMIT_BYTES,
+        monthlyTokenLimit: parseLimit(process.env.QUOTA_MONTHLY_TOKENS) ?? DEFAULT_MONTHLY_TOKEN_LIMIT,
+        monthlyLessonLimit: parseLimit(process.env.QUOTA_MONTHLY_LESSONS) ?? null,
+        modelTier: parseModelTier(process.env.QUOTA_MODEL_TIER) ?? 'standard'
+    };
+}
+
+/**
+ * Entitlements of the pricing tier a Paddle price subscribes to. Prices that aren't
+ * part of any tier get the free plan.
+ */
+export function getEntitlementsForPriceId(priceId: string | null): Entitlements {
+    const free = getFreeEntitlements();
+    const tier = priceId ? PricingService.getTierByPriceId(priceId) : undefined;
+    if (!tier) {
+        return free;
+    }
+
+    // The TIERS_* lists line up with the tiers by position
+    const index = PricingService.getAllTiers().indexOf(tier);
+
+    const monthlyLessons = tierValues(process.env.TIERS_MONTHLY_LESSONS)[index];
+    return {
+        plan: tier.name,
+        storageLimitBytes: parseLimit(tierValues(process.env.TIERS_STORAGE_BYTES)[index]) ?? free.storageLimitBytes,
+        monthlyTokenLimit: parseLimit(tierValues(process.env.TIERS_MONTHLY_TOKENS)[index]) ?? free.monthlyTokenLimit,
+        // "unlimited" lifts the lesson limit for a tier
+        monthlyLessonLimit: monthlyLessons?.trim().toLowerCase() === 'unlimited'
+            ? null
+            : parseLimit(monthlyLessons) ?? free.monthlyLessonLimit,
+        modelTier: parseModelTier(tierValues(process.env.TIERS_MODEL_TIERS)[index]) ?? free.modelTier
+    };
+}
@@ -0,0 +1,276 @@
+// Builders for the small ZIP, Office and PDF files the ingestion tests parse. Writing them
+// byte by byte keeps every malformed case readable next to the test that uses it.
+
+const encoder = new TextEncoder();
+
+export function bytesOf(text: string): Uint8Array {
+  return encoder.encode(text);
+}
+
+export function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+export async function compress(data: Uint8Array, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> {
+  // Fixture buffers are never SharedArrayBuffers
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+class ByteWriter {
+  private readonly parts: Uint8Array[] = [];
+  length = 0;
+
+  private push(part: Uint8Array) {
+    this.parts.push(part);
+    this.length += part.length;
+  }
+
+  u16(value: number) {
+    const part = new Uint8Array(2);
+    new DataView(part.buffer).setUint16(0, value, true);
+    this.push(part);
+  }
+
+  u32(value: number) {
+    const part = new Uint8Array(4);
+    new DataView(part.buffer).setUint32(0, value, true);
+    this.push(part);
+  }
+
+  u64(value: number) {
+    const part = new Uint8Array(8);
+    new DataView(part.buffer).setBigUint64(0, BigInt(value), true);
+    this.push(part);
+  }
+
+  bytes(data: Uint8Array) {
+    this.push(data);
+  }
+
+  toBytes(): Uint8Array {
+    return concat(this.parts);
+  }
+}
+
+export interface ZipFixtureEntry {
+  name: string;
+  data: Uint8Array | string;
+  method?: 'store' | 'deflate';
+  encrypted?: boolean;
+  // Uncompressed size written to the headers, when it should differ from the real one
+  declaredSize?: number;
+}
+
+/**
+ * A ZIP archive of the given entries. With zip64 every size and offset is stored in ZIP64
+ * extra fields and end records, as tools do for archives over 4GB.
+ */
+export async function buildZip(entries: ZipFixtureEntry[], options: { zip64?: boolean } = {}): Promise<Uint8Array> {
+  const out = new ByteWriter();
+  const central = new ByteWriter();
+
+  for (const entry of entries) {
+    const data = typeof entry.data === 'string' ? bytesOf(entry.data) : entry.data;
+    const stored = entry.method === 'deflate' ? await compress(data, 'deflate-raw') : data;
+    const name = bytesOf(entry.name);
+    const size = entry.declaredSize ?? data.length;
+    const localOffset = out.length;
+    const flags = entry.encrypted ? 0x1 : 0;
+    const method = entry.method === 'deflate' ? 8 : 0;
+
+    out.u32(0x04034b50);
+    out.u16(options.zip64 ? 45 : 20);
+    out.u16(flags);
+    out.u16(method);
+    out.u32(0); // Modification time and date
+    out.u32(crc32(data));
+    out.u32(options.zip64 ? 0xffffffff : stored.length);
+    out.u32(options.zip64 ? 0xffffffff : size);
+    out.u16(name.length);
+    out.u16(options.zip64 ? 20 : 0);
+    out.bytes(name);
+    if (options.zip64) {
+      out.u16(0x0001);
+      out.u16(16);
+      out.u64(size);
+      out.u64(stored.length);
+    }
+    out.bytes(stored);
+
+    central.u32(0x02014b50);
+    central.u16(options.zip64 ? 45 : 20);
+    central.u16(options.zip64 ? 45 : 20);
+    central.u16(flags);
+    central.u16(method);
+    central.u32(0);
+    central.u32(crc32(data));
+    central.u32(options.zip64 ? 0xffffffff : stored.length);
+    central.u32(options.zip64 ? 0xffffffff : size);
+    central.u16(name.length);
+    central.u16(options.zip64 ? 28 : 0);
+    central.u16(0); // Comment length
+    central.u16(0); // Disk number
+    central.u16(0); // Internal attributes
+    central.u32(0); // External attributes
+    central.u32(options.zip64 ? 0xffffffff : localOffset);
+    central.bytes(name);
+    if (options.zip64) {
+      central.u16(0x0001);
+      central.u16(24);
+      central.u64(size);
+      central.u64(stored.length);
+      central.u64(localOffset);
+    }
+  }
+
+  const centralOffset = out.length;
+  const centralDirectory = central.toBytes();
+  out.bytes(centralDirectory);
+
+  if (options.zip64) {
+    const zip64End = out.length;
+    out.u32(0x06064b50);
+    out.u64(44); // Size of the rest of the record
+    out.u16(45);
+    out.u16(45);
+    out.u32(0);
+    out.u32(0);
+    out.u64(entries.length);
+    out.u64(entries.length);
+    out.u64(centralDirectory.length);
+    out.u64(centralOffset);
+
+    out.u32(0x07064b50);
+    out.u32(0);
+    out.u64(zip64End);
+    out.u32(1);
+  }
+
+  out.u32(0x06054b50);
+  out.u16(0);
+  out.u16(0);
+  out.u16(options.zip64 ? 0xffff : entries.length);
+  out.u16(options.zip64 ? 0xffff : entries.length);
+  out.u32(options.zip64 ? 0xffffffff : centralDirectory.length);
+  out.u32(options.zip64 ? 0xffffffff : centralOffset);
+  out.u16(0);
+
+  return out.toBytes();
+}
+
+export function docxXml(paragraphs: string[]): string {
+  const body = paragraphs.map(text => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`).join('');
+  return `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`;
+}
+
+export function buildDocx(paragraphs: string[], options: { zip64?: boolean } = {}): Promise<Uint8Array> {
+  return buildZip([
+    { name: '[Content_Types].xml', data: '<?xml version="1.0"?><Types/>' },
+    { name: 'word/document.xml', data: docxXml(paragraphs), method: 'deflate' }
+  ], options);
+}
+
+export function buildPptx(slides: string[][]): Promise<Uint8Array> {
+  const ids = slides.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 1}"/>`).join('');
+  const rels = slides
+    .map((_, i) => `<Relationship Id="rId${i + 1}" Type="slide" Target="slides/slide${i + 1}.xml"/>`)
+    .join('');
+
+  return buildZip([
+    { name: 'ppt/presentation.xml', data: `<p:presentation><p:sldIdLst>${ids}</p:sldIdLst></p:presentation>` },
+    { name: 'ppt/_rels/presentation.xml.rels', data: `<Relationships>${rels}</Relationships>` },
+    ...slides.map((paragraphs, i) => ({
+      name: `ppt/slides/slide${i + 1}.xml`,
+      data: `<p:sld><p:cSld><p:spTree><p:sp><p:txBody>${paragraphs.map(text => `<a:p><a:r><a:t>${text}</a:t></a:r></a:p>`).join('')}</p:txBody></p:sp></p:spTree></p:cSld></p:sld>`,
+      method: 'deflate' as const
+    }))
+  ]);
+}
+
+export type PdfFixtureObject = string | { dict: string; stream: Uint8Array };
+
+export function textContent(lines: string[]): string {
+  return `BT /F1 12 Tf 72 720 Td ${lines.map(line => `(${line}) Tj 0 -14 Td`).join(' ')} ET`;
+}
+
+/**
+ * A PDF whose objects are numbered in the given order from firstObject (1 by default). The
+ * xref table is correct, points at the wrong offsets, or is left out with only a trailer;
+ * 'stream' leaves out both, for files whose objects include a cross-reference stream.
+ * Trailer entries go after /Root 1 0 R.
+ */
+export function buildPdf(
+  objects: PdfFixtureObject[],
+  options: { xref?: 'valid' | 'broken' | 'none' | 'stream'; trailer?: string; firstObject?: number } = {}
+): Uint8Array {
+  const first = options.firstObject ?? 1;
+  const parts: Uint8Array[] = [bytesOf('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n')];
+  let length = parts[0].length;
+  const offsets: number[] = [];
+  const push = (part: Uint8Array) => {
+    parts.push(part);
+    length += part.length;
+  };
+
+  objects.forEach((object, i) => {
+    offsets.push(length);
+    if (typeof object === 'string') {
+      push(bytesOf(`${first + i} 0 obj\n${object}\nendobj\n`));
+    } else {
+      push(bytesOf(`${first + i} 0 obj\n<< ${object.dict} /Length ${object.stream.length} >>\nstream\n`));
+      push(object.stream);
+      push(bytesOf('\nendstream\nendobj\n'));
+    }
+  });
+
+  const xref = options.xref ?? 'valid';
+  const trailer = `trailer\n<< /Size ${first + objects.length} /Root 1 0 R ${options.trailer ?? ''} >>\n`;
+  if (xref === 'stream') {
+    push(bytesOf(`startxref\n${offsets[offsets.length - 1]}\n%%EOF\n`));
+  } else if (xref === 'none') {
+    push(bytesOf(`${trailer}%%EOF\n`));
+  } else {
+    const xrefOffset = length;
+    const rows = offsets
+      .map(offset => `${String(xref === 'broken' ? offset + 7919 : offset).padStart(10, '0')} 00000 n \n`)
+      .join('');
+    push(bytesOf(`xref\n${first - 1} ${objects.length + 1}\n0000000000 65535 f \n${rows}${trailer}startxref\n${xrefOffset}\n%%EOF\n`));
+  }
+
+  return concat(parts);
+}
+
+/** A two-page PDF; the second page's content stream is FlateDecode-compressed */
+export async function buildSimplePdf(options: { xref?: 'valid' | 'broken' | 'none' } = {}): Promise<Uint8Array> {
+  return buildPdf([
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 >>',
+    '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 6 0 R >>',
+    '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 7 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    { dict: '', stream: bytesOf(textContent(['Photosynthesis converts light energy.'])) },
+    {
+      dict: '/Filter /FlateDecode',
+      stream: await compress(bytesOf(textContent(['Chlorophyll absorbs red and blue light.'])), 'deflate')
+    }
+  ], options);
+}
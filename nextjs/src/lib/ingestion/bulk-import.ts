@@ -0,0 +1,273 @@
+import { readZip, type ZipEntry } from './zip';
+import {
+  addMaterial,
+  deleteMaterialFile,
+  downloadMaterialFile,
+  findCourseMaterialBySha256,
+  getCourseMaterials,
+  uploadMaterialFile
+} from '@/lib/supabase/materials';
+import { resolveTopicPath } from '@/lib/supabase/topics';
+import { Sha256 } from '@/lib/utils/sha256';
+import {
+  SUPPORTED_UPLOAD_MIME_TYPES,
+  generateUniqueFileName,
+  getMimeTypeFromFileName,
+  isArchiveFile
+} from '@/lib/utils/file-utils';
+import type { MaterialImportResult } from '@/lib/types';
+
+// Files past this are left out of an archive rather than imported
+const MAX_ARCHIVE_ENTRIES = 500;
+
+// Same as the upload limit for a single file
+const MAX_ENTRY_BYTES = 100 * 1024 * 1024;
+
+// Guards against archives that inflate to far more than they weigh
+const MAX_ARCHIVE_EXPANDED_BYTES = 1024 * 1024 * 1024;
+
+// Longest folder name that becomes a topic
+const MAX_TOPIC_NAME_LENGTH = 100;
+
+// Operating system metadata zipped along with a folder, left out without a result
+const IGNORED_NAMES = new Set(['thumbs.db', 'desktop.ini']);
+
+interface ImportTarget {
+  courseId: string;
+  // Topics chosen for the upload, added to each file's folder topic
+  topicTags: string[];
+}
+
+export interface ArchiveImport extends ImportTarget {
+  // Where the archive was uploaded to; it is removed once expanded
+  filePath: string;
+  fileName: string;
+  // What's left of the user's storage quota; files past it are not imported
+  storageBytesAvailable?: number;
+}
+
+export interface FolderFileImport extends ImportTarget {
+  // Where the file was uploaded to; it is removed when the file is skipped
+  filePath: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  sha256: string | null;
+  // Folders between the dropped folder and the file, outermost first
+  folders: string[];
+}
+
+/**
+ * Everything an import has seen so far: folder topics by lowercased path, storage names
+ * and checksums, so files in the same batch are checked against each other as well
+ */
+interface ImportSession {
+  courseId: string;
+  folderTopics: Map<string, string | null>;
+  storageNames: string[];
+  checksums: Set<string>;
+  storageBytesAvailable: number;
+}
+
+function startSession(courseId: string, storageNames: string[] = [], storageBytesAvailable = Infinity): ImportSession {
+  return { courseId, folderTopics: new Map(), storageNames, checksums: new Set(), storageBytesAvailable };
+}
+
+function isIgnoredEntry(path: string): boolean {
+  const name = path.split('/').pop() ?? '';
+  return path.startsWith('__MACOSX/') || name.startsWith('.') || IGNORED_NAMES.has(name.toLowerCase());
+}
+
+// Folder names usable as topic names
+function toTopicFolders(folders: string[]): string[] {
+  return folders
+    .map(folder => folder.trim().slice(0, MAX_TOPIC_NAME_LENGTH))
+    .filter(folder => folder !== '' && folder !== '.' && folder !== '..');
+}
+
+/**
+ * The topic for a file's folder, creating a topic for each folder on the way that doesn't
+ * exist yet as a sub-topic of the one above it. Topic names are unique within a course, so
+ * a folder name that is already a topic reuses it wherever it sits. The path is resolved
+ * in one upsert, so files of the same new folder uploaded side by side share its topic.
+ */
+async function resolveFolderTopic(session: ImportSession, folders: string[]): Promise<string | null> {
+  if (folders.length === 0) return null;
+
+  const key = folders.join('/').toLowerCase();
+  if (!session.folderTopics.has(key)) {
+    const topics = await resolveTopicPath(session.courseId, folders);
+    if (!topics) {
+      console.warn(`Bulk import: could not create topics for "${folders.join('/')}"`);
+    }
+    session.folderTopics.set(key, topics?.[topics.length - 1]?.name ?? null);
+  }
+  return session.folderTopics.get(key) ?? null;
+}
+
+// Whether the content was already imported into the course, or earlier in this batch
+async function isDuplicate(session: ImportSession, sha256: string | null): Promise<boolean> {
+  if (!sha256) return false;
+  if (session.checksums.has(sha256)) return true;
+  session.checksums.add(sha256);
+  return (await findCourseMaterialBySha256(session.courseId, sha256)) !== null;
+}
+
+async function createMaterial(
+  session: ImportSession,
+  target: ImportTarget,
+  file: { path: string; fileName: string; filePath: string; fileSize: number; mimeType: string; sha256: string | null; folders: string[] }
+): Promise<MaterialImportResult> {
+  const topic = await resolveFolderTopic(session, file.folders);
+  const material = await addMaterial({
+    course_id: target.courseId,
+    file_name: file.fileName,
+    file_path: file.filePath,
+    file_size: file.fileSize,
+    mime_type: file.mimeType,
+    sha256: file.sha256,
+    topic_tags: Array.from(new Set([...target.topicTags, ...(topic ? [topic] : [])]))
+  });
+
+  if (!material) {
+    await deleteMaterialFile(file.filePath);
+    return { path: file.path, status: 'failed', reason: 'Could not save the material record' };
+  }
+  return { path: file.path, status: 'imported', materialId: material.id, topic };
+}
+
+async function importArchiveEntry(
+  session: ImportSession,
+  target: ImportTarget,
+  entry: ZipEntry
+): Promise<MaterialImportResult> {
+  const fileName = entry.name.split('/').pop() as string;
+  const mimeType = getMimeTypeFromFileName(fileName);
+
+  if (!mimeType || !SUPPORTED_UPLOAD_MIME_TYPES.includes(mimeType)) {
+    return {
+      path: entry.name,
+      status: 'unsupported',
+      reason: mimeType && isArchiveFile(fileName, mimeType) ? 'Archives inside archives are not expanded' : 'Unsupported file type'
+    };
+  }
+  if (entry.size === 0) {
+    return { path: entry.name, status: 'unsupported', reason: 'File is empty' };
+  }
+  if (entry.size > MAX_ENTRY_BYTES) {
+    return { path: entry.name, status: 'unsupported', reason: 'File is larger than 100MB' };
+  }
+  if (entry.size > session.storageBytesAvailable) {
+    return { path: entry.name, status: 'failed', reason: 'Storage quota exceeded' };
+  }
+
+  // The sizes checked above come from the archive itself; reading stops once the data
+  // runs past them
+  const bytes = await entry.read(Math.min(MAX_ENTRY_BYTES, session.storageBytesAvailable));
+  const sha256 = new Sha256().update(bytes).digest();
+  if (await isDuplicate(session, sha256)) {
+    return { path: entry.name, status: 'duplicate', reason: 'Already in this course' };
+  }
+
+  const storageName = generateUniqueFileName(fileName, session.storageNames);
+  session.storageNames.push(storageName);
+  const filePath = await uploadMaterialFile(bytes, target.courseId, storageName, mimeType);
+  if (!filePath) {
+    return { path: entry.name, status: 'failed', reason: 'Could not store the file' };
+  }
+  session.storageBytesAvailable -= bytes.length;
+
+  return createMaterial(session, target, {
+    path: entry.name,
+    fileName,
+    filePath,
+    fileSize: bytes.length,
+    mimeType,
+    sha256,
+    folders: toTopicFolders(entry.name.split('/').slice(0, -1))
+  });
+}
+
+/**
+ * Expand an uploaded ZIP archive into one material per supported file, with each folder
+ * in the archive mapped to a topic. The archive itself is removed from storage afterwards.
+ * Throws when the archive can't be read at all; problems with single files are reported
+ * in their results.
+ */
+export async function importMaterialArchive(archive: ArchiveImport): Promise<MaterialImportResult[]> {
+  const data = await downloadMaterialFile(archive.filePath);
+  if (!data) {
+    throw new Error('Could not download the archive from storage');
+  }
+
+  try {
+    const entries = Array.from(readZip(data).values())
+      .filter(entry => !isIgnoredEntry(entry.name))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    const materials = await getCourseMaterials(archive.courseId);
+    const session = startSession(
+      archive.courseId,
+      materials.map(material => material.file_path.split('/').pop() as string),
+      archive.storageBytesAvailable
+    );
+    const results: MaterialImportResult[] = [];
+    let expandedBytes = 0;
+
+    for (const [index, entry] of entries.entries()) {
+      if (index >= MAX_ARCHIVE_ENTRIES) {
+        results.push({ path: entry.name, status: 'failed', reason: `Archives are limited to ${MAX_ARCHIVE_ENTRIES} files` });
+        continue;
+      }
+      // Entries are read to exactly their recorded size, so the sizes can be summed up front
+      expandedBytes += entry.size;
+      if (expandedBytes > MAX_ARCHIVE_EXPANDED_BYTES) {
+        results.push({ path: entry.name, status: 'failed', reason: 'Archive expands to more than 1GB' });
+        continue;
+      }
+
+      try {
+        results.push(await importArchiveEntry(session, archive, entry));
+      } catch (error) {
+        console.error(`Bulk import: failed to import ${entry.name} from ${archive.fileName}:`, error);
+        results.push({ path: entry.name, status: 'failed', reason: error instanceof Error ? error.message : 'Import failed' });
+      }
+    }
+
+    const imported = results.filter(result => result.status === 'imported').length;
+    console.log(`Bulk import of ${archive.fileName}: ${imported} of ${results.length} files imported`);
+    return results;
+  } finally {
+    await deleteMaterialFile(archive.filePath);
+  }
+}
+
+/**
+ * Add one file of a dropped folder, already uploaded to storage, as a material under the
+ * topic for its folder. Unsupported and duplicate files are removed from storage again.
+ */
+export async function importFolderFile(file: FolderFileImport): Promise<MaterialImportResult> {
+  const path = [...file.folders, file.fileName].join('/');
+
+  if (!SUPPORTED_UPLOAD_MIME_TYPES.includes(file.mimeType)) {
+    await deleteMaterialFile(file.filePath);
+    return { path, status: 'unsupported', reason: 'Unsupported file type' };
+  }
+
+  // Already uploaded under its own name, so the course's storage names aren't needed
+  const session = startSession(file.courseId);
+  if (await isDuplicate(session, file.sha256)) {
+    await deleteMaterialFile(file.filePath);
+    return { path, status: 'duplicate', reason: 'Already in this course' };
+  }
+
+  return createMaterial(session, file, {
+    path,
+    fileName: file.fileName,
+    filePath: file.filePath,
+    fileSize: file.fileSize,
+    mimeType: file.mimeType,
+    sha256: file.sha256,
+    folders: toTopicFolders(file.folders)
+  });
+}
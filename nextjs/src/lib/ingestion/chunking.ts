@@ -0,0 +1,167 @@
+// Split extracted text into overlapping, page-aware chunks for storage and retrieval
+
+/**
+ * A run of text from a material. page is the 1-based page (or slide) it appears on,
+ * null for formats without pages; section is the nearest heading or slide title.
+ * Transcript blocks carry the time range they were spoken in, in seconds.
+ */
+export interface ExtractedBlock {
+  page: number | null;
+  section: string | null;
+  text: string;
+  start?: number;
+  end?: number;
+}
+
+export interface TextChunk {
+  index: number;
+  page: number | null;
+  section: string | null;
+  content: string;
+  tokenCount: number;
+  startSeconds: number | null;
+  endSeconds: number | null;
+}
+
+export interface ChunkingOptions {
+  // Target chunk size in characters
+  maxChars?: number;
+  // Characters repeated from the end of the previous chunk on the same page
+  overlapChars?: number;
+}
+
+interface PendingChunk {
+  page: number | null;
+  section: string | null;
+  parts: string[];
+  length: number;
+  start: number | null;
+  end: number | null;
+}
+
+const DEFAULT_MAX_CHARS = 1200;
+const DEFAULT_OVERLAP_CHARS = 200;
+
+// Rough estimate (~4 characters per token for English text); good enough for budgeting context
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Break text that is longer than a chunk on sentence, then word, boundaries
+function splitLongText(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const sentences = text.match(/[^.!?\n]+(?:[.!?]+["')\]]*|\n|$)\s*/g) ?? [text];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (sentence.length > maxChars) {
+      if (current.trim()) pieces.push(current.trim());
+      current = '';
+      let start = 0;
+      while (start < sentence.length) {
+        let end = Math.min(start + maxChars, sentence.length);
+        const lastSpace = sentence.lastIndexOf(' ', end);
+        if (end < sentence.length && lastSpace > start + maxChars / 2) end = lastSpace;
+        pieces.push(sentence.slice(start, end).trim());
+        start = end;
+      }
+      continue;
+    }
+    if (current.length + sentence.length > maxChars && current.trim()) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) pieces.push(current.trim());
+
+  return pieces.filter(Boolean);
+}
+
+// The last overlapChars of a chunk, starting at a word boundary
+function overlapTail(text: string, overlapChars: number): string {
+  if (overlapChars <= 0 || text.length <= overlapChars) return '';
+  const tail = text.slice(-overlapChars);
+  const firstSpace = tail.search(/\s/);
+  return firstSpace === -1 ? '' : tail.slice(firstSpace).trim();
+}
+
+/**
+ * A chunk's content without the text it repeats from the previous chunk, for showing
+ * consecutive chunks as continuous text
+ */
+export function stripChunkOverlap(previous: string, content: string): string {
+  let boundary = content.indexOf('\n\n');
+  while (boundary !== -1 && boundary <= previous.length) {
+    if (previous.endsWith(content.slice(0, boundary))) {
+      return content.slice(boundary + 2);
+    }
+    boundary = content.indexOf('\n\n', boundary + 2);
+  }
+  return content;
+}
+
+/**
+ * Pack blocks into chunks of up to maxChars. Chunks never span pages, so every chunk
+ * can be cited by page; consecutive chunks on the same page overlap slightly so a
+ * passage cut at a boundary is still retrievable as a whole.
+ */
+export function chunkBlocks(blocks: ExtractedBlock[], options: ChunkingOptions = {}): TextChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlapChars = Math.min(options.overlapChars ?? DEFAULT_OVERLAP_CHARS, Math.floor(maxChars / 2));
+
+  const chunks: TextChunk[] = [];
+  let current: PendingChunk | null = null;
+  let previousContent = '';
+
+  const emit = () => {
+    if (!current || current.parts.length === 0) return;
+    const content = current.parts.join('\n\n').trim();
+    if (content) {
+      chunks.push({
+        index: chunks.length,
+        page: current.page,
+        section: current.section,
+        content,
+        tokenCount: estimateTokens(content),
+        startSeconds: current.start,
+        endSeconds: current.end
+      });
+      previousContent = content;
+    }
+  };
+
+  for (const block of blocks) {
+    const text = block.text.trim();
+    if (!text) continue;
+
+    for (const piece of splitLongText(text, maxChars)) {
+      const samePage: boolean = current !== null && current.page === block.page;
+
+      if (current && samePage && current.length + piece.length + 2 <= maxChars) {
+        current.parts.push(piece);
+        current.length += piece.length + 2;
+        current.end = block.end ?? current.end;
+        continue;
+      }
+
+      emit();
+      const overlap: string = samePage ? overlapTail(previousContent, overlapChars) : '';
+      const parts: string[] = overlap && overlap.length + piece.length + 2 <= maxChars + overlapChars ? [overlap, piece] : [piece];
+      current = {
+        page: block.page,
+        section: block.section,
+        parts,
+        length: parts.reduce((sum, part) => sum + part.length + 2, 0),
+        // A transcript chunk is cited from where its new text starts, not its overlap
+        start: block.start ?? null,
+        end: block.end ?? null
+      };
+    }
+  }
+  emit();
+
+  return chunks;
+}
@@ -0,0 +1,51 @@
+import { UnreadableFileError } from './errors';
+
+// Decompression on the platform's DecompressionStream, available in Node 18+ and the edge runtime
+
+/**
+ * Inflate zlib ("deflate") or raw DEFLATE ("deflate-raw") data. PDF streams are often
+ * truncated or followed by junk bytes; whatever decoded before the error is returned.
+ * Decoding stops with an error as soon as the output grows past maxBytes, so a small
+ * input can't expand into gigabytes in memory.
+ */
+export async function inflate(
+  data: Uint8Array,
+  format: 'deflate' | 'deflate-raw',
+  maxBytes = Infinity
+): Promise<Uint8Array> {
+  const input = new ReadableStream<BufferSource>({
+    start(controller) {
+      // Our buffers are never SharedArrayBuffers
+      controller.enqueue(data as Uint8Array<ArrayBuffer>);
+      controller.close();
+    }
+  });
+  const reader = input.pipeThrough(new DecompressionStream(format)).getReader();
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      total += value.length;
+      if (total > maxBytes) break;
+    }
+  } catch (error) {
+    if (total === 0) throw error;
+  }
+
+  if (total > maxBytes) {
+    await reader.cancel();
+    throw new UnreadableFileError(`Compressed data expands to more than ${maxBytes} bytes`);
+  }
+
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
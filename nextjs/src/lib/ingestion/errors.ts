@@ -0,0 +1,11 @@
+/**
+ * A file that can't be read: damaged, encrypted or using a feature the extractors don't
+ * support. The message is stored as the material's text extraction error, so it's
+ * written for the user.
+ */
+export class UnreadableFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnreadableFileError';
+  }
+}
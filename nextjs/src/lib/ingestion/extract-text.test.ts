@@ -0,0 +1,163 @@
+import { describe, expect, it, vi } from 'vitest';
+import { extractText } from './extract-text';
+import { UnreadableFileError } from './errors';
+import {
+  buildDocx,
+  buildPdf,
+  buildPptx,
+  buildSimplePdf,
+  buildZip,
+  bytesOf,
+  concat,
+  textContent
+} from './__fixtures__/documents';
+
+const PDF = 'application/pdf';
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const PPTX = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+const pageTexts = async (bytes: Uint8Array) =>
+  (await extractText(bytes, PDF, 'notes.pdf')).blocks.map(block => block.text);
+
+describe('extractText for PDFs', () => {
+  it('reads the text of each page, including FlateDecode content', async () => {
+    const result = await extractText(await buildSimplePdf(), PDF, 'notes.pdf');
+
+    expect(result.pageCount).toBe(2);
+    expect(result.blocks).toEqual([
+      { page: 1, section: null, text: 'Photosynthesis converts light energy.' },
+      { page: 2, section: null, text: 'Chlorophyll absorbs red and blue light.' }
+    ]);
+  });
+
+  it('ignores an xref table with wrong offsets or none at all', async () => {
+    const expected = ['Photosynthesis converts light energy.', 'Chlorophyll absorbs red and blue light.'];
+
+    expect(await pageTexts(await buildSimplePdf({ xref: 'broken' }))).toEqual(expected);
+    expect(await pageTexts(await buildSimplePdf({ xref: 'none' }))).toEqual(expected);
+  });
+
+  it('finds the catalog and pages inside an object stream', async () => {
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents 6 0 R >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+    ];
+    let body = '';
+    const header: string[] = [];
+    objects.forEach((object, i) => {
+      header.push(`${i + 1} ${body.length}`);
+      body += `${object}\n`;
+    });
+    const headerText = `${header.join(' ')}\n`;
+
+    const pdf = buildPdf([
+      { dict: `/Type /ObjStm /N ${objects.length} /First ${headerText.length}`, stream: bytesOf(headerText + body) },
+      { dict: '', stream: bytesOf(textContent(['Stored in an object stream.'])) },
+      { dict: '/Type /XRef /Root 1 0 R /Size 8', stream: new Uint8Array(0) }
+    ], { xref: 'stream', firstObject: 5 });
+
+    expect(await pageTexts(pdf)).toEqual(['Stored in an object stream.']);
+  });
+
+  it('keeps pages without text so page numbers stay aligned', async () => {
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 >>',
+      '<< /Type /Page /Parent 2 0 R >>',
+      '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 6 0 R >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+      { dict: '', stream: bytesOf(textContent(['Second page'])) }
+    ]);
+
+    const result = await extractText(pdf, PDF, 'scan.pdf');
+    expect(result.blocks.map(block => [block.page, block.text])).toEqual([[1, ''], [2, 'Second page']]);
+  });
+
+  it.each([
+    ['by reference', '/Encrypt 9 0 R'],
+    ['inline', '/Encrypt << /Filter /Standard /V 2 /R 3 >>']
+  ])('rejects PDFs encrypted %s', async (_, trailer) => {
+    const pdf = buildPdf(['<< /Type /Catalog /Pages 2 0 R >>', '<< /Type /Pages /Kids [] /Count 0 >>'], { trailer });
+
+    await expect(extractText(pdf, PDF, 'locked.pdf')).rejects.toThrow(new UnreadableFileError('Encrypted PDFs are not supported'));
+  });
+
+  it('rejects files that are not PDFs or have no page tree', async () => {
+    await expect(extractText(bytesOf('<html>not a pdf</html>'), PDF, 'page.pdf')).rejects.toThrow('Not a PDF file');
+
+    const truncated = (await buildSimplePdf()).slice(0, 40);
+    await expect(extractText(truncated, PDF, 'cut.pdf')).rejects.toThrow('Could not find the PDF page tree');
+  });
+
+  it('survives corrupt compressed content and junk in content streams', async () => {
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>',
+      { dict: '/Filter /FlateDecode', stream: bytesOf('definitely not zlib data') },
+      { dict: '', stream: bytesOf('BT ] } ) >> /F9 12 Tf 1 2 3 Tj << /Broken >> TJ ET BT (Readable) Tj ET') }
+    ]);
+
+    const result = await extractText(pdf, PDF, 'damaged.pdf');
+    expect(result.pageCount).toBe(2);
+    expect(result.blocks[0].text).toBe('');
+    expect(result.blocks[1].text).toContain('Readable');
+  });
+});
+
+describe('extractText for Office documents', () => {
+  it.each([false, true])('reads Word paragraphs (ZIP64: %s)', async zip64 => {
+    const docx = await buildDocx(['Cell structure', 'Mitochondria &amp; energy'], { zip64 });
+    const result = await extractText(docx, DOCX, 'notes.docx');
+
+    expect(result.blocks.map(block => block.text)).toEqual(['Cell structure', 'Mitochondria & energy']);
+  });
+
+  it('reads PowerPoint slides in order', async () => {
+    const result = await extractText(await buildPptx([['Intro', 'Welcome'], ['Summary']]), PPTX, 'deck.pptx');
+
+    expect(result.pageCount).toBe(2);
+    expect(result.blocks.map(block => [block.page, block.text])).toEqual([[1, 'Intro\nWelcome'], [2, 'Summary']]);
+  });
+
+  it('rejects password-protected files, which are not ZIP packages', async () => {
+    const compoundFile = concat([new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]), new Uint8Array(504)]);
+
+    await expect(extractText(compoundFile, DOCX, 'locked.docx')).rejects.toThrow(
+      new UnreadableFileError('Password-protected and legacy binary Office files are not supported')
+    );
+  });
+
+  it('rejects packages that are missing their main part', async () => {
+    const zip = await buildZip([{ name: 'word/styles.xml', data: '<w:styles/>' }]);
+
+    await expect(extractText(zip, DOCX, 'broken.docx')).rejects.toThrow('Not a Word document: word/document.xml is missing');
+    await expect(extractText(zip, PPTX, 'broken.pptx')).rejects.toThrow('Not a PowerPoint presentation: ppt/presentation.xml is missing');
+  });
+
+  it('keeps going past invalid character references', async () => {
+    const result = await extractText(await buildDocx(['Bad &#99999999; reference']), DOCX, 'odd.docx');
+
+    expect(result.blocks[0].text).toBe('Bad � reference');
+  });
+
+  it('turns unexpected parser errors into a readable reason', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const zip = await buildZip([{ name: 'word/document.xml', data: new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff]) }]);
+    // A deflate-method entry whose data isn't deflate makes the platform decoder throw
+    const view = new DataView(zip.buffer);
+    view.setUint16(view.getUint32(zip.length - 6, true) + 10, 8, true);
+
+    await expect(extractText(zip, DOCX, 'corrupt.docx')).rejects.toThrow(
+      new UnreadableFileError('Could not read this Word document; the file may be damaged')
+    );
+    vi.restoreAllMocks();
+  });
+
+  it('rejects formats it cannot read', async () => {
+    await expect(extractText(new Uint8Array([0x89, 0x50]), 'image/png', 'diagram.png')).rejects.toThrow(UnreadableFileError);
+  });
+});
@@ -0,0 +1,224 @@
+import { extractPdfText } from './pdf';
+import { extractDocxText, extractPptxText } from './office';
+import { UnreadableFileError } from './errors';
+import type { ExtractedBlock } from './chunking';
+import { isMediaMimeType, transcribeRecording } from '@/lib/ai/transcription';
+
+export type TextFormat = 'pdf' | 'docx' | 'pptx' | 'csv' | 'text' | 'transcript';
+
+export interface ExtractedText {
+  format: TextFormat;
+  blocks: ExtractedBlock[];
+  // Pages or slides in the source document; null for formats without pages
+  pageCount: number | null;
+  // Length of a recording; null for documents
+  durationSeconds?: number | null;
+}
+
+const FORMATS_BY_MIME_TYPE: Record<string, TextFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'text/csv': 'csv',
+  'application/csv': 'csv',
+  'application/json': 'text',
+  'application/xml': 'text'
+};
+
+const FORMATS_BY_EXTENSION: Record<string, TextFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  pptx: 'pptx',
+  csv: 'csv',
+  tsv: 'csv',
+  txt: 'text',
+  md: 'text',
+  markdown: 'text',
+  json: 'text',
+  // Lecture recordings
+  mp3: 'transcript',
+  wav: 'transcript',
+  m4a: 'transcript',
+  aac: 'transcript',
+  ogg: 'transcript',
+  opus: 'transcript',
+  flac: 'transcript',
+  mp4: 'transcript',
+  mov: 'transcript',
+  webm: 'transcript',
+  mpeg: 'transcript'
+};
+
+// Rows of a CSV file per block, each block repeating the header row
+const CSV_ROWS_PER_BLOCK = 25;
+
+/**
+ * Which extractor handles a file, or null when we can't read its text (images, legacy
+ * binary Office formats). Audio and video are transcribed. Browsers often report an
+ * empty or generic type, so the file extension is the fallback.
+ */
+export function detectTextFormat(mimeType: string, fileName: string): TextFormat | null {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  if (FORMATS_BY_MIME_TYPE[type]) return FORMATS_BY_MIME_TYPE[type];
+  if (type.startsWith('text/')) return type === 'text/tab-separated-values' ? 'csv' : 'text';
+  if (isMediaMimeType(type)) return 'transcript';
+
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return FORMATS_BY_EXTENSION[extension] ?? null;
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(bytes).replace(/^\uFEFF/, '');
+}
+
+// Paragraphs split on blank lines; Markdown headings become sections
+function extractPlainText(bytes: Uint8Array): ExtractedBlock[] {
+  const blocks: ExtractedBlock[] = [];
+  let section: string | null = null;
+
+  for (const paragraph of decodeUtf8(bytes).replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+    const text = paragraph.trim();
+    if (!text) continue;
+
+    const heading = /^#{1,6}\s+(.+)/.exec(text);
+    if (heading) {
+      section = heading[1].trim();
+    }
+    blocks.push({ page: null, section, text });
+  }
+
+  return blocks;
+}
+
+function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? text.length : text.indexOf('\n'));
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// Groups of rows, each with the header so a chunk makes sense on its own
+function extractCsvText(bytes: Uint8Array): ExtractedBlock[] {
+  const rows = parseCsv(decodeUtf8(bytes));
+  if (rows.length === 0) return [];
+
+  const [header, ...body] = rows;
+  const formatRow = (cells: string[]) => cells.map(cell => cell.trim()).join(' | ');
+  if (body.length === 0) {
+    return [{ page: null, section: null, text: formatRow(header) }];
+  }
+
+  const blocks: ExtractedBlock[] = [];
+  for (let start = 0; start < body.length; start += CSV_ROWS_PER_BLOCK) {
+    const group = body.slice(start, start + CSV_ROWS_PER_BLOCK);
+    // Row numbers as shown in a spreadsheet, counting the header as row 1
+    const firstRow = start + 2;
+    blocks.push({
+      page: null,
+      section: `Rows ${firstRow}-${firstRow + group.length - 1}`,
+      text: [formatRow(header), ...group.map(formatRow)].join('\n')
+    });
+  }
+  return blocks;
+}
+
+const DOCUMENT_NAMES: Record<'pdf' | 'docx' | 'pptx', string> = {
+  pdf: 'PDF',
+  docx: 'Word document',
+  pptx: 'PowerPoint presentation'
+};
+
+/**
+ * Run a document parser on an uploaded file. Anything the parser didn't anticipate in a
+ * malformed file becomes an UnreadableFileError, so the material gets a readable reason.
+ */
+async function parseDocument<T>(format: 'pdf' | 'docx' | 'pptx', parse: () => Promise<T>): Promise<T> {
+  try {
+    return await parse();
+  } catch (error) {
+    if (error instanceof UnreadableFileError) throw error;
+    console.error(`Unexpected error parsing ${format}:`, error);
+    throw new UnreadableFileError(`Could not read this ${DOCUMENT_NAMES[format]}; the file may be damaged`);
+  }
+}
+
+/**
+ * Extract the text of a material as blocks ready for chunking. Throws an UnreadableFileError
+ * when the file can't be parsed; callers check detectTextFormat first for unsupported types.
+ */
+export async function extractText(bytes: Uint8Array, mimeType: string, fileName: string): Promise<ExtractedText> {
+  const format = detectTextFormat(mimeType, fileName);
+
+  switch (format) {
+    case 'pdf': {
+      const pages = await parseDocument(format, () => extractPdfText(bytes));
+      return {
+        format,
+        blocks: pages.map(page => ({ page: page.page, section: null, text: page.text })),
+        pageCount: pages.length
+      };
+    }
+    case 'docx': {
+      const blocks = await parseDocument(format, () => extractDocxText(bytes));
+      return { format, blocks, pageCount: blocks.length > 0 ? blocks[blocks.length - 1].page : 0 };
+    }
+    case 'pptx': {
+      const blocks = await parseDocument(format, () => extractPptxText(bytes));
+      return { format, blocks, pageCount: blocks.reduce((max, block) => Math.max(max, block.page ?? 0), 0) };
+    }
+    case 'csv':
+      return { format, blocks: extractCsvText(bytes), pageCount: null };
+    case 'text':
+      return { format, blocks: extractPlainText(bytes), pageCount: null };
+    case 'transcript': {
+      const transcript = await transcribeRecording(bytes, mimeType, fileName);
+      const lastSegment = transcript.segments[transcript.segments.length - 1];
+      return {
+        format,
+        blocks: transcript.segments.map(segment => ({ page: null, section: null, text: segment.text, start: segment.start, end: segment.end })),
+        pageCount: null,
+        durationSeconds: transcript.durationSeconds ?? lastSegment?.end ?? null
+      };
+    }
+    default:
+      throw new UnreadableFileError(`Text extraction is not supported for ${mimeType || fileName}`);
+  }
+}
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { runMaterialIngestion } from './ingest-material';
+import { downloadMaterialFile, getMaterial } from '@/lib/supabase/materials';
+import { replaceMaterialChunks, setTextExtractionStatus } from '@/lib/supabase/material-chunks';
+import { embedMaterialChunks } from '@/lib/ai/retrieval';
+import { buildPdf, buildSimplePdf, buildZip, bytesOf, concat } from './__fixtures__/documents';
+
+vi.mock('@/lib/supabase/materials', () => ({
+  getMaterial: vi.fn(),
+  downloadMaterialFile: vi.fn()
+}));
+
+vi.mock('@/lib/supabase/material-chunks', () => ({
+  replaceMaterialChunks: vi.fn(),
+  setTextExtractionStatus: vi.fn()
+}));
+
+vi.mock('@/lib/ai/retrieval', () => ({
+  embedMaterialChunks: vi.fn()
+}));
+
+const PDF = 'application/pdf';
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+function uploaded(fileName: string, mimeType: string, bytes: Uint8Array | null) {
+  vi.mocked(getMaterial).mockResolvedValue({
+    id: 'material-1',
+    file_name: fileName,
+    file_path: `user-1/${fileName}`,
+    mime_type: mimeType
+  } as Awaited<ReturnType<typeof getMaterial>>);
+  vi.mocked(downloadMaterialFile).mockResolvedValue(bytes);
+}
+
+describe('runMaterialIngestion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(replaceMaterialChunks).mockResolvedValue({ success: true, chunkCount: 2 });
+    vi.mocked(embedMaterialChunks).mockResolvedValue(2);
+  });
+
+  it('stores the chunks of a readable file', async () => {
+    uploaded('notes.pdf', PDF, await buildSimplePdf());
+
+    await runMaterialIngestion('material-1');
+
+    expect(setTextExtractionStatus).toHaveBeenCalledTimes(1);
+    expect(setTextExtractionStatus).toHaveBeenCalledWith('material-1', 'processing');
+    const [, chunks, pageCount] = vi.mocked(replaceMaterialChunks).mock.calls[0];
+    expect(pageCount).toBe(2);
+    expect(chunks.map(chunk => chunk.pageNumber)).toEqual([1, 2]);
+  });
+
+  it.each([
+    ['a PDF without the PDF header', 'notes.pdf', PDF, () => bytesOf('<html>Sign in</html>'), 'Not a PDF file'],
+    ['a PDF cut off before its page tree', 'notes.pdf', PDF, async () => (await buildSimplePdf()).slice(0, 40), 'Could not find the PDF page tree'],
+    [
+      'an encrypted PDF',
+      'locked.pdf',
+      PDF,
+      () => buildPdf(['<< /Type /Catalog /Pages 2 0 R >>', '<< /Type /Pages /Kids [] /Count 0 >>'], { trailer: '/Encrypt 3 0 R' }),
+      'Encrypted PDFs are not supported'
+    ],
+    [
+      'a password-protected Word file',
+      'locked.docx',
+      DOCX,
+      () => concat([new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]), new Uint8Array(504)]),
+      'Password-protected and legacy binary Office files are not supported'
+    ],
+    ['a Word file that is not a ZIP', 'notes.docx', DOCX, () => bytesOf('plain text renamed to docx'), 'Not a ZIP archive'],
+    [
+      'a Word file with an encrypted part',
+      'notes.docx',
+      DOCX,
+      () => buildZip([{ name: 'word/document.xml', data: '<w:document/>', encrypted: true }]),
+      'ZIP entry word/document.xml is encrypted'
+    ],
+    [
+      'a truncated Word file',
+      'notes.docx',
+      DOCX,
+      async () => {
+        const zip = await buildZip([{ name: 'word/document.xml', data: '<w:document/>' }]);
+        const view = new DataView(zip.buffer);
+        view.setUint32(zip.length - 6, zip.length + 100, true);
+        return zip;
+      },
+      'Corrupt ZIP central directory: it ends unexpectedly'
+    ]
+  ])('marks %s as failed with a reason', async (_, fileName, mimeType, build, reason) => {
+    uploaded(fileName, mimeType, await build());
+
+    await expect(runMaterialIngestion('material-1')).resolves.toBeUndefined();
+
+    expect(setTextExtractionStatus).toHaveBeenLastCalledWith('material-1', 'failed', reason);
+    expect(replaceMaterialChunks).not.toHaveBeenCalled();
+  });
+
+  it('marks a file that could not be downloaded as failed', async () => {
+    uploaded('notes.pdf', PDF, null);
+
+    await runMaterialIngestion('material-1');
+
+    expect(setTextExtractionStatus).toHaveBeenLastCalledWith('material-1', 'failed', 'Could not download the file from storage');
+  });
+
+  it('marks types without a text extractor as unsupported', async () => {
+    uploaded('diagram.png', 'image/png', new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+
+    await runMaterialIngestion('material-1');
+
+    expect(setTextExtractionStatus).toHaveBeenCalledWith('material-1', 'unsupported');
+    expect(downloadMaterialFile).not.toHaveBeenCalled();
+  });
+});
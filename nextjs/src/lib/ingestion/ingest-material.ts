@@ -0,0 +1,68 @@
+import { chunkBlocks } from './chunking';
+import { detectTextFormat, extractText } from './extract-text';
+import { downloadMaterialFile, getMaterial } from '@/lib/supabase/materials';
+import { replaceMaterialChunks, setTextExtractionStatus } from '@/lib/supabase/material-chunks';
+import { embedMaterialChunks } from '@/lib/ai/retrieval';
+
+/**
+ * Background job run after a material is uploaded: download the file, extract its text,
+ * split it into page-aware chunks, store and embed them. Never throws - failures are stored as
+ * text_extraction_status = 'failed', file types we can't read as 'unsupported'.
+ */
+export async function runMaterialIngestion(materialId: string): Promise<void> {
+  try {
+    const material = await getMaterial(materialId);
+    if (!material) {
+      console.error(`Text extraction: material ${materialId} not found`);
+      return;
+    }
+
+    if (!detectTextFormat(material.mime_type, material.file_name)) {
+      await setTextExtractionStatus(materialId, 'unsupported');
+      return;
+    }
+
+    await setTextExtractionStatus(materialId, 'processing');
+
+    const bytes = await downloadMaterialFile(material.file_path);
+    if (!bytes) {
+      throw new Error('Could not download the file from storage');
+    }
+
+    const started = Date.now();
+    const { blocks, pageCount, durationSeconds } = await extractText(bytes, material.mime_type, material.file_name);
+    const chunks = chunkBlocks(blocks);
+
+    const result = await replaceMaterialChunks(
+      materialId,
+      chunks.map(chunk => ({
+        chunkIndex: chunk.index,
+        pageNumber: chunk.page,
+        section: chunk.section,
+        content: chunk.content,
+        tokenCount: chunk.tokenCount,
+        startSeconds: chunk.startSeconds,
+        endSeconds: chunk.endSeconds
+      })),
+      pageCount,
+      durationSeconds ?? null
+    );
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    console.log(`Text extraction for ${material.file_name}: ${result.chunkCount} chunks from ${pageCount ?? 'unpaged'} pages in ${Date.now() - started}ms`);
+
+    // Chunks without embeddings are still found by keyword search, so this can't fail the job
+    try {
+      const embedded = await embedMaterialChunks(materialId);
+      console.log(`Embedded ${embedded} chunks of ${material.file_name}`);
+    } catch (error) {
+      console.error(`Embedding chunks failed for material ${materialId}:`, error);
+    }
+  } catch (error) {
+    console.error(`Text extraction failed for material ${materialId}:`, error);
+    const message = error instanceof Error ? error.message : 'Text extraction failed';
+    await setTextExtractionStatus(materialId, 'failed', message.slice(0, 500));
+  }
+}
@@ -0,0 +1,240 @@
+import { readZip, type ZipEntry } from './zip';
+import { UnreadableFileError } from './errors';
+import type { ExtractedBlock } from './chunking';
+
+// Text extraction for Office Open XML documents. Both formats are ZIP archives of XML
+// parts; we read the text runs with regular expressions rather than a full XML parser.
+
+const decoder = new TextDecoder();
+
+// Largest XML part we inflate; real documents stay far below it
+const MAX_PART_BYTES = 64 * 1024 * 1024;
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+  });
+}
+
+// Password-protected Office files, like the legacy .doc and .ppt formats, are OLE compound
+// files rather than ZIP archives
+const COMPOUND_FILE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+function openPackage(bytes: Uint8Array): Map<string, ZipEntry> {
+  if (COMPOUND_FILE_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+    throw new UnreadableFileError('Password-protected and legacy binary Office files are not supported');
+  }
+  return readZip(bytes);
+}
+
+async function readXml(entries: Map<string, ZipEntry>, name: string): Promise<string | null> {
+  const entry = entries.get(name);
+  return entry ? decoder.decode(await entry.read(MAX_PART_BYTES)) : null;
+}
+
+function attribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`\\b${name}="([^"]*)"`).exec(attributes);
+  return match ? decodeXmlEntities(match[1]) : null;
+}
+
+/**
+ * Paragraphs of a Word document. Pages follow the page breaks Word recorded when the file
+ * was last saved (or explicit page breaks), and headings start a new section.
+ */
+export async function extractDocxText(bytes: Uint8Array): Promise<ExtractedBlock[]> {
+  const entries = openPackage(bytes);
+  const xml = await readXml(entries, 'word/document.xml');
+  if (xml === null) {
+    throw new UnreadableFileError('Not a Word document: word/document.xml is missing');
+  }
+
+  // lastRenderedPageBreak covers both soft and hard breaks; counting explicit breaks too would double up
+  const renderedBreaks = xml.includes('<w:lastRenderedPageBreak');
+
+  const blocks: ExtractedBlock[] = [];
+  let page = 1;
+  let section: string | null = null;
+  let paragraph = '';
+  let heading = false;
+
+  const flush = () => {
+    const text = paragraph.replace(/[ \t]+/g, ' ').trim();
+    if (text) {
+      if (heading) section = text;
+      blocks.push({ page, section, text });
+    }
+    paragraph = '';
+  };
+
+  const tag = /<(\/?)w:(p|t|tab|br|cr|lastRenderedPageBreak|pStyle|pageBreakBefore)(?=[\s>\/])([^>]*)>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tag.exec(xml))) {
+    const [, closing, name, attributes] = match;
+    const selfClosing = attributes.endsWith('/');
+
+    switch (name) {
+      case 'p':
+        // Opening tags flush too: text boxes nest paragraphs inside paragraphs
+        flush();
+        heading = false;
+        break;
+      case 't':
+        if (!closing && !selfClosing) {
+          const end = xml.indexOf('</w:t>', tag.lastIndex);
+          if (end === -1) break;
+          paragraph += decodeXmlEntities(xml.slice(tag.lastIndex, end));
+          tag.lastIndex = end + 6;
+        }
+        break;
+      case 'tab':
+        paragraph += '\t';
+        break;
+      case 'cr':
+        paragraph += '\n';
+        break;
+      case 'br':
+        if (attribute(attributes, 'w:type') === 'page') {
+          if (!renderedBreaks) {
+            flush();
+            page++;
+          }
+        } else {
+          paragraph += '\n';
+        }
+        break;
+      case 'lastRenderedPageBreak':
+        flush();
+        page++;
+        break;
+      case 'pageBreakBefore':
+        if (!renderedBreaks && attribute(attributes, 'w:val') !== 'false' && attribute(attributes, 'w:val') !== '0') {
+          page++;
+        }
+        break;
+      case 'pStyle': {
+        const style = attribute(attributes, 'w:val') || '';
+        heading = /heading|title/i.test(style);
+        break;
+      }
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+// Paragraphs of a DrawingML text body
+function drawingParagraphs(xml: string): string[] {
+  const paragraphs: string[] = [];
+  const paragraph = /<a:p>([\s\S]*?)<\/a:p>|<a:p\s[^>]*>([\s\S]*?)<\/a:p>/g;
+  let match: RegExpExecArray | null;
+  while ((match = paragraph.exec(xml))) {
+    const body = match[1] ?? match[2] ?? '';
+    const text = body
+      .replace(/<a:br\b[^>]*\/>/g, '\n')
+      .replace(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>|<[^>]+>/g, (_, run?: string) => run !== undefined ? decodeXmlEntities(run) : '')
+      .replace(/[ \t]+/g, ' ')
+      .trim();
+    if (text) paragraphs.push(text);
+  }
+  return paragraphs;
+}
+
+function placeholderShapes(xml: string, types: string[]): string[] {
+  const shapes: string[] = [];
+  const shape = /<p:sp>[\s\S]*?<\/p:sp>/g;
+  let match: RegExpExecArray | null;
+  while ((match = shape.exec(xml))) {
+    const placeholder = /<p:ph\b([^>]*)>/.exec(match[0]);
+    if (placeholder && types.includes(attribute(placeholder[1], 'type') || '')) {
+      shapes.push(match[0]);
+    }
+  }
+  return shapes;
+}
+
+function relationshipTargets(xml: string | null, baseDir: string): Map<string, string> {
+  const targets = new Map<string, string>();
+  if (!xml) return targets;
+
+  const relationship = /<Relationship\b([^>]*)\/?>/g;
+  let match: RegExpExecArray | null;
+  while ((match = relationship.exec(xml))) {
+    const id = attribute(match[1], 'Id');
+    const target = attribute(match[1], 'Target');
+    if (!id || !target) continue;
+
+    // Targets are relative to the part's folder, e.g. "slides/slide1.xml" or "../notesSlides/notesSlide1.xml"
+    const parts = target.startsWith('/') ? target.slice(1).split('/') : [...baseDir.split('/'), ...target.split('/')];
+    const resolved: string[] = [];
+    for (const part of parts) {
+      if (part === '..') resolved.pop();
+      else if (part && part !== '.') resolved.push(part);
+    }
+    targets.set(id, resolved.join('/'));
+  }
+  return targets;
+}
+
+/**
+ * Text of each slide in presentation order, with the slide title as the section and
+ * speaker notes appended to their slide. Hidden slides are skipped.
+ */
+export async function extractPptxText(bytes: Uint8Array): Promise<ExtractedBlock[]> {
+  const entries = openPackage(bytes);
+  const presentation = await readXml(entries, 'ppt/presentation.xml');
+  if (presentation === null) {
+    throw new UnreadableFileError('Not a PowerPoint presentation: ppt/presentation.xml is missing');
+  }
+
+  const targets = relationshipTargets(await readXml(entries, 'ppt/_rels/presentation.xml.rels'), 'ppt');
+  let slidePaths = Array.from(presentation.matchAll(/<p:sldId\b([^>]*)\/?>/g))
+    .map(match => targets.get(attribute(match[1], 'r:id') || ''))
+    .filter((path): path is string => !!path && entries.has(path));
+
+  if (slidePaths.length === 0) {
+    slidePaths = Array.from(entries.keys())
+      .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+      .sort((a, b) => parseInt(a.replace(/\D/g, ''), 10) - parseInt(b.replace(/\D/g, ''), 10));
+  }
+
+  const blocks: ExtractedBlock[] = [];
+  for (let i = 0; i < slidePaths.length; i++) {
+    const path = slidePaths[i];
+    const xml = await readXml(entries, path);
+    if (!xml || /<p:sld\b[^>]*\bshow="(0|false)"/.test(xml)) continue;
+
+    const page = i + 1;
+    const titleShapes = placeholderShapes(xml, ['title', 'ctrTitle']);
+    const paragraphs = drawingParagraphs(xml);
+    const title = titleShapes.length > 0
+      ? drawingParagraphs(titleShapes[0]).join(' ')
+      : paragraphs[0] ?? null;
+
+    if (paragraphs.length > 0) {
+      blocks.push({ page, section: title || null, text: paragraphs.join('\n') });
+    }
+
+    const folder = path.slice(0, path.lastIndexOf('/'));
+    const fileName = path.slice(path.lastIndexOf('/') + 1);
+    const slideTargets = relationshipTargets(await readXml(entries, `${folder}/_rels/${fileName}.rels`), folder);
+    const notesPath = Array.from(slideTargets.values()).find(target => /notesSlide\d+\.xml$/.test(target));
+    const notesXml = notesPath ? await readXml(entries, notesPath) : null;
+    if (notesXml) {
+      const notes = placeholderShapes(notesXml, ['body']).flatMap(drawingParagraphs);
+      if (notes.length > 0) {
+        blocks.push({ page, section: title || null, text: `Speaker notes: ${notes.join('\n')}` });
+      }
+    }
+  }
+
+  return blocks;
+}
@@ -0,0 +1,813 @@
+import { inflate } from './compression';
+import { UnreadableFileError } from './errors';
+
+// Minimal PDF text extractor: finds objects by scanning the file (so broken xref tables
+// don't matter), walks the page tree and interprets text operators in content streams.
+// Handles FlateDecode, object streams, form XObjects and ToUnicode CMaps. Scanned PDFs
+// yield no text; encrypted PDFs are rejected.
+
+class PdfName {
+  constructor(public readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(public readonly num: number) {}
+}
+
+class PdfOperator {
+  constructor(public readonly op: string) {}
+}
+
+type PdfValue = number | boolean | null | string | PdfName | PdfRef | PdfValue[] | PdfDict;
+type PdfDict = Map<string, PdfValue>;
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Uint8Array;
+}
+
+export interface PdfPageText {
+  page: number;
+  text: string;
+}
+
+// Largest decoded stream; anything bigger is skipped like an undecodable one
+const MAX_STREAM_BYTES = 64 * 1024 * 1024;
+
+const WHITESPACE = new Set(['\0', '\t', '\n', '\f', '\r', ' ']);
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%']);
+
+// Lexer over a latin1 string, so string offsets equal byte offsets
+class PdfLexer {
+  pos = 0;
+
+  constructor(private readonly src: string, start = 0) {
+    this.pos = start;
+  }
+
+  get done(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.src.length;
+  }
+
+  skipWhitespace() {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (WHITESPACE.has(ch)) {
+        this.pos++;
+      } else if (ch === '%') {
+        while (this.pos < this.src.length && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (this.pos < this.src.length && !WHITESPACE.has(this.src[this.pos]) && !DELIMITERS.has(this.src[this.pos])) {
+      this.pos++;
+    }
+    return this.src.slice(start, this.pos);
+  }
+
+  /** Next value, or a PdfOperator for bare keywords (content stream operators, "stream", "endobj") */
+  read(): PdfValue | PdfOperator | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.src.length) return undefined;
+
+    const ch = this.src[this.pos];
+    switch (ch) {
+      case '/': {
+        this.pos++;
+        return new PdfName(this.readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+      }
+      case '(':
+        return this.readLiteralString();
+      case '<':
+        if (this.src[this.pos + 1] === '<') {
+          this.pos += 2;
+          return this.readDict();
+        }
+        return this.readHexString();
+      case '[': {
+        this.pos++;
+        const items: PdfValue[] = [];
+        for (;;) {
+          this.skipWhitespace();
+          if (this.pos >= this.src.length) break;
+          if (this.src[this.pos] === ']') {
+            this.pos++;
+            break;
+          }
+          const item = this.read();
+          // Stray keywords inside an array are dropped rather than losing the page
+          if (item instanceof PdfOperator) continue;
+          if (item !== undefined) items.push(item);
+        }
+        return items;
+      }
+      case ']':
+      case '>':
+      case ')':
+      case '{':
+      case '}':
+        this.pos++;
+        return new PdfOperator('');
+    }
+
+    const token = this.readRegular();
+    if (token === '') {
+      this.pos++;
+      return new PdfOperator('');
+    }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const value = parseFloat(token);
+      // "12 0 R" is an indirect reference
+      if (/^\d+$/.test(token)) {
+        const saved = this.pos;
+        const match = /^\s+(\d+)\s+R(?=[\s\/\[\]<>()%]|$)/.exec(this.src.slice(this.pos, this.pos + 32));
+        if (match) {
+          this.pos += match[0].length;
+          return new PdfRef(value);
+        }
+        this.pos = saved;
+      }
+      return value;
+    }
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    return new PdfOperator(token);
+  }
+
+  private readDict(): PdfDict {
+    const dict: PdfDict = new Map();
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.src.length) break;
+      if (this.src.startsWith('>>', this.pos)) {
+        this.pos += 2;
+        break;
+      }
+      const key = this.read();
+      if (!(key instanceof PdfName)) continue;
+      // A key without a value ends the dictionary instead of swallowing what follows it
+      this.skipWhitespace();
+      if (this.src.startsWith('>>', this.pos)) {
+        this.pos += 2;
+        break;
+      }
+      const value = this.read();
+      if (value !== undefined && !(value instanceof PdfOperator)) {
+        dict.set(key.name, value);
+      }
+    }
+    return dict;
+  }
+
+  private readLiteralString(): string {
+    this.pos++;
+    let depth = 1;
+    let out = '';
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos++];
+      if (ch === '\\') {
+        const next = this.src[this.pos++];
+        switch (next) {
+          case 'n': out += '\n'; break;
+          case 'r': out += '\r'; break;
+          case 't': out += '\t'; break;
+          case 'b': out += '\b'; break;
+          case 'f': out += '\f'; break;
+          case '\r':
+            if (this.src[this.pos] === '\n') this.pos++;
+            break;
+          case '\n':
+            break;
+          default:
+            if (next >= '0' && next <= '7') {
+              let octal = next;
+              while (octal.length < 3 && this.src[this.pos] >= '0' && this.src[this.pos] <= '7') {
+                octal += this.src[this.pos++];
+              }
+              out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+            } else if (next !== undefined) {
+              out += next;
+            }
+        }
+      } else if (ch === '(') {
+        depth++;
+        out += ch;
+      } else if (ch === ')') {
+        if (--depth === 0) break;
+        out += ch;
+      } else {
+        out += ch;
+      }
+    }
+    return out;
+  }
+
+  private readHexString(): string {
+    const end = this.src.indexOf('>', this.pos);
+    const hex = this.src.slice(this.pos + 1, end === -1 ? this.src.length : end).replace(/[^0-9a-fA-F]/g, '');
+    this.pos = end === -1 ? this.src.length : end + 1;
+    let out = '';
+    for (let i = 0; i < hex.length; i += 2) {
+      out += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+    }
+    return out;
+  }
+
+  /** Skip inline image data after an ID operator */
+  skipInlineImage() {
+    const match = /\sEI(?=[\s]|$)/g;
+    match.lastIndex = this.pos;
+    const found = match.exec(this.src);
+    this.pos = found ? found.index + found[0].length : this.src.length;
+  }
+}
+
+function toLatin1(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    out += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return out;
+}
+
+function name(value: PdfValue | undefined): string | null {
+  return value instanceof PdfName ? value.name : null;
+}
+
+// Bytes 0x80-0x9F in WinAnsiEncoding; everything else matches latin1
+const WIN_ANSI_HIGH: Record<number, string> = {
+  0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡', 0x88: 'ˆ',
+  0x89: '‰', 0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž', 0x91: '‘', 0x92: '’', 0x93: '“',
+  0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—', 0x98: '˜', 0x99: '™', 0x9a: 'š', 0x9b: '›',
+  0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ'
+};
+
+// Glyph names commonly used in /Differences arrays whose character isn't their name
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', period: '.', comma: ',', colon: ':', semicolon: ';', hyphen: '-', endash: '–',
+  emdash: '—', quoteleft: '‘', quoteright: '’', quotedblleft: '“', quotedblright: '”',
+  parenleft: '(', parenright: ')', bullet: '•', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl',
+  question: '?', exclam: '!', slash: '/', quotesingle: "'", quotedbl: '"', ampersand: '&',
+  percent: '%', plus: '+', equal: '=', underscore: '_', asterisk: '*', numbersign: '#',
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9'
+};
+
+interface FontDecoder {
+  decode: (bytes: string) => string;
+}
+
+function utf16be(bytes: string): string {
+  const units: number[] = [];
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    units.push((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  }
+  return String.fromCharCode(...units);
+}
+
+function codeOf(bytes: string): number {
+  let code = 0;
+  for (let i = 0; i < bytes.length; i++) code = code * 256 + bytes.charCodeAt(i);
+  return code;
+}
+
+function parseToUnicode(cmap: string): { map: Map<string, string>; codeLengths: number[] } {
+  const map = new Map<string, string>();
+  const codeLengths = new Set<number>();
+  const lexer = new PdfLexer(cmap);
+  const operands: PdfValue[] = [];
+
+  while (!lexer.done) {
+    const token = lexer.read();
+    if (token === undefined) break;
+    if (!(token instanceof PdfOperator)) {
+      operands.push(token);
+      continue;
+    }
+
+    switch (token.op) {
+      case 'endcodespacerange':
+        for (let i = 0; i + 1 < operands.length; i += 2) {
+          if (typeof operands[i] === 'string') codeLengths.add((operands[i] as string).length);
+        }
+        break;
+      case 'endbfchar':
+        for (let i = 0; i + 1 < operands.length; i += 2) {
+          const [src, dst] = [operands[i], operands[i + 1]];
+          if (typeof src === 'string' && typeof dst === 'string') {
+            map.set(src, utf16be(dst));
+            codeLengths.add(src.length);
+          }
+        }
+        break;
+      case 'endbfrange':
+        for (let i = 0; i + 2 < operands.length; i += 3) {
+          const [lo, hi, dst] = [operands[i], operands[i + 1], operands[i + 2]];
+          if (typeof lo !== 'string' || typeof hi !== 'string') continue;
+          const length = lo.length;
+          const start = codeOf(lo);
+          const end = Math.min(codeOf(hi), start + 0xffff);
+          codeLengths.add(length);
+
+          for (let code = start; code <= end; code++) {
+            let key = '';
+            for (let b = length - 1; b >= 0; b--) key += String.fromCharCode((code >> (8 * b)) & 0xff);
+
+            if (Array.isArray(dst)) {
+              const item = dst[code - start];
+              if (typeof item === 'string') map.set(key, utf16be(item));
+            } else if (typeof dst === 'string' && dst.length >= 2) {
+              // Increment the last UTF-16 unit of the destination
+              const base = utf16be(dst);
+              map.set(key, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - start));
+            }
+          }
+        }
+        break;
+    }
+    operands.length = 0;
+  }
+
+  return { map, codeLengths: Array.from(codeLengths).sort((a, b) => a - b) };
+}
+
+class PdfDocument {
+  private readonly src: string;
+  private readonly offsets = new Map<number, number>();
+  private readonly compressed = new Map<number, number>();
+  private readonly cache = new Map<number, PdfObject | null>();
+  private readonly objectStreams = new Map<number, Promise<Map<number, PdfValue>>>();
+  private readonly fonts = new Map<PdfDict, Promise<FontDecoder>>();
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.src = toLatin1(bytes);
+    this.scanObjects();
+  }
+
+  get source(): string {
+    return this.src;
+  }
+
+  // Later definitions win, which is what incremental updates rely on
+  private scanObjects() {
+    const pattern = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(this.src))) {
+      this.offsets.set(parseInt(match[1], 10), match.index + match[0].length);
+
+      // Jump over stream data so binary bytes aren't mistaken for object headers
+      const streamAt = this.src.indexOf('stream', pattern.lastIndex);
+      const endobjAt = this.src.indexOf('endobj', pattern.lastIndex);
+      if (streamAt !== -1 && (endobjAt === -1 || streamAt < endobjAt)) {
+        const endstreamAt = this.src.indexOf('endstream', streamAt + 6);
+        pattern.lastIndex = endstreamAt === -1 ? this.src.length : endstreamAt;
+      }
+    }
+  }
+
+  async indexObjectStreams() {
+    for (const num of Array.from(this.offsets.keys())) {
+      const object = await this.getObject(num);
+      if (!object?.stream || !(object.value instanceof Map) || name(object.value.get('Type')) !== 'ObjStm') continue;
+
+      const header = await this.readObjectStreamHeader(object);
+      header.forEach((_, objectNum) => {
+        if (!this.offsets.has(objectNum)) {
+          this.compressed.set(objectNum, num);
+        }
+      });
+    }
+  }
+
+  private async readObjectStreamHeader(object: PdfObject): Promise<Map<number, number>> {
+    const dict = object.value as PdfDict;
+    const decoded = await this.decodeStream(dict, object.stream!);
+    const count = (await this.resolve(dict.get('N'))) as number;
+    const header = new Map<number, number>();
+    if (!decoded || typeof count !== 'number') return header;
+
+    const lexer = new PdfLexer(toLatin1(decoded));
+    for (let i = 0; i < count; i++) {
+      const num = lexer.read();
+      const offset = lexer.read();
+      if (typeof num !== 'number' || typeof offset !== 'number') break;
+      header.set(num, offset);
+    }
+    return header;
+  }
+
+  private loadObjectStream(streamNum: number): Promise<Map<number, PdfValue>> {
+    let loaded = this.objectStreams.get(streamNum);
+    if (!loaded) {
+      loaded = (async () => {
+        const values = new Map<number, PdfValue>();
+        const object = await this.getObject(streamNum);
+        if (!object?.stream || !(object.value instanceof Map)) return values;
+
+        const decoded = await this.decodeStream(object.value, object.stream);
+        const first = await this.resolve(object.value.get('First'));
+        if (!decoded || typeof first !== 'number') return values;
+
+        const text = toLatin1(decoded);
+        const header = await this.readObjectStreamHeader(object);
+        header.forEach((offset, num) => {
+          const value = new PdfLexer(text, first + offset).read();
+          if (value !== undefined && !(value instanceof PdfOperator)) values.set(num, value);
+        });
+        return values;
+      })();
+      this.objectStreams.set(streamNum, loaded);
+    }
+    return loaded;
+  }
+
+  async getObject(num: number): Promise<PdfObject | null> {
+    if (this.cache.has(num)) return this.cache.get(num)!;
+    this.cache.set(num, null); // Guards against reference cycles while parsing
+
+    let object: PdfObject | null = null;
+    const offset = this.offsets.get(num);
+    if (offset !== undefined) {
+      const lexer = new PdfLexer(this.src, offset);
+      const value = lexer.read();
+      if (value !== undefined && !(value instanceof PdfOperator)) {
+        object = { value };
+        const next = lexer.read();
+        if (value instanceof Map && next instanceof PdfOperator && next.op === 'stream') {
+          object.stream = await this.readStreamData(value, lexer.pos);
+        }
+      }
+    } else {
+      const streamNum = this.compressed.get(num);
+      if (streamNum !== undefined) {
+        const values = await this.loadObjectStream(streamNum);
+        object = values.has(num) ? { value: values.get(num)! } : null;
+      }
+    }
+
+    this.cache.set(num, object);
+    return object;
+  }
+
+  private async readStreamData(dict: PdfDict, afterKeyword: number): Promise<Uint8Array> {
+    let start = afterKeyword;
+    if (this.src[start] === '\r') start++;
+    if (this.src[start] === '\n') start++;
+
+    const length = await this.resolve(dict.get('Length'));
+    if (typeof length === 'number' && length >= 0 && this.src.startsWith('endstream', this.skipSpaces(start + length))) {
+      return this.bytes.subarray(start, start + length);
+    }
+
+    // Missing or wrong /Length: fall back to the endstream keyword
+    let end = this.src.indexOf('endstream', start);
+    if (end === -1) end = this.src.length;
+    while (end > start && (this.src[end - 1] === '\n' || this.src[end - 1] === '\r')) end--;
+    return this.bytes.subarray(start, end);
+  }
+
+  private skipSpaces(pos: number): number {
+    while (pos < this.src.length && WHITESPACE.has(this.src[pos])) pos++;
+    return pos;
+  }
+
+  async resolve(value: PdfValue | undefined, depth = 0): Promise<PdfValue | undefined> {
+    if (value instanceof PdfRef && depth < 16) {
+      const object = await this.getObject(value.num);
+      return object ? this.resolve(object.value, depth + 1) : undefined;
+    }
+    return value;
+  }
+
+  async resolveDict(value: PdfValue | undefined): Promise<PdfDict | null> {
+    const resolved = await this.resolve(value);
+    return resolved instanceof Map ? resolved : null;
+  }
+
+  async resolveStream(value: PdfValue | undefined): Promise<Uint8Array | null> {
+    if (!(value instanceof PdfRef)) return null;
+    const object = await this.getObject(value.num);
+    if (!object?.stream || !(object.value instanceof Map)) return null;
+    return this.decodeStream(object.value, object.stream);
+  }
+
+  /** Decoded stream data, or null for filters we can't (or needn't) decode, such as images */
+  async decodeStream(dict: PdfDict, raw: Uint8Array): Promise<Uint8Array | null> {
+    const filter = await this.resolve(dict.get('Filter'));
+    const filters = Array.isArray(filter) ? filter : filter ? [filter] : [];
+
+    let data = raw;
+    for (const entry of filters) {
+      const filterName = name(await this.resolve(entry));
+      if (filterName === 'FlateDecode' || filterName === 'Fl') {
+        try {
+          data = await inflate(data, 'deflate', MAX_STREAM_BYTES);
+        } catch {
+          return null;
+        }
+      } else {
+        return null;
+      }
+    }
+    return data;
+  }
+
+  async findCatalog(): Promise<PdfDict | null> {
+    const trailerAt = this.src.lastIndexOf('trailer');
+    if (trailerAt !== -1) {
+      const trailer = new PdfLexer(this.src, trailerAt + 7).read();
+      if (trailer instanceof Map) {
+        const root = await this.resolveDict(trailer.get('Root'));
+        if (root) return root;
+      }
+    }
+
+    // Cross-reference streams and damaged files: look for the catalog itself
+    const candidates = [...Array.from(this.offsets.keys()), ...Array.from(this.compressed.keys())];
+    for (const num of candidates.sort((a, b) => b - a)) {
+      const object = await this.getObject(num);
+      if (object?.value instanceof Map && name(object.value.get('Type')) === 'Catalog') {
+        return object.value;
+      }
+    }
+    return null;
+  }
+
+  async collectPages(node: PdfDict, resources: PdfValue | undefined, pages: { dict: PdfDict; resources: PdfValue | undefined }[], seen: Set<PdfDict>) {
+    if (seen.has(node)) return;
+    seen.add(node);
+
+    const inherited = node.get('Resources') ?? resources;
+    const kids = await this.resolve(node.get('Kids'));
+    if (Array.isArray(kids) && name(node.get('Type')) !== 'Page') {
+      for (const kid of kids) {
+        const child = await this.resolveDict(kid);
+        if (child) await this.collectPages(child, inherited, pages, seen);
+      }
+    } else {
+      pages.push({ dict: node, resources: inherited });
+    }
+  }
+
+  getFont(font: PdfDict): Promise<FontDecoder> {
+    let decoder = this.fonts.get(font);
+    if (!decoder) {
+      decoder = this.buildFont(font);
+      this.fonts.set(font, decoder);
+    }
+    return decoder;
+  }
+
+  private async buildFont(font: PdfDict): Promise<FontDecoder> {
+    const toUnicode = await this.resolveStream(font.get('ToUnicode'));
+    const composite = name(font.get('Subtype')) === 'Type0';
+
+    if (toUnicode) {
+      const { map, codeLengths } = parseToUnicode(toLatin1(toUnicode));
+      const lengths = codeLengths.length > 0 ? codeLengths : [composite ? 2 : 1];
+      return {
+        decode: (bytes: string) => {
+          let out = '';
+          let i = 0;
+          while (i < bytes.length) {
+            let matched = false;
+            for (const length of lengths) {
+              const mapped = map.get(bytes.substr(i, length));
+              if (mapped !== undefined) {
+                out += mapped;
+                i += length;
+                matched = true;
+                break;
+              }
+            }
+            if (!matched) {
+              if (!composite) out += bytes[i];
+              i += lengths[0];
+            }
+          }
+          return out;
+        }
+      };
+    }
+
+    // Composite fonts without a ToUnicode map use glyph ids we can't map back to text
+    if (composite) {
+      return { decode: () => '' };
+    }
+
+    const differences = new Map<number, string>();
+    const encoding = await this.resolve(font.get('Encoding'));
+    if (encoding instanceof Map) {
+      const entries = await this.resolve(encoding.get('Differences'));
+      if (Array.isArray(entries)) {
+        let code = 0;
+        for (const entry of entries) {
+          if (typeof entry === 'number') {
+            code = entry;
+          } else if (entry instanceof PdfName) {
+            const glyph = entry.name;
+            const char = GLYPH_NAMES[glyph]
+              ?? (glyph.length === 1 ? glyph : /^uni([0-9A-F]{4})$/.test(glyph) ? String.fromCharCode(parseInt(glyph.slice(3), 16)) : undefined);
+            if (char !== undefined) differences.set(code, char);
+            code++;
+          }
+        }
+      }
+    }
+
+    return {
+      decode: (bytes: string) => {
+        let out = '';
+        for (let i = 0; i < bytes.length; i++) {
+          const code = bytes.charCodeAt(i);
+          out += differences.get(code) ?? WIN_ANSI_HIGH[code] ?? bytes[i];
+        }
+        return out;
+      }
+    };
+  }
+}
+
+async function extractContentText(
+  document: PdfDocument,
+  content: Uint8Array,
+  resourcesValue: PdfValue | undefined,
+  depth: number
+): Promise<string> {
+  const resources = await document.resolveDict(resourcesValue);
+  const fontDict = resources ? await document.resolveDict(resources.get('Font')) : null;
+  const xObjects = resources ? await document.resolveDict(resources.get('XObject')) : null;
+
+  const lexer = new PdfLexer(toLatin1(content));
+  const operands: PdfValue[] = [];
+  let font: FontDecoder | null = null;
+  let out = '';
+  let lastY: number | null = null;
+
+  const newline = () => {
+    if (out && !out.endsWith('\n')) out += '\n';
+  };
+  const space = () => {
+    if (out && !/\s$/.test(out)) out += ' ';
+  };
+  const show = (bytes: PdfValue) => {
+    if (typeof bytes === 'string') out += font ? font.decode(bytes) : bytes;
+  };
+
+  while (!lexer.done) {
+    const token = lexer.read();
+    if (token === undefined) break;
+    if (!(token instanceof PdfOperator)) {
+      operands.push(token);
+      continue;
+    }
+
+    switch (token.op) {
+      case 'Tf': {
+        const fontName = name(operands[0]);
+        const fontObject = fontName && fontDict ? await document.resolveDict(fontDict.get(fontName)) : null;
+        font = fontObject ? await document.getFont(fontObject) : null;
+        break;
+      }
+      case 'Tj':
+        show(operands[0]);
+        break;
+      case "'":
+        newline();
+        show(operands[0]);
+        break;
+      case '"':
+        newline();
+        show(operands[2]);
+        break;
+      case 'TJ':
+        if (Array.isArray(operands[0])) {
+          for (const item of operands[0]) {
+            // Large negative adjustments (thousandths of an em) are word gaps
+            if (typeof item === 'number') {
+              if (item < -200) space();
+            } else {
+              show(item);
+            }
+          }
+        }
+        break;
+      case 'Td':
+      case 'TD': {
+        const [tx, ty] = operands as number[];
+        if (typeof ty === 'number' && Math.abs(ty) > 0.01) {
+          newline();
+        } else if (typeof tx === 'number' && tx > 0) {
+          space();
+        }
+        if (typeof ty === 'number' && lastY !== null) lastY += ty;
+        break;
+      }
+      case 'Tm': {
+        const y = operands[5];
+        if (typeof y === 'number') {
+          if (lastY !== null && Math.abs(y - lastY) > 1) newline();
+          else space();
+          lastY = y;
+        }
+        break;
+      }
+      case 'T*':
+        newline();
+        break;
+      case 'ET':
+        newline();
+        break;
+      case 'ID':
+        lexer.skipInlineImage();
+        break;
+      case 'Do': {
+        const xObjectName = name(operands[0]);
+        if (!xObjects || !xObjectName || depth >= 5) break;
+        const ref = xObjects.get(xObjectName);
+        if (!(ref instanceof PdfRef)) break;
+        const object = await document.getObject(ref.num);
+        if (!object?.stream || !(object.value instanceof Map) || name(object.value.get('Subtype')) !== 'Form') break;
+
+        const formContent = await document.decodeStream(object.value, object.stream);
+        if (formContent) {
+          newline();
+          out += await extractContentText(document, formContent, object.value.get('Resources') ?? resourcesValue, depth + 1);
+          newline();
+        }
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+
+  return out;
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\u0000/g, '')
+    .replace(/[ \t\f\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Text of every page in order. Pages without extractable text are returned with
+ * empty text so page numbers stay aligned with the document.
+ */
+export async function extractPdfText(bytes: Uint8Array): Promise<PdfPageText[]> {
+  if (toLatin1(bytes.subarray(0, 1024)).indexOf('%PDF-') === -1) {
+    throw new UnreadableFileError('Not a PDF file');
+  }
+
+  const document = new PdfDocument(bytes);
+  // The trailer or cross-reference stream names the encryption dictionary, by reference or inline
+  if (/\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(document.source)) {
+    throw new UnreadableFileError('Encrypted PDFs are not supported');
+  }
+
+  await document.indexObjectStreams();
+
+  const catalog = await document.findCatalog();
+  const root = catalog ? await document.resolveDict(catalog.get('Pages')) : null;
+  if (!root) {
+    throw new UnreadableFileError('Could not find the PDF page tree');
+  }
+
+  const pages: { dict: PdfDict; resources: PdfValue | undefined }[] = [];
+  await document.collectPages(root, undefined, pages, new Set());
+
+  const result: PdfPageText[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    const { dict, resources } = pages[i];
+    const contents = await document.resolve(dict.get('Contents'));
+    const parts = Array.isArray(contents) ? contents : contents !== undefined ? [dict.get('Contents')!] : [];
+
+    // Content arrays are one stream split at arbitrary token boundaries
+    const decodedParts: Uint8Array[] = [];
+    for (const part of parts) {
+      const decoded = await document.resolveStream(part);
+      if (decoded) decodedParts.push(decoded, new Uint8Array([10]));
+    }
+    const total = decodedParts.reduce((sum, part) => sum + part.length, 0);
+    const content = new Uint8Array(total);
+    let offset = 0;
+    for (const part of decodedParts) {
+      content.set(part, offset);
+      offset += part.length;
+    }
+
+    const text = total > 0 ? await extractContentText(document, content, resources, 0) : '';
+    result.push({ page: i + 1, text: normalizeText(text) });
+  }
+
+  return result;
+}
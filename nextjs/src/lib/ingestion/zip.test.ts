@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { readZip } from './zip';
+import { UnreadableFileError } from './errors';
+import { buildZip, bytesOf } from './__fixtures__/documents';
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('readZip', () => {
+  it('reads stored and deflated entries and skips folders', async () => {
+    const zip = await buildZip([
+      { name: 'notes/', data: '' },
+      { name: 'notes/week1.txt', data: 'Stored text' },
+      { name: 'notes/week2.txt', data: 'Deflated text '.repeat(20), method: 'deflate' }
+    ]);
+
+    const entries = readZip(zip);
+    expect(Array.from(entries.keys())).toEqual(['notes/week1.txt', 'notes/week2.txt']);
+    expect(decode(await entries.get('notes/week1.txt')!.read())).toBe('Stored text');
+    expect(decode(await entries.get('notes/week2.txt')!.read())).toBe('Deflated text '.repeat(20));
+    expect(entries.get('notes/week2.txt')!.size).toBe(280);
+  });
+
+  it('reads ZIP64 archives', async () => {
+    const zip = await buildZip([
+      { name: 'a.txt', data: 'First entry' },
+      { name: 'b.txt', data: 'Second entry', method: 'deflate' }
+    ], { zip64: true });
+
+    const entries = readZip(zip);
+    expect(entries.get('a.txt')!.size).toBe(11);
+    expect(decode(await entries.get('a.txt')!.read())).toBe('First entry');
+    expect(decode(await entries.get('b.txt')!.read())).toBe('Second entry');
+  });
+
+  it('rejects files that are not ZIP archives', () => {
+    expect(() => readZip(bytesOf('just some text'))).toThrow(new UnreadableFileError('Not a ZIP archive'));
+    expect(() => readZip(new Uint8Array(0))).toThrow('Not a ZIP archive');
+  });
+
+  it('rejects a truncated central directory with a reason', async () => {
+    const zip = await buildZip([{ name: 'a.txt', data: 'Some text' }]);
+    // Keep the end record but point the central directory past the end of the file
+    const damaged = zip.slice();
+    new DataView(damaged.buffer).setUint32(damaged.length - 6, damaged.length + 100, true);
+
+    expect(() => readZip(damaged)).toThrow('Corrupt ZIP central directory: it ends unexpectedly');
+  });
+
+  it('rejects entries whose data runs past the end of the file', async () => {
+    const zip = await buildZip([{ name: 'a.txt', data: 'Some text' }]);
+
+    // Claim a compressed size far beyond the archive in the central directory
+    const corrupt = zip.slice();
+    const view = new DataView(corrupt.buffer);
+    const centralOffset = view.getUint32(corrupt.length - 6, true);
+    view.setUint32(centralOffset + 20, 0x7fffffff, true);
+
+    await expect(readZip(corrupt).get('a.txt')!.read()).rejects.toThrow('Corrupt ZIP entry a.txt: it ends unexpectedly');
+  });
+
+  it('stops inflating entries that expand past their recorded size', async () => {
+    // 10MB of zeros deflates to about 10KB; the headers claim 1KB
+    const zip = await buildZip([{ name: 'bomb.txt', data: new Uint8Array(10 * 1024 * 1024), method: 'deflate', declaredSize: 1024 }]);
+
+    await expect(readZip(zip).get('bomb.txt')!.read()).rejects.toThrow(
+      new UnreadableFileError("Corrupt ZIP entry bomb.txt: its data doesn't match its recorded size")
+    );
+  });
+
+  it('rejects entries shorter than their recorded size', async () => {
+    const zip = await buildZip([
+      { name: 'stored.txt', data: 'Some text', declaredSize: 4096 },
+      { name: 'deflated.txt', data: 'Some text', method: 'deflate', declaredSize: 4096 }
+    ]);
+    const entries = readZip(zip);
+
+    await expect(entries.get('stored.txt')!.read()).rejects.toThrow("Corrupt ZIP entry stored.txt: its data doesn't match its recorded size");
+    await expect(entries.get('deflated.txt')!.read()).rejects.toThrow("Corrupt ZIP entry deflated.txt: its data doesn't match its recorded size");
+  });
+
+  it('refuses entries over the size limit without inflating them', async () => {
+    const zip = await buildZip([{ name: 'big.txt', data: 'x'.repeat(2048), method: 'deflate' }]);
+    const entry = readZip(zip).get('big.txt')!;
+
+    await expect(entry.read(1024)).rejects.toThrow('ZIP entry big.txt is larger than 1024 bytes');
+    expect(await entry.read(2048)).toHaveLength(2048);
+  });
+
+  it('rejects encrypted entries and unsupported compression', async () => {
+    const zip = await buildZip([{ name: 'secret.txt', data: 'hidden', encrypted: true }]);
+    await expect(readZip(zip).get('secret.txt')!.read()).rejects.toThrow('ZIP entry secret.txt is encrypted');
+
+    const bzip = (await buildZip([{ name: 'a.txt', data: 'text' }])).slice();
+    const view = new DataView(bzip.buffer);
+    view.setUint16(view.getUint32(bzip.length - 6, true) + 10, 12, true);
+    await expect(readZip(bzip).get('a.txt')!.read()).rejects.toThrow('Unsupported ZIP compression method 12 for a.txt');
+  });
+});
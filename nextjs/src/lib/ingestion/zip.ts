@@ -0,0 +1,164 @@
+import { inflate } from './compression';
+import { UnreadableFileError } from './errors';
+
+// Minimal ZIP reader for Office Open XML files (DOCX, PPTX) and uploaded archives: reads
+// the central directory (ZIP64 included) and inflates entries on demand. Encrypted entries
+// and compression methods other than store and deflate are not supported.
+
+export interface ZipEntry {
+  name: string;
+  // Uncompressed size as recorded in the central directory
+  size: number;
+  // Entry data, refused when the recorded size is over maxBytes. Data that doesn't match
+  // the recorded size is rejected, and inflating stops as soon as it runs past it.
+  read: (maxBytes?: number) => Promise<Uint8Array>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = 0x07064b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+export function readZip(data: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // Every read is bounds-checked so a damaged archive fails with a reason, not a RangeError
+  const need = (offset: number, length: number, what = 'ZIP archive') => {
+    if (offset < 0 || offset + length > data.length) {
+      throw new UnreadableFileError(`Corrupt ${what}: it ends unexpectedly`);
+    }
+  };
+  const uint64 = (offset: number) => {
+    const value = view.getBigUint64(offset, true);
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new UnreadableFileError('Corrupt ZIP archive: an offset or size is out of range');
+    }
+    return Number(value);
+  };
+
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new UnreadableFileError('Not a ZIP archive');
+  }
+
+  let entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  // ZIP64 archives keep the real count and offset in a second end record, found through a locator
+  const locator = end - 20;
+  if (locator >= 0 && view.getUint32(locator, true) === ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR) {
+    const zip64End = uint64(locator + 8);
+    need(zip64End, 56);
+    if (view.getUint32(zip64End, true) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      throw new UnreadableFileError('Corrupt ZIP64 end of central directory');
+    }
+    entryCount = uint64(zip64End + 32);
+    offset = uint64(zip64End + 48);
+  } else if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new UnreadableFileError('Corrupt ZIP64 archive: the ZIP64 end of central directory is missing');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    need(offset, 46, 'ZIP central directory');
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new UnreadableFileError('Corrupt ZIP central directory');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    let compressedSize = view.getUint32(offset + 20, true);
+    let size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    let localOffset = view.getUint32(offset + 42, true);
+    need(offset + 46, nameLength + extraLength + commentLength, 'ZIP central directory');
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+    // Fields too large for 32 bits are 0xffffffff here, with the real values in the ZIP64
+    // extra field in this order
+    if (size === 0xffffffff || compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      let field = offset + 46 + nameLength;
+      const extraEnd = field + extraLength;
+      while (field + 4 <= extraEnd && view.getUint16(field, true) !== ZIP64_EXTRA_FIELD) {
+        field += 4 + view.getUint16(field + 2, true);
+      }
+      if (field + 4 > extraEnd) {
+        throw new UnreadableFileError(`Corrupt ZIP entry ${name}: its ZIP64 sizes are missing`);
+      }
+
+      let value = field + 4;
+      const next = () => {
+        if (value + 8 > extraEnd) {
+          throw new UnreadableFileError(`Corrupt ZIP entry ${name}: its ZIP64 sizes are missing`);
+        }
+        const result = uint64(value);
+        value += 8;
+        return result;
+      };
+      if (size === 0xffffffff) size = next();
+      if (compressedSize === 0xffffffff) compressedSize = next();
+      if (localOffset === 0xffffffff) localOffset = next();
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    entries.set(name, {
+      name,
+      size,
+      read: async (maxBytes = Infinity) => {
+        if (flags & 0x1) {
+          throw new UnreadableFileError(`ZIP entry ${name} is encrypted`);
+        }
+        if (size > maxBytes) {
+          throw new UnreadableFileError(`ZIP entry ${name} is larger than ${maxBytes} bytes`);
+        }
+        need(localOffset, 30, `ZIP entry ${name}`);
+        if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+          throw new UnreadableFileError(`Corrupt ZIP entry ${name}`);
+        }
+
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        need(start, compressedSize, `ZIP entry ${name}`);
+        const raw = data.subarray(start, start + compressedSize);
+
+        const sizeMismatch = new UnreadableFileError(`Corrupt ZIP entry ${name}: its data doesn't match its recorded size`);
+        let output: Uint8Array;
+        switch (method) {
+          case 0:
+            output = raw;
+            break;
+          case 8:
+            try {
+              output = await inflate(raw, 'deflate-raw', size);
+            } catch (error) {
+              throw error instanceof UnreadableFileError ? sizeMismatch : error;
+            }
+            break;
+          default:
+            throw new UnreadableFileError(`Unsupported ZIP compression method ${method} for ${name}`);
+        }
+        if (output.length !== size) {
+          throw sizeMismatch;
+        }
+        return output;
+      }
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,102 @@
+// Pick assessment difficulty from the student's recorded results on a topic
+
+import { resolveCourseTopic, type Difficulty, type MasteryAttempt } from './mastery';
+
+export interface DifficultySelection {
+  level: Difficulty;
+  // Level the tutor asked for before adapting
+  requested: Difficulty;
+  // Short explanation shown on the assessment card
+  rationale: string;
+  // Score-weighted accuracy over the recent attempts, null without history
+  accuracy: number | null;
+  attempts: number;
+}
+
+// Only the most recent attempts count, so the level follows current understanding
+const RECENT_ATTEMPT_WINDOW = 10;
+// Below this many attempts the history is too thin to override the tutor's choice
+const MIN_ATTEMPTS = 3;
+
+const STEP_UP: Record<Difficulty, Difficulty> = { easy: 'medium', medium: 'hard', hard: 'hard' };
+const STEP_DOWN: Record<Difficulty, Difficulty> = { easy: 'easy', medium: 'easy', hard: 'medium' };
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Choose a difficulty for a new assessment on `topic`.
+ *
+ * Starts from the level the student has mostly been practising at recently and
+ * steps up after strong results (>= 80%) or down after weak ones (< 50%).
+ * Without enough history the tutor's requested level is kept.
+ */
+export function selectDifficulty(
+  attempts: MasteryAttempt[],
+  topic: string,
+  requested: Difficulty,
+  courseTopics: string[] = []
+): DifficultySelection {
+  const resolvedTopic = resolveCourseTopic(topic, courseTopics);
+  const topicAttempts = attempts
+    .filter(attempt => resolveCourseTopic(attempt.topic, courseTopics).toLowerCase() === resolvedTopic.toLowerCase())
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .slice(-RECENT_ATTEMPT_WINDOW);
+
+  if (topicAttempts.length < MIN_ATTEMPTS) {
+    return {
+      level: requested,
+      requested,
+      rationale: topicAttempts.length === 0
+        ? `No previous results on ${resolvedTopic} yet, starting at ${requested}.`
+        : `Only ${topicAttempts.length} previous ${topicAttempts.length === 1 ? 'answer' : 'answers'} on ${resolvedTopic}, keeping ${requested}.`,
+      accuracy: null,
+      attempts: topicAttempts.length
+    };
+  }
+
+  const accuracy = topicAttempts.reduce((sum, attempt) => sum + attempt.score, 0) / topicAttempts.length;
+
+  // The level practised most in the window is the baseline to move from
+  const counts = topicAttempts.reduce((acc, attempt) => {
+    acc[attempt.difficulty] = (acc[attempt.difficulty] ?? 0) + 1;
+    return acc;
+  }, {} as Partial<Record<Difficulty, number>>);
+  const baseline = (Object.keys(counts) as Difficulty[])
+    .sort((a, b) => (counts[b] ?? 0) - (counts[a] ?? 0))[0];
+
+  const summary = `${formatPercent(accuracy)} on your last ${topicAttempts.length} ${resolvedTopic} answers`;
+
+  if (accuracy >= 0.8) {
+    const level = STEP_UP[baseline];
+    return {
+      level,
+      requested,
+      rationale: level === baseline
+        ? `${summary} - staying at ${level}, the highest level.`
+        : `${summary} at ${baseline} - stepping up to ${level}.`,
+      accuracy,
+      attempts: topicAttempts.length
+    };
+  }
+
+  if (accuracy < 0.5) {
+    const level = STEP_DOWN[baseline];
+    return {
+      level,
+      requested,
+      rationale: level === baseline
+        ? `${summary} - staying at ${level} to rebuild the fundamentals.`
+        : `${summary} at ${baseline} - stepping down to ${level}.`,
+      accuracy,
+      attempts: topicAttempts.length
+    };
+  }
+
+  return {
+    level: baseline,
+    requested,
+    rationale: `${summary} - staying at ${baseline}.`,
+    accuracy,
+    attempts: topicAttempts.length
+  };
+}
@@ -0,0 +1,154 @@
+// Per-topic mastery estimated with Bayesian Knowledge Tracing (BKT) over assessment attempts
+
+export type AssessmentType = 'mcq' | 'tf' | 'flashcard';
+export type Difficulty = 'easy' | 'medium' | 'hard';
+export type MasteryLevel = 'not-started' | 'learning' | 'proficient' | 'mastered';
+
+export interface MasteryAttempt {
+  topic: string;
+  assessmentType: AssessmentType;
+  difficulty: Difficulty;
+  isCorrect: boolean;
+  // 0..1 - partial credit, e.g. 0.5 for an "on track" flashcard
+  score: number;
+  latencyMs?: number | null;
+  createdAt: string;
+}
+
+export interface TopicMastery {
+  topic: string;
+  // Probability (0..1) that the student has learned the topic
+  mastery: number;
+  level: MasteryLevel;
+  attempts: number;
+  correct: number;
+  accuracy: number | null;
+  averageLatencyMs: number | null;
+  lastAttemptAt: string | null;
+}
+
+export interface BktParameters {
+  // Prior probability the topic is already known
+  pInit: number;
+  // Probability of learning the topic after each practice opportunity
+  pTransit: number;
+  // Probability of answering wrong despite knowing the topic
+  pSlip: number;
+}
+
+export const DEFAULT_BKT_PARAMETERS: BktParameters = {
+  pInit: 0.2,
+  pTransit: 0.15,
+  pSlip: 0.1
+};
+
+// Chance of a correct answer without knowing the topic. Flashcards are self-rated, so guessing is rare.
+const GUESS_BY_TYPE: Record<AssessmentType, number> = {
+  mcq: 0.25,
+  tf: 0.5,
+  flashcard: 0.1
+};
+
+// Easy items are easier to guess and harder to slip on; hard items the opposite
+const DIFFICULTY_ADJUSTMENT: Record<Difficulty, { slip: number; guess: number }> = {
+  easy: { slip: 0.7, guess: 1.2 },
+  medium: { slip: 1, guess: 1 },
+  hard: { slip: 1.3, guess: 0.8 }
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Update the probability that a topic is known after one attempt.
+ * Partial scores blend the posteriors for a correct and an incorrect answer.
+ */
+export function updateMastery(
+  pKnown: number,
+  attempt: Pick<MasteryAttempt, 'assessmentType' | 'difficulty' | 'score'>,
+  parameters: BktParameters = DEFAULT_BKT_PARAMETERS
+): number {
+  const adjustment = DIFFICULTY_ADJUSTMENT[attempt.difficulty] ?? DIFFICULTY_ADJUSTMENT.medium;
+  const slip = clamp(parameters.pSlip * adjustment.slip, 0.01, 0.49);
+  const guess = clamp((GUESS_BY_TYPE[attempt.assessmentType] ?? 0.25) * adjustment.guess, 0.01, 0.6);
+
+  const knownIfCorrect = (pKnown * (1 - slip)) / (pKnown * (1 - slip) + (1 - pKnown) * guess);
+  const knownIfIncorrect = (pKnown * slip) / (pKnown * slip + (1 - pKnown) * (1 - guess));
+
+  const score = clamp(attempt.score, 0, 1);
+  const posterior = score * knownIfCorrect + (1 - score) * knownIfIncorrect;
+
+  // Each attempt is also a chance to learn
+  return posterior + (1 - posterior) * parameters.pTransit;
+}
+
+export function getMasteryLevel(mastery: number, attempts: number): MasteryLevel {
+  if (attempts === 0) return 'not-started';
+  if (mastery >= 0.95) return 'mastered';
+  if (mastery >= 0.7) return 'proficient';
+  return 'learning';
+}
+
+const normalizeTopic = (topic: string) => topic.trim().toLowerCase();
+
+/**
+ * Map a generated assessment topic onto a course topic name. Generated topics are
+ * free text, so fall back to containment before treating it as a topic of its own.
+ */
+export function resolveCourseTopic(topic: string, courseTopics: string[]): string {
+  const normalized = normalizeTopic(topic);
+  const exact = courseTopics.find(courseTopic => normalizeTopic(courseTopic) === normalized);
+  if (exact) return exact;
+
+  const related = courseTopics.find(courseTopic => {
+    const normalizedCourseTopic = normalizeTopic(courseTopic);
+    return normalizedCourseTopic.length > 0 &&
+      (normalized.includes(normalizedCourseTopic) || normalizedCourseTopic.includes(normalized));
+  });
+
+  return related ?? topic.trim();
+}
+
+/**
+ * Compute mastery for every course topic (including ones without attempts) and
+ * for any other topics the attempts were tagged with
+ */
+export function computeTopicMastery(
+  attempts: MasteryAttempt[],
+  courseTopics: string[] = [],
+  parameters: BktParameters = DEFAULT_BKT_PARAMETERS
+): TopicMastery[] {
+  const attemptsByTopic = new Map<string, MasteryAttempt[]>();
+  for (const topic of courseTopics) {
+    attemptsByTopic.set(topic, []);
+  }
+
+  const chronological = [...attempts].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  for (const attempt of chronological) {
+    const topic = resolveCourseTopic(attempt.topic, courseTopics);
+    attemptsByTopic.set(topic, [...(attemptsByTopic.get(topic) ?? []), attempt]);
+  }
+
+  return Array.from(attemptsByTopic.entries()).map(([topic, topicAttempts]) => {
+    const mastery = topicAttempts.reduce(
+      (pKnown, attempt) => updateMastery(pKnown, attempt, parameters),
+      parameters.pInit
+    );
+    const correct = topicAttempts.filter(attempt => attempt.isCorrect).length;
+    const latencies = topicAttempts
+      .map(attempt => attempt.latencyMs)
+      .filter((latency): latency is number => typeof latency === 'number');
+
+    return {
+      topic,
+      mastery,
+      level: getMasteryLevel(mastery, topicAttempts.length),
+      attempts: topicAttempts.length,
+      correct,
+      accuracy: topicAttempts.length > 0 ? correct / topicAttempts.length : null,
+      averageLatencyMs: latencies.length > 0
+        ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+        : null,
+      lastAttemptAt: topicAttempts.length > 0 ? topicAttempts[topicAttempts.length - 1].createdAt : null
+    };
+  });
+}
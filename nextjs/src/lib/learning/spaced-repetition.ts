@@ -0,0 +1,94 @@
+// SM-2 spaced-repetition scheduling for saved flashcards
+
+export type FlashcardPerformance = 'got-it' | 'on-track' | 'unclear';
+
+export interface ReviewState {
+  easeFactor: number;
+  intervalDays: number;
+  // Successful reviews in a row
+  repetitions: number;
+  // Times a learned card was forgotten
+  lapses: number;
+  dueAt: string;
+  lastReviewedAt: string | null;
+}
+
+export const MIN_EASE_FACTOR = 1.3;
+export const DEFAULT_EASE_FACTOR = 2.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 grades run 0-5 and anything below 3 counts as a failed recall
+const PERFORMANCE_GRADES: Record<FlashcardPerformance, number> = {
+  'got-it': 5,
+  'on-track': 3,
+  'unclear': 1
+};
+
+export function performanceToGrade(performance: FlashcardPerformance): number {
+  return PERFORMANCE_GRADES[performance];
+}
+
+export function createInitialReviewState(now: Date = new Date()): ReviewState {
+  return {
+    easeFactor: DEFAULT_EASE_FACTOR,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now.toISOString(),
+    lastReviewedAt: null
+  };
+}
+
+/**
+ * Schedule the next review of a card from the student's self-rating (SM-2).
+ * Failed cards restart the learning sequence and come back the next day.
+ */
+export function scheduleReview(
+  state: ReviewState,
+  performance: FlashcardPerformance,
+  now: Date = new Date()
+): ReviewState {
+  const grade = performanceToGrade(performance);
+
+  let { repetitions, intervalDays, lapses } = state;
+  if (grade < 3) {
+    if (repetitions > 0) lapses += 1;
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round(Math.max(intervalDays, 1) * state.easeFactor);
+    }
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString()
+  };
+}
+
+// End of the local day, so everything scheduled for today counts as due
+export function endOfToday(now: Date = new Date()): Date {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+export function isDue(dueAt: string, now: Date = new Date()): boolean {
+  return new Date(dueAt).getTime() <= endOfToday(now).getTime();
+}
@@ -0,0 +1,115 @@
+// Course topics as a tree (units and sub-topics) with prerequisite edges, for the topic UIs.
+// Mirrors get_topic_prerequisites in the database so the learn page can preview what
+// "include prerequisites" will add before the lesson is created.
+
+export interface HierarchicalTopic {
+  id: string;
+  name: string;
+  materialCount: number;
+  parentId?: string | null;
+  prerequisiteIds?: string[];
+}
+
+export interface TopicTreeNode<T extends HierarchicalTopic = HierarchicalTopic> {
+  topic: T;
+  depth: number;
+  children: TopicTreeNode<T>[];
+}
+
+const byName = (a: HierarchicalTopic, b: HierarchicalTopic) => a.name.localeCompare(b.name);
+
+/**
+ * Nest topics under their parents. Topics whose parent is missing (or that sit in a
+ * loop) are shown at the top level so nothing disappears from the UI.
+ */
+export function buildTopicTree<T extends HierarchicalTopic>(topics: T[]): TopicTreeNode<T>[] {
+  const ids = new Set(topics.map(topic => topic.id));
+  const childrenByParent = new Map<string | null, T[]>();
+
+  for (const topic of topics) {
+    const parentId = topic.parentId && ids.has(topic.parentId) ? topic.parentId : null;
+    childrenByParent.set(parentId, [...(childrenByParent.get(parentId) ?? []), topic]);
+  }
+
+  const placed = new Set<string>();
+  const build = (parentId: string | null, depth: number): TopicTreeNode<T>[] =>
+    [...(childrenByParent.get(parentId) ?? [])].sort(byName).flatMap(topic => {
+      if (placed.has(topic.id)) return [];
+      placed.add(topic.id);
+      return [{ topic, depth, children: build(topic.id, depth + 1) }];
+    });
+
+  const roots = build(null, 0);
+  const orphans = topics.filter(topic => !placed.has(topic.id)).sort(byName);
+  return [...roots, ...orphans.flatMap(topic => {
+    if (placed.has(topic.id)) return [];
+    placed.add(topic.id);
+    return [{ topic, depth: 0, children: build(topic.id, 1) }];
+  })];
+}
+
+/**
+ * Depth-first list of the tree, the order rows are rendered in
+ */
+export function flattenTopicTree<T extends HierarchicalTopic>(nodes: TopicTreeNode<T>[]): TopicTreeNode<T>[] {
+  return nodes.flatMap(node => [node, ...flattenTopicTree(node.children)]);
+}
+
+/**
+ * Ids of every topic below `topicId`
+ */
+export function getDescendantIds(topics: HierarchicalTopic[], topicId: string): Set<string> {
+  const descendants = new Set<string>();
+  const pending = [topicId];
+
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    for (const topic of topics) {
+      if (topic.parentId === current && !descendants.has(topic.id) && topic.id !== topicId) {
+        descendants.add(topic.id);
+        pending.push(topic.id);
+      }
+    }
+  }
+
+  return descendants;
+}
+
+/**
+ * Names of the topics the selected topics build on: their prerequisites and those of
+ * their parent units, transitively, most foundational first. Selected topics are excluded.
+ */
+export function collectPrerequisiteNames(topics: HierarchicalTopic[], selectedNames: string[]): string[] {
+  const byId = new Map(topics.map(topic => [topic.id, topic]));
+  const selectedKeys = new Set(selectedNames.map(name => name.trim().toLowerCase()));
+  const selected = topics.filter(topic => selectedKeys.has(topic.name.toLowerCase()));
+
+  // The selected topics and their ancestors
+  const scope = new Set<string>();
+  for (const topic of selected) {
+    let current: HierarchicalTopic | undefined = topic;
+    while (current && !scope.has(current.id)) {
+      scope.add(current.id);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+  }
+
+  // Longest chain to each prerequisite, like MAX(depth) in get_topic_prerequisites
+  const depths = new Map<string, number>();
+  const visit = (topicId: string, depth: number, path: Set<string>) => {
+    for (const prerequisiteId of byId.get(topicId)?.prerequisiteIds ?? []) {
+      if (path.has(prerequisiteId) || !byId.has(prerequisiteId)) continue;
+      if ((depths.get(prerequisiteId) ?? 0) >= depth) continue;
+      depths.set(prerequisiteId, depth);
+      visit(prerequisiteId, depth + 1, new Set([...path, prerequisiteId]));
+    }
+  };
+  scope.forEach(topicId => visit(topicId, 1, new Set([topicId])));
+
+  const selectedIds = new Set(selected.map(topic => topic.id));
+  return [...depths.entries()]
+    .filter(([topicId]) => !selectedIds.has(topicId))
+    .map(([topicId, depth]) => ({ name: byId.get(topicId)!.name, depth }))
+    .sort((a, b) => b.depth - a.depth || a.name.localeCompare(b.name))
+    .map(({ name }) => name);
+}
@@ -4,6 +4,9 @@ import React from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
+import { CitationChip } from '@/components/ui/citation-chip';
+import { CITATION_HREF_PREFIX, linkCitations } from '@/lib/ai/citations';
+import { type MessageCitation } from '@/lib/types';
 
 // Types for markdown component props - compatible with ReactMarkdown
 interface MarkdownComponentProps {
@@ -25,6 +28,9 @@ interface MarkdownRendererProps {
   children: string;
   variant?: MarkdownVariant;
   className?: string;
+  // Material passages cited as [n] in the content, shown as footnote chips
+  citations?: MessageCitation[];
+  onCitationClick?: (citation: MessageCitation) => void;
 }
 
 // Consolidated markdown components for different variants
@@ -88,18 +94,36 @@ const getMarkdownComponents = (variant: MarkdownVariant) => {
  * - LaTeX math rendering via KaTeX (inline: $...$ and block: $$...$$)
  * - Consistent styling across all lesson components
  * - Two variants: 'chat' for comprehensive markdown, 'lesson' for compact UI
+ * - Citation markers like [2] rendered as footnote chips when citations are given
  * - TypeScript support with proper prop types
  * 
  * @param children - Markdown content to render
  * @param variant - 'chat' for full markdown features, 'lesson' for compact lesson content
  * @param className - Additional CSS classes to apply
+ * @param citations - Passages the content cites by number
+ * @param onCitationClick - Called when a citation chip is clicked
  */
 export function MarkdownRenderer({ 
   children, 
   variant = 'lesson',
-  className 
+  className,
+  citations,
+  onCitationClick
 }: MarkdownRendererProps) {
-  const components = getMarkdownComponents(variant);
+  const baseComponents = getMarkdownComponents(variant);
+  const components = citations && citations.length > 0
+    ? {
+      ...baseComponents,
+      a: ({ children: linkChildren, href }: LinkProps) => {
+        const citation = href?.startsWith(CITATION_HREF_PREFIX)
+          ? citations.find(c => c.number === Number(href.slice(CITATION_HREF_PREFIX.length)))
+          : undefined;
+        return citation
+          ? <CitationChip citation={citation} onOpen={onCitationClick} />
+          : baseComponents.a({ children: linkChildren, href });
+      },
+    }
+    : baseComponents;
   
   return (
     <ReactMarkdown
@@ -108,7 +132,7 @@ export function MarkdownRenderer({
       components={components}
       className={className}
     >
-      {children}
+      {citations ? linkCitations(children, citations) : children}
     </ReactMarkdown>
   );
 }
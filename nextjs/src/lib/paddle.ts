@@ -0,0 +1,56 @@
+import { Environment, EventName, Paddle, type EventEntity } from '@paddle/paddle-node-sdk';
+import type { PaddleSubscriptionUpdate } from '@/lib/supabase/subscriptions';
+
+let paddle: Paddle | null = null;
+
+// Server-side Paddle client, used here to verify webhook signatures
+export function getPaddle(): Paddle {
+    if (!paddle) {
+        paddle = new Paddle(process.env.PADDLE_API_KEY || '', {
+            environment: process.env.PADDLE_ENVIRONMENT === 'production' ? Environment.production : Environment.sandbox
+        });
+    }
+    return paddle;
+}
+
+const SUBSCRIPTION_EVENTS: string[] = [
+    EventName.SubscriptionCreated,
+    EventName.SubscriptionUpdated,
+    EventName.SubscriptionActivated,
+    EventName.SubscriptionTrialing,
+    EventName.SubscriptionPastDue,
+    EventName.SubscriptionPaused,
+    EventName.SubscriptionResumed,
+    EventName.SubscriptionCanceled,
+    EventName.SubscriptionImported
+];
+
+/**
+ * The subscription state a webhook event carries, or null for events that don't change a
+ * subscription. Checkout has to pass the Supabase user ID as customData.user_id, which
+ * Paddle then includes with every event of the subscription; without it the event can't
+ * be tied to a user and is skipped.
+ */
+export function subscriptionUpdateFromEvent(event: EventEntity): PaddleSubscriptionUpdate | null {
+    if (!SUBSCRIPTION_EVENTS.includes(event.eventType)) {
+        return null;
+    }
+
+    const subscription = event.data as Extract<EventEntity, { eventType: EventName.SubscriptionUpdated }>['data'];
+    const userId = (subscription.customData as Record<string, unknown> | null)?.user_id;
+    if (typeof userId !== 'string' || !userId) {
+        console.error(`Paddle subscription ${subscription.id} has no user_id in its custom data`);
+        return null;
+    }
+
+    return {
+        id: subscription.id,
+        userId,
+        customerId: subscription.customerId,
+        status: subscription.status,
+        priceId: subscription.items[0]?.price?.id ?? null,
+        currentPeriodEndsAt: subscription.currentBillingPeriod?.endsAt ?? null,
+        canceledAt: subscription.canceledAt,
+        occurredAt: event.occurredAt
+    };
+}
@@ -4,6 +4,8 @@ export interface PricingTier {
     description: string;
     features: string[];
     popular?: boolean;
+    // Paddle prices that subscribe to this tier (e.g. monthly and yearly)
+    priceIds: string[];
 }
 
 class PricingService {
@@ -15,13 +17,15 @@ class PricingService {
         const descriptions = process.env.NEXT_PUBLIC_TIERS_DESCRIPTIONS?.split(',') || [];
         const features = process.env.NEXT_PUBLIC_TIERS_FEATURES?.split(',').map(f => f.split('|')) || [];
         const popularTier = process.env.NEXT_PUBLIC_POPULAR_TIER;
+        const priceIds = process.env.NEXT_PUBLIC_TIERS_PADDLE_PRICE_IDS?.split(',').map(ids => ids.split('|').map(id => id.trim()).filter(Boolean)) || [];
 
         this.tiers = names.map((name, index) => ({
             name,
             price: prices[index],
             description: descriptions[index],
             features: features[index] || [],
-            popular: name === popularTier
+            popular: name === popularTier,
+            priceIds: priceIds[index] || []
         }));
     }
 
@@ -32,6 +36,10 @@ class PricingService {
         return this.tiers;
     }
 
+    static getTierByPriceId(priceId: string): PricingTier | undefined {
+        return this.getAllTiers().find(tier => tier.priceIds.includes(priceId));
+    }
+
     static getCommonFeatures(): string[] {
         return process.env.NEXT_PUBLIC_COMMON_FEATURES?.split(',') || [];
     }
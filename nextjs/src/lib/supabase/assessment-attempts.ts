@@ -0,0 +1,116 @@
+import { createSPAClient } from '@/lib/supabase/client'
+import { createSSRClient } from '@/lib/supabase/server'
+import { AssessmentAttemptRow } from '@/lib/types'
+import { type AssessmentType, type Difficulty, type MasteryAttempt } from '@/lib/learning/mastery'
+
+// Function to determine which client to use based on environment
+async function getSupabaseClient() {
+  // Check if we're on the server side (API routes)
+  if (typeof window === 'undefined') {
+    return await createSSRClient()
+  }
+  // Client side
+  return createSPAClient()
+}
+
+export interface AssessmentAttemptInput {
+  courseId?: string | null
+  lessonId?: string | null
+  messageId?: string | null
+  itemId: string
+  topic: string
+  assessmentType: AssessmentType
+  difficulty: Difficulty
+  isCorrect: boolean
+  score: number
+  latencyMs?: number | null
+}
+
+// Flashcards are self-rated, so "on track" earns partial credit
+export const FLASHCARD_PERFORMANCE_SCORES: Record<'got-it' | 'on-track' | 'unclear', number> = {
+  'got-it': 1,
+  'on-track': 0.5,
+  'unclear': 0
+}
+
+/**
+ * Record one or more assessment submissions for the current user
+ */
+export async function recordAssessmentAttempts(attempts: AssessmentAttemptInput[]): Promise<boolean> {
+  if (attempts.length === 0) return true
+
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      console.error('Cannot record assessment attempts: user not authenticated')
+      return false
+    }
+
+    const { error } = await (supabase as any)
+      .from('assessment_attempts')
+      .insert(attempts.map(attempt => ({
+        user_id: user.id,
+        course_id: attempt.courseId || null,
+        lesson_id: attempt.lessonId || null,
+        message_id: attempt.messageId || null,
+        item_id: attempt.itemId,
+        topic: attempt.topic,
+        assessment_type: attempt.assessmentType,
+        difficulty: attempt.difficulty,
+        is_correct: attempt.isCorrect,
+        score: attempt.score,
+        latency_ms: typeof attempt.latencyMs === 'number' ? Math.max(0, Math.round(attempt.latencyMs)) : null
+      })))
+
+    if (error) {
+      console.error('Error recording assessment attempts:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Error in recordAssessmentAttempts:', error)
+    return false
+  }
+}
+
+/**
+ * Get all of the current user's attempts for a course, oldest first
+ */
+export async function getCourseAssessmentAttempts(courseId: string): Promise<AssessmentAttemptRow[]> {
+  try {
+    const supabase = await getSupabaseClient()
+
+    const { data, error } = await (supabase as any)
+      .from('assessment_attempts')
+      .select('*')
+      .eq('course_id', courseId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching assessment attempts:', error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error in getCourseAssessmentAttempts:', error)
+    return []
+  }
+}
+
+/**
+ * Convert stored attempts into the shape the mastery model works with
+ */
+export function toMasteryAttempts(rows: AssessmentAttemptRow[]): MasteryAttempt[] {
+  return rows.map(row => ({
+    topic: row.topic,
+    assessmentType: row.assessment_type as AssessmentType,
+    difficulty: row.difficulty as Difficulty,
+    isCorrect: row.is_correct,
+    score: row.score,
+    latencyMs: row.latency_ms,
+    createdAt: row.created_at
+  }))
+}
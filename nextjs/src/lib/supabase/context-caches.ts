@@ -0,0 +1,161 @@
+import { createSPAClient } from '@/lib/supabase/client'
+import { createSSRClient } from '@/lib/supabase/server'
+import { ContextCacheOutcome, ContextCacheStats, LessonContextCacheRow } from '@/lib/types'
+
+// Function to determine which client to use based on environment
+async function getSupabaseClient() {
+  // Check if we're on the server side (API routes)
+  if (typeof window === 'undefined') {
+    return await createSSRClient()
+  }
+  // Client side
+  return createSPAClient()
+}
+
+export interface LessonContextCacheDraft {
+  cacheKey: string
+  cacheName: string | null
+  model: string
+  tokenCount: number | null
+  expiresAt: string | null
+  error?: string | null
+}
+
+export interface ContextCacheEvent {
+  outcome: ContextCacheOutcome
+  reason?: string | null
+  cacheName?: string | null
+  promptTokens?: number | null
+  cachedTokens?: number | null
+}
+
+/**
+ * Get the Gemini context cache currently recorded for a lesson
+ */
+export async function getLessonContextCache(lessonId: string): Promise<LessonContextCacheRow | null> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('lesson_context_caches')
+      .select('*')
+      .eq('lesson_id', lessonId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  } catch (error) {
+    console.error('Error fetching lesson context cache:', error)
+    return null
+  }
+}
+
+/**
+ * Record a lesson's context cache in place of the previous one.
+ * A null cacheName records that this context can't be cached, so it isn't retried every turn.
+ */
+export async function saveLessonContextCache(lessonId: string, cache: LessonContextCacheDraft): Promise<boolean> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { error } = await (supabase as any)
+      .from('lesson_context_caches')
+      .upsert({
+        lesson_id: lessonId,
+        user_id: user.id,
+        cache_key: cache.cacheKey,
+        cache_name: cache.cacheName,
+        model: cache.model,
+        token_count: cache.tokenCount,
+        expires_at: cache.expiresAt,
+        error: cache.error ?? null,
+      }, { onConflict: 'lesson_id' })
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error('Error saving lesson context cache:', error)
+    return false
+  }
+}
+
+/**
+ * Forget a lesson's context cache so the next turn creates a new one
+ */
+export async function deleteLessonContextCache(lessonId: string): Promise<boolean> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { error } = await supabase
+      .from('lesson_context_caches')
+      .delete()
+      .eq('lesson_id', lessonId)
+      .eq('user_id', user.id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error('Error deleting lesson context cache:', error)
+    return false
+  }
+}
+
+/**
+ * Record whether a lesson turn was served from its context cache
+ */
+export async function recordContextCacheEvent(lessonId: string, event: ContextCacheEvent): Promise<boolean> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { error } = await (supabase as any)
+      .from('context_cache_events')
+      .insert({
+        lesson_id: lessonId,
+        user_id: user.id,
+        outcome: event.outcome,
+        reason: event.reason ?? null,
+        cache_name: event.cacheName ?? null,
+        prompt_tokens: event.promptTokens ?? null,
+        cached_tokens: event.cachedTokens ?? null,
+      })
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error('Error recording context cache event:', error)
+    return false
+  }
+}
+
+/**
+ * Cache hit rate and token totals for a lesson
+ */
+export async function getContextCacheStats(lessonId: string): Promise<ContextCacheStats | null> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('context_cache_stats')
+      .select('*')
+      .eq('lesson_id', lessonId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  } catch (error) {
+    console.error('Error fetching context cache stats:', error)
+    return null
+  }
+}
@@ -1,6 +1,7 @@
 import { createSPAClient } from '@/lib/supabase/client'
 import { Database } from '@/lib/types'
 import { Flashcard, FlashcardSet } from '@/lib/ai/lesson-schemas'
+import { scheduleReview, type FlashcardPerformance, type ReviewState } from '@/lib/learning/spaced-repetition'
 
 // For client-side operations, always use the SPA client
 function getSupabaseClient() {
@@ -8,9 +9,57 @@ function getSupabaseClient() {
 }
 
 // Type definitions for flashcard database operations
-export type SavedFlashcard = Database['public']['Tables']['flashcards']['Row']
+export type SavedFlashcard = Database['public']['Tables']['flashcards']['Row'] & {
+  // The material the flashcard was drawn from, as it is now
+  source_material?: { file_name: string; version: number } | null
+}
 export type CreateFlashcardInput = Database['public']['Tables']['flashcards']['Insert']
 
+// Topics come from the flashcard_topics join table; the legacy flashcards.topic_tags column is not read
+const FLASHCARD_COLUMNS = '*, flashcard_topics(topics(name)), source_material:materials(file_name, version)'
+
+function withTopicTags(row: any): SavedFlashcard {
+  const { flashcard_topics, ...flashcard } = row
+  const topicTags = Array.isArray(flashcard_topics)
+    ? flashcard_topics
+      .map((link: { topics: { name: string } | null }) => link.topics?.name)
+      .filter((name: string | undefined): name is string => Boolean(name))
+    : []
+
+  return { ...flashcard, topic_tags: topicTags }
+}
+
+/**
+ * Ids of the user's flashcards linked to any of the named topics
+ */
+async function getFlashcardIdsForTopics(supabase: any, userId: string, topicTags: string[]): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('flashcard_topics')
+    .select('flashcard_id, topics!inner(name)')
+    .eq('user_id', userId)
+    .in('topics.name', topicTags)
+
+  if (error) {
+    console.error('Database error:', error)
+    throw error
+  }
+
+  return Array.from(new Set<string>((data || []).map((link: { flashcard_id: string }) => link.flashcard_id)))
+}
+
+// Replace a flashcard's topics by name; flashcards without a course cannot be tagged
+async function setFlashcardTopics(supabase: any, flashcardId: string, topicTags: string[]): Promise<void> {
+  const { error } = await supabase.rpc('set_flashcard_topics', {
+    p_flashcard_id: flashcardId,
+    p_topic_names: topicTags
+  })
+
+  if (error) {
+    console.error('Database error:', error)
+    throw error
+  }
+}
+
 /**
  * Save a single flashcard to the user's personal collection
  */
@@ -45,14 +94,15 @@ export async function saveFlashcard(
       .insert({
         user_id: user.id,
         course_id: courseId || null,
-        topic_tags: topicTags || [],
         concept: flashcard.concept,
         definition: flashcard.definition,
         topic: flashcard.topic,
         difficulty: flashcard.difficulty,
         source_lesson_id: sourceLessonId || null,
+        source_material_id: flashcard.source?.sourceMaterialId || null,
+        source_material_version: flashcard.source?.materialVersion ?? null,
       })
-      .select()
+      .select(FLASHCARD_COLUMNS)
       .single()
 
     if (error) {
@@ -60,8 +110,26 @@ export async function saveFlashcard(
       throw error
     }
 
-    console.log('Flashcard saved successfully:', data)
-    return data
+    if (!courseId || !topicTags || topicTags.length === 0) {
+      console.log('Flashcard saved successfully:', data)
+      return withTopicTags(data)
+    }
+
+    await setFlashcardTopics(supabase, data.id, topicTags)
+
+    const { data: tagged, error: taggedError } = await (supabase as any)
+      .from('flashcards')
+      .select(FLASHCARD_COLUMNS)
+      .eq('id', data.id)
+      .single()
+
+    if (taggedError) {
+      console.error('Database error:', taggedError)
+      throw taggedError
+    }
+
+    console.log('Flashcard saved successfully:', tagged)
+    return withTopicTags(tagged)
   } catch (error) {
     console.error('Error saving flashcard:', error)
     throw error
@@ -95,7 +163,7 @@ export async function getUserFlashcards(
 
     let query = (supabase as any)
       .from('flashcards')
-      .select('*')
+      .select(FLASHCARD_COLUMNS)
       .eq('user_id', session.user.id)
       .order('created_at', { ascending: false })
 
@@ -106,7 +174,11 @@ export async function getUserFlashcards(
 
     // Apply topic tags filter if provided
     if (topicTags && topicTags.length > 0) {
-      query = query.overlaps('topic_tags', topicTags)
+      const flashcardIds = await getFlashcardIdsForTopics(supabase, session.user.id, topicTags)
+      if (flashcardIds.length === 0) {
+        return []
+      }
+      query = query.in('id', flashcardIds)
     }
 
     const { data, error } = await query
@@ -117,7 +189,7 @@ export async function getUserFlashcards(
     }
 
     console.log('Retrieved flashcards:', data?.length || 0)
-    return data || []
+    return (data || []).map(withTopicTags)
   } catch (error) {
     console.error('Error retrieving flashcards:', error)
     throw error
@@ -187,11 +259,16 @@ export async function getFlashcardsByTopic(topicTags: string[]): Promise<SavedFl
       throw new Error('User not authenticated')
     }
 
+    const flashcardIds = await getFlashcardIdsForTopics(supabase, session.user.id, topicTags)
+    if (flashcardIds.length === 0) {
+      return []
+    }
+
     const { data, error } = await (supabase as any)
       .from('flashcards')
-      .select('*')
+      .select(FLASHCARD_COLUMNS)
       .eq('user_id', session.user.id)
-      .overlaps('topic_tags', topicTags)
+      .in('id', flashcardIds)
       .order('created_at', { ascending: false })
 
     if (error) {
@@ -200,7 +277,7 @@ export async function getFlashcardsByTopic(topicTags: string[]): Promise<SavedFl
     }
 
     console.log('Retrieved flashcards by topic:', data?.length || 0)
-    return data || []
+    return (data || []).map(withTopicTags)
   } catch (error) {
     console.error('Error retrieving flashcards by topic:', error)
     throw error
@@ -232,15 +309,16 @@ export async function updateFlashcardTopics(
       throw new Error('User not authenticated')
     }
 
+    await setFlashcardTopics(supabase, flashcardId, topicTags)
+
     const { data, error } = await (supabase as any)
       .from('flashcards')
       .update({ 
-        topic_tags: topicTags,
         updated_at: new Date().toISOString()
       })
       .eq('id', flashcardId)
       .eq('user_id', session.user.id) // Ensure user can only update their own flashcards
-      .select()
+      .select(FLASHCARD_COLUMNS)
       .single()
 
     if (error) {
@@ -249,7 +327,7 @@ export async function updateFlashcardTopics(
     }
 
     console.log('Flashcard updated successfully:', data)
-    return data
+    return withTopicTags(data)
   } catch (error) {
     console.error('Error updating flashcard:', error)
     throw error
@@ -301,4 +379,71 @@ export async function checkFlashcardExists(
     console.error('Error checking flashcard existence:', error)
     return false
   }
+}
+
+/**
+ * Read the spaced-repetition state stored on a flashcard
+ */
+export function getReviewState(flashcard: SavedFlashcard): ReviewState {
+  return {
+    easeFactor: flashcard.ease_factor,
+    intervalDays: flashcard.interval_days,
+    repetitions: flashcard.repetitions,
+    lapses: flashcard.lapses,
+    dueAt: flashcard.due_at,
+    lastReviewedAt: flashcard.last_reviewed_at
+  }
+}
+
+/**
+ * Record a review of a saved flashcard and schedule the next one (SM-2)
+ */
+export async function reviewFlashcard(
+  flashcard: SavedFlashcard,
+  performance: FlashcardPerformance
+): Promise<SavedFlashcard | null> {
+  try {
+    const supabase = getSupabaseClient()
+    
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession()
+    
+    if (sessionError) {
+      console.error('Session error:', sessionError)
+      throw new Error(`Session error: ${sessionError.message}`)
+    }
+    
+    if (!session?.user) {
+      console.error('No valid session found')
+      throw new Error('User not authenticated')
+    }
+
+    const next = scheduleReview(getReviewState(flashcard), performance)
+
+    const { data, error } = await (supabase as any)
+      .from('flashcards')
+      .update({
+        ease_factor: next.easeFactor,
+        interval_days: next.intervalDays,
+        repetitions: next.repetitions,
+        lapses: next.lapses,
+        due_at: next.dueAt,
+        last_reviewed_at: next.lastReviewedAt,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', flashcard.id)
+      .eq('user_id', session.user.id) // Ensure user can only review their own flashcards
+      .select(FLASHCARD_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+
+    console.log(`Flashcard ${flashcard.id} reviewed (${performance}), next due ${next.dueAt}`)
+    return withTopicTags(data)
+  } catch (error) {
+    console.error('Error reviewing flashcard:', error)
+    throw error
+  }
 }
\ No newline at end of file
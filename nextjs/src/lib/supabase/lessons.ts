@@ -1,6 +1,22 @@
 import { createSPAClient } from './client'
 import { createSSRClient } from './server'
-import { Lesson, LessonInsert, LessonUpdate, ChatMessage, Json } from '@/lib/types'
+import { Lesson, LessonInsert, LessonUpdate, LessonMessagesPage, ChatMessage, Json } from '@/lib/types'
+
+// Messages are stored in lesson_messages and topics in lesson_topics; the legacy
+// lessons.messages and lessons.topic_selection columns are not read
+const LESSON_COLUMNS = 'id, user_id, title, course_id, lesson_type, include_prerequisites, version, created_at, updated_at, lesson_topics(position, topics(name))'
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50
+
+/**
+ * Thrown when a lesson changed since it was read (its version no longer matches)
+ */
+export class LessonVersionConflictError extends Error {
+  constructor(public lessonId: string, public expectedVersion: number) {
+    super(`Lesson ${lessonId} was modified concurrently (expected version ${expectedVersion})`)
+    this.name = 'LessonVersionConflictError'
+  }
+}
 
 export class LessonManager {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -21,16 +37,18 @@ export class LessonManager {
       throw new Error('User not authenticated')
     }
 
+    // Initial messages go to lesson_messages and topics to lesson_topics, not the legacy columns
+    const { messages: initialMessages, topic_selection: topicSelection, ...lessonFields } = data
     const lessonData: LessonInsert = {
-      ...data,
+      ...lessonFields,
       user_id: user.id,
-      messages: (data.messages || []) as Json
+      messages: [] as Json
     }
 
     const { data: lesson, error } = await this.supabase
       .from('lessons')
       .insert(lessonData)
-      .select()
+      .select(LESSON_COLUMNS)
       .single()
 
     if (error) {
@@ -38,16 +56,52 @@ export class LessonManager {
       return null
     }
 
+    if (Array.isArray(topicSelection) && topicSelection.length > 0) {
+      const topicsSaved = await this.setLessonTopics(lesson.id, topicSelection)
+      if (!topicsSaved) {
+        return null
+      }
+    }
+
+    if (Array.isArray(initialMessages) && initialMessages.length > 0) {
+      const version = await this.addMessagesToLesson(lesson.id, initialMessages as unknown as ChatMessage[])
+      return version === null ? null : this.getLesson(lesson.id)
+    }
+
+    if (Array.isArray(topicSelection) && topicSelection.length > 0) {
+      return this.getLesson(lesson.id, { messageLimit: 0 })
+    }
+
     return this.formatLesson(lesson)
   }
 
   /**
-   * Get a specific lesson by ID (only if owned by current user)
+   * Replace the lesson's selected topics by name, keeping their order
    */
-  async getLesson(id: string): Promise<Lesson | null> {
+  async setLessonTopics(lessonId: string, topicNames: string[]): Promise<boolean> {
+    const { error } = await this.supabase.rpc('set_lesson_topics', {
+      p_lesson_id: lessonId,
+      p_topic_names: topicNames
+    })
+
+    if (error) {
+      console.error('Error saving lesson topics:', error)
+      return false
+    }
+
+    return true
+  }
+
+  /**
+   * Get a specific lesson by ID (only if owned by current user) with its most
+   * recent page of messages. Pass `messageLimit: 0` to skip loading messages.
+   */
+  async getLesson(id: string, options: { messageLimit?: number } = {}): Promise<Lesson | null> {
+    const { messageLimit = DEFAULT_MESSAGE_PAGE_SIZE } = options
+
     const { data: lesson, error } = await this.supabase
       .from('lessons')
-      .select('*')
+      .select(LESSON_COLUMNS)
       .eq('id', id)
       .single()
 
@@ -56,7 +110,53 @@ export class LessonManager {
       return null
     }
 
-    return this.formatLesson(lesson)
+    const formattedLesson = this.formatLesson(lesson)
+    if (messageLimit > 0) {
+      const page = await this.getLessonMessages(id, { limit: messageLimit })
+      formattedLesson.messages = page.messages
+    }
+
+    return formattedLesson
+  }
+
+  /**
+   * Get a page of a lesson's messages in chronological order. Without `before`
+   * the newest messages are returned; pass a page's `nextCursor` as `before`
+   * to load the messages preceding it.
+   */
+  async getLessonMessages(
+    lessonId: string,
+    options: { limit?: number; before?: number } = {}
+  ): Promise<LessonMessagesPage> {
+    const { limit = DEFAULT_MESSAGE_PAGE_SIZE, before } = options
+
+    // Fetch one extra row to know whether an older page exists
+    let query = this.supabase
+      .from('lesson_messages')
+      .select('*')
+      .eq('lesson_id', lessonId)
+      .order('position', { ascending: false })
+      .limit(limit + 1)
+
+    if (before !== undefined) {
+      query = query.lt('position', before)
+    }
+
+    const { data: rows, error } = await query
+
+    if (error) {
+      console.error('Error fetching lesson messages:', error)
+      return { messages: [], hasMore: false, nextCursor: null }
+    }
+
+    const hasMore = rows.length > limit
+    const pageRows = rows.slice(0, limit).reverse()
+
+    return {
+      messages: pageRows.map((row: any) => this.formatMessage(row)), // eslint-disable-line @typescript-eslint/no-explicit-any
+      hasMore,
+      nextCursor: hasMore && pageRows.length > 0 ? pageRows[0].position : null
+    }
   }
 
   /**
@@ -87,10 +187,10 @@ export class LessonManager {
       }
     }
 
-    // Get paginated lessons
+    // Get paginated lessons with their message counts
     const { data: lessons, error } = await this.supabase
       .from('lessons')
-      .select('*')
+      .select(`${LESSON_COLUMNS}, lesson_messages(count)`)
       .order('updated_at', { ascending: false })
       .range(offset, offset + limit - 1)
 
@@ -121,11 +221,17 @@ export class LessonManager {
    * Update a lesson (messages, title, etc.)
    */
   async updateLesson(id: string, updates: LessonUpdate): Promise<Lesson | null> {
+    const { topic_selection: topicSelection, ...lessonUpdates } = updates
+
+    if (Array.isArray(topicSelection) && !(await this.setLessonTopics(id, topicSelection))) {
+      return null
+    }
+
     const { data: lesson, error } = await this.supabase
       .from('lessons')
-      .update(updates)
+      .update(lessonUpdates)
       .eq('id', id)
-      .select()
+      .select(LESSON_COLUMNS)
       .single()
 
     if (error) {
@@ -137,54 +243,87 @@ export class LessonManager {
   }
 
   /**
-   * Replace all messages in a lesson
+   * Replace all messages in a lesson and return its new version. When `expectedVersion`
+   * is given the write is rejected with a LessonVersionConflictError if the lesson changed since.
    */
-  async replaceAllMessages(lessonId: string, messages: ChatMessage[]): Promise<Lesson | null> {
-    // Update the lesson with new messages (replacing all existing ones)
-    return this.updateLesson(lessonId, { 
-      messages: JSON.parse(JSON.stringify(messages)) as Json,
-      updated_at: new Date().toISOString()
+  async replaceAllMessages(lessonId: string, messages: ChatMessage[], expectedVersion?: number): Promise<number | null> {
+    const { data: version, error } = await this.supabase.rpc('replace_lesson_messages', {
+      p_lesson_id: lessonId,
+      p_messages: JSON.parse(JSON.stringify(messages)) as Json,
+      p_expected_version: expectedVersion ?? null
     })
+
+    if (error) {
+      // serialization_failure is raised by the function on a version mismatch
+      if (error.code === '40001' && expectedVersion !== undefined) {
+        throw new LessonVersionConflictError(lessonId, expectedVersion)
+      }
+
+      console.error('Error replacing lesson messages:', error)
+      return null
+    }
+
+    return version
   }
 
   /**
    * Add a message to a lesson
    */
-  async addMessageToLesson(lessonId: string, message: ChatMessage): Promise<Lesson | null> {
-    // First get the current lesson
-    const currentLesson = await this.getLesson(lessonId)
-    if (!currentLesson) {
+  async addMessageToLesson(lessonId: string, message: ChatMessage): Promise<number | null> {
+    return this.addMessagesToLesson(lessonId, [message])
+  }
+
+  /**
+   * Add multiple messages to a lesson (for user message + AI response).
+   * The append runs in a single transaction that locks the lesson row, so
+   * concurrent writers are serialized; messages whose id is already stored
+   * are skipped. Returns the lesson's version after the append.
+   */
+  async addMessagesToLesson(lessonId: string, messages: ChatMessage[]): Promise<number | null> {
+    const { data: version, error } = await this.supabase.rpc('append_lesson_messages', {
+      p_lesson_id: lessonId,
+      p_messages: JSON.parse(JSON.stringify(messages)) as Json
+    })
+
+    if (error) {
+      console.error('Error adding messages to lesson:', error)
       return null
     }
 
-    // Add the new message to the messages array
-    const updatedMessages = [...currentLesson.messages, message]
-
-    // Update the lesson with new messages
-    return this.updateLesson(lessonId, { 
-      messages: JSON.parse(JSON.stringify(updatedMessages)) as Json,
-      updated_at: new Date().toISOString()
-    })
+    return version
   }
 
   /**
-   * Add multiple messages to a lesson (for user message + AI response)
+   * Merge updates (e.g. assessment results) into a single stored message
    */
-  async addMessagesToLesson(lessonId: string, messages: ChatMessage[]): Promise<Lesson | null> {
-    // First get the current lesson
-    const currentLesson = await this.getLesson(lessonId)
-    if (!currentLesson) {
-      return null
+  async updateMessageInLesson(
+    lessonId: string,
+    messageId: string,
+    updates: Partial<Omit<ChatMessage, 'id'>>
+  ): Promise<ChatMessage | null> {
+    const columns: Record<string, unknown> = {}
+    if (updates.role !== undefined) columns.role = updates.role
+    if (updates.content !== undefined) columns.content = updates.content
+    if (updates.assessment !== undefined) {
+      columns.assessment_type = updates.assessment.type
+      columns.assessment_data = updates.assessment.data
+      columns.assessment_results = updates.assessment.results ?? null
     }
 
-    // Add the new messages to the messages array
-    const updatedMessages = [...currentLesson.messages, ...messages]
+    const { data: row, error } = await this.supabase
+      .from('lesson_messages')
+      .update(columns)
+      .eq('lesson_id', lessonId)
+      .eq('message_id', messageId)
+      .select()
+      .maybeSingle()
 
-    // Update the lesson with new messages
-    return this.updateLesson(lessonId, { 
-      messages: JSON.parse(JSON.stringify(updatedMessages)) as Json,
-      updated_at: new Date().toISOString()
-    })
+    if (error) {
+      console.error('Error updating lesson message:', error)
+      return null
+    }
+
+    return row ? this.formatMessage(row) : null
   }
 
   /**
@@ -213,14 +352,43 @@ export class LessonManager {
       id: lesson.id,
       user_id: lesson.user_id,
       title: lesson.title,
-      messages: Array.isArray(lesson.messages) ? lesson.messages : [],
+      messages: [],
       course_id: lesson.course_id,
       lesson_type: lesson.lesson_type,
-      topic_selection: Array.isArray(lesson.topic_selection) ? lesson.topic_selection : [],
+      topic_selection: Array.isArray(lesson.lesson_topics)
+        ? [...lesson.lesson_topics]
+          .sort((a: { position: number }, b: { position: number }) => a.position - b.position)
+          .map((link: { topics: { name: string } | null }) => link.topics?.name)
+          .filter((name: string | undefined): name is string => Boolean(name))
+        : [],
+      include_prerequisites: lesson.include_prerequisites === true,
+      version: typeof lesson.version === 'number' ? lesson.version : 1,
+      ...(Array.isArray(lesson.lesson_messages) ? { message_count: lesson.lesson_messages[0]?.count ?? 0 } : {}),
       created_at: lesson.created_at,
       updated_at: lesson.updated_at
     }
   }
+
+  /**
+   * Format a lesson_messages row into a ChatMessage
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private formatMessage(row: any): ChatMessage {
+    return {
+      id: row.message_id,
+      role: row.role,
+      content: row.content,
+      createdAt: new Date(row.created_at),
+      ...(row.assessment_type ? {
+        assessment: {
+          type: row.assessment_type,
+          data: row.assessment_data,
+          ...(row.assessment_results ? { results: row.assessment_results } : {})
+        }
+      } : {}),
+      ...(Array.isArray(row.citations) && row.citations.length > 0 ? { citations: row.citations } : {})
+    }
+  }
 }
 
 /**
@@ -270,6 +438,16 @@ export async function addMessagesToLesson(lessonId: string, messages: ChatMessag
   return manager.addMessagesToLesson(lessonId, messages)
 }
 
+export async function updateMessageInLesson(lessonId: string, messageId: string, updates: Partial<Omit<ChatMessage, 'id'>>) {
+  const manager = createClientLessonManager()
+  return manager.updateMessageInLesson(lessonId, messageId, updates)
+}
+
+export async function getLessonMessages(lessonId: string, options: { limit?: number; before?: number } = {}) {
+  const manager = createClientLessonManager()
+  return manager.getLessonMessages(lessonId, options)
+}
+
 export async function deleteLesson(id: string) {
   const manager = createClientLessonManager()
   return manager.deleteLesson(id)
@@ -0,0 +1,202 @@
+import { createSPAClient } from '@/lib/supabase/client'
+import { createSSRClient } from '@/lib/supabase/server'
+import { MaterialChunk, MaterialChunkMatch, TextExtractionStatus } from '@/lib/types'
+
+// Function to determine which client to use based on environment
+async function getSupabaseClient() {
+  // Check if we're on the server side (API routes)
+  if (typeof window === 'undefined') {
+    return await createSSRClient()
+  }
+  // Client side
+  return createSPAClient()
+}
+
+const MATERIAL_CHUNK_COLUMNS = 'id, user_id, course_id, material_id, chunk_index, page_number, section, content, token_count, start_seconds, end_seconds, embedding_model, created_at'
+
+export interface MaterialChunkDraft {
+  chunkIndex: number
+  pageNumber: number | null
+  section: string | null
+  content: string
+  tokenCount: number
+  // Time range of a transcript chunk in the recording, in seconds
+  startSeconds?: number | null
+  endSeconds?: number | null
+}
+
+/**
+ * Record where a material's text extraction job is. Use replaceMaterialChunks to complete it.
+ */
+export async function setTextExtractionStatus(
+  materialId: string,
+  status: Exclude<TextExtractionStatus, 'completed'>,
+  errorMessage: string | null = null
+): Promise<boolean> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { error } = await (supabase as any)
+      .from('materials')
+      .update({
+        text_extraction_status: status,
+        text_extraction_error: errorMessage,
+        ...(status === 'failed' || status === 'unsupported' ? { text_extracted_at: new Date().toISOString() } : {})
+      })
+      .eq('id', materialId)
+      .eq('user_id', user.id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error('Error updating text extraction status:', error)
+    return false
+  }
+}
+
+/**
+ * Store a material's chunks in place of any previous set and mark its extraction completed
+ */
+export async function replaceMaterialChunks(
+  materialId: string,
+  chunks: MaterialChunkDraft[],
+  pageCount: number | null,
+  durationSeconds: number | null = null
+): Promise<{
+  success: true,
+  chunkCount: number
+} | {
+  success: false,
+  error: string
+}> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { success: false, error: 'User not authenticated' }
+    }
+
+    const { data, error } = await (supabase as any).rpc('replace_material_chunks', {
+      p_material_id: materialId,
+      p_chunks: chunks.map(chunk => ({
+        chunk_index: chunk.chunkIndex,
+        page_number: chunk.pageNumber,
+        section: chunk.section,
+        content: chunk.content,
+        token_count: chunk.tokenCount,
+        start_seconds: chunk.startSeconds ?? null,
+        end_seconds: chunk.endSeconds ?? null
+      })),
+      p_page_count: pageCount,
+      p_duration_seconds: durationSeconds
+    })
+
+    if (error) {
+      console.error('Error storing material chunks:', error)
+
+      if (error.code === 'P0002') {
+        return { success: false, error: 'Material not found' }
+      }
+
+      return { success: false, error: 'Failed to store material chunks' }
+    }
+
+    return { success: true, chunkCount: data ?? chunks.length }
+  } catch (error) {
+    console.error('Error storing material chunks:', error)
+    return { success: false, error: 'An unexpected error occurred while storing material chunks' }
+  }
+}
+
+/**
+ * A material's chunks in document order, optionally limited to one page or slide
+ */
+export async function getMaterialChunks(materialId: string, pageNumber?: number): Promise<MaterialChunk[]> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    let query = (supabase as any)
+      .from('material_chunks')
+      .select(MATERIAL_CHUNK_COLUMNS)
+      .eq('material_id', materialId)
+      .eq('user_id', user.id)
+
+    if (pageNumber !== undefined) {
+      query = query.eq('page_number', pageNumber)
+    }
+
+    const { data, error } = await query.order('chunk_index', { ascending: true })
+
+    if (error) throw error
+    return data || []
+  } catch (error) {
+    console.error('Error fetching material chunks:', error)
+    return []
+  }
+}
+
+/**
+ * Store embeddings for a material's chunks, matched by chunk index
+ */
+export async function setMaterialChunkEmbeddings(
+  materialId: string,
+  embeddings: { chunkIndex: number; embedding: number[] }[],
+  model: string
+): Promise<number> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await (supabase as any).rpc('set_material_chunk_embeddings', {
+      p_material_id: materialId,
+      p_embeddings: embeddings.map(({ chunkIndex, embedding }) => ({ chunk_index: chunkIndex, embedding })),
+      p_model: model
+    })
+
+    if (error) throw error
+    return data ?? 0
+  } catch (error) {
+    console.error('Error storing material chunk embeddings:', error)
+    return 0
+  }
+}
+
+export interface MaterialChunkSearch {
+  courseId: string
+  query: string
+  // Omit for keyword-only search, e.g. when no embedding model is available
+  queryEmbedding?: number[] | null
+  // Limit the search to these materials; all of the course's materials when omitted
+  materialIds?: string[]
+  matchCount?: number
+}
+
+/**
+ * Hybrid keyword + vector search over a course's chunks, best match first
+ */
+export async function searchMaterialChunks(search: MaterialChunkSearch): Promise<MaterialChunkMatch[]> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await (supabase as any).rpc('search_material_chunks', {
+      p_course_id: search.courseId,
+      p_query: search.query,
+      p_query_embedding: search.queryEmbedding ? JSON.stringify(search.queryEmbedding) : null,
+      p_material_ids: search.materialIds ?? null,
+      p_match_count: search.matchCount ?? 8
+    })
+
+    if (error) throw error
+    return data || []
+  } catch (error) {
+    console.error('Error searching material chunks:', error)
+    return []
+  }
+}
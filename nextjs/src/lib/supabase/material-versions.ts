@@ -0,0 +1,134 @@
+import { createSPAClient } from '@/lib/supabase/client'
+import { createSSRClient } from '@/lib/supabase/server'
+import { MaterialVersionRow } from '@/lib/types'
+
+// Function to determine which client to use based on environment
+async function getSupabaseClient() {
+  // Check if we're on the server side (API routes)
+  if (typeof window === 'undefined') {
+    return await createSSRClient()
+  }
+  // Client side
+  return createSPAClient()
+}
+
+export interface MaterialFileDraft {
+  fileName: string
+  filePath: string
+  fileSize: number
+  mimeType: string
+  sha256?: string | null
+}
+
+// A material a lesson drew on, with the version it used and the material's current one
+export interface LessonMaterialVersion {
+  materialId: string
+  materialName: string
+  version: number
+  currentVersion: number
+  usedAt: string
+}
+
+/**
+ * Every file a material has had, newest first
+ */
+export async function getMaterialVersions(materialId: string): Promise<MaterialVersionRow[]> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('material_versions')
+      .select('*')
+      .eq('material_id', materialId)
+      .eq('user_id', user.id)
+      .order('version', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  } catch (error) {
+    console.error('Error fetching material versions:', error)
+    return []
+  }
+}
+
+/**
+ * Make an uploaded file the material's new version. Its Google file, chunks and embeddings
+ * are cleared, so text extraction has to run again. Returns the new version number.
+ */
+export async function replaceMaterialFile(materialId: string, file: MaterialFileDraft): Promise<number | null> {
+  try {
+    const supabase = await getSupabaseClient()
+
+    const { data, error } = await (supabase as any).rpc('replace_material_file', {
+      p_material_id: materialId,
+      p_file_name: file.fileName,
+      p_file_path: file.filePath,
+      p_file_size: file.fileSize,
+      p_mime_type: file.mimeType,
+      p_sha256: file.sha256 ?? null
+    })
+
+    if (error) throw error
+    return data as number
+  } catch (error) {
+    console.error('Error replacing material file:', error)
+    return null
+  }
+}
+
+/**
+ * Record the current version of each material a lesson turn was generated from
+ */
+export async function recordLessonMaterials(lessonId: string, materialIds: string[]): Promise<boolean> {
+  if (materialIds.length === 0) return true
+
+  try {
+    const supabase = await getSupabaseClient()
+
+    const { error } = await (supabase as any).rpc('record_lesson_materials', {
+      p_lesson_id: lessonId,
+      p_material_ids: materialIds
+    })
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error('Error recording lesson materials:', error)
+    return false
+  }
+}
+
+/**
+ * The materials a lesson was generated from and which version of each it used
+ */
+export async function getLessonMaterialVersions(lessonId: string): Promise<LessonMaterialVersion[]> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await (supabase as any)
+      .from('lesson_materials')
+      .select('material_id, material_version, used_at, materials(file_name, version)')
+      .eq('lesson_id', lessonId)
+      .eq('user_id', user.id)
+      .order('used_at', { ascending: false })
+
+    if (error) throw error
+
+    return (data || [])
+      .filter((row: any) => row.materials)
+      .map((row: any) => ({
+        materialId: row.material_id,
+        materialName: row.materials.file_name,
+        version: row.material_version,
+        currentVersion: row.materials.version,
+        usedAt: row.used_at
+      }))
+  } catch (error) {
+    console.error('Error fetching lesson material versions:', error)
+    return []
+  }
+}
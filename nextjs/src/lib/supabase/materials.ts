@@ -16,23 +16,51 @@ type Material = Database['public']['Tables']['materials']['Row']
 type MaterialInsert = Database['public']['Tables']['materials']['Insert']
 type MaterialUpdate = Database['public']['Tables']['materials']['Update']
 
+// Topics come from the material_topics join table; the legacy materials.topic_tags column is not read
+export const MATERIAL_COLUMNS = '*, material_topics(topics(name))'
+
+/**
+ * Flatten the embedded material_topics rows into topic_tags names
+ */
+export function withTopicTags(row: any): Material {
+  const { material_topics, ...material } = row
+  const topicTags = Array.isArray(material_topics)
+    ? material_topics
+      .map((link: { topics: { name: string } | null }) => link.topics?.name)
+      .filter((name: string | undefined): name is string => Boolean(name))
+      .sort((a: string, b: string) => a.localeCompare(b))
+    : []
+
+  return { ...material, topic_tags: topicTags }
+}
+
 export async function addMaterial(material: Omit<MaterialInsert, 'user_id'>): Promise<Material | null> {
   try {
     const supabase = await getSupabaseClient()
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) throw new Error('User not authenticated')
 
+    const { topic_tags: topicTags, ...materialFields } = material
+
     const { data, error } = await (supabase as any)
       .from('materials')
       .insert({
-        ...material,
+        ...materialFields,
         user_id: user.id,
       })
-      .select()
+      .select(MATERIAL_COLUMNS)
       .single()
 
     if (error) throw error
-    return data
+
+    if (topicTags && topicTags.length > 0) {
+      const tagged = await updateMaterialTopics(data.id, topicTags)
+      if (tagged) {
+        return getMaterial(data.id)
+      }
+    }
+
+    return withTopicTags(data)
   } catch (error) {
     console.error('Error adding material:', error)
     return null
@@ -47,13 +75,13 @@ export async function getMaterial(materialId: string): Promise<Material | null>
 
     const { data, error } = await supabase
       .from('materials')
-      .select('*')
+      .select(MATERIAL_COLUMNS)
       .eq('id', materialId)
       .eq('user_id', user.id)
       .single()
 
     if (error) throw error
-    return data
+    return withTopicTags(data)
   } catch (error) {
     console.error('Error fetching material:', error)
     return null
@@ -70,13 +98,13 @@ export async function getCourseMaterials(courseId: string): Promise<Material[]>
 
     const { data, error } = await supabase
       .from('materials')
-      .select('*')
+      .select(MATERIAL_COLUMNS)
       .eq('course_id', courseId)
       .eq('user_id', user.id)
       .order('created_at', { ascending: false })
 
     if (error) throw error
-    return data || []
+    return (data || []).map(withTopicTags)
   } catch (error) {
     console.error('Error fetching course materials:', error)
     return []
@@ -94,16 +122,31 @@ export async function getCourseMaterialsByTopics(courseId: string, topics: strin
       return getCourseMaterials(courseId)
     }
 
+    // Find the materials linked to any of the named topics in this course
+    const { data: links, error: linksError } = await (supabase as any)
+      .from('material_topics')
+      .select('material_id, topics!inner(name, course_id)')
+      .eq('user_id', user.id)
+      .eq('topics.course_id', courseId)
+      .in('topics.name', topics)
+
+    if (linksError) throw linksError
+
+    const materialIds = Array.from(new Set((links || []).map((link: { material_id: string }) => link.material_id)))
+    if (materialIds.length === 0) {
+      return []
+    }
+
     const { data, error } = await supabase
       .from('materials')
-      .select('*')
+      .select(MATERIAL_COLUMNS)
       .eq('course_id', courseId)
       .eq('user_id', user.id)
-      .overlaps('topic_tags', topics)
+      .in('id', materialIds)
       .order('created_at', { ascending: false })
 
     if (error) throw error
-    return data || []
+    return (data || []).map(withTopicTags)
   } catch (error) {
     console.error('Error fetching materials by topics:', error)
     return []
@@ -116,31 +159,22 @@ export async function getCourseTopics(courseId: string): Promise<{ name: string;
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) throw new Error('User not authenticated')
 
-    const { data, error } = await supabase
-      .from('materials')
-      .select('topic_tags')
+    const { data, error } = await (supabase as any)
+      .from('topics')
+      .select('name, material_topics(count)')
       .eq('course_id', courseId)
       .eq('user_id', user.id)
 
     if (error) throw error
 
-    // Flatten all topic tags and count occurrences
-    const topicCounts = {} as Record<string, number>
-    
-    (data || []).forEach((material: { topic_tags?: string[] }) => {
-      if (material.topic_tags && Array.isArray(material.topic_tags)) {
-        material.topic_tags.forEach((topic: string) => {
-          if (topic && topic.trim()) {
-            topicCounts[topic] = (topicCounts[topic] || 0) + 1
-          }
-        })
-      }
-    })
-
-    // Convert to Topic array and sort by name
-    return Object.entries(topicCounts)
-      .map(([name, materialCount]) => ({ name, materialCount }))
-      .sort((a, b) => a.name.localeCompare(b.name))
+    // Only topics that are attached to at least one material
+    return (data || [])
+      .map((topic: { name: string; material_topics: { count: number }[] }) => ({
+        name: topic.name,
+        materialCount: topic.material_topics?.[0]?.count ?? 0
+      }))
+      .filter((topic: { materialCount: number }) => topic.materialCount > 0)
+      .sort((a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name))
   } catch (error) {
     console.error('Error fetching course topics:', error)
     return []
@@ -158,11 +192,11 @@ export async function updateMaterial(materialId: string, updates: MaterialUpdate
       .update(updates)
       .eq('id', materialId)
       .eq('user_id', user.id)
-      .select()
+      .select(MATERIAL_COLUMNS)
       .single()
 
     if (error) throw error
-    return data
+    return withTopicTags(data)
   } catch (error) {
     console.error('Error updating material:', error)
     return null
@@ -201,10 +235,18 @@ export async function deleteMaterialWithFile(materialId: string): Promise<boolea
       throw new Error('Material not found')
     }
 
-    // Delete the file from storage
+    // Earlier versions' files are kept in storage until the material itself is deleted
+    const { data: versions } = await (supabase as any)
+      .from('material_versions')
+      .select('file_path')
+      .eq('material_id', materialId)
+      .eq('user_id', user.id)
+    const filePaths = Array.from(new Set([material.file_path, ...(versions || []).map((version: { file_path: string }) => version.file_path)]))
+
+    // Delete the files from storage
     const { error: storageError } = await supabase.storage
       .from('materials')
-      .remove([material.file_path])
+      .remove(filePaths)
 
     if (storageError) {
       console.error('Error deleting file from storage:', storageError)
@@ -226,7 +268,12 @@ export async function deleteMaterialWithFile(materialId: string): Promise<boolea
   }
 }
 
-export async function uploadMaterialFile(file: File, courseId: string, fileName: string): Promise<string | null> {
+export async function uploadMaterialFile(
+  file: File | Blob | Uint8Array,
+  courseId: string,
+  fileName: string,
+  contentType?: string
+): Promise<string | null> {
   try {
     const supabase = await getSupabaseClient()
     const { data: { user } } = await supabase.auth.getUser()
@@ -239,6 +286,7 @@ export async function uploadMaterialFile(file: File, courseId: string, fileName:
       .from('materials')
       .upload(filePath, file, {
         cacheControl: '3600',
+        contentType,
         upsert: false
       })
 
@@ -250,6 +298,24 @@ export async function uploadMaterialFile(file: File, courseId: string, fileName:
   }
 }
 
+/**
+ * Remove a file from storage that has no material record, e.g. an expanded archive
+ */
+export async function deleteMaterialFile(filePath: string): Promise<boolean> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { error } = await supabase.storage
+      .from('materials')
+      .remove([filePath])
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error('Error deleting material file:', error)
+    return false
+  }
+}
+
 export async function getSignedMaterialUrl(filePath: string): Promise<string | null> {
   try {
     const supabase = await getSupabaseClient()
@@ -266,9 +332,74 @@ export async function getSignedMaterialUrl(filePath: string): Promise<string | n
 }
 
 /**
- * Update material topics (topic_tags)
+ * Download a material's file contents from storage, e.g. for text extraction
+ */
+export async function downloadMaterialFile(filePath: string): Promise<Uint8Array | null> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data, error } = await supabase.storage
+      .from('materials')
+      .download(filePath)
+
+    if (error) throw error
+    return new Uint8Array(await data.arrayBuffer())
+  } catch (error) {
+    console.error('Error downloading material file:', error)
+    return null
+  }
+}
+
+/**
+ * Size in bytes of a file in storage, as recorded by the storage server. Uploads report
+ * their own size, so quotas and material records use this instead.
+ */
+export async function getMaterialFileSize(filePath: string): Promise<number | null> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data, error } = await supabase.storage
+      .from('materials')
+      .info(filePath)
+
+    if (error) throw error
+    return typeof data.size === 'number' ? data.size : null
+  } catch (error) {
+    console.error('Error reading material file size:', error)
+    return null
+  }
+}
+
+/**
+ * Replace a material's topics by name. Unknown names become new course topics.
  */
 export async function updateMaterialTopics(materialId: string, topics: string[]): Promise<boolean> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { error } = await (supabase as any).rpc('set_material_topics', {
+      p_material_id: materialId,
+      p_topic_names: topics
+    })
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error('Error updating material topics:', error)
+    return false
+  }
+}
+
+export type MaterialGoogleFileUpdate = Pick<
+  MaterialUpdate,
+  'google_file_uri' | 'google_uploaded_at' | 'google_file_name' | 'google_file_expires_at' | 'google_file_status' | 'google_file_error'
+  | 'google_upload_url' | 'sha256'
+>
+
+/**
+ * Record the state of a material's uploaded Google file (URI, expiry, status)
+ */
+export async function updateMaterialGoogleFile(materialId: string, updates: MaterialGoogleFileUpdate): Promise<boolean> {
   try {
     const supabase = await getSupabaseClient()
     const { data: { user } } = await supabase.auth.getUser()
@@ -276,22 +407,25 @@ export async function updateMaterialTopics(materialId: string, topics: string[])
 
     const { error } = await (supabase as any)
       .from('materials')
-      .update({ topic_tags: topics })
+      .update(updates)
       .eq('id', materialId)
       .eq('user_id', user.id)
 
     if (error) throw error
     return true
   } catch (error) {
-    console.error('Error updating material topics:', error)
+    console.error('Error updating material Google file:', error)
     return false
   }
 }
 
 /**
- * Update material with Google file URI for caching
+ * Mark cached Google files as expired, e.g. after Google rejected them, so the next
+ * request uploads them again
  */
-export async function updateMaterialGoogleUri(materialId: string, googleFileUri: string): Promise<boolean> {
+export async function markGoogleFilesExpired(materialIds: string[]): Promise<boolean> {
+  if (materialIds.length === 0) return true
+
   try {
     const supabase = await getSupabaseClient()
     const { data: { user } } = await supabase.auth.getUser()
@@ -299,17 +433,70 @@ export async function updateMaterialGoogleUri(materialId: string, googleFileUri:
 
     const { error } = await (supabase as any)
       .from('materials')
-      .update({ 
-        google_file_uri: googleFileUri,
-        google_uploaded_at: new Date().toISOString()
-      })
-      .eq('id', materialId)
+      .update({ google_file_status: 'expired' })
+      .in('id', materialIds)
       .eq('user_id', user.id)
+      .eq('google_file_status', 'active')
 
     if (error) throw error
     return true
   } catch (error) {
-    console.error('Error updating material Google URI:', error)
+    console.error('Error marking Google files expired:', error)
     return false
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Another of the user's materials with the same file content and a Google file that is
+ * still active, so an identical upload (e.g. the same file in another course) can be skipped
+ */
+export async function findGoogleFileCopy(materialId: string, sha256: string): Promise<Material | null> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('materials')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('sha256', sha256)
+      .eq('google_file_status', 'active')
+      .neq('id', materialId)
+      .order('google_file_expires_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  } catch (error) {
+    console.error('Error finding Google file copy:', error)
+    return null
+  }
+}
+
+/**
+ * A material in the course with the same file content, so a bulk import can skip it
+ */
+export async function findCourseMaterialBySha256(courseId: string, sha256: string): Promise<Material | null> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('materials')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('course_id', courseId)
+      .eq('sha256', sha256)
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  } catch (error) {
+    console.error('Error finding material by checksum:', error)
+    return null
+  }
+}
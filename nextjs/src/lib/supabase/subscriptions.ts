@@ -0,0 +1,116 @@
+import { createSPAClient } from '@/lib/supabase/client'
+import { createSSRClient } from '@/lib/supabase/server'
+import { createServerAdminClient } from '@/lib/supabase/serverAdminClient'
+import { getEntitlementsForPriceId, getFreeEntitlements, type Entitlements } from '@/lib/entitlements'
+import type { SubscriptionRow, SubscriptionStatus } from '@/lib/types'
+
+// Function to determine which client to use based on environment
+async function getSupabaseClient() {
+  // Check if we're on the server side (API routes)
+  if (typeof window === 'undefined') {
+    return await createSSRClient()
+  }
+  // Client side
+  return createSPAClient()
+}
+
+// Subscriptions in these states keep their plan; past_due while Paddle retries the payment
+const ENTITLED_STATUSES: SubscriptionStatus[] = ['active', 'trialing', 'past_due']
+
+// A subscription as a Paddle webhook event describes it
+export interface PaddleSubscriptionUpdate {
+  id: string
+  userId: string
+  customerId: string
+  status: SubscriptionStatus
+  priceId: string | null
+  currentPeriodEndsAt: string | null
+  canceledAt: string | null
+  occurredAt: string
+}
+
+/**
+ * The current user's subscription that grants them a plan, if any
+ */
+export async function getActiveSubscription(): Promise<SubscriptionRow | null> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return null
+
+    const { data, error } = await (supabase as any)
+      .from('subscriptions')
+      .select('*')
+      .eq('user_id', user.id)
+      .in('status', ENTITLED_STATUSES)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+
+    if (error) throw error
+    return data?.[0] ?? null
+  } catch (error) {
+    console.error('Error fetching subscription:', error)
+    return null
+  }
+}
+
+/**
+ * What the current user's plan allows; the free plan when they have no subscription
+ */
+export async function getEntitlements(): Promise<Entitlements> {
+  const subscription = await getActiveSubscription()
+  return subscription ? getEntitlementsForPriceId(subscription.price_id) : getFreeEntitlements()
+}
+
+/**
+ * Note a webhook event as received. Returns false when it was already processed,
+ * so a retried delivery isn't applied twice.
+ */
+export async function recordPaddleWebhookEvent(event: { eventId: string; eventType: string; occurredAt: string }): Promise<boolean> {
+  const supabase = await createServerAdminClient()
+
+  const { error } = await (supabase as any)
+    .from('paddle_webhook_events')
+    .insert({
+      event_id: event.eventId,
+      event_type: event.eventType,
+      occurred_at: event.occurredAt
+    })
+
+  if (error?.code === '23505') return false
+  if (error) throw error
+  return true
+}
+
+/**
+ * Forget a webhook event whose processing failed, so Paddle's retry is processed again
+ */
+export async function forgetPaddleWebhookEvent(eventId: string): Promise<void> {
+  const supabase = await createServerAdminClient()
+  const { error } = await (supabase as any)
+    .from('paddle_webhook_events')
+    .delete()
+    .eq('event_id', eventId)
+
+  if (error) console.error('Error forgetting Paddle webhook event:', error)
+}
+
+/**
+ * Store a subscription's state from a webhook event, unless a newer event was already stored
+ */
+export async function upsertPaddleSubscription(update: PaddleSubscriptionUpdate): Promise<void> {
+  const supabase = await createServerAdminClient()
+
+  const { error } = await (supabase as any).rpc('upsert_paddle_subscription', {
+    p_id: update.id,
+    p_user_id: update.userId,
+    p_customer_id: update.customerId,
+    p_status: update.status,
+    p_price_id: update.priceId,
+    p_current_period_ends_at: update.currentPeriodEndsAt,
+    p_canceled_at: update.canceledAt,
+    p_event_occurred_at: update.occurredAt
+  })
+
+  if (error) throw error
+}
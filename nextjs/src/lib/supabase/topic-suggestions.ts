@@ -0,0 +1,257 @@
+import { createSPAClient } from '@/lib/supabase/client'
+import { createSSRClient } from '@/lib/supabase/server'
+import { TopicExtractionState, TopicExtractionStatus, TopicSuggestion, TopicSuggestionInsert } from '@/lib/types'
+
+// Function to determine which client to use based on environment
+async function getSupabaseClient() {
+  // Check if we're on the server side (API routes)
+  if (typeof window === 'undefined') {
+    return await createSSRClient()
+  }
+  // Client side
+  return createSPAClient()
+}
+
+export interface ExtractedTopicSuggestion {
+  topicName: string
+  parentTopicName?: string | null
+  confidence: number
+  reason?: string | null
+}
+
+/**
+ * Record where a material's topic extraction job is. Finishing states stamp topic_extracted_at.
+ */
+export async function setTopicExtractionStatus(
+  materialId: string,
+  status: TopicExtractionStatus,
+  errorMessage: string | null = null
+): Promise<boolean> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { error } = await (supabase as any)
+      .from('materials')
+      .update({
+        topic_extraction_status: status,
+        topic_extraction_error: errorMessage,
+        ...(status === 'completed' || status === 'failed' ? { topic_extracted_at: new Date().toISOString() } : {})
+      })
+      .eq('id', materialId)
+      .eq('user_id', user.id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error('Error updating topic extraction status:', error)
+    return false
+  }
+}
+
+/**
+ * Replace a material's pending suggestions with a new set. Accepted and rejected
+ * suggestions are kept so a re-run doesn't propose what the student already decided on.
+ */
+export async function saveTopicSuggestions(
+  courseId: string,
+  materialId: string,
+  suggestions: ExtractedTopicSuggestion[]
+): Promise<number> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { error: deleteError } = await (supabase as any)
+      .from('topic_suggestions')
+      .delete()
+      .eq('material_id', materialId)
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+
+    if (deleteError) throw deleteError
+
+    const { data: decided, error: decidedError } = await (supabase as any)
+      .from('topic_suggestions')
+      .select('topic_name')
+      .eq('material_id', materialId)
+      .eq('user_id', user.id)
+
+    if (decidedError) throw decidedError
+
+    const seen = new Set<string>((decided || []).map((row: { topic_name: string }) => row.topic_name.toLowerCase()))
+    const rows: TopicSuggestionInsert[] = []
+    for (const suggestion of suggestions) {
+      const topicName = suggestion.topicName.trim()
+      if (!topicName || seen.has(topicName.toLowerCase())) continue
+      seen.add(topicName.toLowerCase())
+
+      rows.push({
+        user_id: user.id,
+        course_id: courseId,
+        material_id: materialId,
+        topic_name: topicName,
+        parent_topic_name: suggestion.parentTopicName?.trim() || null,
+        confidence: Math.min(1, Math.max(0, suggestion.confidence)),
+        reason: suggestion.reason?.trim() || null
+      })
+    }
+
+    if (rows.length === 0) {
+      return 0
+    }
+
+    const { error: insertError } = await (supabase as any)
+      .from('topic_suggestions')
+      .insert(rows)
+
+    if (insertError) throw insertError
+    return rows.length
+  } catch (error) {
+    console.error('Error saving topic suggestions:', error)
+    return 0
+  }
+}
+
+/**
+ * Pending suggestions for a course, highest confidence first, plus the materials
+ * whose extraction job is still running or failed
+ */
+export async function getCourseTopicSuggestions(courseId: string): Promise<{
+  suggestions: TopicSuggestion[]
+  extractions: TopicExtractionState[]
+}> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { suggestions: [], extractions: [] }
+    }
+
+    const [suggestionsResult, topicsResult, materialsResult] = await Promise.all([
+      (supabase as any)
+        .from('topic_suggestions')
+        .select('id, material_id, topic_name, parent_topic_name, confidence, reason, materials(file_name, material_topics(topics(name)))')
+        .eq('course_id', courseId)
+        .eq('user_id', user.id)
+        .eq('status', 'pending')
+        .order('confidence', { ascending: false }),
+      (supabase as any)
+        .from('topics')
+        .select('name')
+        .eq('course_id', courseId)
+        .eq('user_id', user.id),
+      (supabase as any)
+        .from('materials')
+        .select('id, file_name, topic_extraction_status, topic_extraction_error')
+        .eq('course_id', courseId)
+        .eq('user_id', user.id)
+        .in('topic_extraction_status', ['pending', 'processing', 'failed'])
+        .order('created_at', { ascending: false })
+    ])
+
+    if (suggestionsResult.error) throw suggestionsResult.error
+    if (topicsResult.error) throw topicsResult.error
+    if (materialsResult.error) throw materialsResult.error
+
+    const courseTopics = new Set<string>((topicsResult.data || []).map((topic: { name: string }) => topic.name.toLowerCase()))
+
+    const suggestions: TopicSuggestion[] = []
+    for (const row of suggestionsResult.data || []) {
+      // Already tagged by hand since the job ran - nothing left to suggest
+      const tagged = (row.materials?.material_topics || [])
+        .some((link: { topics: { name: string } | null }) => link.topics?.name.toLowerCase() === row.topic_name.toLowerCase())
+      if (tagged) continue
+
+      suggestions.push({
+        id: row.id,
+        materialId: row.material_id,
+        materialName: row.materials?.file_name || 'Untitled material',
+        topicName: row.topic_name,
+        parentTopicName: row.parent_topic_name,
+        confidence: row.confidence,
+        reason: row.reason,
+        isNewTopic: !courseTopics.has(row.topic_name.toLowerCase())
+      })
+    }
+
+    const extractions: TopicExtractionState[] = (materialsResult.data || []).map((material: any) => ({
+      materialId: material.id,
+      materialName: material.file_name,
+      status: material.topic_extraction_status,
+      error: material.topic_extraction_error
+    }))
+
+    return { suggestions, extractions }
+  } catch (error) {
+    console.error('Error fetching topic suggestions:', error)
+    return { suggestions: [], extractions: [] }
+  }
+}
+
+/**
+ * Accept a suggestion: the topic (and its parent unit) is created if needed and the material tagged
+ */
+export async function acceptTopicSuggestion(suggestionId: string): Promise<{
+  success: true
+} | {
+  success: false,
+  error: string
+}> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { success: false, error: 'User not authenticated' }
+    }
+
+    const { error } = await (supabase as any).rpc('accept_topic_suggestion', {
+      p_suggestion_id: suggestionId
+    })
+
+    if (error) {
+      console.error('Error accepting topic suggestion:', error)
+
+      if (error.code === 'P0002') {
+        return { success: false, error: 'Suggestion not found' }
+      }
+      if (error.code === '22023') {
+        return { success: false, error: 'Suggestion was already resolved' }
+      }
+
+      return { success: false, error: 'Failed to accept suggestion' }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error accepting topic suggestion:', error)
+    return { success: false, error: 'An unexpected error occurred while accepting the suggestion' }
+  }
+}
+
+/**
+ * Reject a suggestion so it isn't proposed again for this material
+ */
+export async function rejectTopicSuggestion(suggestionId: string): Promise<boolean> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await (supabase as any)
+      .from('topic_suggestions')
+      .update({ status: 'rejected', resolved_at: new Date().toISOString() })
+      .eq('id', suggestionId)
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .select('id')
+
+    if (error) throw error
+    return (data || []).length > 0
+  } catch (error) {
+    console.error('Error rejecting topic suggestion:', error)
+    return false
+  }
+}
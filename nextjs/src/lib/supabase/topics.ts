@@ -23,15 +23,41 @@ export interface TopicWithCount {
   id: string
   name: string
   materialCount: number
+  parentId: string | null
+  prerequisiteIds: string[]
 }
 
+// A topic the selected topics build on; higher depth means further down the prerequisite chain
+export interface TopicPrerequisite {
+  id: string
+  name: string
+  depth: number
+}
+
+// topic_prerequisites references topics twice, so the embed names the foreign key to follow
+export const TOPIC_COLUMNS = 'id, name, parent_id, material_topics(count), prerequisites:topic_prerequisites!topic_prerequisites_topic_id_fkey(prerequisite_topic_id)'
+
 /**
- * Create a new topic for a course
+ * Map a topics row selected with TOPIC_COLUMNS to the shape the UI uses
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function toTopicWithCount(topic: any): TopicWithCount {
+  return {
+    id: topic.id,
+    name: topic.name,
+    materialCount: topic.material_topics?.[0]?.count ?? 0,
+    parentId: topic.parent_id ?? null,
+    prerequisiteIds: (topic.prerequisites || []).map((edge: { prerequisite_topic_id: string }) => edge.prerequisite_topic_id)
+  }
+}
+
+/**
+ * Create a new topic for a course, optionally as a sub-topic of `parentId`
  * This validates the topic name and ensures it doesn't already exist
  */
-export async function createTopic(courseId: string, name: string): Promise<{ 
+export async function createTopic(courseId: string, name: string, parentId?: string | null): Promise<{ 
   success: true, 
-  data: { id: string; name: string; materialCount: number } 
+  data: TopicWithCount 
 } | { 
   success: false, 
   error: string 
@@ -106,12 +132,24 @@ export async function createTopic(courseId: string, name: string): Promise<{
     }
 
     console.log('Successfully created topic:', newTopic)
+
+    // The parent goes through set_topic_parent so it is checked to be in the same course
+    if (parentId) {
+      const parentResult = await setTopicParent(newTopic.id, parentId)
+      if (!parentResult.success) {
+        await (supabase as any).from('topics').delete().eq('id', newTopic.id)
+        return parentResult
+      }
+    }
+
     return {
       success: true,
       data: {
         id: newTopic.id,
         name: newTopic.name,
-        materialCount: 0
+        materialCount: 0,
+        parentId: parentId || null,
+        prerequisiteIds: []
       }
     }
   } catch (error) {
@@ -145,70 +183,23 @@ export async function updateTopic(topicId: string, newName: string): Promise<{
 
     console.log('Updating topic:', { topicId, newName: trimmedName, userId: user.id })
 
-    // First, get the current topic to validate it exists and get course_id
-    const { data: currentTopic, error: getError } = await (supabase as any)
-      .from('topics')
-      .select('id, name, course_id')
-      .eq('id', topicId)
-      .eq('user_id', user.id)
-      .single()
-
-    if (getError) {
-      console.error('Error fetching current topic:', getError)
-      return { success: false, error: 'Topic not found' }
-    }
+    // Materials, flashcards and lessons reference the topic by id, so the rename is a single
+    // row update; the RPC runs the duplicate check and the update in one transaction
+    const { data: updatedTopic, error: updateError } = await (supabase as any).rpc('rename_topic', {
+      p_topic_id: topicId,
+      p_name: trimmedName
+    })
 
-    if (!currentTopic) {
-      return { success: false, error: 'Topic not found' }
-    }
+    if (updateError) {
+      console.error('Error updating topic in database:', updateError)
 
-    // Check if the new name is the same as current name
-    if (currentTopic.name === trimmedName) {
-      return {
-        success: true,
-        data: {
-          id: currentTopic.id,
-          name: currentTopic.name,
-          materialCount: 0 // Will be recalculated by the calling code
-        }
+      if (updateError.code === 'P0002') {
+        return { success: false, error: 'Topic not found' }
+      }
+      if (updateError.code === '23505') {
+        return { success: false, error: `Topic "${trimmedName}" already exists` }
       }
-    }
-
-    // Check if another topic with the new name already exists in the same course
-    const { data: existingTopics, error: checkError } = await (supabase as any)
-      .from('topics')
-      .select('id, name')
-      .eq('course_id', currentTopic.course_id)
-      .eq('user_id', user.id)
-      .neq('id', topicId) // Exclude the current topic
-
-    if (checkError) {
-      console.error('Error checking existing topics:', checkError)
-      return { success: false, error: 'Failed to validate topic name' }
-    }
-
-    // Check for case-insensitive duplicate
-    const duplicateTopic = existingTopics?.find((topic: any) => 
-      topic.name.toLowerCase() === trimmedName.toLowerCase()
-    )
-
-    if (duplicateTopic) {
-      console.error('Topic name already exists:', duplicateTopic.name)
-      return { success: false, error: `Topic "${duplicateTopic.name}" already exists` }
-    }
-
-    // Update the topic in the database
-    console.log('Updating topic in database...')
-    const { data: updatedTopic, error: updateError } = await (supabase as any)
-      .from('topics')
-      .update({ name: trimmedName })
-      .eq('id', topicId)
-      .eq('user_id', user.id)
-      .select('id, name')
-      .single()
 
-    if (updateError) {
-      console.error('Error updating topic in database:', updateError)
       return { success: false, error: 'Failed to update topic in database' }
     }
 
@@ -217,40 +208,6 @@ export async function updateTopic(topicId: string, newName: string): Promise<{
       return { success: false, error: 'Failed to update topic - no data returned' }
     }
 
-    // Also update the topic name in all materials that use it
-    try {
-      const { data: materials, error: materialsError } = await (supabase as any)
-        .from('materials')
-        .select('id, topic_tags')
-        .eq('course_id', currentTopic.course_id)
-        .eq('user_id', user.id)
-        .contains('topic_tags', [currentTopic.name])
-
-      if (materialsError) {
-        console.warn('Warning: Could not fetch materials to update topic tags:', materialsError)
-      } else if (materials && materials.length > 0) {
-        // Update topic_tags in materials
-        for (const material of materials) {
-          const updatedTopicTags = (material.topic_tags || []).map((tag: string) => 
-            tag === currentTopic.name ? trimmedName : tag
-          )
-          
-          const { error: updateMaterialError } = await (supabase as any)
-            .from('materials')
-            .update({ topic_tags: updatedTopicTags })
-            .eq('id', material.id)
-            .eq('user_id', user.id)
-
-          if (updateMaterialError) {
-            console.warn('Warning: Failed to update topic tag in material:', material.id, updateMaterialError)
-          }
-        }
-      }
-    } catch (materialUpdateError) {
-      console.warn('Warning: Error updating topic tags in materials:', materialUpdateError)
-      // Don't fail the whole operation if material updates fail
-    }
-
     console.log('Successfully updated topic:', updatedTopic)
     return {
       success: true,
@@ -267,7 +224,7 @@ export async function updateTopic(topicId: string, newName: string): Promise<{
 }
 
 /**
- * Get all topics for a course with material counts
+ * Get all topics for a course with material counts, parents and prerequisites
  */
 export async function getCourseTopics(courseId: string): Promise<TopicWithCount[]> {
   try {
@@ -277,218 +234,219 @@ export async function getCourseTopics(courseId: string): Promise<TopicWithCount[
       return []
     }
 
-    // Get all topics for the course
+    // Get all topics for the course with the number of linked materials, parent and prerequisites
     const { data: topics, error: topicsError } = await (supabase as any)
       .from('topics')
-      .select('id, name')
+      .select(TOPIC_COLUMNS)
       .eq('course_id', courseId)
       .eq('user_id', user.id)
       .order('name')
 
     if (topicsError) throw topicsError
 
-    // Get material counts for each topic from topic_tags
-    const { data: materials, error: materialsError } = await (supabase as any)
-      .from('materials')
-      .select('topic_tags')
+    return (topics || []).map(toTopicWithCount)
+  } catch (error) {
+    console.error('Error fetching course topics:', error)
+    return []
+  }
+}
+
+/**
+ * Delete a topic. Its links to materials, flashcards and lessons are removed
+ * in the same transaction by the join tables' ON DELETE CASCADE.
+ */
+export async function deleteTopic(topicId: string): Promise<boolean> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data: deleted, error } = await (supabase as any).rpc('delete_topic', {
+      p_topic_id: topicId
+    })
+
+    if (error) throw error
+    return deleted === true
+  } catch (error) {
+    console.error('Error deleting topic:', error)
+    return false
+  }
+}
+
+/**
+ * Get a topic by ID
+ */
+export async function getTopic(topicId: string, courseId: string): Promise<TopicWithCount | null> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data: topic, error } = await (supabase as any)
+      .from('topics')
+      .select(TOPIC_COLUMNS)
+      .eq('id', topicId)
       .eq('course_id', courseId)
       .eq('user_id', user.id)
+      .single()
 
-    if (materialsError) throw materialsError
-
-    // Count materials for each topic
-    const topicCounts = {} as Record<string, number>
-    
-    (materials || []).forEach((material: { topic_tags?: string[] }) => {
-      if (material.topic_tags && Array.isArray(material.topic_tags)) {
-        material.topic_tags.forEach((topicName: string) => {
-          if (topicName && topicName.trim()) {
-            topicCounts[topicName] = (topicCounts[topicName] || 0) + 1
-          }
-        })
+    if (error) {
+      if (error.code === 'PGRST116') { // No rows returned
+        return null
       }
+      throw error
+    }
+
+    return toTopicWithCount(topic)
+  } catch (error) {
+    console.error('Error fetching topic:', error)
+    return null
+  }
+}
+
+/**
+ * Move a topic under another topic of the same course, or to the top level with null
+ */
+export async function setTopicParent(topicId: string, parentId: string | null): Promise<{
+  success: true,
+  data: { id: string; name: string; parentId: string | null }
+} | {
+  success: false,
+  error: string
+}> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { success: false, error: 'User not authenticated' }
+    }
+
+    // The RPC rejects parents from other courses and moves that would create a loop
+    const { data: topic, error } = await (supabase as any).rpc('set_topic_parent', {
+      p_topic_id: topicId,
+      p_parent_id: parentId
     })
 
-    // Combine topics with their counts
-    const topicsWithCounts: TopicWithCount[] = (topics || []).map((topic: any) => ({
-      id: topic.id,
-      name: topic.name,
-      materialCount: topicCounts[topic.name] || 0
-    }))
+    if (error) {
+      console.error('Error setting topic parent:', error)
 
-    // Also include topics that exist only in materials but not in topics table
-    Object.entries(topicCounts).forEach(([topicName, count]) => {
-      const existingTopic = topicsWithCounts.find((t: TopicWithCount) => t.name === topicName)
-      if (!existingTopic) {
-        topicsWithCounts.push({
-          id: `legacy-${topicName.replace(/\s+/g, '-').toLowerCase()}`,
-          name: topicName,
-          materialCount: count
-        })
+      if (error.code === 'P0002') {
+        return { success: false, error: parentId ? 'Parent topic not found in this course' : 'Topic not found' }
       }
-    })
+      if (error.code === '22023') {
+        return { success: false, error: 'A topic cannot be placed under itself or one of its sub-topics' }
+      }
+
+      return { success: false, error: 'Failed to update topic parent' }
+    }
 
-    return topicsWithCounts.sort((a: TopicWithCount, b: TopicWithCount) => a.name.localeCompare(b.name))
+    return {
+      success: true,
+      data: {
+        id: topic.id,
+        name: topic.name,
+        parentId: topic.parent_id ?? null
+      }
+    }
   } catch (error) {
-    console.error('Error fetching course topics:', error)
-    return []
+    console.error('Error setting topic parent:', error)
+    return { success: false, error: 'An unexpected error occurred while updating the topic parent' }
   }
 }
 
 /**
- * Delete a topic from the topics table and remove it from all materials
+ * Replace the topics a topic requires. Prerequisites must be in the same course
+ * and may not lead back to the topic.
  */
-export async function deleteTopic(topicId: string): Promise<boolean> {
+export async function setTopicPrerequisites(topicId: string, prerequisiteIds: string[]): Promise<{
+  success: true
+} | {
+  success: false,
+  error: string
+}> {
   try {
     const supabase = await getSupabaseClient()
     const { data: { user } } = await supabase.auth.getUser()
-    if (!user) throw new Error('User not authenticated')
+    if (!user) {
+      return { success: false, error: 'User not authenticated' }
+    }
 
-    // Check if this is a legacy topic ID (format: "topic-{name}")
-    if (topicId.startsWith('topic-') || topicId.startsWith('legacy-')) {
-      // Extract topic name from topicId
-      const topicName = topicId.startsWith('topic-') 
-        ? topicId.substring(6).replace(/-/g, ' ')
-        : topicId.startsWith('legacy-')
-        ? topicId.substring(7).replace(/-/g, ' ')
-        : topicId
-
-      // Remove the topic from all materials using topic_tags
-      const { data: materials, error: materialsError } = await (supabase as any)
-        .from('materials')
-        .select('id, topic_tags, course_id')
-        .eq('user_id', user.id)
-        .contains('topic_tags', [topicName])
-
-      if (materialsError) throw materialsError
-
-      // Remove the topic from each material
-      if (materials && materials.length > 0) {
-        for (const material of materials) {
-          const updatedTopics = (material.topic_tags || []).filter((tag: string) => tag !== topicName)
-          
-          const { error: updateError } = await (supabase as any)
-            .from('materials')
-            .update({ topic_tags: updatedTopics })
-            .eq('id', material.id)
-            .eq('user_id', user.id)
-
-          if (updateError) throw updateError
-        }
-      }
+    const { error } = await (supabase as any).rpc('set_topic_prerequisites', {
+      p_topic_id: topicId,
+      p_prerequisite_ids: prerequisiteIds
+    })
 
-      // Also try to delete from topics table if it exists there
-      const { error: deleteError } = await (supabase as any)
-        .from('topics')
-        .delete()
-        .eq('user_id', user.id)
-        .ilike('name', topicName)
+    if (error) {
+      console.error('Error setting topic prerequisites:', error)
 
-      // Don't throw error if topic doesn't exist in topics table
-      if (deleteError && deleteError.code !== 'PGRST116') {
-        console.warn('Warning deleting from topics table:', deleteError)
+      if (error.code === 'P0002') {
+        return { success: false, error: 'Prerequisite topics must belong to the same course' }
       }
-    } else {
-      // This is a UUID, delete directly from topics table
-      const { data: topic, error: getTopicError } = await (supabase as any)
-        .from('topics')
-        .select('name')
-        .eq('id', topicId)
-        .eq('user_id', user.id)
-        .single()
-
-      if (getTopicError) throw getTopicError
-
-      if (topic) {
-        // Remove from materials first
-        const { data: materials, error: materialsError } = await (supabase as any)
-          .from('materials')
-          .select('id, topic_tags, course_id')
-          .eq('user_id', user.id)
-          .contains('topic_tags', [topic.name])
-
-        if (materialsError) throw materialsError
-
-        if (materials && materials.length > 0) {
-          for (const material of materials) {
-            const updatedTopics = (material.topic_tags || []).filter((tag: string) => tag !== topic.name)
-            
-            const { error: updateError } = await (supabase as any)
-              .from('materials')
-              .update({ topic_tags: updatedTopics })
-              .eq('id', material.id)
-              .eq('user_id', user.id)
-
-            if (updateError) throw updateError
-          }
-        }
-
-        // Delete from topics table
-        const { error: deleteError } = await (supabase as any)
-          .from('topics')
-          .delete()
-          .eq('id', topicId)
-          .eq('user_id', user.id)
-
-        if (deleteError) throw deleteError
+      if (error.code === '22023') {
+        return { success: false, error: error.message || 'Prerequisites cannot form a cycle' }
       }
+
+      return { success: false, error: 'Failed to update topic prerequisites' }
     }
 
-    return true
+    return { success: true }
   } catch (error) {
-    console.error('Error deleting topic:', error)
-    return false
+    console.error('Error setting topic prerequisites:', error)
+    return { success: false, error: 'An unexpected error occurred while updating the topic prerequisites' }
   }
 }
 
 /**
- * Get a topic by ID
+ * Get the topics the named topics build on (including the prerequisites of their
+ * parent units), most foundational first. The named topics themselves are excluded.
  */
-export async function getTopic(topicId: string, courseId: string): Promise<TopicWithCount | null> {
+export async function getTopicPrerequisites(courseId: string, topicNames: string[]): Promise<TopicPrerequisite[]> {
   try {
-    if (topicId.startsWith('topic-') || topicId.startsWith('legacy-')) {
-      // Extract topic name from legacy topicId
-      const topicName = topicId.startsWith('topic-') 
-        ? topicId.substring(6).replace(/-/g, ' ')
-        : topicId.startsWith('legacy-')
-        ? topicId.substring(7).replace(/-/g, ' ')
-        : topicId
-
-      const topics = await getCourseTopics(courseId)
-      return topics.find(topic => topic.name === topicName) || null
-    } else {
-      // This is a UUID, look up in topics table
-      const supabase = await getSupabaseClient()
-      const { data: { user } } = await supabase.auth.getUser()
-      if (!user) throw new Error('User not authenticated')
-
-      const { data: topic, error } = await (supabase as any)
-        .from('topics')
-        .select('id, name')
-        .eq('id', topicId)
-        .eq('course_id', courseId)
-        .eq('user_id', user.id)
-        .single()
-
-      if (error) {
-        if (error.code === 'PGRST116') { // No rows returned
-          return null
-        }
-        throw error
-      }
+    if (topicNames.length === 0) {
+      return []
+    }
 
-      // Get material count
-      const topics = await getCourseTopics(courseId)
-      const topicWithCount = topics.find(t => t.id === topic.id)
-      
-      return topicWithCount || {
-        id: topic.id,
-        name: topic.name,
-        materialCount: 0
-      }
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return []
     }
+
+    const { data: prerequisites, error } = await (supabase as any).rpc('get_topic_prerequisites', {
+      p_course_id: courseId,
+      p_topic_names: topicNames
+    })
+
+    if (error) throw error
+
+    return (prerequisites || []).map((prerequisite: TopicPrerequisite) => ({
+      id: prerequisite.id,
+      name: prerequisite.name,
+      depth: prerequisite.depth
+    }))
   } catch (error) {
-    console.error('Error fetching topic:', error)
+    console.error('Error fetching topic prerequisites:', error)
+    return []
+  }
+}
+/**
+ * Resolve a folder path to topics, outermost first, creating each missing folder topic
+ * under the one above it. Names that are already topics of the course are reused
+ * wherever they sit. Safe to call concurrently: the RPC upserts each topic.
+ */
+export async function resolveTopicPath(courseId: string, folders: string[]): Promise<{ id: string; name: string }[] | null> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: topics, error } = await (supabase as any).rpc('resolve_topic_path', {
+      p_course_id: courseId,
+      p_folder_names: folders
+    })
+
+    if (error) throw error
+
+    return (topics || []).map((topic: { id: string; name: string }) => ({ id: topic.id, name: topic.name }))
+  } catch (error) {
+    console.error('Error resolving topic path:', error)
     return null
   }
-}
\ No newline at end of file
+}
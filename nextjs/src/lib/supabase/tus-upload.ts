@@ -228,7 +228,25 @@ export function validateFileForTusUpload(file: File): { valid: boolean; error?:
     'image/jpeg',
     'image/png',
     'image/gif',
-    'image/webp'
+    'image/webp',
+    // Lecture recordings, transcribed at ingestion
+    'audio/mpeg',
+    'audio/wav',
+    'audio/x-wav',
+    'audio/mp4',
+    'audio/x-m4a',
+    'audio/aac',
+    'audio/ogg',
+    'audio/opus',
+    'audio/flac',
+    'audio/webm',
+    'video/mp4',
+    'video/quicktime',
+    'video/webm',
+    'video/mpeg',
+    // Expanded into one material per file
+    'application/zip',
+    'application/x-zip-compressed'
   ]
   
   if (!allowedTypes.includes(file.type)) {
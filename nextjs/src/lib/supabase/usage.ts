@@ -0,0 +1,163 @@
+import { createSPAClient } from '@/lib/supabase/client'
+import { createSSRClient } from '@/lib/supabase/server'
+import { getEntitlements } from '@/lib/supabase/subscriptions'
+import type { Entitlements } from '@/lib/entitlements'
+import type { TokenUsageSource, UsageSummary } from '@/lib/types'
+
+// Function to determine which client to use based on environment
+async function getSupabaseClient() {
+  // Check if we're on the server side (API routes)
+  if (typeof window === 'undefined') {
+    return await createSSRClient()
+  }
+  // Client side
+  return createSPAClient()
+}
+
+// Token and lesson quotas run per calendar month (UTC)
+function monthStart(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+function nextMonthStart(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface QuotaCheck {
+  allowed: boolean
+  // Null when usage couldn't be read; the request is allowed rather than blocked
+  summary: UsageSummary | null
+  message?: string
+}
+
+/**
+ * The current user's stored bytes, tokens used and lessons created this month against
+ * their limits. Limits come from the user's plan unless user_quotas overrides them.
+ */
+export async function getUsageSummary(entitlements?: Entitlements): Promise<UsageSummary | null> {
+  try {
+    const plan = entitlements ?? await getEntitlements()
+    const supabase = await getSupabaseClient()
+    const now = new Date()
+
+    const { data, error } = await (supabase as any).rpc('get_usage_summary', {
+      p_since: monthStart(now).toISOString()
+    })
+
+    if (error) throw error
+
+    const row = Array.isArray(data) ? data[0] : data
+    return {
+      plan: plan.plan,
+      storageBytes: Number(row?.storage_bytes ?? 0),
+      storageLimitBytes: row?.storage_limit_bytes ?? plan.storageLimitBytes,
+      tokensUsed: Number(row?.tokens_used ?? 0),
+      monthlyTokenLimit: row?.monthly_token_limit ?? plan.monthlyTokenLimit,
+      lessonsCreated: Number(row?.lessons_created ?? 0),
+      monthlyLessonLimit: plan.monthlyLessonLimit,
+      tokensResetAt: nextMonthStart(now).toISOString()
+    }
+  } catch (error) {
+    console.error('Error fetching usage summary:', error)
+    return null
+  }
+}
+
+/**
+ * Bytes the user can still store
+ */
+export function storageBytesAvailable(summary: UsageSummary): number {
+  return Math.max(0, summary.storageLimitBytes - summary.storageBytes)
+}
+
+/**
+ * Whether storing another additionalBytes keeps the user within their storage quota
+ */
+export async function checkStorageQuota(additionalBytes: number, usage?: UsageSummary | null): Promise<QuotaCheck> {
+  const summary = usage === undefined ? await getUsageSummary() : usage
+  if (!summary) return { allowed: true, summary }
+
+  if (additionalBytes > storageBytesAvailable(summary)) {
+    return {
+      allowed: false,
+      summary,
+      message: summary.plan
+        ? `Storage quota of your ${summary.plan} plan exceeded. Delete materials or old versions to free up space.`
+        : 'Storage quota exceeded. Delete materials or old versions to free up space, or upgrade your plan.'
+    }
+  }
+  return { allowed: true, summary }
+}
+
+/**
+ * Whether the user has tokens left this month
+ */
+export async function checkTokenQuota(usage?: UsageSummary | null): Promise<QuotaCheck> {
+  const summary = usage === undefined ? await getUsageSummary() : usage
+  if (!summary) return { allowed: true, summary }
+
+  if (summary.tokensUsed >= summary.monthlyTokenLimit) {
+    return {
+      allowed: false,
+      summary,
+      message: 'Monthly AI usage limit reached. It resets at the start of next month.'
+    }
+  }
+  return { allowed: true, summary }
+}
+
+/**
+ * Whether the user's plan lets them create another lesson this month. Lessons are counted
+ * from lesson_creations, so deleting a lesson doesn't give its allowance back.
+ */
+export async function checkLessonQuota(usage?: UsageSummary | null): Promise<QuotaCheck> {
+  const summary = usage === undefined ? await getUsageSummary() : usage
+  if (!summary || summary.monthlyLessonLimit === null) return { allowed: true, summary }
+
+  if (summary.lessonsCreated >= summary.monthlyLessonLimit) {
+    return {
+      allowed: false,
+      summary,
+      message: `Your plan includes ${summary.monthlyLessonLimit} new lessons a month. Upgrade your plan or wait until next month to start another.`
+    }
+  }
+  return { allowed: true, summary }
+}
+
+/**
+ * Record the tokens one model request used against the current user's quota
+ */
+export async function recordTokenUsage(
+  source: TokenUsageSource,
+  usage: TokenUsage,
+  options: { lessonId?: string; model?: string } = {}
+): Promise<boolean> {
+  try {
+    const supabase = await getSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { error } = await (supabase as any)
+      .from('token_usage')
+      .insert({
+        user_id: user.id,
+        lesson_id: options.lessonId ?? null,
+        source,
+        model: options.model ?? null,
+        // Providers report NaN or nothing when they don't count tokens
+        prompt_tokens: Number.isFinite(usage.promptTokens) ? usage.promptTokens : 0,
+        completion_tokens: Number.isFinite(usage.completionTokens) ? usage.completionTokens : 0
+      })
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error('Error recording token usage:', error)
+    return false
+  }
+}
@@ -36,6 +36,54 @@ export type Database = {
   }
   public: {
     Tables: {
+      assessment_attempts: {
+        Row: {
+          id: string
+          user_id: string
+          course_id: string | null
+          lesson_id: string | null
+          message_id: string | null
+          item_id: string
+          topic: string
+          assessment_type: string
+          difficulty: string
+          is_correct: boolean
+          score: number
+          latency_ms: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          course_id?: string | null
+          lesson_id?: string | null
+          message_id?: string | null
+          item_id: string
+          topic: string
+          assessment_type: string
+          difficulty?: string
+          is_correct: boolean
+          score?: number
+          latency_ms?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          course_id?: string | null
+          lesson_id?: string | null
+          message_id?: string | null
+          item_id?: string
+          topic?: string
+          assessment_type?: string
+          difficulty?: string
+          is_correct?: boolean
+          score?: number
+          latency_ms?: number | null
+          created_at?: string
+        }
+        Relationships: []
+      }
       courses: {
         Row: {
           id: string
@@ -74,6 +122,14 @@ export type Database = {
           topic: string
           difficulty: string
           source_lesson_id: string | null
+          source_material_id: string | null
+          source_material_version: number | null
+          ease_factor: number
+          interval_days: number
+          repetitions: number
+          lapses: number
+          due_at: string
+          last_reviewed_at: string | null
           created_at: string
           updated_at: string
         }
@@ -87,6 +143,14 @@ export type Database = {
           topic: string
           difficulty?: string
           source_lesson_id?: string | null
+          source_material_id?: string | null
+          source_material_version?: number | null
+          ease_factor?: number
+          interval_days?: number
+          repetitions?: number
+          lapses?: number
+          due_at?: string
+          last_reviewed_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -100,11 +164,112 @@ export type Database = {
           topic?: string
           difficulty?: string
           source_lesson_id?: string | null
+          source_material_id?: string | null
+          source_material_version?: number | null
+          ease_factor?: number
+          interval_days?: number
+          repetitions?: number
+          lapses?: number
+          due_at?: string
+          last_reviewed_at?: string | null
           created_at?: string
           updated_at?: string
         }
         Relationships: []
       }
+      flashcard_topics: {
+        Row: {
+          flashcard_id: string
+          topic_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          flashcard_id: string
+          topic_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          flashcard_id?: string
+          topic_id?: string
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      lesson_messages: {
+        Row: {
+          id: string
+          lesson_id: string
+          user_id: string
+          message_id: string
+          position: number
+          role: string
+          content: string
+          assessment_type: string | null
+          assessment_data: Json | null
+          assessment_results: Json | null
+          citations: Json | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          lesson_id: string
+          user_id: string
+          message_id: string
+          position: number
+          role: string
+          content?: string
+          assessment_type?: string | null
+          assessment_data?: Json | null
+          assessment_results?: Json | null
+          citations?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          lesson_id?: string
+          user_id?: string
+          message_id?: string
+          position?: number
+          role?: string
+          content?: string
+          assessment_type?: string | null
+          assessment_data?: Json | null
+          assessment_results?: Json | null
+          citations?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      lesson_topics: {
+        Row: {
+          lesson_id: string
+          topic_id: string
+          user_id: string
+          position: number
+          created_at: string
+        }
+        Insert: {
+          lesson_id: string
+          topic_id: string
+          user_id: string
+          position?: number
+          created_at?: string
+        }
+        Update: {
+          lesson_id?: string
+          topic_id?: string
+          user_id?: string
+          position?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
       lessons: {
         Row: {
           id: string
@@ -114,6 +279,8 @@ export type Database = {
           course_id: string | null
           lesson_type: string
           topic_selection: string[]
+          include_prerequisites: boolean
+          version: number
           created_at: string
           updated_at: string
         }
@@ -125,6 +292,8 @@ export type Database = {
           course_id?: string | null
           lesson_type?: string
           topic_selection?: string[]
+          include_prerequisites?: boolean
+          version?: number
           created_at?: string
           updated_at?: string
         }
@@ -136,11 +305,88 @@ export type Database = {
           course_id?: string | null
           lesson_type?: string
           topic_selection?: string[]
+          include_prerequisites?: boolean
+          version?: number
           created_at?: string
           updated_at?: string
         }
         Relationships: []
       }
+      lesson_context_caches: {
+        Row: {
+          lesson_id: string
+          user_id: string
+          cache_key: string
+          cache_name: string | null
+          model: string
+          token_count: number | null
+          expires_at: string | null
+          error: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          lesson_id: string
+          user_id: string
+          cache_key: string
+          cache_name?: string | null
+          model: string
+          token_count?: number | null
+          expires_at?: string | null
+          error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          lesson_id?: string
+          user_id?: string
+          cache_key?: string
+          cache_name?: string | null
+          model?: string
+          token_count?: number | null
+          expires_at?: string | null
+          error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      context_cache_events: {
+        Row: {
+          id: string
+          lesson_id: string
+          user_id: string
+          outcome: string
+          reason: string | null
+          cache_name: string | null
+          prompt_tokens: number | null
+          cached_tokens: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          lesson_id: string
+          user_id: string
+          outcome: string
+          reason?: string | null
+          cache_name?: string | null
+          prompt_tokens?: number | null
+          cached_tokens?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          lesson_id?: string
+          user_id?: string
+          outcome?: string
+          reason?: string | null
+          cache_name?: string | null
+          prompt_tokens?: number | null
+          cached_tokens?: number | null
+          created_at?: string
+        }
+        Relationships: []
+      }
       materials: {
         Row: {
           id: string
@@ -151,6 +397,24 @@ export type Database = {
           file_size: number
           mime_type: string
           topic_tags: string[]
+          topic_extraction_status: string
+          topic_extraction_error: string | null
+          topic_extracted_at: string | null
+          text_extraction_status: string
+          text_extraction_error: string | null
+          text_extracted_at: string | null
+          page_count: number | null
+          duration_seconds: number | null
+          chunk_count: number
+          google_file_uri: string | null
+          google_uploaded_at: string | null
+          google_file_name: string | null
+          google_file_expires_at: string | null
+          google_file_status: string
+          google_file_error: string | null
+          google_upload_url: string | null
+          sha256: string | null
+          version: number
           created_at: string
           updated_at: string
         }
@@ -163,6 +427,24 @@ export type Database = {
           file_size: number
           mime_type: string
           topic_tags?: string[]
+          topic_extraction_status?: string
+          topic_extraction_error?: string | null
+          topic_extracted_at?: string | null
+          text_extraction_status?: string
+          text_extraction_error?: string | null
+          text_extracted_at?: string | null
+          page_count?: number | null
+          duration_seconds?: number | null
+          chunk_count?: number
+          google_file_uri?: string | null
+          google_uploaded_at?: string | null
+          google_file_name?: string | null
+          google_file_expires_at?: string | null
+          google_file_status?: string
+          google_file_error?: string | null
+          google_upload_url?: string | null
+          sha256?: string | null
+          version?: number
           created_at?: string
           updated_at?: string
         }
@@ -175,11 +457,369 @@ export type Database = {
           file_size?: number
           mime_type?: string
           topic_tags?: string[]
+          topic_extraction_status?: string
+          topic_extraction_error?: string | null
+          topic_extracted_at?: string | null
+          text_extraction_status?: string
+          text_extraction_error?: string | null
+          text_extracted_at?: string | null
+          page_count?: number | null
+          duration_seconds?: number | null
+          chunk_count?: number
+          google_file_uri?: string | null
+          google_uploaded_at?: string | null
+          google_file_name?: string | null
+          google_file_expires_at?: string | null
+          google_file_status?: string
+          google_file_error?: string | null
+          google_upload_url?: string | null
+          sha256?: string | null
+          version?: number
           created_at?: string
           updated_at?: string
         }
         Relationships: []
       }
+      material_topics: {
+        Row: {
+          material_id: string
+          topic_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          material_id: string
+          topic_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          material_id?: string
+          topic_id?: string
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      material_versions: {
+        Row: {
+          id: string
+          material_id: string
+          user_id: string
+          version: number
+          file_name: string
+          file_path: string
+          file_size: number
+          mime_type: string
+          sha256: string | null
+          created_at: string
+          replaced_at: string | null
+        }
+        Insert: {
+          id?: string
+          material_id: string
+          user_id: string
+          version: number
+          file_name: string
+          file_path: string
+          file_size: number
+          mime_type: string
+          sha256?: string | null
+          created_at?: string
+          replaced_at?: string | null
+        }
+        Update: {
+          id?: string
+          material_id?: string
+          user_id?: string
+          version?: number
+          file_name?: string
+          file_path?: string
+          file_size?: number
+          mime_type?: string
+          sha256?: string | null
+          created_at?: string
+          replaced_at?: string | null
+        }
+        Relationships: []
+      }
+      lesson_materials: {
+        Row: {
+          lesson_id: string
+          material_id: string
+          user_id: string
+          material_version: number
+          used_at: string
+        }
+        Insert: {
+          lesson_id: string
+          material_id: string
+          user_id: string
+          material_version: number
+          used_at?: string
+        }
+        Update: {
+          lesson_id?: string
+          material_id?: string
+          user_id?: string
+          material_version?: number
+          used_at?: string
+        }
+        Relationships: []
+      }
+      token_usage: {
+        Row: {
+          id: string
+          user_id: string
+          lesson_id: string | null
+          source: TokenUsageSource
+          model: string | null
+          prompt_tokens: number
+          completion_tokens: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          lesson_id?: string | null
+          source: TokenUsageSource
+          model?: string | null
+          prompt_tokens?: number
+          completion_tokens?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          lesson_id?: string | null
+          source?: TokenUsageSource
+          model?: string | null
+          prompt_tokens?: number
+          completion_tokens?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      lesson_creations: {
+        Row: {
+          id: string
+          user_id: string
+          lesson_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          lesson_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          lesson_id?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      subscriptions: {
+        Row: {
+          id: string
+          user_id: string
+          customer_id: string
+          status: SubscriptionStatus
+          price_id: string | null
+          current_period_ends_at: string | null
+          canceled_at: string | null
+          event_occurred_at: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          user_id: string
+          customer_id: string
+          status: SubscriptionStatus
+          price_id?: string | null
+          current_period_ends_at?: string | null
+          canceled_at?: string | null
+          event_occurred_at: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          customer_id?: string
+          status?: SubscriptionStatus
+          price_id?: string | null
+          current_period_ends_at?: string | null
+          canceled_at?: string | null
+          event_occurred_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      paddle_webhook_events: {
+        Row: {
+          event_id: string
+          event_type: string
+          occurred_at: string
+          received_at: string
+        }
+        Insert: {
+          event_id: string
+          event_type: string
+          occurred_at: string
+          received_at?: string
+        }
+        Update: {
+          event_id?: string
+          event_type?: string
+          occurred_at?: string
+          received_at?: string
+        }
+        Relationships: []
+      }
+      user_quotas: {
+        Row: {
+          user_id: string
+          storage_limit_bytes: number | null
+          monthly_token_limit: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          storage_limit_bytes?: number | null
+          monthly_token_limit?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          storage_limit_bytes?: number | null
+          monthly_token_limit?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      material_chunks: {
+        Row: {
+          id: string
+          user_id: string
+          course_id: string
+          material_id: string
+          chunk_index: number
+          page_number: number | null
+          section: string | null
+          content: string
+          token_count: number
+          start_seconds: number | null
+          end_seconds: number | null
+          embedding: string | null
+          embedding_model: string | null
+          search_vector: unknown
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          course_id: string
+          material_id: string
+          chunk_index: number
+          page_number?: number | null
+          section?: string | null
+          content: string
+          token_count?: number
+          start_seconds?: number | null
+          end_seconds?: number | null
+          embedding?: string | null
+          embedding_model?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          course_id?: string
+          material_id?: string
+          chunk_index?: number
+          page_number?: number | null
+          section?: string | null
+          content?: string
+          token_count?: number
+          start_seconds?: number | null
+          end_seconds?: number | null
+          embedding?: string | null
+          embedding_model?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      topic_suggestions: {
+        Row: {
+          id: string
+          user_id: string
+          course_id: string
+          material_id: string
+          topic_name: string
+          parent_topic_name: string | null
+          confidence: number
+          reason: string | null
+          status: string
+          created_at: string
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          course_id: string
+          material_id: string
+          topic_name: string
+          parent_topic_name?: string | null
+          confidence?: number
+          reason?: string | null
+          status?: string
+          created_at?: string
+          resolved_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          course_id?: string
+          material_id?: string
+          topic_name?: string
+          parent_topic_name?: string | null
+          confidence?: number
+          reason?: string | null
+          status?: string
+          created_at?: string
+          resolved_at?: string | null
+        }
+        Relationships: []
+      }
+      topic_prerequisites: {
+        Row: {
+          topic_id: string
+          prerequisite_topic_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          topic_id: string
+          prerequisite_topic_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          topic_id?: string
+          prerequisite_topic_id?: string
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
       todo_list: {
         Row: {
           created_at: string
@@ -215,10 +855,204 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      context_cache_stats: {
+        Row: {
+          lesson_id: string
+          user_id: string
+          hits: number
+          misses: number
+          uncached: number
+          prompt_tokens: number
+          cached_tokens: number
+          last_turn_at: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      append_lesson_messages: {
+        Args: {
+          p_lesson_id: string
+          p_messages: Json
+        }
+        Returns: number
+      }
+      replace_lesson_messages: {
+        Args: {
+          p_lesson_id: string
+          p_messages: Json
+          p_expected_version?: number | null
+        }
+        Returns: number
+      }
+      set_material_topics: {
+        Args: {
+          p_material_id: string
+          p_topic_names: string[]
+        }
+        Returns: undefined
+      }
+      set_flashcard_topics: {
+        Args: {
+          p_flashcard_id: string
+          p_topic_names: string[]
+        }
+        Returns: undefined
+      }
+      set_lesson_topics: {
+        Args: {
+          p_lesson_id: string
+          p_topic_names: string[]
+        }
+        Returns: undefined
+      }
+      rename_topic: {
+        Args: {
+          p_topic_id: string
+          p_name: string
+        }
+        Returns: {
+          id: string
+          user_id: string
+          course_id: string
+          parent_id: string | null
+          name: string
+          created_at: string
+          updated_at: string
+        }
+      }
+      delete_topic: {
+        Args: {
+          p_topic_id: string
+        }
+        Returns: boolean
+      }
+      set_topic_parent: {
+        Args: {
+          p_topic_id: string
+          p_parent_id: string | null
+        }
+        Returns: {
+          id: string
+          user_id: string
+          course_id: string
+          parent_id: string | null
+          name: string
+          created_at: string
+          updated_at: string
+        }
+      }
+      set_topic_prerequisites: {
+        Args: {
+          p_topic_id: string
+          p_prerequisite_ids: string[]
+        }
+        Returns: undefined
+      }
+      accept_topic_suggestion: {
+        Args: {
+          p_suggestion_id: string
+        }
+        Returns: Database['public']['Tables']['topic_suggestions']['Row']
+      }
+      replace_material_chunks: {
+        Args: {
+          p_material_id: string
+          p_chunks: Json
+          p_page_count?: number | null
+          p_duration_seconds?: number | null
+        }
+        Returns: number
+      }
+      replace_material_file: {
+        Args: {
+          p_material_id: string
+          p_file_name: string
+          p_file_path: string
+          p_file_size: number
+          p_mime_type: string
+          p_sha256?: string | null
+        }
+        Returns: number
+      }
+      record_lesson_materials: {
+        Args: {
+          p_lesson_id: string
+          p_material_ids: string[]
+        }
+        Returns: undefined
+      }
+      set_material_chunk_embeddings: {
+        Args: {
+          p_material_id: string
+          p_embeddings: Json
+          p_model: string
+        }
+        Returns: number
+      }
+      search_material_chunks: {
+        Args: {
+          p_course_id: string
+          p_query: string
+          p_query_embedding?: string | null
+          p_material_ids?: string[] | null
+          p_match_count?: number
+          p_keyword_weight?: number
+          p_semantic_weight?: number
+          p_rrf_k?: number
+        }
+        Returns: {
+          id: string
+          material_id: string
+          file_name: string
+          chunk_index: number
+          page_number: number | null
+          section: string | null
+          content: string
+          token_count: number
+          keyword_rank: number | null
+          semantic_rank: number | null
+          score: number
+          start_seconds: number | null
+          end_seconds: number | null
+        }[]
+      }
+      get_topic_prerequisites: {
+        Args: {
+          p_course_id: string
+          p_topic_names: string[]
+        }
+        Returns: {
+          id: string
+          name: string
+          depth: number
+        }[]
+      }
+      upsert_paddle_subscription: {
+        Args: {
+          p_id: string
+          p_user_id: string
+          p_customer_id: string
+          p_status: SubscriptionStatus
+          p_price_id: string | null
+          p_current_period_ends_at: string | null
+          p_canceled_at: string | null
+          p_event_occurred_at: string
+        }
+        Returns: undefined
+      }
+      get_usage_summary: {
+        Args: {
+          p_since: string
+        }
+        Returns: {
+          storage_bytes: number
+          tokens_used: number
+          lessons_created: number
+          storage_limit_bytes: number | null
+          monthly_token_limit: number | null
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -355,11 +1189,39 @@ export interface Topic {
 }
 
 // Chat and Lesson Types
+// What the student asked the tutor to do with a highlighted passage
+export type SelectionAction = 'explain' | 'quiz' | 'flashcards'
+
+// A passage the student highlighted in the material viewer, sent with the chat request
+export interface MaterialSelection {
+  action: SelectionAction
+  materialId: string
+  materialName: string
+  pageNumber: number | null
+  text: string
+}
+
+// A course material passage an assistant reply cites as [number]
+export interface MessageCitation {
+  number: number
+  materialId: string
+  materialName: string
+  // Page or slide the passage came from, when the format has pages
+  pageNumber: number | null
+  // Where the passage is spoken in a lecture recording, in seconds
+  timestampSeconds?: number | null
+  section: string | null
+  excerpt: string
+}
+
 export interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
   content: string
   createdAt?: Date
+
+  // Material passages cited in the content as [1], [2], ...
+  citations?: MessageCitation[]
   
   // Assessment metadata for storing tool call data and results
   assessment?: {
@@ -396,11 +1258,25 @@ export interface Lesson {
   course_id?: string | null
   lesson_type: 'general' | 'pre-exam' | 'post-lecture'
   topic_selection: string[]
+  include_prerequisites: boolean
+  version: number
+  message_count?: number
   created_at: string
   updated_at: string
 }
 
+// One page of a lesson's messages, oldest first. `nextCursor` is passed as
+// `before` to load the page preceding this one.
+export interface LessonMessagesPage {
+  messages: ChatMessage[]
+  hasMore: boolean
+  nextCursor: number | null
+}
+
 // Database type exports
+export type AssessmentAttemptRow = Tables<'assessment_attempts'>
+export type AssessmentAttemptInsert = TablesInsert<'assessment_attempts'>
+
 export type CourseRow = Tables<'courses'>
 export type CourseInsert = TablesInsert<'courses'>
 export type CourseUpdate = TablesUpdate<'courses'>
@@ -416,6 +1292,28 @@ export type MaterialUpdate = TablesUpdate<'materials'>
 export type LessonInsert = TablesInsert<'lessons'>
 export type LessonUpdate = TablesUpdate<'lessons'>
 export type LessonRow = Tables<'lessons'>
+export type LessonMessageRow = Tables<'lesson_messages'>
+
+export type LessonContextCacheRow = Tables<'lesson_context_caches'>
+export type ContextCacheEventInsert = TablesInsert<'context_cache_events'>
+export type ContextCacheStats = Database['public']['Views']['context_cache_stats']['Row']
+
+export type MaterialVersionRow = Tables<'material_versions'>
+export type LessonMaterialRow = Tables<'lesson_materials'>
+
+export type TokenUsageInsert = TablesInsert<'token_usage'>
+export type LessonCreationRow = Tables<'lesson_creations'>
+export type UserQuotaRow = Tables<'user_quotas'>
+export type SubscriptionRow = Tables<'subscriptions'>
+
+export type MaterialChunkRow = Tables<'material_chunks'>
+export type MaterialChunkInsert = TablesInsert<'material_chunks'>
+// Chunk as read back by the app - the raw embedding and search vector stay in the database
+export type MaterialChunk = Omit<MaterialChunkRow, 'embedding' | 'search_vector'>
+export type MaterialChunkMatch = Database['public']['Functions']['search_material_chunks']['Returns'][number]
+
+export type TopicSuggestionRow = Tables<'topic_suggestions'>
+export type TopicSuggestionInsert = TablesInsert<'topic_suggestions'>
 
 // Drag & Drop and Topic Management interfaces
 export interface DragDropZoneProps {
@@ -432,6 +1330,73 @@ export interface Topic {
   id: string
   name: string
   materialCount: number
+  parentId?: string | null
+  prerequisiteIds?: string[]
+}
+
+export type TopicExtractionStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'skipped'
+
+// A topic proposed for a material by the extraction job, awaiting accept/reject
+export interface TopicSuggestion {
+  id: string
+  materialId: string
+  materialName: string
+  topicName: string
+  parentTopicName: string | null
+  confidence: number
+  reason: string | null
+  // True when accepting would create a topic the course doesn't have yet
+  isNewTopic: boolean
+}
+
+// Materials whose extraction job hasn't finished, or failed, shown alongside the suggestions
+export interface TopicExtractionState {
+  materialId: string
+  materialName: string
+  status: TopicExtractionStatus
+  error: string | null
+}
+
+export type TextExtractionStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'unsupported'
+
+// Lifecycle of a material's copy in the Gemini File API
+export type GoogleFileStatus = 'none' | 'uploading' | 'processing' | 'active' | 'expired' | 'failed'
+
+// Outcome of a material-backed lesson turn against its Gemini context cache
+export type ContextCacheOutcome = 'hit' | 'miss' | 'uncacheable' | 'bypass'
+
+// What happened to one file of a ZIP or folder upload
+export type MaterialImportStatus = 'imported' | 'unsupported' | 'duplicate' | 'failed'
+
+export interface MaterialImportResult {
+  // Path within the archive or dropped folder
+  path: string
+  status: MaterialImportStatus
+  materialId?: string
+  // Topic the file's folder was mapped to
+  topic?: string | null
+  reason?: string
+}
+
+// What a recorded model request was made for
+export type TokenUsageSource = 'chat' | 'assessment'
+
+// Paddle subscription states; active, trialing and past_due subscriptions keep their plan
+export type SubscriptionStatus = 'active' | 'canceled' | 'past_due' | 'paused' | 'trialing'
+
+// A user's consumption against their quotas, as shown in user settings
+export interface UsageSummary {
+  // Pricing tier the limits come from, or null on the free plan
+  plan: string | null
+  storageBytes: number
+  storageLimitBytes: number
+  tokensUsed: number
+  monthlyTokenLimit: number
+  lessonsCreated: number
+  // Null when lessons aren't limited
+  monthlyLessonLimit: number | null
+  // When the monthly token and lesson counts start again
+  tokensResetAt: string
 }
 
 export interface TopicAssociationDropdownProps {
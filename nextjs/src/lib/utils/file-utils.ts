@@ -42,33 +42,107 @@ export function generateUniqueFileName(originalName: string, existingNames: stri
   return uniqueName
 }
 
+// Types a material can be uploaded as, from the existing system plus lecture recordings
+export const SUPPORTED_UPLOAD_MIME_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/rtf',
+  'text/plain',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/csv',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  // Lecture recordings, transcribed at ingestion
+  'audio/mpeg',
+  'audio/wav',
+  'audio/x-wav',
+  'audio/mp4',
+  'audio/x-m4a',
+  'audio/aac',
+  'audio/ogg',
+  'audio/opus',
+  'audio/flac',
+  'audio/webm',
+  'video/mp4',
+  'video/quicktime',
+  'video/webm',
+  'video/mpeg'
+]
+
+// ZIP archives are expanded into one material per file rather than stored as one
+export const ARCHIVE_MIME_TYPES = ['application/zip', 'application/x-zip-compressed']
+
+// Types for files inside an archive, which have no browser-reported type
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  rtf: 'application/rtf',
+  txt: 'text/plain',
+  md: 'text/plain',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  opus: 'audio/opus',
+  flac: 'audio/flac',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mpeg: 'video/mpeg',
+  zip: 'application/zip'
+}
+
 /**
  * Validates file type against supported formats
  */
 export function validateFileType(file: File, supportedTypes?: string[]): boolean {
   if (!supportedTypes) {
-    // Default supported types from the existing system
-    const defaultSupportedTypes = [
-      'application/pdf',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'application/rtf',
-      'text/plain',
-      'application/vnd.ms-excel',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'text/csv',
-      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-      'image/jpeg',
-      'image/png',
-      'image/gif',
-      'image/webp'
-    ]
-    return defaultSupportedTypes.includes(file.type)
+    return SUPPORTED_UPLOAD_MIME_TYPES.includes(file.type) || ARCHIVE_MIME_TYPES.includes(file.type)
   }
   
   return supportedTypes.includes(file.type)
 }
 
+/**
+ * MIME type for a file name by its extension, or null when it isn't one we accept
+ */
+export function getMimeTypeFromFileName(fileName: string): string | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? ''
+  return MIME_TYPES_BY_EXTENSION[extension] ?? null
+}
+
+export function isArchiveFile(fileName: string, mimeType: string): boolean {
+  return ARCHIVE_MIME_TYPES.includes(mimeType) || fileName.toLowerCase().endsWith('.zip')
+}
+
+/**
+ * Folders between a dropped folder (or one picked with webkitdirectory) and the file,
+ * outermost first. Empty for files dropped on their own.
+ */
+export function getFileFolders(file: File): string[] {
+  const relativePath = (file as File & { relativePath?: string }).relativePath || file.webkitRelativePath || ''
+  return relativePath
+    .split('/')
+    .slice(0, -1)
+    .filter(folder => folder !== '' && folder !== '.' && folder !== '..')
+}
+
 /**
  * Enhanced file validation for TUS uploads with 100MB limit
  */
@@ -0,0 +1,88 @@
+import { createHash } from 'crypto'
+import { describe, expect, it } from 'vitest'
+import { Sha256, isSha256Hex, sha256File } from './sha256'
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+// Deterministic bytes that don't repeat on a block boundary
+function bytes(length: number) {
+  const data = new Uint8Array(length)
+  for (let i = 0; i < length; i++) data[i] = (i * 31 + (i >>> 8)) & 0xff
+  return data
+}
+
+const nodeSha256 = (data: Uint8Array) => createHash('sha256').update(data).digest('hex')
+
+describe('Sha256', () => {
+  it.each([
+    ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+    ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    [
+      'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    ]
+  ])('hashes the NIST vector %j', (message, expected) => {
+    expect(new Sha256().update(encode(message)).digest()).toBe(expected)
+  })
+
+  // 55, 56 and 64 bytes are where the padding needs one block or spills into a second
+  it.each([55, 56, 63, 64, 65, 119, 120, 1000])('hashes %i bytes in one update', length => {
+    const data = bytes(length)
+    expect(new Sha256().update(data).digest()).toBe(nodeSha256(data))
+  })
+
+  it.each([
+    ['one byte at a time', [1]],
+    ['chunks that straddle the block boundary', [63, 2, 61, 70]],
+    ['chunks that fill a partial block exactly', [10, 54, 64, 128]],
+    ['empty chunks between others', [0, 30, 0, 34, 0]]
+  ])('matches node crypto when fed %s', (_, sizes) => {
+    const data = bytes(300)
+    const hash = new Sha256()
+    let offset = 0
+    for (let i = 0; offset < data.length; i++) {
+      const size = sizes[i % sizes.length]
+      hash.update(data.subarray(offset, offset + size))
+      offset += size
+    }
+    expect(hash.digest()).toBe(nodeSha256(data))
+  })
+
+  it('returns the same digest when asked twice and refuses further updates', () => {
+    const hash = new Sha256().update(encode('abc'))
+    expect(hash.digest()).toBe(hash.digest())
+    expect(() => hash.update(encode('d'))).toThrow('SHA-256 digest already computed')
+  })
+})
+
+describe('sha256File', () => {
+  it('hashes an empty file', async () => {
+    expect(await sha256File(new Blob([]))).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855')
+  })
+
+  it('hashes a file read over several slices', async () => {
+    // Larger than the 4MB read size, and not a multiple of it or of the block size
+    const data = bytes(4 * 1024 * 1024 + 1001)
+    expect(await sha256File(new Blob([data]))).toBe(nodeSha256(data))
+  })
+})
+
+describe('isSha256Hex', () => {
+  it('accepts a lowercase 64-character hex digest', () => {
+    expect(isSha256Hex('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')).toBe(true)
+  })
+
+  it.each([
+    ['an uppercase digest', 'BA7816BF8F01CFEA414140DE5DAE2223B00361A396177A9CB410FF61F20015AD'],
+    ['a digest one character short', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015a'],
+    ['a digest one character long', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad0'],
+    ['a non-hex character', 'ga7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    ['surrounding whitespace', ' ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    ['an empty string', ''],
+    ['a number', 123],
+    ['null', null],
+    ['undefined', undefined]
+  ])('rejects %s', (_, value) => {
+    expect(isSha256Hex(value)).toBe(false)
+  })
+})
@@ -0,0 +1,19 @@
+-- Add a row version to lessons for optimistic concurrency control.
+-- Writers read the current version and only update when it is unchanged,
+-- so concurrent chat requests or tabs can't silently overwrite each other.
+ALTER TABLE lessons ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Bump the version on every update
+CREATE OR REPLACE FUNCTION increment_lesson_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.version = OLD.version + 1;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS increment_lessons_version ON lessons;
+CREATE TRIGGER increment_lessons_version
+    BEFORE UPDATE ON lessons
+    FOR EACH ROW
+    EXECUTE FUNCTION increment_lesson_version();
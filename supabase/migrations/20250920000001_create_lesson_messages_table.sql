@@ -0,0 +1,136 @@
+-- Lesson Messages Migration
+-- Moves chat history out of the lessons.messages JSONB blob into one row per message,
+-- so long lessons can be paged and assessment results can be queried.
+
+-- Create lesson_messages table
+CREATE TABLE IF NOT EXISTS lesson_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    message_id TEXT NOT NULL, -- ChatMessage.id as used by the client / AI SDK
+    position INTEGER NOT NULL, -- Order within the lesson, starting at 0
+    role VARCHAR(10) NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL DEFAULT '',
+    assessment_type VARCHAR(20) CHECK (assessment_type IN ('mcq', 'tf', 'flashcards')),
+    assessment_data JSONB,
+    assessment_results JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(lesson_id, message_id),
+    UNIQUE(lesson_id, position)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_lesson_messages_user_id ON lesson_messages(user_id);
+CREATE INDEX IF NOT EXISTS idx_lesson_messages_assessment_type ON lesson_messages(assessment_type) WHERE assessment_type IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE lesson_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access messages of their own lessons
+CREATE POLICY "Users can access own lesson messages" ON lesson_messages
+    FOR ALL USING (auth.uid() = user_id);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_lesson_messages_updated_at
+    BEFORE UPDATE ON lesson_messages
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Insert a JSONB array of ChatMessage objects starting at the given position.
+-- Messages whose id is already stored for the lesson are skipped.
+CREATE OR REPLACE FUNCTION insert_lesson_messages(
+    p_lesson_id UUID,
+    p_user_id UUID,
+    p_messages JSONB,
+    p_start_position INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO lesson_messages (
+        lesson_id, user_id, message_id, position, role, content,
+        assessment_type, assessment_data, assessment_results, created_at
+    )
+    SELECT
+        p_lesson_id,
+        p_user_id,
+        COALESCE(msg->>'id', 'legacy_' || ord),
+        p_start_position + (ord - 1)::INTEGER,
+        msg->>'role',
+        COALESCE(msg->>'content', ''),
+        msg->'assessment'->>'type',
+        msg->'assessment'->'data',
+        msg->'assessment'->'results',
+        CASE
+            WHEN msg->>'createdAt' ~ '^\d{4}-\d{2}-\d{2}T' THEN (msg->>'createdAt')::TIMESTAMP WITH TIME ZONE
+            ELSE NOW()
+        END
+    FROM jsonb_array_elements(p_messages) WITH ORDINALITY AS m(msg, ord)
+    WHERE msg->>'role' IN ('user', 'assistant')
+    ON CONFLICT (lesson_id, message_id) DO NOTHING;
+END;
+$$ language 'plpgsql';
+
+-- Atomically append messages to the end of a lesson and return the new lesson version.
+-- The lesson row is locked so concurrent appends get consecutive positions.
+CREATE OR REPLACE FUNCTION append_lesson_messages(p_lesson_id UUID, p_messages JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    v_user_id UUID;
+    v_next_position INTEGER;
+    v_version INTEGER;
+BEGIN
+    SELECT user_id INTO v_user_id FROM lessons WHERE id = p_lesson_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Lesson % not found', p_lesson_id USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT COALESCE(MAX(position) + 1, 0) INTO v_next_position
+    FROM lesson_messages
+    WHERE lesson_id = p_lesson_id;
+
+    PERFORM insert_lesson_messages(p_lesson_id, v_user_id, p_messages, v_next_position);
+
+    UPDATE lessons SET updated_at = NOW() WHERE id = p_lesson_id RETURNING version INTO v_version;
+    RETURN v_version;
+END;
+$$ language 'plpgsql';
+
+-- Atomically replace all messages of a lesson. When p_expected_version is given and
+-- the lesson has changed since, raises serialization_failure (40001) instead.
+CREATE OR REPLACE FUNCTION replace_lesson_messages(
+    p_lesson_id UUID,
+    p_messages JSONB,
+    p_expected_version INTEGER DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_user_id UUID;
+    v_current_version INTEGER;
+    v_version INTEGER;
+BEGIN
+    SELECT user_id, version INTO v_user_id, v_current_version FROM lessons WHERE id = p_lesson_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Lesson % not found', p_lesson_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_expected_version IS NOT NULL AND v_current_version <> p_expected_version THEN
+        RAISE EXCEPTION 'Lesson % was modified concurrently', p_lesson_id USING ERRCODE = '40001';
+    END IF;
+
+    DELETE FROM lesson_messages WHERE lesson_id = p_lesson_id;
+    PERFORM insert_lesson_messages(p_lesson_id, v_user_id, p_messages, 0);
+
+    UPDATE lessons SET updated_at = NOW() WHERE id = p_lesson_id RETURNING version INTO v_version;
+    RETURN v_version;
+END;
+$$ language 'plpgsql';
+
+-- Backfill existing lessons from the JSONB blob. lessons.messages is left in place
+-- (no longer written) so the migration can be verified before the column is dropped.
+SELECT insert_lesson_messages(id, user_id, messages, 0)
+FROM lessons
+WHERE user_id IS NOT NULL
+  AND jsonb_typeof(messages) = 'array'
+  AND jsonb_array_length(messages) > 0;
@@ -0,0 +1,37 @@
+-- Assessment Attempts Migration
+-- Records every MCQ / True-False / flashcard submission so per-topic mastery can be computed
+
+-- Create assessment_attempts table
+CREATE TABLE IF NOT EXISTS assessment_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    course_id UUID REFERENCES courses(id) ON DELETE CASCADE,
+    lesson_id UUID REFERENCES lessons(id) ON DELETE SET NULL,
+    message_id TEXT, -- Lesson message the assessment was shown in
+    item_id TEXT NOT NULL, -- MCQ option set, T/F statement or flashcard id within the message
+    topic TEXT NOT NULL,
+    assessment_type VARCHAR(20) NOT NULL CHECK (assessment_type IN ('mcq', 'tf', 'flashcard')),
+    difficulty VARCHAR(10) DEFAULT 'medium' CHECK (difficulty IN ('easy', 'medium', 'hard')),
+    is_correct BOOLEAN NOT NULL,
+    score REAL NOT NULL DEFAULT 0 CHECK (score >= 0 AND score <= 1), -- Partial credit, e.g. 0.5 for an "on track" flashcard
+    latency_ms INTEGER CHECK (latency_ms >= 0), -- Time from the item being shown to the answer
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_assessment_attempts_user_id ON assessment_attempts(user_id);
+CREATE INDEX IF NOT EXISTS idx_assessment_attempts_course_topic ON assessment_attempts(course_id, topic);
+CREATE INDEX IF NOT EXISTS idx_assessment_attempts_lesson_id ON assessment_attempts(lesson_id);
+CREATE INDEX IF NOT EXISTS idx_assessment_attempts_created_at ON assessment_attempts(created_at);
+
+-- Enable Row Level Security
+ALTER TABLE assessment_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Attempts are append-only: users can read and record their own, but not change or
+-- delete them, since mastery is computed from them. Deleting the course removes its
+-- attempts through the foreign key.
+CREATE POLICY "Users can view their own assessment attempts" ON assessment_attempts
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own assessment attempts" ON assessment_attempts
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,12 @@
+-- Flashcard Review State Migration
+-- Adds SM-2 spaced-repetition scheduling state to saved flashcards
+
+ALTER TABLE flashcards ADD COLUMN IF NOT EXISTS ease_factor REAL NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3);
+ALTER TABLE flashcards ADD COLUMN IF NOT EXISTS interval_days INTEGER NOT NULL DEFAULT 0 CHECK (interval_days >= 0);
+ALTER TABLE flashcards ADD COLUMN IF NOT EXISTS repetitions INTEGER NOT NULL DEFAULT 0 CHECK (repetitions >= 0); -- Successful reviews in a row
+ALTER TABLE flashcards ADD COLUMN IF NOT EXISTS lapses INTEGER NOT NULL DEFAULT 0 CHECK (lapses >= 0); -- Times a learned card was forgotten
+ALTER TABLE flashcards ADD COLUMN IF NOT EXISTS due_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(); -- New cards are due immediately
+ALTER TABLE flashcards ADD COLUMN IF NOT EXISTS last_reviewed_at TIMESTAMP WITH TIME ZONE;
+
+-- Index for the "due today" queue
+CREATE INDEX IF NOT EXISTS idx_flashcards_user_due_at ON flashcards(user_id, due_at);
@@ -0,0 +1,292 @@
+-- Topic Join Tables Migration
+-- Materials, flashcards and lessons referenced topics by name in TEXT[] columns
+-- (materials.topic_tags, flashcards.topic_tags, lessons.topic_selection), so renaming or
+-- deleting a topic meant rewriting every array client-side. These join tables reference
+-- topics(id) instead, so renames need no rewrite and deletes cascade.
+-- The array columns are left in place for rollback but are no longer read or written.
+
+-- Create material_topics table
+CREATE TABLE IF NOT EXISTS material_topics (
+    material_id UUID NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    topic_id UUID NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (material_id, topic_id)
+);
+
+-- Create flashcard_topics table
+CREATE TABLE IF NOT EXISTS flashcard_topics (
+    flashcard_id UUID NOT NULL REFERENCES flashcards(id) ON DELETE CASCADE,
+    topic_id UUID NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (flashcard_id, topic_id)
+);
+
+-- Create lesson_topics table - position keeps the order the student picked topics in
+CREATE TABLE IF NOT EXISTS lesson_topics (
+    lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+    topic_id UUID NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (lesson_id, topic_id)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_material_topics_topic_id ON material_topics(topic_id);
+CREATE INDEX IF NOT EXISTS idx_material_topics_user_id ON material_topics(user_id);
+CREATE INDEX IF NOT EXISTS idx_flashcard_topics_topic_id ON flashcard_topics(topic_id);
+CREATE INDEX IF NOT EXISTS idx_flashcard_topics_user_id ON flashcard_topics(user_id);
+CREATE INDEX IF NOT EXISTS idx_lesson_topics_topic_id ON lesson_topics(topic_id);
+CREATE INDEX IF NOT EXISTS idx_lesson_topics_user_id ON lesson_topics(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE material_topics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE flashcard_topics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lesson_topics ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for material_topics table
+CREATE POLICY "Users can view their own material topics" ON material_topics
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own material topics" ON material_topics
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own material topics" ON material_topics
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Create RLS policies for flashcard_topics table
+CREATE POLICY "Users can view their own flashcard topics" ON flashcard_topics
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own flashcard topics" ON flashcard_topics
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own flashcard topics" ON flashcard_topics
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Create RLS policies for lesson_topics table
+CREATE POLICY "Users can view their own lesson topics" ON lesson_topics
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own lesson topics" ON lesson_topics
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own lesson topics" ON lesson_topics
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Backfill: names that only existed in the arrays become real topics.
+-- Matching is case-insensitive, like the duplicate check in the app.
+INSERT INTO topics (user_id, course_id, name)
+SELECT DISTINCT ON (tagged.course_id, lower(tagged.name)) tagged.user_id, tagged.course_id, tagged.name
+FROM (
+    SELECT m.user_id, m.course_id, btrim(tag) AS name, m.created_at
+    FROM materials m CROSS JOIN LATERAL unnest(m.topic_tags) AS tag
+    UNION ALL
+    SELECT f.user_id, f.course_id, btrim(tag), f.created_at
+    FROM flashcards f CROSS JOIN LATERAL unnest(f.topic_tags) AS tag
+    WHERE f.course_id IS NOT NULL
+    UNION ALL
+    SELECT l.user_id, l.course_id, btrim(tag), l.created_at
+    FROM lessons l CROSS JOIN LATERAL unnest(l.topic_selection) AS tag
+    WHERE l.course_id IS NOT NULL
+) AS tagged
+WHERE tagged.name <> ''
+  AND NOT EXISTS (
+      SELECT 1 FROM topics t
+      WHERE t.course_id = tagged.course_id AND lower(t.name) = lower(tagged.name)
+  )
+ORDER BY tagged.course_id, lower(tagged.name), tagged.created_at
+ON CONFLICT (course_id, name) DO NOTHING;
+
+INSERT INTO material_topics (material_id, topic_id, user_id)
+SELECT DISTINCT m.id, t.id, m.user_id
+FROM materials m
+CROSS JOIN LATERAL unnest(m.topic_tags) AS tag
+JOIN topics t ON t.course_id = m.course_id AND lower(t.name) = lower(btrim(tag))
+ON CONFLICT DO NOTHING;
+
+-- Flashcards saved outside a course have no topics to point at and keep no tags
+INSERT INTO flashcard_topics (flashcard_id, topic_id, user_id)
+SELECT DISTINCT f.id, t.id, f.user_id
+FROM flashcards f
+CROSS JOIN LATERAL unnest(f.topic_tags) AS tag
+JOIN topics t ON t.course_id = f.course_id AND lower(t.name) = lower(btrim(tag))
+ON CONFLICT DO NOTHING;
+
+INSERT INTO lesson_topics (lesson_id, topic_id, user_id, position)
+SELECT DISTINCT ON (l.id, t.id) l.id, t.id, l.user_id, selected.ordinality - 1
+FROM lessons l
+CROSS JOIN LATERAL unnest(l.topic_selection) WITH ORDINALITY AS selected(name, ordinality)
+JOIN topics t ON t.course_id = l.course_id AND lower(t.name) = lower(btrim(selected.name))
+ORDER BY l.id, t.id, selected.ordinality
+ON CONFLICT DO NOTHING;
+
+-- Resolve topic names to the caller's topic ids in a course, creating missing topics.
+-- Keeps the given order and drops blanks and duplicates.
+CREATE OR REPLACE FUNCTION resolve_topic_ids(p_course_id UUID, p_topic_names TEXT[])
+RETURNS UUID[] AS $$
+DECLARE
+    v_name TEXT;
+    v_topic_id UUID;
+    v_topic_ids UUID[] := '{}';
+BEGIN
+    FOREACH v_name IN ARRAY COALESCE(p_topic_names, '{}') LOOP
+        v_name := btrim(v_name);
+        CONTINUE WHEN v_name = '';
+
+        SELECT id INTO v_topic_id
+        FROM topics
+        WHERE course_id = p_course_id
+          AND user_id = auth.uid()
+          AND lower(name) = lower(v_name)
+        ORDER BY created_at
+        LIMIT 1;
+
+        IF v_topic_id IS NULL THEN
+            INSERT INTO topics (user_id, course_id, name)
+            VALUES (auth.uid(), p_course_id, v_name)
+            RETURNING id INTO v_topic_id;
+        END IF;
+
+        IF NOT v_topic_id = ANY(v_topic_ids) THEN
+            v_topic_ids := array_append(v_topic_ids, v_topic_id);
+        END IF;
+    END LOOP;
+
+    RETURN v_topic_ids;
+END;
+$$ language 'plpgsql';
+
+-- Replace a material's topics by name
+CREATE OR REPLACE FUNCTION set_material_topics(p_material_id UUID, p_topic_names TEXT[])
+RETURNS VOID AS $$
+DECLARE
+    v_course_id UUID;
+    v_topic_ids UUID[];
+BEGIN
+    SELECT course_id INTO v_course_id
+    FROM materials
+    WHERE id = p_material_id AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Material % not found', p_material_id USING ERRCODE = 'P0002';
+    END IF;
+
+    v_topic_ids := resolve_topic_ids(v_course_id, p_topic_names);
+
+    DELETE FROM material_topics
+    WHERE material_id = p_material_id AND NOT (topic_id = ANY(v_topic_ids));
+
+    INSERT INTO material_topics (material_id, topic_id, user_id)
+    SELECT p_material_id, topic_id, auth.uid()
+    FROM unnest(v_topic_ids) AS topic_id
+    ON CONFLICT DO NOTHING;
+END;
+$$ language 'plpgsql';
+
+-- Replace a flashcard's topics by name (flashcards without a course cannot be tagged)
+CREATE OR REPLACE FUNCTION set_flashcard_topics(p_flashcard_id UUID, p_topic_names TEXT[])
+RETURNS VOID AS $$
+DECLARE
+    v_course_id UUID;
+    v_topic_ids UUID[] := '{}';
+BEGIN
+    SELECT course_id INTO v_course_id
+    FROM flashcards
+    WHERE id = p_flashcard_id AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Flashcard % not found', p_flashcard_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_course_id IS NOT NULL THEN
+        v_topic_ids := resolve_topic_ids(v_course_id, p_topic_names);
+    END IF;
+
+    DELETE FROM flashcard_topics
+    WHERE flashcard_id = p_flashcard_id AND NOT (topic_id = ANY(v_topic_ids));
+
+    INSERT INTO flashcard_topics (flashcard_id, topic_id, user_id)
+    SELECT p_flashcard_id, topic_id, auth.uid()
+    FROM unnest(v_topic_ids) AS topic_id
+    ON CONFLICT DO NOTHING;
+END;
+$$ language 'plpgsql';
+
+-- Replace a lesson's selected topics by name, keeping their order
+CREATE OR REPLACE FUNCTION set_lesson_topics(p_lesson_id UUID, p_topic_names TEXT[])
+RETURNS VOID AS $$
+DECLARE
+    v_course_id UUID;
+    v_topic_ids UUID[] := '{}';
+BEGIN
+    SELECT course_id INTO v_course_id
+    FROM lessons
+    WHERE id = p_lesson_id AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Lesson % not found', p_lesson_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_course_id IS NOT NULL THEN
+        v_topic_ids := resolve_topic_ids(v_course_id, p_topic_names);
+    END IF;
+
+    DELETE FROM lesson_topics WHERE lesson_id = p_lesson_id;
+
+    INSERT INTO lesson_topics (lesson_id, topic_id, user_id, position)
+    SELECT p_lesson_id, selected.topic_id, auth.uid(), selected.ordinality - 1
+    FROM unnest(v_topic_ids) WITH ORDINALITY AS selected(topic_id, ordinality);
+END;
+$$ language 'plpgsql';
+
+-- Rename a topic. Materials, flashcards and lessons point at the id, so nothing else
+-- needs rewriting; the duplicate check and the update happen under one row lock.
+CREATE OR REPLACE FUNCTION rename_topic(p_topic_id UUID, p_name TEXT)
+RETURNS topics AS $$
+DECLARE
+    v_topic topics;
+    v_name TEXT := btrim(COALESCE(p_name, ''));
+BEGIN
+    IF v_name = '' THEN
+        RAISE EXCEPTION 'Topic name cannot be empty' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_topic
+    FROM topics
+    WHERE id = p_topic_id AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Topic % not found', p_topic_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM topics
+        WHERE course_id = v_topic.course_id
+          AND id <> p_topic_id
+          AND lower(name) = lower(v_name)
+    ) THEN
+        RAISE EXCEPTION 'Topic "%" already exists', v_name USING ERRCODE = '23505';
+    END IF;
+
+    UPDATE topics SET name = v_name WHERE id = p_topic_id
+    RETURNING * INTO v_topic;
+
+    RETURN v_topic;
+END;
+$$ language 'plpgsql';
+
+-- Delete a topic; its material, flashcard and lesson links go with it (ON DELETE CASCADE)
+CREATE OR REPLACE FUNCTION delete_topic(p_topic_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+    DELETE FROM topics WHERE id = p_topic_id AND user_id = auth.uid();
+    RETURN FOUND;
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,197 @@
+-- Topic Hierarchy Migration
+-- Topics were a flat list per course. Courses have units with sub-topics and prerequisite
+-- chains, so topics get an optional parent (units contain sub-topics) and a separate
+-- topic_prerequisites table of "topic requires prerequisite" edges. Both stay inside one
+-- course and may not form cycles; the functions below enforce that.
+-- Topic names stay unique per course because materials, flashcards and lessons are still
+-- tagged by name through resolve_topic_ids.
+
+-- Parent topic - deleting a unit moves its sub-topics to the top level
+ALTER TABLE topics
+    ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES topics(id) ON DELETE SET NULL;
+
+ALTER TABLE topics
+    DROP CONSTRAINT IF EXISTS topics_parent_not_self;
+
+ALTER TABLE topics
+    ADD CONSTRAINT topics_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_topics_parent_id ON topics(parent_id);
+
+-- Create topic_prerequisites table
+CREATE TABLE IF NOT EXISTS topic_prerequisites (
+    topic_id UUID NOT NULL,
+    prerequisite_topic_id UUID NOT NULL,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (topic_id, prerequisite_topic_id),
+    CONSTRAINT topic_prerequisites_topic_id_fkey
+        FOREIGN KEY (topic_id) REFERENCES topics(id) ON DELETE CASCADE,
+    CONSTRAINT topic_prerequisites_prerequisite_topic_id_fkey
+        FOREIGN KEY (prerequisite_topic_id) REFERENCES topics(id) ON DELETE CASCADE,
+    CONSTRAINT topic_prerequisites_not_self CHECK (topic_id <> prerequisite_topic_id)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_topic_prerequisites_prerequisite ON topic_prerequisites(prerequisite_topic_id);
+CREATE INDEX IF NOT EXISTS idx_topic_prerequisites_user_id ON topic_prerequisites(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE topic_prerequisites ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for topic_prerequisites table
+CREATE POLICY "Users can view their own topic prerequisites" ON topic_prerequisites
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own topic prerequisites" ON topic_prerequisites
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own topic prerequisites" ON topic_prerequisites
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Lessons can ask the tutor to check the selected topics' prerequisites first
+ALTER TABLE lessons
+    ADD COLUMN IF NOT EXISTS include_prerequisites BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Move a topic under another topic of the same course, or to the top level with NULL.
+-- A topic cannot become a descendant of itself.
+CREATE OR REPLACE FUNCTION set_topic_parent(p_topic_id UUID, p_parent_id UUID)
+RETURNS topics AS $$
+DECLARE
+    v_topic topics;
+BEGIN
+    SELECT * INTO v_topic
+    FROM topics
+    WHERE id = p_topic_id AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Topic % not found', p_topic_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_parent_id IS NOT NULL THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM topics
+            WHERE id = p_parent_id
+              AND course_id = v_topic.course_id
+              AND user_id = auth.uid()
+        ) THEN
+            RAISE EXCEPTION 'Parent topic % not found in this course', p_parent_id USING ERRCODE = 'P0002';
+        END IF;
+
+        IF EXISTS (
+            WITH RECURSIVE ancestors AS (
+                SELECT id, parent_id FROM topics WHERE id = p_parent_id
+                UNION
+                SELECT t.id, t.parent_id
+                FROM topics t
+                JOIN ancestors a ON t.id = a.parent_id
+            )
+            SELECT 1 FROM ancestors WHERE id = p_topic_id
+        ) THEN
+            RAISE EXCEPTION 'A topic cannot be placed under itself or one of its sub-topics' USING ERRCODE = '22023';
+        END IF;
+    END IF;
+
+    UPDATE topics SET parent_id = p_parent_id WHERE id = p_topic_id
+    RETURNING * INTO v_topic;
+
+    RETURN v_topic;
+END;
+$$ language 'plpgsql';
+
+-- Replace a topic's prerequisites. Every prerequisite must be in the same course and
+-- must not itself (directly or transitively) require the topic.
+CREATE OR REPLACE FUNCTION set_topic_prerequisites(p_topic_id UUID, p_prerequisite_ids UUID[])
+RETURNS VOID AS $$
+DECLARE
+    v_course_id UUID;
+    v_prerequisite_ids UUID[] := ARRAY(SELECT DISTINCT unnest(COALESCE(p_prerequisite_ids, '{}')));
+BEGIN
+    SELECT course_id INTO v_course_id
+    FROM topics
+    WHERE id = p_topic_id AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Topic % not found', p_topic_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_topic_id = ANY(v_prerequisite_ids) THEN
+        RAISE EXCEPTION 'A topic cannot be its own prerequisite' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM unnest(v_prerequisite_ids) AS prerequisite(id)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM topics
+            WHERE topics.id = prerequisite.id
+              AND course_id = v_course_id
+              AND user_id = auth.uid()
+        )
+    ) THEN
+        RAISE EXCEPTION 'Prerequisite topics must belong to the same course' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF EXISTS (
+        WITH RECURSIVE required AS (
+            SELECT tp.prerequisite_topic_id AS id
+            FROM topic_prerequisites tp
+            WHERE tp.topic_id = ANY(v_prerequisite_ids)
+            UNION
+            SELECT tp.prerequisite_topic_id
+            FROM topic_prerequisites tp
+            JOIN required r ON tp.topic_id = r.id
+        )
+        SELECT 1 FROM required WHERE id = p_topic_id
+    ) THEN
+        RAISE EXCEPTION 'Prerequisites cannot form a cycle' USING ERRCODE = '22023';
+    END IF;
+
+    DELETE FROM topic_prerequisites
+    WHERE topic_id = p_topic_id AND NOT (prerequisite_topic_id = ANY(v_prerequisite_ids));
+
+    INSERT INTO topic_prerequisites (topic_id, prerequisite_topic_id, user_id)
+    SELECT p_topic_id, prerequisite_id, auth.uid()
+    FROM unnest(v_prerequisite_ids) AS prerequisite_id
+    ON CONFLICT DO NOTHING;
+END;
+$$ language 'plpgsql';
+
+-- Everything the named topics build on: their prerequisites, the prerequisites of their
+-- parent units, and so on transitively. The selected topics themselves are left out.
+-- depth is the longest chain to the topic, so the most foundational topics come first.
+CREATE OR REPLACE FUNCTION get_topic_prerequisites(p_course_id UUID, p_topic_names TEXT[])
+RETURNS TABLE (id UUID, name TEXT, depth INTEGER) AS $$
+    WITH RECURSIVE selected AS (
+        SELECT t.id, t.parent_id
+        FROM topics t
+        WHERE t.course_id = p_course_id
+          AND t.user_id = auth.uid()
+          AND lower(t.name) IN (SELECT lower(btrim(n)) FROM unnest(p_topic_names) AS n)
+    ),
+    scope AS (
+        SELECT selected.id, selected.parent_id FROM selected
+        UNION
+        SELECT t.id, t.parent_id
+        FROM topics t
+        JOIN scope s ON t.id = s.parent_id
+    ),
+    required AS (
+        SELECT tp.prerequisite_topic_id AS id, 1 AS depth
+        FROM topic_prerequisites tp
+        WHERE tp.topic_id IN (SELECT scope.id FROM scope)
+        UNION
+        SELECT tp.prerequisite_topic_id, r.depth + 1
+        FROM topic_prerequisites tp
+        JOIN required r ON tp.topic_id = r.id
+        WHERE r.depth < 32
+    )
+    SELECT t.id, t.name, MAX(r.depth)::INTEGER AS depth
+    FROM required r
+    JOIN topics t ON t.id = r.id
+    WHERE t.user_id = auth.uid()
+      AND t.id NOT IN (SELECT selected.id FROM selected)
+    GROUP BY t.id, t.name
+    ORDER BY MAX(r.depth) DESC, t.name;
+$$ language 'sql' STABLE;
@@ -0,0 +1,108 @@
+-- Topic Suggestions Migration
+-- After a material is uploaded, a background job reads it and proposes topics for the course
+-- (optionally under a parent unit) and tags for the material, each with a confidence score.
+-- Students accept or reject them in the storage page's Topics tab.
+
+-- Extraction job state per material: pending -> processing -> completed | failed | skipped
+ALTER TABLE materials
+ADD COLUMN IF NOT EXISTS topic_extraction_status VARCHAR(20) DEFAULT 'pending'
+    CHECK (topic_extraction_status IN ('pending', 'processing', 'completed', 'failed', 'skipped')),
+ADD COLUMN IF NOT EXISTS topic_extraction_error TEXT,
+ADD COLUMN IF NOT EXISTS topic_extracted_at TIMESTAMP WITH TIME ZONE;
+
+-- Materials uploaded before this migration were tagged by hand
+UPDATE materials SET topic_extraction_status = 'skipped' WHERE topic_extraction_status = 'pending';
+
+COMMENT ON COLUMN materials.topic_extraction_status IS 'State of the automatic topic extraction job for this material';
+
+-- Create topic_suggestions table
+CREATE TABLE IF NOT EXISTS topic_suggestions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    material_id UUID NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    topic_name TEXT NOT NULL CHECK (btrim(topic_name) <> ''),
+    parent_topic_name TEXT, -- Unit the topic belongs to in the proposed outline
+    confidence REAL NOT NULL DEFAULT 0 CHECK (confidence >= 0 AND confidence <= 1),
+    reason TEXT, -- Short justification shown next to the suggestion
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_topic_suggestions_course_status ON topic_suggestions(course_id, status);
+CREATE INDEX IF NOT EXISTS idx_topic_suggestions_material_id ON topic_suggestions(material_id);
+CREATE INDEX IF NOT EXISTS idx_topic_suggestions_user_id ON topic_suggestions(user_id);
+
+-- One suggestion per topic per material
+CREATE UNIQUE INDEX IF NOT EXISTS idx_topic_suggestions_material_topic
+    ON topic_suggestions(material_id, lower(topic_name));
+
+-- Enable Row Level Security
+ALTER TABLE topic_suggestions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for topic_suggestions table
+CREATE POLICY "Users can view their own topic suggestions" ON topic_suggestions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own topic suggestions" ON topic_suggestions
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own topic suggestions" ON topic_suggestions
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own topic suggestions" ON topic_suggestions
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Accept a suggestion: create the topic (and its parent unit) if missing, place it under the
+-- parent when it has none yet, and tag the material with it
+CREATE OR REPLACE FUNCTION accept_topic_suggestion(p_suggestion_id UUID)
+RETURNS topic_suggestions AS $$
+DECLARE
+    v_suggestion topic_suggestions;
+    v_topic_id UUID;
+    v_parent_id UUID;
+BEGIN
+    SELECT * INTO v_suggestion
+    FROM topic_suggestions
+    WHERE id = p_suggestion_id AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Topic suggestion % not found', p_suggestion_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_suggestion.status <> 'pending' THEN
+        RAISE EXCEPTION 'Topic suggestion % was already %', p_suggestion_id, v_suggestion.status USING ERRCODE = '22023';
+    END IF;
+
+    v_topic_id := (resolve_topic_ids(v_suggestion.course_id, ARRAY[v_suggestion.topic_name]))[1];
+
+    IF v_suggestion.parent_topic_name IS NOT NULL AND btrim(v_suggestion.parent_topic_name) <> '' THEN
+        v_parent_id := (resolve_topic_ids(v_suggestion.course_id, ARRAY[v_suggestion.parent_topic_name]))[1];
+
+        IF v_parent_id <> v_topic_id AND EXISTS (
+            SELECT 1 FROM topics WHERE id = v_topic_id AND parent_id IS NULL
+        ) THEN
+            BEGIN
+                PERFORM set_topic_parent(v_topic_id, v_parent_id);
+            EXCEPTION WHEN SQLSTATE '22023' THEN
+                -- The parent is already below this topic; keep the existing hierarchy
+                NULL;
+            END;
+        END IF;
+    END IF;
+
+    INSERT INTO material_topics (material_id, topic_id, user_id)
+    VALUES (v_suggestion.material_id, v_topic_id, auth.uid())
+    ON CONFLICT DO NOTHING;
+
+    UPDATE topic_suggestions
+    SET status = 'accepted', resolved_at = NOW()
+    WHERE id = p_suggestion_id
+    RETURNING * INTO v_suggestion;
+
+    RETURN v_suggestion;
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,104 @@
+-- Material Chunks Migration
+-- Text is extracted from uploaded materials (PDF, DOCX, PPTX, CSV, plain text) once, at upload
+-- time, and stored as page-aware chunks so later features can work from our own copy of the
+-- content instead of re-sending whole files to the model provider.
+
+-- Extraction job state per material: pending -> processing -> completed | failed | unsupported
+ALTER TABLE materials
+ADD COLUMN IF NOT EXISTS text_extraction_status VARCHAR(20) DEFAULT 'pending'
+    CHECK (text_extraction_status IN ('pending', 'processing', 'completed', 'failed', 'unsupported')),
+ADD COLUMN IF NOT EXISTS text_extraction_error TEXT,
+ADD COLUMN IF NOT EXISTS text_extracted_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS page_count INTEGER, -- Pages or slides; NULL for formats without pages
+ADD COLUMN IF NOT EXISTS chunk_count INTEGER NOT NULL DEFAULT 0;
+
+-- Materials uploaded before this migration stay 'pending' until extraction is started from the storage page
+
+COMMENT ON COLUMN materials.text_extraction_status IS 'State of the text extraction and chunking job for this material';
+
+-- Create material_chunks table
+CREATE TABLE IF NOT EXISTS material_chunks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    material_id UUID NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL CHECK (chunk_index >= 0),
+    page_number INTEGER CHECK (page_number > 0), -- Page or slide the chunk comes from; NULL for formats without pages
+    section TEXT, -- Nearest heading, slide title or CSV row range
+    content TEXT NOT NULL,
+    token_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(material_id, chunk_index)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_material_chunks_course_id ON material_chunks(course_id);
+CREATE INDEX IF NOT EXISTS idx_material_chunks_material_page ON material_chunks(material_id, page_number);
+CREATE INDEX IF NOT EXISTS idx_material_chunks_user_id ON material_chunks(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE material_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for material_chunks table
+CREATE POLICY "Users can view their own material chunks" ON material_chunks
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own material chunks" ON material_chunks
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own material chunks" ON material_chunks
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Replace a material's chunks and mark its extraction completed in one transaction, so a
+-- re-run never leaves a half-written set behind.
+-- p_chunks: [{ "chunk_index": 0, "page_number": 1, "section": "...", "content": "...", "token_count": 42 }, ...]
+CREATE OR REPLACE FUNCTION replace_material_chunks(
+    p_material_id UUID,
+    p_chunks JSONB,
+    p_page_count INTEGER DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_material materials;
+    v_count INTEGER;
+BEGIN
+    SELECT * INTO v_material
+    FROM materials
+    WHERE id = p_material_id AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Material % not found', p_material_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF jsonb_typeof(p_chunks) <> 'array' THEN
+        RAISE EXCEPTION 'Chunks must be a JSON array' USING ERRCODE = '22023';
+    END IF;
+
+    DELETE FROM material_chunks WHERE material_id = p_material_id;
+
+    INSERT INTO material_chunks (user_id, course_id, material_id, chunk_index, page_number, section, content, token_count)
+    SELECT
+        auth.uid(),
+        v_material.course_id,
+        p_material_id,
+        (chunk->>'chunk_index')::INTEGER,
+        (chunk->>'page_number')::INTEGER,
+        chunk->>'section',
+        chunk->>'content',
+        COALESCE((chunk->>'token_count')::INTEGER, 0)
+    FROM jsonb_array_elements(p_chunks) AS chunk;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    UPDATE materials
+    SET text_extraction_status = 'completed',
+        text_extraction_error = NULL,
+        text_extracted_at = NOW(),
+        page_count = p_page_count,
+        chunk_count = v_count
+    WHERE id = p_material_id;
+
+    RETURN v_count;
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,131 @@
+-- Material Chunk Search Migration
+-- Embeddings (pgvector) and a full-text index for material chunks, plus a hybrid search
+-- function so the tutor can be given the most relevant passages instead of whole files.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- 768 dimensions: Gemini text-embedding-004, nomic-embed-text and the offline mock all produce this size
+ALTER TABLE material_chunks
+ADD COLUMN IF NOT EXISTS embedding vector(768),
+ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', coalesce(section, '') || ' ' || content)) STORED;
+
+COMMENT ON COLUMN material_chunks.embedding IS 'Embedding of section + content; NULL until embedded (keyword search still works)';
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_material_chunks_search_vector ON material_chunks USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_material_chunks_embedding ON material_chunks USING hnsw (embedding vector_cosine_ops);
+
+-- Allow the ingestion job to store embeddings on existing chunks
+CREATE POLICY "Users can update their own material chunks" ON material_chunks
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- Store embeddings for a material's chunks
+-- p_embeddings: [{ "chunk_index": 0, "embedding": [0.01, -0.2, ...] }, ...]
+CREATE OR REPLACE FUNCTION set_material_chunk_embeddings(
+    p_material_id UUID,
+    p_embeddings JSONB,
+    p_model TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM materials WHERE id = p_material_id AND user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Material % not found', p_material_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF jsonb_typeof(p_embeddings) <> 'array' THEN
+        RAISE EXCEPTION 'Embeddings must be a JSON array' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE material_chunks c
+    SET embedding = (e->>'embedding')::vector,
+        embedding_model = p_model
+    FROM jsonb_array_elements(p_embeddings) AS e
+    WHERE c.material_id = p_material_id
+      AND c.chunk_index = (e->>'chunk_index')::INTEGER;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ language 'plpgsql';
+
+-- Hybrid search over a course's chunks: keyword (full-text) and vector rankings are merged
+-- with reciprocal rank fusion, so a chunk ranked well by either method is returned.
+-- Keyword terms are OR-ed so natural-language questions still match.
+-- Without p_query_embedding (or before chunks are embedded) it falls back to keyword search alone.
+CREATE OR REPLACE FUNCTION search_material_chunks(
+    p_course_id UUID,
+    p_query TEXT,
+    p_query_embedding vector(768) DEFAULT NULL,
+    p_material_ids UUID[] DEFAULT NULL,
+    p_match_count INTEGER DEFAULT 8,
+    p_keyword_weight REAL DEFAULT 1,
+    p_semantic_weight REAL DEFAULT 1,
+    p_rrf_k INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    id UUID,
+    material_id UUID,
+    file_name TEXT,
+    chunk_index INTEGER,
+    page_number INTEGER,
+    section TEXT,
+    content TEXT,
+    token_count INTEGER,
+    keyword_rank BIGINT,
+    semantic_rank BIGINT,
+    score REAL
+) AS $$
+DECLARE
+    v_query tsquery;
+    v_candidates INTEGER := GREATEST(p_match_count, 1) * 4;
+BEGIN
+    v_query := to_tsquery('english', replace(plainto_tsquery('english', coalesce(p_query, ''))::TEXT, ' & ', ' | '));
+
+    RETURN QUERY
+    WITH scoped AS (
+        SELECT c.*
+        FROM material_chunks c
+        WHERE c.course_id = p_course_id
+          AND c.user_id = auth.uid()
+          AND (p_material_ids IS NULL OR c.material_id = ANY(p_material_ids))
+    ),
+    keyword AS (
+        SELECT s.id, row_number() OVER (ORDER BY ts_rank_cd(s.search_vector, v_query) DESC) AS rank_ix
+        FROM scoped s
+        WHERE v_query IS NOT NULL AND s.search_vector @@ v_query
+        ORDER BY rank_ix
+        LIMIT v_candidates
+    ),
+    semantic AS (
+        SELECT s.id, row_number() OVER (ORDER BY s.embedding <=> p_query_embedding) AS rank_ix
+        FROM scoped s
+        WHERE p_query_embedding IS NOT NULL AND s.embedding IS NOT NULL
+        ORDER BY rank_ix
+        LIMIT v_candidates
+    )
+    SELECT
+        c.id,
+        c.material_id,
+        m.file_name::TEXT,
+        c.chunk_index,
+        c.page_number,
+        c.section,
+        c.content,
+        c.token_count,
+        keyword.rank_ix,
+        semantic.rank_ix,
+        (coalesce(1.0 / (p_rrf_k + keyword.rank_ix), 0.0) * p_keyword_weight +
+         coalesce(1.0 / (p_rrf_k + semantic.rank_ix), 0.0) * p_semantic_weight)::REAL AS score
+    FROM keyword
+    FULL OUTER JOIN semantic ON keyword.id = semantic.id
+    JOIN material_chunks c ON c.id = coalesce(keyword.id, semantic.id)
+    JOIN materials m ON m.id = c.material_id
+    -- By position: "score" would be ambiguous with the output column
+    ORDER BY 11 DESC, c.material_id, c.chunk_index
+    LIMIT p_match_count;
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,43 @@
+-- Lesson Message Citations Migration
+-- Assistant replies keep the material passages they cited (material id, page, excerpt)
+-- so the footnotes still open the right page when the lesson is reloaded.
+
+ALTER TABLE lesson_messages
+    ADD COLUMN IF NOT EXISTS citations JSONB;
+
+-- Same as before, plus the message's citations
+CREATE OR REPLACE FUNCTION insert_lesson_messages(
+    p_lesson_id UUID,
+    p_user_id UUID,
+    p_messages JSONB,
+    p_start_position INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO lesson_messages (
+        lesson_id, user_id, message_id, position, role, content,
+        assessment_type, assessment_data, assessment_results, citations, created_at
+    )
+    SELECT
+        p_lesson_id,
+        p_user_id,
+        COALESCE(msg->>'id', 'legacy_' || ord),
+        p_start_position + (ord - 1)::INTEGER,
+        msg->>'role',
+        COALESCE(msg->>'content', ''),
+        msg->'assessment'->>'type',
+        msg->'assessment'->'data',
+        msg->'assessment'->'results',
+        CASE
+            WHEN jsonb_typeof(msg->'citations') = 'array' AND jsonb_array_length(msg->'citations') > 0 THEN msg->'citations'
+            ELSE NULL
+        END,
+        CASE
+            WHEN msg->>'createdAt' ~ '^\d{4}-\d{2}-\d{2}T' THEN (msg->>'createdAt')::TIMESTAMP WITH TIME ZONE
+            ELSE NOW()
+        END
+    FROM jsonb_array_elements(p_messages) WITH ORDINALITY AS m(msg, ord)
+    WHERE msg->>'role' IN ('user', 'assistant')
+    ON CONFLICT (lesson_id, message_id) DO NOTHING;
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,31 @@
+-- Google File Lifecycle Migration
+-- Files uploaded to the Gemini File API are deleted after 48 hours. Tracking the expiry
+-- (and the upload state) lets the app reuse cached URIs without asking Google on every
+-- request and refresh files of active courses before they lapse.
+
+ALTER TABLE materials
+    ADD COLUMN IF NOT EXISTS google_file_name VARCHAR(200), -- "files/abc123", used to look the file up
+    ADD COLUMN IF NOT EXISTS google_file_expires_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS google_file_status VARCHAR(20) NOT NULL DEFAULT 'none'
+        CHECK (google_file_status IN ('none', 'uploading', 'processing', 'active', 'expired', 'failed')),
+    ADD COLUMN IF NOT EXISTS google_file_error TEXT;
+
+-- Existing cached URIs expire 48 hours after their upload
+UPDATE materials
+SET google_file_name = 'files/' || split_part(google_file_uri, '/files/', 2),
+    google_file_expires_at = google_uploaded_at + INTERVAL '48 hours',
+    google_file_status = CASE
+        WHEN google_uploaded_at + INTERVAL '48 hours' > NOW() THEN 'active'
+        ELSE 'expired'
+    END
+WHERE google_file_uri IS NOT NULL
+  AND google_file_uri <> ''
+  AND google_uploaded_at IS NOT NULL;
+
+-- Finding files that are about to expire
+CREATE INDEX IF NOT EXISTS idx_materials_google_file_expiry ON materials(course_id, google_file_expires_at)
+    WHERE google_file_status = 'active';
+
+COMMENT ON COLUMN materials.google_file_name IS 'Resource name of the uploaded Google file, e.g. files/abc123';
+COMMENT ON COLUMN materials.google_file_expires_at IS 'When Google deletes the uploaded file (48 hours after upload)';
+COMMENT ON COLUMN materials.google_file_status IS 'none, uploading, processing, active, expired or failed';
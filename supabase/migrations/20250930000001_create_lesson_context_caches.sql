@@ -0,0 +1,72 @@
+-- Lesson Context Caches Migration
+-- Material-backed lesson turns resend the same system prompt and file parts to Gemini.
+-- The chat route caches that context with the Gemini caching API, one cache per lesson,
+-- and records every turn's outcome so the saving can be checked.
+
+-- Current cached context of each lesson
+CREATE TABLE IF NOT EXISTS lesson_context_caches (
+    lesson_id UUID PRIMARY KEY REFERENCES lessons(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    cache_key TEXT NOT NULL, -- Hash of the model, system prompt, tools and material files
+    cache_name TEXT, -- "cachedContents/abc123"; NULL when this context can't be cached (e.g. too small)
+    model VARCHAR(100) NOT NULL,
+    token_count INTEGER,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per material-backed turn
+CREATE TABLE IF NOT EXISTS context_cache_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('hit', 'miss', 'uncacheable', 'bypass')),
+    reason TEXT,
+    cache_name TEXT,
+    prompt_tokens INTEGER,
+    cached_tokens INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_lesson_context_caches_user_id ON lesson_context_caches(user_id);
+CREATE INDEX IF NOT EXISTS idx_context_cache_events_lesson_id ON context_cache_events(lesson_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_context_cache_events_user_id ON context_cache_events(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE lesson_context_caches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE context_cache_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access the caches of their own lessons
+CREATE POLICY "Users can access own lesson context caches" ON lesson_context_caches
+    FOR ALL USING (auth.uid() = user_id);
+
+-- RLS Policies: Users can view and record their own cache events
+CREATE POLICY "Users can view own context cache events" ON context_cache_events
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own context cache events" ON context_cache_events
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_lesson_context_caches_updated_at
+    BEFORE UPDATE ON lesson_context_caches
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Hit rate and token saving per lesson
+CREATE OR REPLACE VIEW context_cache_stats
+WITH (security_invoker = true) AS
+SELECT
+    lesson_id,
+    user_id,
+    COUNT(*) FILTER (WHERE outcome = 'hit') AS hits,
+    COUNT(*) FILTER (WHERE outcome = 'miss') AS misses,
+    COUNT(*) FILTER (WHERE outcome IN ('uncacheable', 'bypass')) AS uncached,
+    COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens,
+    COALESCE(SUM(cached_tokens), 0) AS cached_tokens,
+    MAX(created_at) AS last_turn_at
+FROM context_cache_events
+GROUP BY lesson_id, user_id;
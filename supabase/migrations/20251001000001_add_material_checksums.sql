@@ -0,0 +1,15 @@
+-- Material Checksums Migration
+-- Materials are streamed to the Gemini File API with a resumable upload and checked against
+-- the SHA-256 taken in the browser. The checksum also lets identical files in different
+-- courses share one uploaded Google file.
+
+ALTER TABLE materials
+    ADD COLUMN IF NOT EXISTS sha256 CHAR(64) CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+    ADD COLUMN IF NOT EXISTS google_upload_url TEXT; -- Resumable upload session in progress, to continue after an interruption
+
+-- Finding a user's other copies of a file
+CREATE INDEX IF NOT EXISTS idx_materials_user_sha256 ON materials(user_id, sha256)
+    WHERE sha256 IS NOT NULL;
+
+COMMENT ON COLUMN materials.sha256 IS 'Hex SHA-256 of the stored file, verified when it is uploaded to Google';
+COMMENT ON COLUMN materials.google_upload_url IS 'Gemini resumable upload session URL while an upload is unfinished';
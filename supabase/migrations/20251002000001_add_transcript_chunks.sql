@@ -0,0 +1,155 @@
+-- Transcript Chunks Migration
+-- Lecture audio and video are transcribed at ingestion time. Their chunks carry the time
+-- range they were spoken in, so the tutor can cite "Lecture 3 at 14:22" and the viewer can
+-- play the recording from there.
+
+ALTER TABLE material_chunks
+ADD COLUMN IF NOT EXISTS start_seconds REAL CHECK (start_seconds >= 0), -- Where a transcript chunk starts in the recording; NULL for documents
+ADD COLUMN IF NOT EXISTS end_seconds REAL CHECK (end_seconds >= 0);
+
+ALTER TABLE materials
+ADD COLUMN IF NOT EXISTS duration_seconds REAL; -- Length of an audio or video recording
+
+COMMENT ON COLUMN material_chunks.start_seconds IS 'Start of a transcript chunk in the recording, in seconds; NULL for documents';
+COMMENT ON COLUMN materials.duration_seconds IS 'Length of an audio or video recording, in seconds';
+
+-- Replace a material's chunks and mark its extraction completed in one transaction.
+-- Transcript chunks add "start_seconds" and "end_seconds".
+-- p_chunks: [{ "chunk_index": 0, "page_number": 1, "section": "...", "content": "...", "token_count": 42 }, ...]
+DROP FUNCTION IF EXISTS replace_material_chunks(UUID, JSONB, INTEGER);
+
+CREATE OR REPLACE FUNCTION replace_material_chunks(
+    p_material_id UUID,
+    p_chunks JSONB,
+    p_page_count INTEGER DEFAULT NULL,
+    p_duration_seconds REAL DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_material materials;
+    v_count INTEGER;
+BEGIN
+    SELECT * INTO v_material
+    FROM materials
+    WHERE id = p_material_id AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Material % not found', p_material_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF jsonb_typeof(p_chunks) <> 'array' THEN
+        RAISE EXCEPTION 'Chunks must be a JSON array' USING ERRCODE = '22023';
+    END IF;
+
+    DELETE FROM material_chunks WHERE material_id = p_material_id;
+
+    INSERT INTO material_chunks (user_id, course_id, material_id, chunk_index, page_number, section, content, token_count, start_seconds, end_seconds)
+    SELECT
+        auth.uid(),
+        v_material.course_id,
+        p_material_id,
+        (chunk->>'chunk_index')::INTEGER,
+        (chunk->>'page_number')::INTEGER,
+        chunk->>'section',
+        chunk->>'content',
+        COALESCE((chunk->>'token_count')::INTEGER, 0),
+        (chunk->>'start_seconds')::REAL,
+        (chunk->>'end_seconds')::REAL
+    FROM jsonb_array_elements(p_chunks) AS chunk;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    UPDATE materials
+    SET text_extraction_status = 'completed',
+        text_extraction_error = NULL,
+        text_extracted_at = NOW(),
+        page_count = p_page_count,
+        duration_seconds = p_duration_seconds,
+        chunk_count = v_count
+    WHERE id = p_material_id;
+
+    RETURN v_count;
+END;
+$$ language 'plpgsql';
+
+-- Same hybrid search as before, returning where transcript chunks start and end
+DROP FUNCTION IF EXISTS search_material_chunks(UUID, TEXT, vector, UUID[], INTEGER, REAL, REAL, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_material_chunks(
+    p_course_id UUID,
+    p_query TEXT,
+    p_query_embedding vector(768) DEFAULT NULL,
+    p_material_ids UUID[] DEFAULT NULL,
+    p_match_count INTEGER DEFAULT 8,
+    p_keyword_weight REAL DEFAULT 1,
+    p_semantic_weight REAL DEFAULT 1,
+    p_rrf_k INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    id UUID,
+    material_id UUID,
+    file_name TEXT,
+    chunk_index INTEGER,
+    page_number INTEGER,
+    section TEXT,
+    content TEXT,
+    token_count INTEGER,
+    keyword_rank BIGINT,
+    semantic_rank BIGINT,
+    score REAL,
+    start_seconds REAL,
+    end_seconds REAL
+) AS $$
+DECLARE
+    v_query tsquery;
+    v_candidates INTEGER := GREATEST(p_match_count, 1) * 4;
+BEGIN
+    v_query := to_tsquery('english', replace(plainto_tsquery('english', coalesce(p_query, ''))::TEXT, ' & ', ' | '));
+
+    RETURN QUERY
+    WITH scoped AS (
+        SELECT c.*
+        FROM material_chunks c
+        WHERE c.course_id = p_course_id
+          AND c.user_id = auth.uid()
+          AND (p_material_ids IS NULL OR c.material_id = ANY(p_material_ids))
+    ),
+    keyword AS (
+        SELECT s.id, row_number() OVER (ORDER BY ts_rank_cd(s.search_vector, v_query) DESC) AS rank_ix
+        FROM scoped s
+        WHERE v_query IS NOT NULL AND s.search_vector @@ v_query
+        ORDER BY rank_ix
+        LIMIT v_candidates
+    ),
+    semantic AS (
+        SELECT s.id, row_number() OVER (ORDER BY s.embedding <=> p_query_embedding) AS rank_ix
+        FROM scoped s
+        WHERE p_query_embedding IS NOT NULL AND s.embedding IS NOT NULL
+        ORDER BY rank_ix
+        LIMIT v_candidates
+    )
+    SELECT
+        c.id,
+        c.material_id,
+        m.file_name::TEXT,
+        c.chunk_index,
+        c.page_number,
+        c.section,
+        c.content,
+        c.token_count,
+        keyword.rank_ix,
+        semantic.rank_ix,
+        (coalesce(1.0 / (p_rrf_k + keyword.rank_ix), 0.0) * p_keyword_weight +
+         coalesce(1.0 / (p_rrf_k + semantic.rank_ix), 0.0) * p_semantic_weight)::REAL AS score,
+        c.start_seconds,
+        c.end_seconds
+    FROM keyword
+    FULL OUTER JOIN semantic ON keyword.id = semantic.id
+    JOIN material_chunks c ON c.id = coalesce(keyword.id, semantic.id)
+    JOIN materials m ON m.id = c.material_id
+    -- By position: "score" would be ambiguous with the output column
+    ORDER BY 11 DESC, c.material_id, c.chunk_index
+    LIMIT p_match_count;
+END;
+$$ language 'plpgsql';
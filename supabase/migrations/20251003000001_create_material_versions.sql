@@ -0,0 +1,181 @@
+-- Material Versions Migration
+-- Uploading an updated file (e.g. revised lecture slides) replaces a material in place instead
+-- of adding a second one. Every file a material has had is kept as a version, and lessons and
+-- flashcards record the version they were generated from, so they can show when the material
+-- has changed since.
+
+-- Current version of each material; starts at 1 and goes up with each replacement
+ALTER TABLE materials
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1 CHECK (version > 0);
+
+-- Create material_versions table - one row per file a material has had, including the current one
+CREATE TABLE IF NOT EXISTS material_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    material_id UUID NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL CHECK (version > 0),
+    file_name TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    file_size BIGINT NOT NULL,
+    mime_type TEXT NOT NULL,
+    sha256 CHAR(64),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    replaced_at TIMESTAMP WITH TIME ZONE, -- NULL for the current version
+    UNIQUE(material_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_material_versions_user_id ON material_versions(user_id);
+
+ALTER TABLE material_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own material versions" ON material_versions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own material versions" ON material_versions
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own material versions" ON material_versions
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- Existing materials start out as their own version 1
+INSERT INTO material_versions (material_id, user_id, version, file_name, file_path, file_size, mime_type, sha256, created_at)
+SELECT id, user_id, version, file_name, file_path, file_size, mime_type, sha256, created_at
+FROM materials
+ON CONFLICT (material_id, version) DO NOTHING;
+
+-- Record version 1 of every new material, whichever way it was added
+CREATE OR REPLACE FUNCTION record_initial_material_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO material_versions (material_id, user_id, version, file_name, file_path, file_size, mime_type, sha256)
+    VALUES (NEW.id, NEW.user_id, NEW.version, NEW.file_name, NEW.file_path, NEW.file_size, NEW.mime_type, NEW.sha256)
+    ON CONFLICT (material_id, version) DO NOTHING;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS record_initial_material_version ON materials;
+CREATE TRIGGER record_initial_material_version AFTER INSERT ON materials
+    FOR EACH ROW EXECUTE FUNCTION record_initial_material_version();
+
+-- Replace a material's file with a new version in one transaction. The old file stays in
+-- storage as history. Everything derived from the old file is dropped: the Google file
+-- (which may be shared with identical copies, so it is left to expire rather than deleted),
+-- the extracted chunks and their embeddings. Returns the new version number.
+CREATE OR REPLACE FUNCTION replace_material_file(
+    p_material_id UUID,
+    p_file_name TEXT,
+    p_file_path TEXT,
+    p_file_size BIGINT,
+    p_mime_type TEXT,
+    p_sha256 CHAR(64) DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_material materials;
+    v_version INTEGER;
+BEGIN
+    SELECT * INTO v_material
+    FROM materials
+    WHERE id = p_material_id AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Material % not found', p_material_id USING ERRCODE = 'P0002';
+    END IF;
+
+    v_version := v_material.version + 1;
+
+    UPDATE material_versions
+    SET replaced_at = NOW()
+    WHERE material_id = p_material_id AND replaced_at IS NULL;
+
+    INSERT INTO material_versions (material_id, user_id, version, file_name, file_path, file_size, mime_type, sha256)
+    VALUES (p_material_id, auth.uid(), v_version, p_file_name, p_file_path, p_file_size, p_mime_type, p_sha256);
+
+    DELETE FROM material_chunks WHERE material_id = p_material_id;
+
+    UPDATE materials
+    SET version = v_version,
+        file_name = p_file_name,
+        file_path = p_file_path,
+        file_size = p_file_size,
+        mime_type = p_mime_type,
+        sha256 = p_sha256,
+        google_file_uri = NULL,
+        google_file_name = NULL,
+        google_uploaded_at = NULL,
+        google_file_expires_at = NULL,
+        google_file_status = 'none',
+        google_file_error = NULL,
+        google_upload_url = NULL,
+        text_extraction_status = 'pending',
+        text_extraction_error = NULL,
+        text_extracted_at = NULL,
+        page_count = NULL,
+        duration_seconds = NULL,
+        chunk_count = 0,
+        topic_extraction_status = 'pending',
+        topic_extraction_error = NULL,
+        topic_extracted_at = NULL
+    WHERE id = p_material_id;
+
+    RETURN v_version;
+END;
+$$ language 'plpgsql';
+
+-- Create lesson_materials table - the version of each material a lesson's replies were last
+-- generated from
+CREATE TABLE IF NOT EXISTS lesson_materials (
+    lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+    material_id UUID NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    material_version INTEGER NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (lesson_id, material_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_materials_material_id ON lesson_materials(material_id);
+CREATE INDEX IF NOT EXISTS idx_lesson_materials_user_id ON lesson_materials(user_id);
+
+ALTER TABLE lesson_materials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own lesson materials" ON lesson_materials
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own lesson materials" ON lesson_materials
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own lesson materials" ON lesson_materials
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- Record the current version of each material a lesson turn used
+CREATE OR REPLACE FUNCTION record_lesson_materials(
+    p_lesson_id UUID,
+    p_material_ids UUID[]
+)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM lessons WHERE id = p_lesson_id AND user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Lesson % not found', p_lesson_id USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO lesson_materials (lesson_id, material_id, user_id, material_version, used_at)
+    SELECT p_lesson_id, m.id, auth.uid(), m.version, NOW()
+    FROM materials m
+    WHERE m.id = ANY(p_material_ids) AND m.user_id = auth.uid()
+    ON CONFLICT (lesson_id, material_id) DO UPDATE
+    SET material_version = EXCLUDED.material_version,
+        used_at = EXCLUDED.used_at;
+END;
+$$ language 'plpgsql';
+
+-- Flashcards remember the material and version they were drawn from
+ALTER TABLE flashcards
+ADD COLUMN IF NOT EXISTS source_material_id UUID REFERENCES materials(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS source_material_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_flashcards_source_material_id ON flashcards(source_material_id);
+
+COMMENT ON COLUMN materials.version IS 'Current version; earlier files are kept in material_versions';
+COMMENT ON COLUMN flashcards.source_material_version IS 'Version of source_material_id the flashcard was generated from';
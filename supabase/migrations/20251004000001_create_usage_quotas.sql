@@ -0,0 +1,69 @@
+-- Usage Quotas Migration
+-- Caps how much each user can store in the materials bucket and how many model tokens
+-- their lessons can use each month. Storage is the size of every file version the user
+-- keeps; tokens are recorded per model request by the chat route and assessment actions.
+
+-- Create token_usage table - one row per model request
+CREATE TABLE IF NOT EXISTS token_usage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    lesson_id UUID REFERENCES lessons(id) ON DELETE SET NULL,
+    source TEXT NOT NULL CHECK (source IN ('chat', 'assessment')),
+    model TEXT,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0 CHECK (prompt_tokens >= 0),
+    completion_tokens INTEGER NOT NULL DEFAULT 0 CHECK (completion_tokens >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_usage_user_id_created_at ON token_usage(user_id, created_at);
+
+ALTER TABLE token_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own token usage" ON token_usage
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own token usage" ON token_usage
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Create user_quotas table - per-user limits that replace the defaults. Users can read
+-- theirs but only the service role can change them.
+CREATE TABLE IF NOT EXISTS user_quotas (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    storage_limit_bytes BIGINT CHECK (storage_limit_bytes >= 0), -- NULL keeps the default
+    monthly_token_limit BIGINT CHECK (monthly_token_limit >= 0), -- NULL keeps the default
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE user_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own quotas" ON user_quotas
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_quotas_updated_at BEFORE UPDATE ON user_quotas
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Bytes stored and tokens used since p_since by the current user, with any limits set for them
+CREATE OR REPLACE FUNCTION get_usage_summary(p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+    storage_bytes BIGINT,
+    tokens_used BIGINT,
+    storage_limit_bytes BIGINT,
+    monthly_token_limit BIGINT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        (SELECT COALESCE(SUM(v.file_size), 0)::BIGINT
+         FROM material_versions v
+         WHERE v.user_id = auth.uid()),
+        (SELECT COALESCE(SUM(t.prompt_tokens + t.completion_tokens), 0)::BIGINT
+         FROM token_usage t
+         WHERE t.user_id = auth.uid() AND t.created_at >= p_since),
+        (SELECT q.storage_limit_bytes FROM user_quotas q WHERE q.user_id = auth.uid()),
+        (SELECT q.monthly_token_limit FROM user_quotas q WHERE q.user_id = auth.uid());
+END;
+$$ language 'plpgsql';
+
+COMMENT ON TABLE token_usage IS 'Model tokens used per request, summed per month against the token quota';
+COMMENT ON TABLE user_quotas IS 'Per-user storage and token limits; defaults come from the app configuration';
@@ -0,0 +1,99 @@
+-- Subscriptions Migration
+-- Paid plans are sold through Paddle. Its webhooks keep one row per Paddle subscription
+-- here, and the app reads the user's live subscription to decide their entitlements:
+-- storage quota, monthly tokens, lessons per month and which models they get.
+
+-- Create subscriptions table - the latest state Paddle has sent for each subscription.
+-- Only the webhook (service role) writes to it.
+CREATE TABLE IF NOT EXISTS subscriptions (
+    id TEXT PRIMARY KEY, -- Paddle subscription ID (sub_...)
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    customer_id TEXT NOT NULL, -- Paddle customer ID (ctm_...)
+    status TEXT NOT NULL CHECK (status IN ('active', 'canceled', 'past_due', 'paused', 'trialing')),
+    price_id TEXT, -- Paddle price of the subscription's first item, mapped to a pricing tier
+    current_period_ends_at TIMESTAMP WITH TIME ZONE,
+    canceled_at TIMESTAMP WITH TIME ZONE,
+    -- When Paddle raised the event the row was last updated from; older events are ignored
+    event_occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_user_id ON subscriptions(user_id);
+
+ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own subscriptions" ON subscriptions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_subscriptions_updated_at BEFORE UPDATE ON subscriptions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Create paddle_webhook_events table - every event received, so retried deliveries are
+-- only applied once. No policies: only the service role reads or writes it.
+CREATE TABLE IF NOT EXISTS paddle_webhook_events (
+    event_id TEXT PRIMARY KEY, -- Paddle event ID (evt_...)
+    event_type TEXT NOT NULL,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE paddle_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Apply a subscription event unless a newer one has already been applied
+CREATE OR REPLACE FUNCTION upsert_paddle_subscription(
+    p_id TEXT,
+    p_user_id UUID,
+    p_customer_id TEXT,
+    p_status TEXT,
+    p_price_id TEXT,
+    p_current_period_ends_at TIMESTAMP WITH TIME ZONE,
+    p_canceled_at TIMESTAMP WITH TIME ZONE,
+    p_event_occurred_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO subscriptions (id, user_id, customer_id, status, price_id, current_period_ends_at, canceled_at, event_occurred_at)
+    VALUES (p_id, p_user_id, p_customer_id, p_status, p_price_id, p_current_period_ends_at, p_canceled_at, p_event_occurred_at)
+    ON CONFLICT (id) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+        customer_id = EXCLUDED.customer_id,
+        status = EXCLUDED.status,
+        price_id = EXCLUDED.price_id,
+        current_period_ends_at = EXCLUDED.current_period_ends_at,
+        canceled_at = EXCLUDED.canceled_at,
+        event_occurred_at = EXCLUDED.event_occurred_at
+    WHERE subscriptions.event_occurred_at <= EXCLUDED.event_occurred_at;
+END;
+$$ language 'plpgsql';
+
+-- The usage summary also counts the lessons started this month
+DROP FUNCTION IF EXISTS get_usage_summary(TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION get_usage_summary(p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+    storage_bytes BIGINT,
+    tokens_used BIGINT,
+    lessons_created BIGINT,
+    storage_limit_bytes BIGINT,
+    monthly_token_limit BIGINT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        (SELECT COALESCE(SUM(v.file_size), 0)::BIGINT
+         FROM material_versions v
+         WHERE v.user_id = auth.uid()),
+        (SELECT COALESCE(SUM(t.prompt_tokens + t.completion_tokens), 0)::BIGINT
+         FROM token_usage t
+         WHERE t.user_id = auth.uid() AND t.created_at >= p_since),
+        (SELECT COUNT(*)::BIGINT
+         FROM lessons l
+         WHERE l.user_id = auth.uid() AND l.created_at >= p_since),
+        (SELECT q.storage_limit_bytes FROM user_quotas q WHERE q.user_id = auth.uid()),
+        (SELECT q.monthly_token_limit FROM user_quotas q WHERE q.user_id = auth.uid());
+END;
+$$ language 'plpgsql';
+
+COMMENT ON TABLE subscriptions IS 'Paddle subscriptions, kept up to date by the Paddle webhook';
+COMMENT ON TABLE paddle_webhook_events IS 'Paddle webhook events already processed, for idempotency';
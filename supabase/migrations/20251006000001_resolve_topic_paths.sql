@@ -0,0 +1,146 @@
+-- Topic Path Resolution Migration
+-- Bulk imports turn each folder of an archive or dropped folder into a topic under the
+-- topic of the folder above it. Concurrent uploads looked topics up and created them in
+-- separate requests, so two files of the same new folder could both create its topic
+-- (the existing UNIQUE(course_id, name) compares names case-sensitively). Topics are now
+-- unique by (course_id, lower(name), parent_id) and created through resolve_topic_ids,
+-- which upserts against that index.
+
+-- Merge topics that already exist more than once into the oldest of them. Merging parents
+-- can leave their sub-topics duplicated in turn, so this repeats until none are left.
+DO $$
+DECLARE
+    v_merged INTEGER;
+BEGIN
+    LOOP
+        CREATE TEMP TABLE topic_merges ON COMMIT DROP AS
+        SELECT id, keep_id
+        FROM (
+            SELECT id, first_value(id) OVER (
+                PARTITION BY course_id, lower(name), parent_id
+                ORDER BY created_at, id
+            ) AS keep_id
+            FROM topics
+        ) ranked
+        WHERE id <> keep_id;
+
+        SELECT count(*) INTO v_merged FROM topic_merges;
+        IF v_merged = 0 THEN
+            DROP TABLE topic_merges;
+            EXIT;
+        END IF;
+
+        INSERT INTO material_topics (material_id, topic_id, user_id, created_at)
+        SELECT mt.material_id, m.keep_id, mt.user_id, mt.created_at
+        FROM material_topics mt JOIN topic_merges m ON m.id = mt.topic_id
+        ON CONFLICT DO NOTHING;
+
+        INSERT INTO flashcard_topics (flashcard_id, topic_id, user_id, created_at)
+        SELECT ft.flashcard_id, m.keep_id, ft.user_id, ft.created_at
+        FROM flashcard_topics ft JOIN topic_merges m ON m.id = ft.topic_id
+        ON CONFLICT DO NOTHING;
+
+        INSERT INTO lesson_topics (lesson_id, topic_id, user_id, position, created_at)
+        SELECT lt.lesson_id, m.keep_id, lt.user_id, lt.position, lt.created_at
+        FROM lesson_topics lt JOIN topic_merges m ON m.id = lt.topic_id
+        ON CONFLICT DO NOTHING;
+
+        INSERT INTO topic_prerequisites (topic_id, prerequisite_topic_id, user_id, created_at)
+        SELECT COALESCE(t.keep_id, tp.topic_id), COALESCE(p.keep_id, tp.prerequisite_topic_id), tp.user_id, tp.created_at
+        FROM topic_prerequisites tp
+        LEFT JOIN topic_merges t ON t.id = tp.topic_id
+        LEFT JOIN topic_merges p ON p.id = tp.prerequisite_topic_id
+        WHERE (t.id IS NOT NULL OR p.id IS NOT NULL)
+          AND COALESCE(t.keep_id, tp.topic_id) <> COALESCE(p.keep_id, tp.prerequisite_topic_id)
+        ON CONFLICT DO NOTHING;
+
+        UPDATE topics
+        SET parent_id = m.keep_id
+        FROM topic_merges m
+        WHERE topics.parent_id = m.id;
+
+        -- Their remaining join rows and prerequisite edges go with them
+        DELETE FROM topics WHERE id IN (SELECT id FROM topic_merges);
+
+        DROP TABLE topic_merges;
+    END LOOP;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_topics_course_name_parent
+    ON topics (course_id, lower(name), parent_id) NULLS NOT DISTINCT;
+
+-- Resolve topic names to IDs, creating missing topics under p_parent_id. A name that is
+-- already a topic of the course is reused wherever it sits, since names are unique per
+-- course. Creating is an upsert, so concurrent calls for a new name end with one topic.
+DROP FUNCTION IF EXISTS resolve_topic_ids(UUID, TEXT[]);
+
+CREATE OR REPLACE FUNCTION resolve_topic_ids(p_course_id UUID, p_topic_names TEXT[], p_parent_id UUID DEFAULT NULL)
+RETURNS UUID[] AS $$
+DECLARE
+    v_name TEXT;
+    v_topic_id UUID;
+    v_topic_ids UUID[] := '{}';
+BEGIN
+    IF p_parent_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM topics
+        WHERE id = p_parent_id AND course_id = p_course_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Parent topic % not found', p_parent_id USING ERRCODE = 'P0002';
+    END IF;
+
+    FOREACH v_name IN ARRAY COALESCE(p_topic_names, '{}') LOOP
+        v_name := btrim(v_name);
+        CONTINUE WHEN v_name = '';
+
+        SELECT id INTO v_topic_id
+        FROM topics
+        WHERE course_id = p_course_id
+          AND user_id = auth.uid()
+          AND lower(name) = lower(v_name)
+        ORDER BY created_at
+        LIMIT 1;
+
+        IF v_topic_id IS NULL THEN
+            INSERT INTO topics (user_id, course_id, name, parent_id)
+            VALUES (auth.uid(), p_course_id, v_name, p_parent_id)
+            ON CONFLICT DO NOTHING
+            RETURNING id INTO v_topic_id;
+        END IF;
+
+        -- Another transaction created it first; its row is visible once the insert returns
+        IF v_topic_id IS NULL THEN
+            SELECT id INTO v_topic_id
+            FROM topics
+            WHERE course_id = p_course_id
+              AND user_id = auth.uid()
+              AND lower(name) = lower(v_name)
+            ORDER BY created_at
+            LIMIT 1;
+        END IF;
+
+        IF NOT v_topic_id = ANY(v_topic_ids) THEN
+            v_topic_ids := array_append(v_topic_ids, v_topic_id);
+        END IF;
+    END LOOP;
+
+    RETURN v_topic_ids;
+END;
+$$ language 'plpgsql';
+
+-- Resolve a folder path to topics, outermost first: each folder becomes a sub-topic of
+-- the one above it unless its name is already a topic of the course
+CREATE OR REPLACE FUNCTION resolve_topic_path(p_course_id UUID, p_folder_names TEXT[])
+RETURNS TABLE (id UUID, name TEXT) AS $$
+DECLARE
+    v_name TEXT;
+    v_parent_id UUID;
+BEGIN
+    FOREACH v_name IN ARRAY COALESCE(p_folder_names, '{}') LOOP
+        CONTINUE WHEN btrim(v_name) = '';
+        v_parent_id := (resolve_topic_ids(p_course_id, ARRAY[v_name], v_parent_id))[1];
+
+        RETURN QUERY
+        SELECT t.id, t.name::TEXT FROM topics t WHERE t.id = v_parent_id;
+    END LOOP;
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,70 @@
+-- Lesson Creations Migration
+-- The monthly lesson limit counted the user's lessons rows, so deleting a lesson gave its
+-- allowance back. Each new lesson now also records a lesson_creations row, written by a
+-- trigger on lessons. Users can read theirs but not add, change or delete them, and the
+-- row outlives the lesson it records.
+
+-- Create lesson_creations table - one row per lesson ever created
+CREATE TABLE IF NOT EXISTS lesson_creations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    lesson_id UUID REFERENCES lessons(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_creations_user_id_created_at ON lesson_creations(user_id, created_at);
+
+ALTER TABLE lesson_creations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own lesson creations" ON lesson_creations
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Runs as the table owner, since users have no insert policy on lesson_creations
+CREATE OR REPLACE FUNCTION record_lesson_creation()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO lesson_creations (user_id, lesson_id, created_at)
+    VALUES (NEW.user_id, NEW.id, COALESCE(NEW.created_at, NOW()));
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER record_lesson_creation AFTER INSERT ON lessons
+    FOR EACH ROW EXECUTE FUNCTION record_lesson_creation();
+
+-- Lessons created before this migration; those already deleted can't be recovered
+INSERT INTO lesson_creations (user_id, lesson_id, created_at)
+SELECT l.user_id, l.id, l.created_at
+FROM lessons l
+WHERE NOT EXISTS (SELECT 1 FROM lesson_creations c WHERE c.lesson_id = l.id);
+
+-- The usage summary counts lessons created this month, including deleted ones
+CREATE OR REPLACE FUNCTION get_usage_summary(p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+    storage_bytes BIGINT,
+    tokens_used BIGINT,
+    lessons_created BIGINT,
+    storage_limit_bytes BIGINT,
+    monthly_token_limit BIGINT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        (SELECT COALESCE(SUM(v.file_size), 0)::BIGINT
+         FROM material_versions v
+         WHERE v.user_id = auth.uid()),
+        (SELECT COALESCE(SUM(t.prompt_tokens + t.completion_tokens), 0)::BIGINT
+         FROM token_usage t
+         WHERE t.user_id = auth.uid() AND t.created_at >= p_since),
+        (SELECT COUNT(*)::BIGINT
+         FROM lesson_creations c
+         WHERE c.user_id = auth.uid() AND c.created_at >= p_since),
+        (SELECT q.storage_limit_bytes FROM user_quotas q WHERE q.user_id = auth.uid()),
+        (SELECT q.monthly_token_limit FROM user_quotas q WHERE q.user_id = auth.uid());
+END;
+$$ language 'plpgsql';
+
+COMMENT ON TABLE lesson_creations IS 'Append-only record of lessons created, for the monthly lesson limit';